@@ -7,6 +7,7 @@
  * - get_bottle_location: Find where a bottle is stored
  * - get_cellar_stats: Get cellar statistics
  * - get_friend_preferences: Get dietary preferences of a friend
+ * - get_drink_soon: Wines at or past their peak, to open first
  */
 
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
@@ -14,12 +15,23 @@ import { getFirestore, Timestamp } from 'firebase-admin/firestore';
 import Anthropic from '@anthropic-ai/sdk';
 import { logger } from 'firebase-functions';
 import { z } from 'zod';
+import { loadCellarWines } from '../services/cellar';
+import { findWineByDescription, searchScore } from '../services/wineMatching';
+import { normalizeGeography } from '../services/geography';
+import {
+  drinkingStatus,
+  drinkingWindowOf,
+  shouldDrinkSoon,
+  DRINKING_STATUS_LABELS
+} from '../services/drinkingWindow';
+import { loadUserLanguage, sommelierPrompt, t } from '../services/i18n';
 import type {
   ChatRequest,
   ChatResponse,
   Wine,
   Conversation,
   ChatMessage,
+  Rating,
 } from '../types';
 
 const db = getFirestore();
@@ -35,23 +47,10 @@ const anthropic = new Anthropic({
 const RequestSchema = z.object({
   message: z.string().min(1),
   conversationId: z.string().optional(),
+  language: z.string().max(10).optional(),
   userId: z.string().min(1),
 });
 
-// ============================================================
-// SYSTEM PROMPT
-// ============================================================
-
-const SYSTEM_PROMPT = `Sei un sommelier esperto e amichevole. Aiuti gli utenti a:
-- Trovare vini nella loro cantina
-- Scegliere il vino giusto per un'occasione
-- Capire abbinamenti cibo-vino
-- Gestire la loro collezione
-
-Rispondi sempre in italiano in modo cordiale ma professionale.
-Usa i tool disponibili per accedere ai dati della cantina dell'utente.
-Quando suggerisci vini, spiega brevemente il perché della scelta.`;
-
 // ============================================================
 // TOOLS
 // ============================================================
@@ -115,6 +114,18 @@ const TOOLS: Anthropic.Tool[] = [
       required: ['friendName'],
     },
   },
+  {
+    name: 'get_drink_soon',
+    description: 'Trova i vini della cantina da aprire presto: al picco, in declino o oltre la finestra di consumo ideale',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        type: { type: 'string', description: 'Tipo di vino: red, white, rosé, sparkling, dessert, fortified' },
+        limit: { type: 'number', description: 'Numero massimo di risultati (default 10)' },
+      },
+      required: [],
+    },
+  },
 ];
 
 // ============================================================
@@ -134,12 +145,17 @@ function createToolExecutor(userId: string) {
         return getCellarStats(userId);
       case 'get_friend_preferences':
         return getFriendPreferences(userId, input);
+      case 'get_drink_soon':
+        return getDrinkSoon(userId, input);
       default:
         throw new Error(`Unknown tool: ${toolName}`);
     }
   };
 }
 
+// Minimum fraction of query words that must match a wine
+const SEARCH_MIN_SCORE = 0.6;
+
 async function searchWines(userId: string, input: Record<string, unknown>) {
   const { type, region, query, limit = 10 } = input as {
     type?: string;
@@ -156,6 +172,9 @@ async function searchWines(userId: string, input: Record<string, unknown>) {
     return { wines: [], message: 'Nessuna cantina trovata' };
   }
 
+  // "Piedmont" or "Langhe" find wines stored under "Piemonte"
+  const regionFilter = region && (normalizeGeography({ region }).region ?? region).toLowerCase();
+
   const wineIds = new Set<string>();
   for (const cellarDoc of cellarsSnapshot.docs) {
     const bottlesSnapshot = await cellarDoc.ref.collection('bottles')
@@ -164,7 +183,7 @@ async function searchWines(userId: string, input: Record<string, unknown>) {
     bottlesSnapshot.docs.forEach(b => wineIds.add(b.data().wineId));
   }
 
-  const wines: Wine[] = [];
+  const matches: { wine: Wine; score: number }[] = [];
   for (const wineId of wineIds) {
     const wineDoc = await db.collection('wines').doc(wineId).get();
     if (!wineDoc.exists) continue;
@@ -172,16 +191,20 @@ async function searchWines(userId: string, input: Record<string, unknown>) {
     const wine = { id: wineDoc.id, ...wineDoc.data() } as Wine;
 
     if (type && wine.type !== type) continue;
-    if (region && !wine.region?.toLowerCase().includes(region.toLowerCase())) continue;
-    if (query) {
-      const searchText = `${wine.name} ${wine.producer || ''} ${wine.region || ''}`.toLowerCase();
-      if (!searchText.includes(query.toLowerCase())) continue;
-    }
+    if (regionFilter && !wine.region?.toLowerCase().includes(regionFilter)) continue;
+
+    // Fuzzy text match: accents, typos and word order don't matter
+    const score = query ? searchScore(query, wine) : 1;
+    if (score < SEARCH_MIN_SCORE) continue;
 
-    wines.push(wine);
-    if (wines.length >= limit) break;
+    matches.push({ wine, score });
   }
 
+  const wines = matches
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(m => m.wine);
+
   return {
     wines: wines.map(w => ({
       id: w.id,
@@ -195,6 +218,29 @@ async function searchWines(userId: string, input: Record<string, unknown>) {
   };
 }
 
+/**
+ * Finds a wine by the name the model wrote: fuzzy match against the user's
+ * cellar first, then a prefix lookup in the global wines collection.
+ */
+async function resolveWineByName(userId: string, wineName: string): Promise<Wine | null> {
+  const cellarMatch = findWineByDescription(wineName, await loadCellarWines(userId));
+  if (cellarMatch) {
+    return cellarMatch.wine;
+  }
+
+  const winesSnapshot = await db.collection('wines')
+    .where('name', '>=', wineName)
+    .where('name', '<=', wineName + '\uf8ff')
+    .limit(1)
+    .get();
+  if (winesSnapshot.empty) {
+    return null;
+  }
+
+  const doc = winesSnapshot.docs[0];
+  return { id: doc.id, ...doc.data() } as Wine;
+}
+
 async function getWineDetails(userId: string, input: Record<string, unknown>) {
   const { wineId, wineName } = input as { wineId?: string; wineName?: string };
 
@@ -206,29 +252,22 @@ async function getWineDetails(userId: string, input: Record<string, unknown>) {
       wine = { id: wineDoc.id, ...wineDoc.data() } as Wine;
     }
   } else if (wineName) {
-    const winesSnapshot = await db.collection('wines')
-      .where('name', '>=', wineName)
-      .where('name', '<=', wineName + '\uf8ff')
-      .limit(1)
-      .get();
-    if (!winesSnapshot.empty) {
-      const doc = winesSnapshot.docs[0];
-      wine = { id: doc.id, ...doc.data() } as Wine;
-    }
+    wine = await resolveWineByName(userId, wineName);
   }
 
   if (!wine) {
     return { error: 'Vino non trovato' };
   }
 
-  // Get user's rating
+  // Get user's rating (pending drafts from completed dinners are not ratings yet)
   const ratingSnapshot = await db.collection('users').doc(userId)
     .collection('ratings')
     .where('wineId', '==', wine.id)
-    .limit(1)
     .get();
 
-  const rating = ratingSnapshot.empty ? null : ratingSnapshot.docs[0].data();
+  const rating = ratingSnapshot.docs
+    .map(doc => doc.data() as Rating)
+    .find(r => r.status !== 'pending') ?? null;
 
   return {
     wine: {
@@ -242,6 +281,7 @@ async function getWineDetails(userId: string, input: Record<string, unknown>) {
       grapes: wine.grapes,
       alcohol: wine.alcohol,
       description: wine.description,
+      drinkingWindow: drinkingWindowOf(wine),
     },
     rating: rating ? {
       score: rating.rating,
@@ -257,14 +297,7 @@ async function getBottleLocation(userId: string, input: Record<string, unknown>)
   let targetWineId = wineId;
 
   if (!targetWineId && wineName) {
-    const winesSnapshot = await db.collection('wines')
-      .where('name', '>=', wineName)
-      .where('name', '<=', wineName + '\uf8ff')
-      .limit(1)
-      .get();
-    if (!winesSnapshot.empty) {
-      targetWineId = winesSnapshot.docs[0].id;
-    }
+    targetWineId = (await resolveWineByName(userId, wineName))?.id;
   }
 
   if (!targetWineId) {
@@ -356,6 +389,7 @@ async function getCellarStats(userId: string) {
 
   const topRated: Array<{ name: string; rating: number }> = [];
   for (const ratingDoc of ratingsSnapshot.docs) {
+    if ((ratingDoc.data() as Rating).status === 'pending') continue;
     const wineDoc = await db.collection('wines').doc(ratingDoc.data().wineId).get();
     if (wineDoc.exists) {
       topRated.push({
@@ -391,7 +425,8 @@ async function getFriendPreferences(userId: string, input: Record<string, unknow
   const friend = friendDoc.data();
 
   const prefsSnapshot = await friendDoc.ref.collection('foodPreferences').get();
-  const preferences = prefsSnapshot.docs.map(doc => doc.data());
+  const preferences = prefsSnapshot.docs.map(doc => doc.data()).filter(p => p.status !== 'pending');
+  const pendingPreferences = prefsSnapshot.size - preferences.length;
 
   return {
     friend: {
@@ -405,9 +440,69 @@ async function getFriendPreferences(userId: string, input: Record<string, unknow
       severity: p.severity,
       notes: p.notes,
     })),
+    // Sent by the guest through the RSVP link, waiting for the host
+    ...(pendingPreferences > 0 && { pendingPreferences }),
   };
 }
 
+/** Available wines to open soon, those with the fewest good years left first */
+async function getDrinkSoon(userId: string, input: Record<string, unknown>) {
+  const { type, limit = 10 } = input as { type?: string; limit?: number };
+
+  const cellarsSnapshot = await db.collection('cellars')
+    .where(`members.${userId}`, '!=', null)
+    .get();
+
+  const bottleCounts = new Map<string, number>();
+  for (const cellarDoc of cellarsSnapshot.docs) {
+    const bottlesSnapshot = await cellarDoc.ref.collection('bottles')
+      .where('status', '==', 'available')
+      .get();
+    for (const bottleDoc of bottlesSnapshot.docs) {
+      const wineId = bottleDoc.data().wineId;
+      bottleCounts.set(wineId, (bottleCounts.get(wineId) || 0) + 1);
+    }
+  }
+
+  const year = new Date().getFullYear();
+  const candidates = [];
+  for (const [wineId, bottles] of bottleCounts) {
+    const wineDoc = await db.collection('wines').doc(wineId).get();
+    if (!wineDoc.exists) continue;
+
+    const wine = { id: wineDoc.id, ...wineDoc.data() } as Wine;
+    if (type && wine.type !== type) continue;
+
+    const window = drinkingWindowOf(wine);
+    if (!window) continue;
+
+    const status = drinkingStatus(window, year);
+    if (!shouldDrinkSoon(status)) continue;
+
+    candidates.push({
+      id: wine.id,
+      name: wine.name,
+      producer: wine.producer,
+      vintage: wine.vintage,
+      type: wine.type,
+      availableBottles: bottles,
+      drinkingWindow: window,
+      status: DRINKING_STATUS_LABELS[status],
+      yearsLeft: window.to - year,
+    });
+  }
+
+  const wines = candidates
+    .sort((a, b) => a.yearsLeft - b.yearsLeft || b.availableBottles - a.availableBottles)
+    .slice(0, limit);
+
+  if (wines.length === 0) {
+    return { wines: [], message: 'Nessun vino da aprire a breve' };
+  }
+
+  return { wines, count: wines.length };
+}
+
 // ============================================================
 // MAIN FUNCTION
 // ============================================================
@@ -437,7 +532,11 @@ export const chatWithSommelier = onCall<ChatRequest>(
       throw new HttpsError('permission-denied', 'Cannot chat as another user');
     }
 
-    logger.info('Processing chat message', { userId, conversationId, messageLength: message.length });
+    const language = await loadUserLanguage(userId, validation.data.language);
+    // System prompt in the user's language (see services/i18n)
+    const systemPrompt = sommelierPrompt(language);
+
+    logger.info('Processing chat message', { userId, conversationId, messageLength: message.length, language });
 
     try {
       // Get or create conversation
@@ -446,7 +545,7 @@ export const chatWithSommelier = onCall<ChatRequest>(
         const convDoc = await db.collection('users').doc(userId)
           .collection('conversations').doc(conversationId).get();
         if (!convDoc.exists) {
-          throw new HttpsError('not-found', 'Conversation not found');
+          throw new HttpsError('not-found', t(language, 'conversationNotFound'));
         }
         conversation = { id: convDoc.id, ...convDoc.data() } as Conversation;
       } else {
@@ -493,7 +592,7 @@ export const chatWithSommelier = onCall<ChatRequest>(
       let response = await anthropic.messages.create({
         model: 'claude-sonnet-4-20250514',
         max_tokens: 2048,
-        system: SYSTEM_PROMPT,
+        system: systemPrompt,
         tools: TOOLS,
         messages: claudeMessages,
       });
@@ -547,7 +646,7 @@ export const chatWithSommelier = onCall<ChatRequest>(
         response = await anthropic.messages.create({
           model: 'claude-sonnet-4-20250514',
           max_tokens: 2048,
-          system: SYSTEM_PROMPT,
+          system: systemPrompt,
           tools: TOOLS,
           messages: claudeMessages,
         });
@@ -581,7 +680,7 @@ export const chatWithSommelier = onCall<ChatRequest>(
     } catch (error) {
       logger.error('Chat failed', { userId, error });
       if (error instanceof HttpsError) throw error;
-      throw new HttpsError('internal', 'Chat fallita: ' + (error as Error).message);
+      throw new HttpsError('internal', t(language, 'chatFailed', { error: (error as Error).message }));
     }
   }
 );
@@ -0,0 +1,471 @@
+/**
+ * Confirm Extraction / Receipt Import
+ *
+ * confirmExtraction turns a reviewed label extraction into inventory:
+ * 1. Load the pending extraction saved by extractWineFromPhoto
+ * 2. Apply user corrections
+ * 3. Link to an existing Wine or create a new one
+ * 4. Create Bottles + 'in' Movements in the chosen cellar/location
+ * 5. Mark the extraction as confirmed (or discarded)
+ *
+ * confirmReceiptImport does the same for every accepted line of a
+ * purchase receipt, filling acquiredAt/acquiredPrice/acquiredFrom.
+ *
+ * Everything happens in a single Firestore transaction.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { z } from 'zod';
+import { addBottlesInTransaction, canWriteCellar, getCellarRole } from '../services/inventory';
+import { normalizeGeography } from '../services/geography';
+import { loadUserLanguage, t } from '../services/i18n';
+import type {
+  ConfirmExtractionRequest,
+  ConfirmExtractionResponse,
+  ConfirmReceiptRequest,
+  ConfirmReceiptResponse,
+  Extraction,
+  ExtractionResult,
+  Language,
+  Wine,
+  WineCorrections,
+  WineType
+} from '../types';
+
+const db = getFirestore();
+
+const WINE_TYPES: WineType[] = ['red', 'white', 'rosé', 'sparkling', 'dessert', 'fortified'];
+
+// A transaction takes at most 500 writes: two per bottle (bottle and 'in'
+// movement), up to two per line (new wine, location count) and the extraction
+const MAX_RECEIPT_LINES = 40;
+const MAX_RECEIPT_BOTTLES = 200;
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+const CorrectionsSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  producer: z.string().max(200).optional(),
+  vintage: z.number().int().min(1800).max(2100).optional(),
+  type: z.enum(['red', 'white', 'rosé', 'sparkling', 'dessert', 'fortified']).optional(),
+  region: z.string().max(100).optional(),
+  country: z.string().max(100).optional(),
+  appellation: z.string().max(200).optional(),
+  grapes: z.array(z.string().min(1)).max(20).optional(),
+  alcohol: z.number().min(0).max(100).optional(),
+});
+
+const DecisionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('link'), wineId: z.string().min(1) }),
+  z.object({ action: z.literal('create') }),
+  z.object({ action: z.literal('discard') }),
+]);
+
+const RequestSchema = z.object({
+  extractionId: z.string().min(1),
+  userId: z.string().min(1),
+  decision: DecisionSchema,
+  corrections: CorrectionsSchema.optional(),
+  cellarId: z.string().min(1).optional(),
+  locationId: z.string().min(1).optional(),
+  quantity: z.number().int().min(1).max(48).optional(),
+  language: z.string().max(10).optional(),
+}).refine(data => data.decision.action === 'discard' || data.cellarId, {
+  message: 'cellarId is required to add bottles',
+});
+
+const ReceiptRequestSchema = z.object({
+  extractionId: z.string().min(1),
+  userId: z.string().min(1),
+  cellarId: z.string().min(1),
+  locationId: z.string().min(1).optional(),
+  lines: z.array(z.object({
+    lineIndex: z.number().int().min(0),
+    decision: z.discriminatedUnion('action', [
+      z.object({ action: z.literal('link'), wineId: z.string().min(1) }),
+      z.object({ action: z.literal('create') }),
+      z.object({ action: z.literal('skip') }),
+    ]),
+    corrections: CorrectionsSchema.optional(),
+    quantity: z.number().int().min(1).max(MAX_RECEIPT_BOTTLES).optional(),
+    unitPrice: z.number().min(0).optional(),
+  })).min(1).max(MAX_RECEIPT_LINES),
+  language: z.string().max(10).optional(),
+}).refine(data => new Set(data.lines.map(l => l.lineIndex)).size === data.lines.length, {
+  message: 'Each receipt line can be confirmed only once',
+});
+
+// ============================================================
+// MAIN FUNCTION
+// ============================================================
+
+export const confirmExtraction = onCall<ConfirmExtractionRequest>(
+  {
+    region: 'europe-west1',
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request): Promise<ConfirmExtractionResponse> => {
+    // Validate request
+    const validation = RequestSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
+
+    const { extractionId, userId, decision, corrections, cellarId, locationId } = validation.data;
+    const quantity = validation.data.quantity ?? 1;
+
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot confirm for another user');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+
+    logger.info('Confirming extraction', { userId, extractionId, action: decision.action });
+
+    const extractionRef = db.collection('users').doc(userId)
+      .collection('extractions').doc(extractionId);
+
+    try {
+      const result = await db.runTransaction(async (tx) => {
+        // --- Reads ---
+        const extractionDoc = await tx.get(extractionRef);
+        if (!extractionDoc.exists) {
+          throw new HttpsError('not-found', t(language, 'extractionNotFound'));
+        }
+
+        const extraction = { id: extractionDoc.id, ...extractionDoc.data() } as Extraction;
+        if (extraction.status !== 'pending') {
+          throw new HttpsError('failed-precondition', t(language, 'extractionNotPending', { status: extraction.status }));
+        }
+        if (decision.action !== 'discard' && !extraction.result) {
+          throw new HttpsError('failed-precondition', t(language, 'wineListNotImportable'));
+        }
+
+        const now = Timestamp.now();
+
+        if (decision.action === 'discard') {
+          tx.update(extractionRef, { status: 'discarded', updatedAt: now });
+          return {};
+        }
+
+        const role = await getCellarRole(tx, cellarId!, userId);
+        if (!canWriteCellar(role)) {
+          throw new HttpsError('permission-denied', t(language, 'cellarWriteDenied'));
+        }
+
+        if (locationId) {
+          const locationDoc = await tx.get(
+            db.collection('cellars').doc(cellarId!).collection('locations').doc(locationId)
+          );
+          if (!locationDoc.exists) {
+            throw new HttpsError('not-found', t(language, 'locationNotFound'));
+          }
+        }
+
+        const barcodes = extraction.result!.barcodes || [];
+
+        let wineId: string;
+        if (decision.action === 'link') {
+          const wineDoc = await tx.get(db.collection('wines').doc(decision.wineId));
+          if (!wineDoc.exists) {
+            throw new HttpsError('not-found', t(language, 'wineNotFound'));
+          }
+          wineId = wineDoc.id;
+
+          // --- Writes: remember the label's barcodes for exact future matches ---
+          if (barcodes.length > 0) {
+            tx.update(wineDoc.ref, { barcodes: FieldValue.arrayUnion(...barcodes), updatedAt: now });
+          }
+        } else {
+          // --- Writes: new wine ---
+          const wineRef = db.collection('wines').doc();
+          tx.set(wineRef, {
+            ...buildNewWine(extractionToWineFields(extraction.result!), language, corrections),
+            ...(barcodes.length > 0 && { barcodes }),
+            createdBy: userId,
+            createdAt: now,
+            updatedAt: now,
+          });
+          wineId = wineRef.id;
+        }
+
+        // --- Writes: bottles, movements, extraction status ---
+        const bottleIds = addBottlesInTransaction(tx, {
+          wineId,
+          cellarId: cellarId!,
+          locationId,
+          quantity,
+          createdBy: userId,
+          reason: 'Scansione etichetta',
+        });
+
+        tx.update(extractionRef, {
+          status: 'confirmed',
+          wineId,
+          cellarId,
+          bottleIds,
+          ...(corrections && { corrections }),
+          confirmedAt: now,
+          updatedAt: now,
+        });
+
+        return { wineId, bottleIds };
+      });
+
+      logger.info('Extraction confirmed', { userId, extractionId, ...result });
+
+      return {
+        success: true,
+        ...result,
+      };
+
+    } catch (error) {
+      logger.error('Confirm extraction failed', { userId, extractionId, error });
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError('internal', t(language, 'confirmFailed', { error: (error as Error).message }));
+    }
+  }
+);
+
+export const confirmReceiptImport = onCall<ConfirmReceiptRequest>(
+  {
+    region: 'europe-west1',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async (request): Promise<ConfirmReceiptResponse> => {
+    // Validate request
+    const validation = ReceiptRequestSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
+
+    const { extractionId, userId, cellarId, locationId, lines } = validation.data;
+
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot confirm for another user');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+
+    logger.info('Confirming receipt import', { userId, extractionId, lines: lines.length });
+
+    const extractionRef = db.collection('users').doc(userId)
+      .collection('extractions').doc(extractionId);
+
+    try {
+      const result = await db.runTransaction(async (tx) => {
+        // --- Reads ---
+        const extractionDoc = await tx.get(extractionRef);
+        if (!extractionDoc.exists) {
+          throw new HttpsError('not-found', t(language, 'extractionNotFound'));
+        }
+
+        const extraction = { id: extractionDoc.id, ...extractionDoc.data() } as Extraction;
+        const receipt = extraction.receiptResult;
+        if (extraction.status !== 'pending') {
+          throw new HttpsError('failed-precondition', t(language, 'extractionNotPending', { status: extraction.status }));
+        }
+        if (!receipt) {
+          throw new HttpsError('failed-precondition', t(language, 'notAReceipt'));
+        }
+
+        const role = await getCellarRole(tx, cellarId, userId);
+        if (!canWriteCellar(role)) {
+          throw new HttpsError('permission-denied', t(language, 'cellarWriteDenied'));
+        }
+
+        if (locationId) {
+          const locationDoc = await tx.get(
+            db.collection('cellars').doc(cellarId).collection('locations').doc(locationId)
+          );
+          if (!locationDoc.exists) {
+            throw new HttpsError('not-found', t(language, 'locationNotFound'));
+          }
+        }
+
+        for (const line of lines) {
+          if (line.lineIndex >= receipt.lines.length) {
+            throw new HttpsError('invalid-argument', t(language, 'receiptLineNotFound', { line: line.lineIndex }));
+          }
+        }
+
+        const totalBottles = lines
+          .filter(l => l.decision.action !== 'skip')
+          .reduce((sum, l) => sum + (l.quantity ?? receipt.lines[l.lineIndex].quantity), 0);
+        if (totalBottles > MAX_RECEIPT_BOTTLES) {
+          throw new HttpsError(
+            'invalid-argument',
+            t(language, 'tooManyBottles', { count: totalBottles, max: MAX_RECEIPT_BOTTLES })
+          );
+        }
+
+        const linkedWineIds = [...new Set(lines.flatMap(l =>
+          l.decision.action === 'link' ? [l.decision.wineId] : []
+        ))];
+        for (const wineId of linkedWineIds) {
+          const wineDoc = await tx.get(db.collection('wines').doc(wineId));
+          if (!wineDoc.exists) {
+            throw new HttpsError('not-found', t(language, 'linkedWineNotFound', { wineId }));
+          }
+        }
+
+        // --- Writes ---
+        const now = Timestamp.now();
+        // Checked by importPurchaseReceipt; older extractions may hold an invalid date
+        const purchaseTime = receipt.purchaseDate ? Date.parse(receipt.purchaseDate) : NaN;
+        const acquiredAt = isNaN(purchaseTime) ? undefined : Timestamp.fromMillis(purchaseTime);
+
+        const wineIds: string[] = [];
+        const bottleIds: string[] = [];
+
+        for (const line of lines) {
+          if (line.decision.action === 'skip') continue;
+
+          const item = receipt.lines[line.lineIndex];
+
+          let wineId: string;
+          if (line.decision.action === 'link') {
+            wineId = line.decision.wineId;
+          } else {
+            const wineRef = db.collection('wines').doc();
+            tx.set(wineRef, {
+              ...buildNewWine({
+                name: item.name,
+                producer: item.producer,
+                vintage: item.vintage,
+                type: item.type,
+              }, language, line.corrections),
+              createdBy: userId,
+              createdAt: now,
+              updatedAt: now,
+            });
+            wineId = wineRef.id;
+          }
+
+          wineIds.push(wineId);
+          bottleIds.push(...addBottlesInTransaction(tx, {
+            wineId,
+            cellarId,
+            locationId,
+            quantity: line.quantity ?? item.quantity,
+            createdBy: userId,
+            reason: receipt.seller ? `Acquisto: ${receipt.seller}` : 'Acquisto',
+            acquiredAt,
+            acquiredPrice: line.unitPrice ?? item.unitPrice,
+            acquiredFrom: receipt.seller,
+          }));
+        }
+
+        tx.update(extractionRef, {
+          status: 'confirmed',
+          wineIds,
+          cellarId,
+          bottleIds,
+          confirmedAt: now,
+          updatedAt: now,
+        });
+
+        return { wineIds, bottleIds };
+      });
+
+      logger.info('Receipt import confirmed', {
+        userId,
+        extractionId,
+        wines: result.wineIds.length,
+        bottles: result.bottleIds.length,
+      });
+
+      return {
+        success: true,
+        ...result,
+      };
+
+    } catch (error) {
+      logger.error('Confirm receipt import failed', { userId, extractionId, error });
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError('internal', t(language, 'confirmFailed', { error: (error as Error).message }));
+    }
+  }
+);
+
+// ============================================================
+// WINE BUILDING
+// ============================================================
+
+type NewWineFields = Omit<Wine, 'id' | 'createdBy' | 'createdAt' | 'updatedAt'>;
+
+function extractionToWineFields(result: ExtractionResult): WineCorrections {
+  const fields = result.extractedFields;
+
+  return {
+    name: fields.name?.value,
+    producer: fields.producer?.value,
+    vintage: parseVintage(fields.vintage?.value),
+    type: fields.type?.value as WineType | undefined,
+    region: fields.region?.value,
+    country: fields.country?.value,
+    appellation: fields.appellation?.value,
+    grapes: fields.grapes?.value,
+    alcohol: fields.alcohol?.value,
+  };
+}
+
+function buildNewWine(
+  base: WineCorrections,
+  language: Language,
+  corrections: WineCorrections = {}
+): NewWineFields {
+  const name = corrections.name ?? base.name;
+  if (!name) {
+    throw new HttpsError('invalid-argument', t(language, 'wineNameMissing'));
+  }
+
+  const type = corrections.type ?? base.type;
+  if (!type || !WINE_TYPES.includes(type)) {
+    throw new HttpsError('invalid-argument', t(language, 'wineTypeMissing', { name }));
+  }
+
+  const vintage = corrections.vintage ?? base.vintage;
+  const producer = corrections.producer ?? base.producer;
+  const { region, country, appellation } = normalizeGeography({
+    region: corrections.region ?? base.region,
+    country: corrections.country ?? base.country,
+    appellation: corrections.appellation ?? base.appellation,
+  });
+  const grapes = corrections.grapes ?? base.grapes;
+  const alcohol = corrections.alcohol ?? base.alcohol;
+
+  return {
+    name,
+    type,
+    ...(producer && { producer }),
+    ...(vintage && { vintage }),
+    ...(region && { region }),
+    ...(country && { country }),
+    ...(appellation && { appellation }),
+    ...(grapes && grapes.length > 0 && { grapes }),
+    ...(alcohol !== undefined && { alcohol }),
+  };
+}
+
+function parseVintage(value?: string): number | undefined {
+  if (!value) return undefined;
+  const year = parseInt(value, 10);
+  return year >= 1800 && year <= 2100 ? year : undefined;
+}
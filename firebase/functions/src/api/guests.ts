@@ -0,0 +1,495 @@
+/**
+ * Guest RSVP
+ *
+ * Gli ospiti non hanno un account: l'host genera per ciascuno un link con
+ * token firmato e a scadenza (createGuestInvites, vedi services/guestTokens).
+ * Con il link l'ospite, senza autenticazione (guestRsvp):
+ * - GET  ?token=...  vede cena, host e il proprio stato
+ * - POST { token, status, allergies, intolerances, dislikes, diet, note }
+ *   conferma o declina e indica allergie, intolleranze, cibi non graditi e
+ *   dieta
+ *
+ * Le preferenze inviate dall'ospite finiscono nelle foodPreferences
+ * dell'amico con status 'pending' e non sono usate per il menu finché
+ * l'host non le approva (reviewGuestPreferences). Un nuovo invio sostituisce
+ * le preferenze ancora in attesa.
+ *
+ * L'endpoint è limitato per IP e per token (services/rateLimit); il
+ * contatore del token parte solo per link con firma valida.
+ */
+
+import { onCall, onRequest, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { z } from 'zod';
+import {
+  createGuestToken,
+  guestTokenKey,
+  isCurrentGuestToken,
+  verifyGuestToken,
+  GuestTokenPayload
+} from '../services/guestTokens';
+import { consumeRateLimit, rateLimitKey } from '../services/rateLimit';
+import { formatDate, loadUserLanguage, resolveLanguage, t } from '../services/i18n';
+import { dinnerTitle, loadDinner } from '../services/dinners';
+import { normalizeWineText } from '../services/wineMatching';
+import type {
+  CreateGuestInvitesRequest,
+  CreateGuestInvitesResponse,
+  DinnerEvent,
+  DinnerGuest,
+  FoodPreference,
+  Friend,
+  GuestInvite,
+  Language,
+  PreferenceType,
+  ReviewGuestPreferencesRequest,
+  ReviewGuestPreferencesResponse,
+  User
+} from '../types';
+
+const db = getFirestore();
+
+const DEFAULT_INVITE_DAYS = 14;
+const MAX_INVITE_DAYS = 60;
+
+const IP_RATE_LIMIT = { limit: 30, windowSeconds: 600 };
+const TOKEN_RATE_LIMIT = { limit: 10, windowSeconds: 3600 };
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+const InvitesSchema = z.object({
+  dinnerId: z.string().min(1),
+  guestIds: z.array(z.string().min(1)).max(50).optional(),
+  expiresInDays: z.number().int().min(1).max(MAX_INVITE_DAYS).optional(),
+  language: z.string().max(10).optional(),
+  userId: z.string().min(1),
+});
+
+const PreferenceListSchema = z.array(z.string().trim().min(1).max(100)).max(20).optional();
+
+const RsvpSchema = z.object({
+  token: z.string().min(1).max(1000),
+  status: z.enum(['confirmed', 'declined']),
+  allergies: PreferenceListSchema,
+  intolerances: PreferenceListSchema,
+  dislikes: PreferenceListSchema,
+  diet: z.string().trim().min(1).max(50).optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+const ReviewSchema = z.object({
+  friendId: z.string().min(1),
+  approve: z.array(z.string().min(1)).max(100).optional(),
+  reject: z.array(z.string().min(1)).max(100).optional(),
+  language: z.string().max(10).optional(),
+  userId: z.string().min(1),
+}).refine(data => (data.approve?.length ?? 0) + (data.reject?.length ?? 0) > 0, {
+  message: 'Nothing to approve or reject',
+});
+
+// ============================================================
+// INVITES
+// ============================================================
+
+export const createGuestInvites = onCall<CreateGuestInvitesRequest>(
+  {
+    region: 'europe-west1',
+    memory: '256MiB',
+    timeoutSeconds: 30,
+    secrets: ['GUEST_TOKEN_SECRET'],
+  },
+  async (request): Promise<CreateGuestInvitesResponse> => {
+    // Validate request
+    const validation = InvitesSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
+
+    const { dinnerId, guestIds, userId } = validation.data;
+    const expiresInDays = validation.data.expiresInDays ?? DEFAULT_INVITE_DAYS;
+
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot invite guests for another user');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+
+    logger.info('Creating guest invites', { userId, dinnerId, guests: guestIds?.length ?? 'all' });
+
+    try {
+      const dinner = await loadDinner(userId, dinnerId);
+      if (!dinner) {
+        throw new HttpsError('not-found', t(language, 'dinnerNotFound'));
+      }
+
+      if (dinner.status === 'cancelled' || dinner.status === 'completed') {
+        throw new HttpsError('failed-precondition', t(language, 'dinnerClosed'));
+      }
+
+      // Links stop working the day after the dinner
+      const dinnerEnd = dinner.date.toMillis() + 24 * 3600 * 1000;
+      const expiresAtMs = Math.min(Date.now() + expiresInDays * 24 * 3600 * 1000, dinnerEnd);
+      if (expiresAtMs <= Date.now()) {
+        throw new HttpsError('failed-precondition', t(language, 'dinnerPast'));
+      }
+
+      const guestsRef = db.collection('users').doc(userId)
+        .collection('dinners').doc(dinnerId)
+        .collection('guests');
+      const guestsSnapshot = await guestsRef.get();
+      const guestDocs = guestsSnapshot.docs.filter(doc => !guestIds || guestIds.includes(doc.id));
+      if (guestDocs.length === 0) {
+        throw new HttpsError('not-found', t(language, 'noGuestsToInvite'));
+      }
+
+      const expiresAt = Timestamp.fromMillis(expiresAtMs);
+      const batch = db.batch();
+      const invites: GuestInvite[] = [];
+
+      const friendsRef = db.collection('users').doc(userId).collection('friends');
+      const friendDocs = await Promise.all(
+        guestDocs.map(doc => friendsRef.doc((doc.data() as DinnerGuest).friendId).get())
+      );
+
+      for (const [i, guestDoc] of guestDocs.entries()) {
+        const guest = guestDoc.data() as DinnerGuest;
+        const friend = friendDocs[i].data() as Friend | undefined;
+
+        const version = (guest.tokenVersion ?? 0) + 1;
+        const token = createGuestToken({
+          hostId: userId,
+          dinnerId,
+          guestId: guestDoc.id,
+          version,
+          expiresAt: Math.floor(expiresAtMs / 1000),
+        });
+
+        batch.update(guestDoc.ref, { tokenVersion: version, tokenExpiresAt: expiresAt });
+        invites.push({
+          guestId: guestDoc.id,
+          friendId: guest.friendId,
+          name: friend?.name || t(language, 'unnamedGuest'),
+          token,
+          url: rsvpUrl(token),
+          expiresAt,
+        });
+      }
+
+      await batch.commit();
+
+      logger.info('Guest invites created', { dinnerId, invites: invites.length, expiresAt: expiresAt.toDate() });
+
+      return {
+        success: true,
+        invites,
+      };
+
+    } catch (error) {
+      logger.error('Guest invites failed', { userId, dinnerId, error });
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError('internal', t(language, 'invitesFailed', { error: (error as Error).message }));
+    }
+  }
+);
+
+/**
+ * GUEST_RSVP_URL is the page with the RSVP form, which calls guestRsvp;
+ * without it the link points at the endpoint itself.
+ */
+function rsvpUrl(token: string): string {
+  const base = process.env.GUEST_RSVP_URL ||
+    `https://europe-west1-${process.env.GCLOUD_PROJECT}.cloudfunctions.net/guestRsvp`;
+  return `${base}${base.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}`;
+}
+
+// ============================================================
+// RSVP ENDPOINT
+// ============================================================
+
+/** The request failed for a reason the guest should read */
+class RsvpError extends Error {
+  constructor(readonly httpStatus: number, readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+interface RsvpTarget {
+  hostId: string;
+  dinner: DinnerEvent;
+  guestRef: FirebaseFirestore.DocumentReference;
+  guest: DinnerGuest;
+}
+
+export const guestRsvp = onRequest(
+  {
+    region: 'europe-west1',
+    memory: '256MiB',
+    timeoutSeconds: 30,
+    cors: true,
+    secrets: ['GUEST_TOKEN_SECRET'],
+  },
+  async (req, res) => {
+    const language = resolveLanguage(req.get('accept-language')?.split(',')[0]);
+
+    try {
+      if (req.method !== 'GET' && req.method !== 'POST') {
+        res.set('Allow', 'GET, POST').status(405).json({ success: false, error: 'method_not_allowed' });
+        return;
+      }
+
+      // The address Google's front end saw; X-Forwarded-For as sent by the client is not trusted
+      const ip = req.ip || 'unknown';
+      if (!await consumeRateLimit(rateLimitKey('rsvp_ip', ip), IP_RATE_LIMIT)) {
+        throw new RsvpError(429, 'rate_limited', t(language, 'rsvpTooManyRequests'));
+      }
+
+      if (req.method === 'GET') {
+        const token = typeof req.query.token === 'string' ? req.query.token : '';
+        const target = await resolveRsvpTarget(checkRsvpToken(token, language), language);
+        res.status(200).json(await describeInvite(target, language));
+        return;
+      }
+
+      const validation = RsvpSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({ success: false, error: 'invalid_request', message: validation.error.message });
+        return;
+      }
+
+      // Only links we signed get a counter
+      const submission = validation.data;
+      const payload = checkRsvpToken(submission.token, language);
+      if (!await consumeRateLimit(rateLimitKey('rsvp_token', guestTokenKey(submission.token)), TOKEN_RATE_LIMIT)) {
+        throw new RsvpError(429, 'rate_limited', t(language, 'rsvpTooManyRequests'));
+      }
+
+      const target = await resolveRsvpTarget(payload, language);
+      const pending = await saveRsvp(target, submission);
+
+      logger.info('Guest RSVP received', {
+        dinnerId: target.dinner.id,
+        guestId: target.guestRef.id,
+        status: submission.status,
+        pendingPreferences: pending,
+      });
+
+      res.status(200).json({
+        success: true,
+        status: submission.status,
+        pendingPreferences: pending,
+        message: t(language, submission.status === 'confirmed' ? 'rsvpConfirmed' : 'rsvpDeclined'),
+      });
+
+    } catch (error) {
+      if (error instanceof RsvpError) {
+        res.status(error.httpStatus).json({ success: false, error: error.code, message: error.message });
+        return;
+      }
+      logger.error('Guest RSVP failed', { error });
+      res.status(500).json({ success: false, error: 'internal' });
+    }
+  }
+);
+
+/** Signature and expiry of the link, checked before anything is read or counted */
+function checkRsvpToken(token: string, language: Language): GuestTokenPayload {
+  const check = verifyGuestToken(token);
+  if (!check.valid) {
+    throw check.error === 'expired'
+      ? new RsvpError(410, 'expired', t(language, 'rsvpExpiredLink'))
+      : new RsvpError(401, 'invalid_token', t(language, 'rsvpInvalidLink'));
+  }
+  return check.payload;
+}
+
+async function resolveRsvpTarget(payload: GuestTokenPayload, language: Language): Promise<RsvpTarget> {
+  const { hostId, dinnerId, guestId } = payload;
+  const guestRef = db.collection('users').doc(hostId)
+    .collection('dinners').doc(dinnerId)
+    .collection('guests').doc(guestId);
+
+  const [guestDoc, dinner] = await Promise.all([guestRef.get(), loadDinner(hostId, dinnerId)]);
+  const guest = guestDoc.data() as DinnerGuest | undefined;
+
+  // A newer link was issued for the guest, or the guest was removed
+  if (!dinner || !guest || !isCurrentGuestToken(payload, guest.tokenVersion)) {
+    throw new RsvpError(401, 'invalid_token', t(language, 'rsvpInvalidLink'));
+  }
+
+  if (dinner.status === 'cancelled' || dinner.status === 'completed') {
+    throw new RsvpError(410, 'dinner_closed', t(language, 'rsvpDinnerClosed'));
+  }
+
+  return { hostId, dinner, guestRef, guest: { ...guest, id: guestDoc.id } };
+}
+
+/** What the RSVP page shows: no other guest's data */
+async function describeInvite(target: RsvpTarget, language: Language) {
+  const [hostDoc, friendDoc, prefsSnapshot] = await Promise.all([
+    db.collection('users').doc(target.hostId).get(),
+    friendRef(target).get(),
+    friendRef(target).collection('foodPreferences').get(),
+  ]);
+
+  const preferences = prefsSnapshot.docs.map(doc => doc.data() as FoodPreference);
+
+  return {
+    success: true,
+    dinner: {
+      name: dinnerTitle(target.dinner, language),
+      date: formatDate(target.dinner.date.toDate(), language),
+      ...(target.dinner.time && { time: target.dinner.time }),
+    },
+    host: (hostDoc.data() as User | undefined)?.displayName || '',
+    guest: {
+      name: (friendDoc.data() as Friend | undefined)?.name || '',
+      status: target.guest.status,
+    },
+    preferences: preferences.map(p => ({
+      type: p.type,
+      category: p.category,
+      pending: p.status === 'pending',
+    })),
+  };
+}
+
+function friendRef(target: RsvpTarget): FirebaseFirestore.DocumentReference {
+  return db.collection('users').doc(target.hostId).collection('friends').doc(target.guest.friendId);
+}
+
+/**
+ * Updates the guest's answer and replaces the preferences still pending
+ * with the submitted ones, skipping those the host already has. Returns
+ * the number of pending preferences written.
+ */
+async function saveRsvp(target: RsvpTarget, submission: z.infer<typeof RsvpSchema>): Promise<number> {
+  const prefsRef = friendRef(target).collection('foodPreferences');
+  const existing = await prefsRef.get();
+
+  const known = new Set(existing.docs
+    .map(doc => doc.data() as FoodPreference)
+    .filter(p => p.status !== 'pending')
+    .map(p => `${p.type}|${normalizeWineText(p.category)}`));
+
+  const submitted: { type: PreferenceType; category: string }[] = [
+    ...(submission.allergies || []).map(category => ({ type: 'allergy' as const, category })),
+    ...(submission.intolerances || []).map(category => ({ type: 'intolerance' as const, category })),
+    ...(submission.dislikes || []).map(category => ({ type: 'dislike' as const, category })),
+    ...(submission.diet ? [{ type: 'diet' as const, category: submission.diet }] : []),
+  ];
+
+  const fresh = new Map<string, { type: PreferenceType; category: string }>();
+  for (const pref of submitted) {
+    const key = `${pref.type}|${normalizeWineText(pref.category)}`;
+    if (!known.has(key) && !fresh.has(key)) fresh.set(key, pref);
+  }
+
+  const now = Timestamp.now();
+  const batch = db.batch();
+
+  existing.docs
+    .filter(doc => (doc.data() as FoodPreference).status === 'pending')
+    .forEach(doc => batch.delete(doc.ref));
+
+  for (const pref of fresh.values()) {
+    const ref = prefsRef.doc();
+    const preference: Omit<FoodPreference, 'id'> = {
+      friendId: target.guest.friendId,
+      type: pref.type,
+      category: pref.category,
+      status: 'pending',
+      source: 'guest',
+      dinnerId: target.dinner.id,
+      createdAt: now,
+    };
+    batch.set(ref, preference);
+  }
+
+  batch.update(target.guestRef, {
+    status: submission.status,
+    respondedAt: now,
+    ...(submission.note && { rsvpNote: submission.note }),
+  });
+
+  await batch.commit();
+  return fresh.size;
+}
+
+// ============================================================
+// HOST REVIEW
+// ============================================================
+
+export const reviewGuestPreferences = onCall<ReviewGuestPreferencesRequest>(
+  {
+    region: 'europe-west1',
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request): Promise<ReviewGuestPreferencesResponse> => {
+    // Validate request
+    const validation = ReviewSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
+
+    const { friendId, userId } = validation.data;
+    const approve = new Set(validation.data.approve || []);
+    const reject = new Set(validation.data.reject || []);
+
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot review preferences of another user');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+
+    try {
+      const prefsSnapshot = await db.collection('users').doc(userId)
+        .collection('friends').doc(friendId)
+        .collection('foodPreferences')
+        .where('status', '==', 'pending')
+        .get();
+
+      const batch = db.batch();
+      let approved = 0;
+      let rejected = 0;
+
+      for (const doc of prefsSnapshot.docs) {
+        if (approve.has(doc.id)) {
+          batch.update(doc.ref, { status: 'approved' });
+          approved++;
+        } else if (reject.has(doc.id)) {
+          batch.delete(doc.ref);
+          rejected++;
+        }
+      }
+
+      await batch.commit();
+
+      logger.info('Guest preferences reviewed', { userId, friendId, approved, rejected });
+
+      return {
+        success: true,
+        approved,
+        rejected,
+      };
+
+    } catch (error) {
+      logger.error('Guest preferences review failed', { userId, friendId, error });
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError('internal', t(language, 'preferencesReviewFailed', { error: (error as Error).message }));
+    }
+  }
+);
@@ -0,0 +1,299 @@
+/**
+ * Dinner Invitation
+ *
+ * Genera l'invito per gli ospiti di una cena:
+ * 1. LLM scrive oggetto e messaggio nel tono della cena (DinnerStyle) e
+ *    nella lingua dell'host, con un eventuale accenno al menu (teaser)
+ * 2. Il messaggio è impaginato come testo semplice, corpo email HTML e
+ *    evento iCalendar da allegare (vedi services/invitation)
+ * 3. L'invito e i destinatari (ospiti che non hanno declinato) sono
+ *    salvati sulla cena ('invitation'), per rimandarlo senza rigenerarlo
+ *
+ * Il messaggio non contiene nomi né firma: è lo stesso per tutti gli
+ * ospiti. Il teaser accenna al menu senza elencare i piatti.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import Anthropic from '@anthropic-ai/sdk';
+import { logger } from 'firebase-functions';
+import { z } from 'zod';
+import {
+  formatLongDate,
+  formatTime,
+  loadUserLanguage,
+  t,
+  LANGUAGE_NAMES
+} from '../services/i18n';
+import { INVITATION_TONES, InvitationContent, renderInvitation } from '../services/invitation';
+import { isValidTimeZone, resolveDinnerTime, DEFAULT_TIME_ZONE } from '../services/timeline';
+import { partySize } from '../services/winePlanning';
+import { dinnerTitle, loadDinner, loadMenu } from '../services/dinners';
+import type {
+  DinnerEvent,
+  DinnerGuest,
+  DinnerInvitation,
+  Friend,
+  GenerateInvitationRequest,
+  GenerateInvitationResponse,
+  InvitationRecipient,
+  Language,
+  MenuProposal
+} from '../types';
+
+const db = getFirestore();
+
+const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+});
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+const InvitationSchema = z.object({
+  dinnerId: z.string().min(1),
+  includeMenuTeaser: z.boolean().optional(),
+  location: z.string().trim().min(1).max(200).optional(),
+  timeZone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
+  language: z.string().max(10).optional(),
+  userId: z.string().min(1),
+});
+
+// ============================================================
+// GENERATE
+// ============================================================
+
+export const generateDinnerInvitation = onCall<GenerateInvitationRequest>(
+  {
+    region: 'europe-west1',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+    secrets: ['ANTHROPIC_API_KEY'],
+  },
+  async (request): Promise<GenerateInvitationResponse> => {
+    // Validate request
+    const validation = InvitationSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
+
+    const { dinnerId, location, userId } = validation.data;
+
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot invite guests for another user');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+
+    logger.info('Generating dinner invitation', { userId, dinnerId, language });
+
+    try {
+      const dinner = await loadDinner(userId, dinnerId);
+      if (!dinner) {
+        throw new HttpsError('not-found', t(language, 'dinnerNotFound'));
+      }
+
+      if (dinner.status === 'cancelled' || dinner.status === 'completed') {
+        throw new HttpsError('failed-precondition', t(language, 'dinnerClosed'));
+      }
+
+      const menu = loadMenu(dinner);
+      const includeMenuTeaser = !!menu && validation.data.includeMenuTeaser !== false;
+
+      const timeZone = validation.data.timeZone || dinner.timeline?.timeZone || DEFAULT_TIME_ZONE;
+      const start = resolveDinnerTime(dinner.date.toDate(), dinner.time, timeZone);
+      const dinnerName = dinnerTitle(dinner, language);
+
+      const recipients = await loadRecipients(userId, dinnerId);
+
+      const content = await writeInvitation({
+        dinner,
+        dinnerName,
+        when: `${formatLongDate(start, language, timeZone)}, ${formatTime(start, language, timeZone)}`,
+        location,
+        people: partySize(dinner, recipients.length),
+        menu: includeMenuTeaser ? menu : null,
+        language,
+      });
+
+      const rendered = renderInvitation(content, {
+        dinnerId,
+        dinnerName,
+        start,
+        timeZone,
+        location,
+        language,
+      });
+
+      const invitation: DinnerInvitation = {
+        language,
+        style: dinner.style,
+        includeMenuTeaser: !!content.teaser,
+        ...rendered,
+        recipients,
+        generatedAt: Timestamp.now(),
+      };
+
+      await db.collection('dinners').doc(dinnerId).update({
+        invitation,
+        updatedAt: Timestamp.now(),
+      });
+
+      logger.info('Dinner invitation generated', {
+        dinnerId,
+        recipients: recipients.length,
+        teaser: invitation.includeMenuTeaser,
+      });
+
+      return {
+        success: true,
+        invitation,
+      };
+
+    } catch (error) {
+      logger.error('Invitation generation failed', { userId, dinnerId, error });
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError('internal', t(language, 'invitationFailed', { error: (error as Error).message }));
+    }
+  }
+);
+
+// ============================================================
+// PROMPT
+// ============================================================
+
+const INVITATION_PROMPT = `Scrivi l'invito a una cena, da mandare a tutti gli ospiti.
+
+DETTAGLI CENA:
+- Nome: {dinner_name}
+- Quando: {when}
+{location}- Commensali: {people}
+{notes}
+STILE: {tone}
+{menu}
+REQUISITI:
+- "message": 2-4 frasi, includi data e ora e chiedi conferma di partecipazione
+- NON includere nomi di persone (né mittente né destinatario) e NON firmare
+- NON usare emoji o formattazione markdown
+- "subject": oggetto dell'email, massimo 8 parole
+{teaser_rule}
+Scrivi tutti i testi in {language}.
+
+FORMATO OUTPUT (JSON):
+{
+  "subject": "...",
+  "message": "...",
+  "teaser": "..."
+}
+
+Rispondi SOLO con il JSON, senza altro testo.`;
+
+interface InvitationPromptInput {
+  dinner: DinnerEvent;
+  dinnerName: string;
+  when: string;
+  location?: string;
+  people: number;
+  /** Set when the invitation should hint at the menu */
+  menu: MenuProposal | null;
+  language: Language;
+}
+
+async function writeInvitation(input: InvitationPromptInput): Promise<InvitationContent> {
+  const menuSection = input.menu
+    ? `\nMENU (solo per il teaser):\n${input.menu.courses.map(c => `- [${c.course}] ${c.name}`).join('\n')}\n`
+    : '';
+
+  const teaserRule = input.menu
+    ? '- "teaser": 1-2 frasi che accennano al menu (tipo di cucina, stagione, un ingrediente) senza elencare i piatti né i vini\n'
+    : '- "teaser": stringa vuota\n';
+
+  const prompt = INVITATION_PROMPT
+    .replace('{dinner_name}', input.dinnerName)
+    .replace('{when}', input.when)
+    .replace('{location}', input.location ? `- Dove: ${input.location}\n` : '')
+    .replace('{people}', input.people.toString())
+    .replace('{notes}', input.dinner.notes ? `- Note dell'host (usale solo se riguardano gli ospiti): ${input.dinner.notes}\n` : '')
+    .replace('{tone}', INVITATION_TONES[input.dinner.style] ?? INVITATION_TONES.convivial)
+    .replace('{menu}', menuSection)
+    .replace('{teaser_rule}', teaserRule)
+    .replace('{language}', LANGUAGE_NAMES[input.language]);
+
+  // Log AI input
+  logger.info('=== AI REQUEST (generateDinnerInvitation) ===');
+  logger.info('FULL PROMPT:', { prompt });
+
+  const response = await anthropic.messages.create({
+    model: 'claude-sonnet-4-20250514',
+    max_tokens: 1024,
+    messages: [
+      { role: 'user', content: prompt }
+    ],
+  });
+
+  const responseText = response.content
+    .filter(block => block.type === 'text')
+    .map(block => (block as { type: 'text'; text: string }).text)
+    .join('');
+
+  // Log AI output
+  logger.info('=== AI RESPONSE (generateDinnerInvitation) ===');
+  logger.info('RESPONSE:', { responseText });
+
+  // Parse JSON
+  const jsonText = responseText
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim();
+
+  const parsed = JSON.parse(jsonText);
+  const message = String(parsed.message || '').trim();
+  if (!message) {
+    throw new Error('Empty invitation message');
+  }
+
+  const teaser = input.menu ? String(parsed.teaser || '').trim() : '';
+
+  return {
+    subject: String(parsed.subject || '').trim() || input.dinnerName,
+    message,
+    ...(teaser && { teaser }),
+  };
+}
+
+// ============================================================
+// DATA LOADING
+// ============================================================
+
+/** Guests who have not declined, with the contacts the host has for them */
+async function loadRecipients(userId: string, dinnerId: string): Promise<InvitationRecipient[]> {
+  const guestsSnapshot = await db.collection('users').doc(userId)
+    .collection('dinners').doc(dinnerId)
+    .collection('guests').get();
+
+  const recipients: InvitationRecipient[] = [];
+  for (const guestDoc of guestsSnapshot.docs) {
+    const guest = guestDoc.data() as DinnerGuest;
+    if (guest.status === 'declined') continue;
+
+    const friendDoc = await db.collection('users').doc(userId)
+      .collection('friends').doc(guest.friendId).get();
+    const friend = friendDoc.data() as Friend | undefined;
+
+    recipients.push({
+      guestId: guestDoc.id,
+      friendId: guest.friendId,
+      name: friend?.name || '',
+      ...(friend?.email && { email: friend.email }),
+      ...(friend?.phone && { phone: friend.phone }),
+    });
+  }
+
+  return recipients;
+}
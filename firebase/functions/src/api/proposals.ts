@@ -0,0 +1,197 @@
+/**
+ * Select Wine Proposal
+ *
+ * Selects or deselects one of the wine proposals stored by
+ * proposeDinnerMenu in users/{uid}/dinners/{dinnerId}/proposals.
+ *
+ * - Cellar proposals ('available'): selecting reserves bottles of the wine
+ *   (status 'reserved' + 'reserve' Movement), deselecting releases them.
+ *   Without an explicit quantity, the bottles the wine plan needs are
+ *   reserved, or as many as are available.
+ *   bottlesNeeded is the wine's count for the whole dinner, so a wine
+ *   served with several courses is reserved once: selecting it for another
+ *   course reuses the reservation, and deselecting the course that holds
+ *   it hands the bottles over to another selected course of the same wine.
+ * - Purchase proposals ('suggested_purchase'): only the flag changes.
+ *
+ * Reservations are released automatically when the dinner is cancelled
+ * (see triggers/dinners).
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { z } from 'zod';
+import {
+  findAvailableBottles,
+  readReservedBottles,
+  releaseBottlesInTransaction,
+  reserveBottlesInTransaction,
+  ReservationContext
+} from '../services/reservations';
+import { loadUserLanguage, t } from '../services/i18n';
+import type {
+  DinnerEvent,
+  SelectWineProposalRequest,
+  SelectWineProposalResponse,
+  WineProposal
+} from '../types';
+
+const db = getFirestore();
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+const MAX_RESERVED_BOTTLES = 24;
+
+const RequestSchema = z.object({
+  dinnerId: z.string().min(1),
+  proposalId: z.string().min(1),
+  selected: z.boolean(),
+  quantity: z.number().int().min(1).max(MAX_RESERVED_BOTTLES).optional(),
+  language: z.string().max(10).optional(),
+  userId: z.string().min(1),
+});
+
+// ============================================================
+// MAIN FUNCTION
+// ============================================================
+
+export const selectWineProposal = onCall<SelectWineProposalRequest>(
+  {
+    region: 'europe-west1',
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request): Promise<SelectWineProposalResponse> => {
+    // Validate request
+    const validation = RequestSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
+
+    const { dinnerId, proposalId, selected, quantity, userId } = validation.data;
+
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot select proposals for another user');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+
+    logger.info('Selecting wine proposal', { userId, dinnerId, proposalId, selected, quantity });
+
+    const dinnerRef = db.collection('dinners').doc(dinnerId);
+    const proposalRef = db.collection('users').doc(userId)
+      .collection('dinners').doc(dinnerId)
+      .collection('proposals').doc(proposalId);
+
+    try {
+      const proposal = await db.runTransaction(async (tx) => {
+        // --- Reads ---
+        const dinnerDoc = await tx.get(dinnerRef);
+        const dinner = dinnerDoc.data() as DinnerEvent | undefined;
+        if (!dinner || dinner.hostId !== userId) {
+          throw new HttpsError('not-found', t(language, 'dinnerNotFound'));
+        }
+
+        if (dinner.status === 'cancelled' || dinner.status === 'completed') {
+          throw new HttpsError('failed-precondition', t(language, 'dinnerClosed'));
+        }
+
+        const proposalDoc = await tx.get(proposalRef);
+        if (!proposalDoc.exists) {
+          throw new HttpsError('not-found', t(language, 'proposalNotFound'));
+        }
+
+        const current = { id: proposalDoc.id, ...proposalDoc.data() } as WineProposal;
+        if (current.isSelected === selected) {
+          return current;
+        }
+
+        const context: ReservationContext = {
+          dinnerId,
+          userId,
+          reason: `Cena "${dinner.title || dinner.name || dinnerId}"`,
+        };
+        const holdsBottles = current.type === 'available' && !!current.wineId;
+
+        // Other courses of the dinner served with the same cellar wine
+        const siblings = holdsBottles
+          ? (await tx.get(proposalRef.parent
+              .where('wineId', '==', current.wineId)
+              .where('isSelected', '==', true)))
+              .docs
+              .filter(doc => doc.id !== proposalId)
+          : [];
+        const reservationHolder = siblings.find(doc => (doc.data() as WineProposal).reservedBottles?.length);
+
+        if (selected) {
+          let update: Partial<WineProposal> = { isSelected: true, selectedAt: Timestamp.now() };
+
+          if (holdsBottles && reservationHolder) {
+            logger.info('Wine already reserved for the dinner', { proposalId, holder: reservationHolder.id });
+          } else if (holdsBottles) {
+            const wanted = quantity ?? Math.min(current.bottlesNeeded ?? 1, MAX_RESERVED_BOTTLES);
+            const bottles = await findAvailableBottles(tx, userId, current.wineId!, wanted);
+            // An explicit quantity is all-or-nothing; the planned one takes what is there
+            if (bottles.length === 0 || (quantity !== undefined && bottles.length < quantity)) {
+              throw new HttpsError(
+                'failed-precondition',
+                `Bottiglie disponibili insufficienti: ${bottles.length} su ${wanted}`
+              );
+            }
+
+            // --- Writes ---
+            const reservedBottles = reserveBottlesInTransaction(tx, bottles, context);
+            update = { ...update, reservedBottles };
+          }
+
+          tx.update(proposalRef, update);
+          return { ...current, ...update };
+        }
+
+        const heir = current.reservedBottles?.length ? siblings[0] : undefined;
+        const bottles = holdsBottles && !heir
+          ? await readReservedBottles(tx, current.reservedBottles || [], dinnerId)
+          : [];
+
+        // --- Writes ---
+        if (heir) {
+          tx.update(heir.ref, { reservedBottles: current.reservedBottles });
+        } else {
+          releaseBottlesInTransaction(tx, bottles, context);
+        }
+        tx.update(proposalRef, {
+          isSelected: false,
+          reservedBottles: FieldValue.delete(),
+          selectedAt: FieldValue.delete(),
+        });
+
+        const { reservedBottles: _reserved, selectedAt: _selectedAt, ...rest } = current;
+        return { ...rest, isSelected: false };
+      });
+
+      logger.info('Wine proposal updated', {
+        proposalId,
+        isSelected: proposal.isSelected,
+        reservedBottles: proposal.reservedBottles?.length ?? 0,
+      });
+
+      return {
+        success: true,
+        proposal,
+      };
+
+    } catch (error) {
+      logger.error('Proposal selection failed', { userId, dinnerId, proposalId, error });
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError('internal', t(language, 'proposalSelectionFailed', { error: (error as Error).message }));
+    }
+  }
+);
@@ -6,30 +6,118 @@
  * 2. Carica preferenze alimentari ospiti
  * 3. Carica inventario vini disponibili
  * 4. LLM genera menu + abbinamenti vino per ogni portata
- * 5. Salva proposta e ritorna
+ * 5. Salva menu sulla cena e proposte vino in users/{uid}/dinners/{id}/proposals
  *
  * REQUISITI:
  * - Ogni piatto ha un vino abbinato
  * - Minimizza cambi vino (2-3 vini max per cena)
- * - Per ogni piatto: cellarWine (dalla cantina) + marketWine (da acquistare)
+ * - Per ogni piatto: cellarWine (dalla cantina, scelto per ID) + marketWine (da acquistare)
  * - Note utente hanno PRIORITÀ MASSIMA
+ *
+ * Il menu include un winePlan: bottiglie necessarie per ogni vino in base
+ * ai commensali e alle portate servite, con l'eventuale ammanco in cantina.
+ * Ogni vino da acquistare ha una fascia di prezzo stimata; wineCost somma
+ * il valore delle bottiglie di cantina (acquiredPrice) e gli acquisti e li
+ * confronta con il budget della cena (vedi services/budget).
+ *
+ * Piatti e vini già serviti agli stessi ospiti in cene concluse (vedi
+ * services/guestHistory) sono passati al modello da evitare; i piatti
+ * ripetuti vengono rigenerati, a meno che la cena ammetta i "classici
+ * della casa" (allowHouseClassics). Le ripetizioni residue finiscono in
+ * guestConsiderations.
+ *
+ * regenerateCourse sostituisce una sola portata, usando il resto del menu e
+ * la strategia vini come contesto.
+ *
+ * proposeMenuVariants genera N menu alternativi con temi diversi, salvati
+ * come candidati sulla cena ('menuVariants') con un riepilogo per il
+ * confronto; promoteMenuVariant ne rende uno il menu della cena.
+ *
+ * I vini della cantina sono ordinati per finestra di consumo alla data
+ * della cena (vedi services/drinkingWindow): prima quelli al picco o da
+ * bere presto; i vini troppo giovani non sono proposti e, se il modello li
+ * sceglie comunque, l'abbinamento dalla cantina viene scartato.
+ *
+ * Dopo la generazione ogni portata è verificata con services/dietaryValidator:
+ * le portate con ingredienti vietati per un ospite vengono rigenerate, i
+ * rischi residui sono riportati in guestConsiderations.
+ *
+ * Prompt, testi del menu e messaggi sono nella lingua dell'utente (vedi
+ * services/prompts e services/i18n); gli 'ingredients' di ogni portata,
+ * su cui lavora il validatore, restano in italiano.
  */
 
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
-import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { getFirestore, CollectionReference, FieldValue, Timestamp, WriteBatch } from 'firebase-admin/firestore';
+import { randomUUID } from 'crypto';
 import Anthropic from '@anthropic-ai/sdk';
 import { logger } from 'firebase-functions';
 import { z } from 'zod';
+import { dinnerTitle, loadDinner, loadMenu } from '../services/dinners';
+import { findWineByDescription } from '../services/wineMatching';
+import {
+  formatDate,
+  loadUserLanguage,
+  t,
+  DEFAULT_VARIANT_THEMES
+} from '../services/i18n';
+import {
+  promptText,
+  COURSE_PROMPTS,
+  DRINKING_STATUS_NAMES,
+  PROPOSAL_PROMPTS,
+  SEASON_NAMES,
+  Season
+} from '../services/prompts';
+import { releaseDinnerReservations } from '../services/reservations';
+import { drinkingStatus, drinkingWindowOf } from '../services/drinkingWindow';
+import { buildWinePlan, partySize, planWineServings } from '../services/winePlanning';
+import {
+  describeBudget,
+  loadWineBudget,
+  parsePriceRange,
+  summarizeWineCost,
+  WineBudget
+} from '../services/budget';
+import {
+  buildRepeatInstruction,
+  findRepeats,
+  loadGuestHistory,
+  summarizeGuestHistory,
+  withRepeatNotes,
+  GuestHistoryEntry,
+  Repeat
+} from '../services/guestHistory';
+import {
+  buildDietaryInstruction,
+  dietaryCoverage,
+  validateMenu,
+  withDietaryWarnings,
+  DietaryIssue
+} from '../services/dietaryValidator';
 import type {
   ProposeDinnerRequest,
   ProposeDinnerResponse,
+  RegenerateCourseRequest,
+  RegenerateCourseResponse,
+  ProposeMenuVariantsRequest,
+  ProposeMenuVariantsResponse,
+  PromoteMenuVariantRequest,
+  PromoteMenuVariantResponse,
+  MenuVariant,
+  MenuVariantSummary,
   DinnerEvent,
   Friend,
   FoodPreference,
   Wine,
+  MenuCourse,
   MenuProposal,
+  WinePairing,
+  WinePlanEntry,
   WineProposal,
   CourseType,
+  DrinkingStatus,
+  Language,
   Rating,
   TasteProfile
 } from '../types';
@@ -46,6 +134,32 @@ const anthropic = new Anthropic({
 
 const RequestSchema = z.object({
   dinnerId: z.string().min(1),
+  language: z.string().max(10).optional(),
+  userId: z.string().min(1),
+});
+
+const MAX_VARIANTS = 4;
+
+const VariantsSchema = z.object({
+  dinnerId: z.string().min(1),
+  themes: z.array(z.string().min(1).max(100)).min(2).max(MAX_VARIANTS).optional(),
+  count: z.number().int().min(2).max(MAX_VARIANTS).optional(),
+  language: z.string().max(10).optional(),
+  userId: z.string().min(1),
+});
+
+const PromoteVariantSchema = z.object({
+  dinnerId: z.string().min(1),
+  variantId: z.string().min(1),
+  language: z.string().max(10).optional(),
+  userId: z.string().min(1),
+});
+
+const RegenerateCourseSchema = z.object({
+  dinnerId: z.string().min(1),
+  courseIndex: z.number().int().min(0),
+  instruction: z.string().max(500).optional(),
+  language: z.string().max(10).optional(),
   userId: z.string().min(1),
 });
 
@@ -57,7 +171,7 @@ export const proposeDinnerMenu = onCall<ProposeDinnerRequest>(
   {
     region: 'europe-west1',
     memory: '1GiB',
-    timeoutSeconds: 120,
+    timeoutSeconds: 300,
     secrets: ['ANTHROPIC_API_KEY'],
   },
   async (request): Promise<ProposeDinnerResponse> => {
@@ -80,13 +194,19 @@ export const proposeDinnerMenu = onCall<ProposeDinnerRequest>(
       throw new HttpsError('permission-denied', 'Cannot propose for another user');
     }
 
-    logger.info('Starting dinner proposal', { userId, dinnerId });
+    const language = await loadUserLanguage(userId, validation.data.language);
+
+    logger.info('Starting dinner proposal', { userId, dinnerId, language });
 
     try {
       // Step 1: Load dinner details
       const dinner = await loadDinner(userId, dinnerId);
       if (!dinner) {
-        throw new HttpsError('not-found', 'Cena non trovata');
+        throw new HttpsError('not-found', t(language, 'dinnerNotFound'));
+      }
+
+      if (dinner.status === 'cancelled' || dinner.status === 'completed') {
+        throw new HttpsError('failed-precondition', t(language, 'dinnerClosed'));
       }
 
       // Step 2: Load guests with preferences
@@ -97,54 +217,310 @@ export const proposeDinnerMenu = onCall<ProposeDinnerRequest>(
       const inventory = await loadWineInventory(userId);
       logger.info('Loaded wine inventory', { count: inventory.length });
 
-      // Step 4: Determine season
+      // Step 4: Load what was already served to these guests
+      const history = await loadGuestHistory(userId, dinnerId, guests.map(g => g.friend), language);
+
+      // Step 5: Determine season and wine budget
       const season = getSeason(dinner.date.toDate());
+      const budget = await loadWineBudget(userId, dinner.budgetLevel);
+
+      // Step 6: Build context and call LLM
+      const context = buildProposalContext(dinner, guests, inventory, season, history, language, budget);
+      const generated = await generateProposal(context);
 
-      // Step 5: Build context and call LLM
-      const context = buildProposalContext(dinner, guests, inventory, season);
-      const proposal = await generateProposal(context);
+      // Step 7: Repeats, restrictions, cellar picks and bottle plan
+      const menu = await reviewMenu(context, generated);
 
-      // Step 6: Save proposal to dinner
-      await saveDinnerProposal(userId, dinnerId, proposal.menu, proposal.wines);
+      // Step 8: Save menu to dinner and wine proposals to its subcollection
+      const wineProposals = await saveDinnerProposal(
+        userId,
+        dinnerId,
+        menu,
+        collectWineProposals(menu, dinnerId)
+      );
 
       const totalTime = Date.now() - startTime;
       logger.info('Dinner proposal completed', {
         dinnerId,
-        coursesGenerated: proposal.menu.courses.length,
-        winesProposed: proposal.wines.available.length + proposal.wines.suggested.length,
+        coursesGenerated: menu.courses.length,
+        winesProposed: wineProposals.available.length + wineProposals.suggested.length,
         totalTimeMs: totalTime
       });
 
       return {
         success: true,
-        menu: proposal.menu,
-        wineProposals: proposal.wines,
+        menu,
+        wineProposals,
       };
 
     } catch (error) {
       logger.error('Proposal generation failed', { userId, dinnerId, error });
       if (error instanceof HttpsError) throw error;
-      throw new HttpsError('internal', 'Generazione proposta fallita: ' + (error as Error).message);
+      throw new HttpsError('internal', t(language, 'proposalFailed', { error: (error as Error).message }));
     }
   }
 );
 
 // ============================================================
-// DATA LOADING
+// COURSE REGENERATION
 // ============================================================
 
-async function loadDinner(userId: string, dinnerId: string): Promise<DinnerEvent | null> {
-  // Dinners are in top-level collection
-  const doc = await db.collection('dinners').doc(dinnerId).get();
-  if (!doc.exists) return null;
+export const regenerateCourse = onCall<RegenerateCourseRequest>(
+  {
+    region: 'europe-west1',
+    memory: '1GiB',
+    timeoutSeconds: 300,
+    secrets: ['ANTHROPIC_API_KEY'],
+  },
+  async (request): Promise<RegenerateCourseResponse> => {
+    // Validate request
+    const validation = RegenerateCourseSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
+
+    const { dinnerId, courseIndex, instruction, userId } = validation.data;
+
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot propose for another user');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+
+    logger.info('Regenerating course', { userId, dinnerId, courseIndex, language });
+
+    try {
+      const dinner = await loadDinner(userId, dinnerId);
+      if (!dinner) {
+        throw new HttpsError('not-found', t(language, 'dinnerNotFound'));
+      }
+
+      if (dinner.status === 'cancelled' || dinner.status === 'completed') {
+        throw new HttpsError('failed-precondition', t(language, 'dinnerClosed'));
+      }
+
+      const menu = loadMenu(dinner);
+      if (!menu) {
+        throw new HttpsError('failed-precondition', t(language, 'dinnerHasNoMenu'));
+      }
+
+      if (courseIndex >= menu.courses.length) {
+        throw new HttpsError('invalid-argument', t(language, 'courseNotFound', { number: courseIndex + 1 }));
+      }
+
+      const context = await loadProposalContext(userId, dinner, language);
+
+      const generated = await generateCourse(context, menu, courseIndex, { instruction });
+      const updatedMenu = await reviewMenu(
+        context,
+        replaceCourse(menu, courseIndex, generated),
+        { courseIndexes: [courseIndex], instruction }
+      );
+      const course = updatedMenu.courses[courseIndex];
+
+      const wineProposals = await saveRegeneratedCourse(
+        userId,
+        dinnerId,
+        updatedMenu,
+        courseIndex,
+        buildWineProposals(course, courseIndex, dinnerId, updatedMenu.winePlan)
+      );
+
+      logger.info('Course regenerated', { dinnerId, courseIndex, name: course.name });
+
+      return {
+        success: true,
+        course,
+        menu: updatedMenu,
+        wineProposals,
+      };
+
+    } catch (error) {
+      logger.error('Course regeneration failed', { userId, dinnerId, courseIndex, error });
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError('internal', t(language, 'courseRegenerationFailed', { error: (error as Error).message }));
+    }
+  }
+);
+
+// ============================================================
+// MENU VARIANTS
+// ============================================================
+
+export const proposeMenuVariants = onCall<ProposeMenuVariantsRequest>(
+  {
+    region: 'europe-west1',
+    memory: '1GiB',
+    timeoutSeconds: 540,
+    secrets: ['ANTHROPIC_API_KEY'],
+  },
+  async (request): Promise<ProposeMenuVariantsResponse> => {
+    // Validate request
+    const validation = VariantsSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
+
+    const { dinnerId, userId } = validation.data;
+
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot propose for another user');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+    const themes = validation.data.themes
+      ?? DEFAULT_VARIANT_THEMES[language].slice(0, validation.data.count ?? 3);
+
+    logger.info('Generating menu variants', { userId, dinnerId, themes, language });
+
+    try {
+      const dinner = await loadDinner(userId, dinnerId);
+      if (!dinner) {
+        throw new HttpsError('not-found', t(language, 'dinnerNotFound'));
+      }
+
+      const context = await loadProposalContext(userId, dinner, language);
+
+      // Variants are independent: generate them side by side
+      const variants = await Promise.all(themes.map(async (theme): Promise<MenuVariant> => {
+        const generated = await generateProposal(context, theme);
+        const menu = await reviewMenu(context, generated);
+        return {
+          id: randomUUID(),
+          theme,
+          menu,
+          summary: summarizeVariant(context, menu),
+          createdAt: Timestamp.now(),
+        };
+      }));
+
+      await db.collection('dinners').doc(dinnerId).update({
+        menuVariants: variants,
+        updatedAt: Timestamp.now(),
+      });
+
+      logger.info('Menu variants generated', {
+        dinnerId,
+        variants: variants.map(v => ({ theme: v.theme, ...v.summary })),
+      });
+
+      return {
+        success: true,
+        variants,
+      };
+
+    } catch (error) {
+      logger.error('Menu variants generation failed', { userId, dinnerId, error });
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError('internal', t(language, 'variantsFailed', { error: (error as Error).message }));
+    }
+  }
+);
+
+export const promoteMenuVariant = onCall<PromoteMenuVariantRequest>(
+  {
+    region: 'europe-west1',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async (request): Promise<PromoteMenuVariantResponse> => {
+    // Validate request
+    const validation = PromoteVariantSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
 
-  const data = doc.data();
-  // Verify ownership
-  if (data?.hostId !== userId) return null;
+    const { dinnerId, variantId, userId } = validation.data;
 
-  return { id: doc.id, ...data } as DinnerEvent;
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot propose for another user');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+
+    logger.info('Promoting menu variant', { userId, dinnerId, variantId, language });
+
+    try {
+      const dinner = await loadDinner(userId, dinnerId);
+      if (!dinner) {
+        throw new HttpsError('not-found', t(language, 'dinnerNotFound'));
+      }
+
+      if (dinner.status === 'cancelled' || dinner.status === 'completed') {
+        throw new HttpsError('failed-precondition', t(language, 'dinnerClosed'));
+      }
+
+      const variant = (dinner.menuVariants || []).find(v => v.id === variantId);
+      if (!variant) {
+        throw new HttpsError('not-found', t(language, 'variantNotFound'));
+      }
+
+      const wineProposals = await saveDinnerProposal(
+        userId,
+        dinnerId,
+        variant.menu,
+        collectWineProposals(variant.menu, dinnerId),
+        { activeMenuVariantId: variantId }
+      );
+
+      logger.info('Menu variant promoted', { dinnerId, variantId, theme: variant.theme });
+
+      return {
+        success: true,
+        menu: variant.menu,
+        wineProposals,
+      };
+
+    } catch (error) {
+      logger.error('Menu variant promotion failed', { userId, dinnerId, variantId, error });
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError('internal', t(language, 'variantPromotionFailed', { error: (error as Error).message }));
+    }
+  }
+);
+
+function summarizeVariant(context: ProposalContext, menu: MenuProposal): MenuVariantSummary {
+  const winePlan = menu.winePlan || [];
+  const coverage = dietaryCoverage(
+    menu.courses,
+    context.guests.map(g => ({ name: g.friend.name, preferences: g.preferences })),
+    context.language
+  );
+
+  return {
+    courseCount: menu.courses.length,
+    wineCount: planWineServings(menu.courses, 1, c => c.cellarWine ?? c.marketWine).length,
+    cellarWineCount: winePlan.filter(e => e.source === 'cellar').length,
+    marketWineCount: winePlan.filter(e => e.source === 'market').length,
+    totalPrepTime: menu.totalPrepTime || 0,
+    cellarShortfall: winePlan.reduce((sum, e) => sum + (e.shortfall ?? 0), 0),
+    restrictions: coverage.restrictions,
+    restrictionsRespected: coverage.respected,
+    dietaryRisks: coverage.risks,
+    repeats: findRepeats(menu.courses, context.history).length,
+    ...(menu.wineCost && { wineCost: menu.wineCost.total, budgetStatus: menu.wineCost.status }),
+  };
 }
 
+// ============================================================
+// DATA LOADING
+// ============================================================
+
 interface GuestWithPrefs {
   friend: Friend;
   preferences: FoodPreference[];
@@ -175,10 +551,11 @@ async function loadGuestsWithPreferences(userId: string, dinnerId: string): Prom
       .collection('friends').doc(friendId)
       .collection('foodPreferences').get();
 
-    const preferences = prefsSnapshot.docs.map(doc => ({
+    // Preferences sent by the guest count only once the host approves them
+    const preferences = (prefsSnapshot.docs.map(doc => ({
       id: doc.id,
       ...doc.data()
-    })) as FoodPreference[];
+    })) as FoodPreference[]).filter(p => p.status !== 'pending');
 
     guests.push({ friend, preferences });
   }
@@ -190,6 +567,10 @@ interface WineWithRating extends Wine {
   rating?: number;
   tasteProfile?: TasteProfile;
   availableBottles: number;
+  /** Where the vintage is in its drinking window at the dinner date */
+  drinkingStatus?: DrinkingStatus;
+  /** Average acquiredPrice of the available bottles that have one */
+  averagePrice?: number;
   locationDescription: string;
 }
 
@@ -203,7 +584,7 @@ async function loadWineInventory(userId: string): Promise<WineWithRating[]> {
   }
 
   const inventory: WineWithRating[] = [];
-  const wineBottleCounts = new Map<string, { count: number; location: string }>();
+  const wineBottleCounts = new Map<string, { count: number; location: string; prices: number[] }>();
 
   for (const cellarDoc of cellarsSnapshot.docs) {
     const bottlesSnapshot = await cellarDoc.ref.collection('bottles')
@@ -214,25 +595,30 @@ async function loadWineInventory(userId: string): Promise<WineWithRating[]> {
       const bottle = bottleDoc.data();
       const wineId = bottle.wineId;
 
-      const current = wineBottleCounts.get(wineId) || { count: 0, location: cellarDoc.data().name };
+      const current = wineBottleCounts.get(wineId) || { count: 0, location: cellarDoc.data().name, prices: [] as number[] };
       current.count++;
+      if (typeof bottle.acquiredPrice === 'number' && bottle.acquiredPrice > 0) {
+        current.prices.push(bottle.acquiredPrice);
+      }
       wineBottleCounts.set(wineId, current);
     }
   }
 
-  for (const [wineId, { count, location }] of wineBottleCounts) {
+  for (const [wineId, { count, location, prices }] of wineBottleCounts) {
     const wineDoc = await db.collection('wines').doc(wineId).get();
     if (!wineDoc.exists) continue;
 
     const wine = { id: wineDoc.id, ...wineDoc.data() } as Wine;
 
+    // Pending drafts from completed dinners are not ratings yet
     const ratingSnapshot = await db.collection('users').doc(userId)
       .collection('ratings')
       .where('wineId', '==', wineId)
-      .limit(1)
       .get();
 
-    const rating = ratingSnapshot.empty ? undefined : (ratingSnapshot.docs[0].data() as Rating).rating;
+    const rating = ratingSnapshot.docs
+      .map(doc => doc.data() as Rating)
+      .find(r => r.status !== 'pending')?.rating;
 
     const profileSnapshot = await db.collection('users').doc(userId)
       .collection('tasteProfiles')
@@ -243,11 +629,17 @@ async function loadWineInventory(userId: string): Promise<WineWithRating[]> {
     const tasteProfile = profileSnapshot.empty ? undefined :
       { id: profileSnapshot.docs[0].id, ...profileSnapshot.docs[0].data() } as TasteProfile;
 
+    const drinkingWindow = drinkingWindowOf(wine);
+
     inventory.push({
       ...wine,
+      ...(drinkingWindow && { drinkingWindow }),
       rating,
       tasteProfile,
       availableBottles: count,
+      ...(prices.length > 0 && {
+        averagePrice: Math.round(prices.reduce((sum, p) => sum + p, 0) / prices.length * 100) / 100,
+      }),
       locationDescription: location,
     });
   }
@@ -259,20 +651,54 @@ async function loadWineInventory(userId: string): Promise<WineWithRating[]> {
 // CONTEXT BUILDING
 // ============================================================
 
+/** Guests, cellar and guest history for a dinner the host already loaded */
+async function loadProposalContext(
+  userId: string,
+  dinner: DinnerEvent,
+  language: Language
+): Promise<ProposalContext> {
+  const guests = await loadGuestsWithPreferences(userId, dinner.id);
+  const inventory = await loadWineInventory(userId);
+  const history = await loadGuestHistory(userId, dinner.id, guests.map(g => g.friend), language);
+  const season = getSeason(dinner.date.toDate());
+  const budget = await loadWineBudget(userId, dinner.budgetLevel);
+  return buildProposalContext(dinner, guests, inventory, season, history, language, budget);
+}
+
+// Wines listed in the prompt
+const MAX_PROMPT_WINES = 60;
+
+// Prompt order by drinking status, then rating: wines to open now first,
+// wines without a window (non-vintage) with the 'ready' ones
+const DRINKING_PRIORITY: Record<DrinkingStatus, number> = {
+  peak: 0,
+  declining: 1,
+  ready: 2,
+  past: 3,
+  too_young: 4,
+};
+
 interface ProposalContext {
   dinner: DinnerEvent;
   guests: GuestWithPrefs[];
   inventory: WineWithRating[];
-  season: string;
+  season: Season;
   dietarySummary: string[];
   inventorySummary: string;
+  history: GuestHistoryEntry[];
+  /** Language of the texts the user reads */
+  language: Language;
+  budget: WineBudget;
 }
 
 function buildProposalContext(
   dinner: DinnerEvent,
   guests: GuestWithPrefs[],
   inventory: WineWithRating[],
-  season: string
+  season: Season,
+  history: GuestHistoryEntry[],
+  language: Language,
+  budget: WineBudget
 ): ProposalContext {
   const dietarySummary: string[] = [];
 
@@ -288,29 +714,47 @@ function buildProposalContext(
     if (restrictions.length > 0 || dislikes.length > 0) {
       let summary = friend.name;
       if (restrictions.length > 0) {
-        summary += ` (EVITARE: ${restrictions.join(', ')})`;
+        summary += ` (${promptText(language, 'guestAvoid', { items: restrictions.join(', ') })})`;
       }
       if (dislikes.length > 0) {
-        summary += ` (non gradisce: ${dislikes.join(', ')})`;
+        summary += ` (${promptText(language, 'guestDislikes', { items: dislikes.join(', ') })})`;
       }
       summary += ` - Foodie: ${friend.foodieLevel}`;
       dietarySummary.push(summary);
     } else {
-      dietarySummary.push(`${friend.name} - Nessuna restrizione - Foodie: ${friend.foodieLevel}`);
+      dietarySummary.push(`${friend.name} - ${promptText(language, 'guestNoRestrictions')} - Foodie: ${friend.foodieLevel}`);
     }
   }
 
+  const dinnerYear = dinner.date.toDate().getFullYear();
+  for (const wine of inventory) {
+    if (wine.drinkingWindow) wine.drinkingStatus = drinkingStatus(wine.drinkingWindow, dinnerYear);
+  }
+
+  // Wines too young at the dinner date are not offered
   const inventorySummary = inventory
-    .sort((a, b) => (b.rating || 0) - (a.rating || 0))
-    .slice(0, 20)
+    .filter(w => w.drinkingStatus !== 'too_young')
+    .sort((a, b) =>
+      DRINKING_PRIORITY[a.drinkingStatus ?? 'ready'] - DRINKING_PRIORITY[b.drinkingStatus ?? 'ready'] ||
+      (b.rating || 0) - (a.rating || 0) ||
+      b.availableBottles - a.availableBottles)
+    .slice(0, MAX_PROMPT_WINES)
     .map(w => {
-      let desc = `${w.name}`;
+      let desc = `[${w.id}] ${w.name}`;
       if (w.producer) desc += ` (${w.producer})`;
       if (w.vintage) desc += ` ${w.vintage}`;
       desc += ` - ${w.type}`;
       if (w.region) desc += `, ${w.region}`;
-      desc += ` - ${w.availableBottles} bottiglia/e`;
-      if (w.rating) desc += ` - Rating: ${w.rating}/5`;
+      desc += ` - ${promptText(language, 'wineBottles', { count: w.availableBottles })}`;
+      if (w.rating) desc += ` - ${promptText(language, 'wineRating', { rating: w.rating })}`;
+      if (w.drinkingWindow && w.drinkingStatus) {
+        desc += ` - ${promptText(language, 'drinkingWindow', {
+          from: w.drinkingWindow.from,
+          to: w.drinkingWindow.to,
+          peak: w.drinkingWindow.peak,
+          status: DRINKING_STATUS_NAMES[language][w.drinkingStatus].toUpperCase(),
+        })}`;
+      }
       return desc;
     })
     .join('\n');
@@ -322,138 +766,93 @@ function buildProposalContext(
     season,
     dietarySummary,
     inventorySummary,
+    history,
+    language,
+    budget,
   };
 }
 
-function getSeason(date: Date): string {
+function getSeason(date: Date): Season {
   const month = date.getMonth() + 1;
-  if (month >= 3 && month <= 5) return 'primavera';
-  if (month >= 6 && month <= 8) return 'estate';
-  if (month >= 9 && month <= 11) return 'autunno';
-  return 'inverno';
+  if (month >= 3 && month <= 5) return 'spring';
+  if (month >= 6 && month <= 8) return 'summer';
+  if (month >= 9 && month <= 11) return 'autumn';
+  return 'winter';
 }
 
 // ============================================================
 // LLM GENERATION
 // ============================================================
 
-const PROPOSAL_PROMPT = `Sei un esperto chef e sommelier italiano. Devi proporre un menu completo con abbinamenti vino per una cena.
-
-CONTESTO CENA:
-- Nome: {dinner_name}
-- Data: {dinner_date}
-- Stagione: {season}
-- Stile: {dinner_style}
-- Tempo di preparazione disponibile: {cooking_time}
-- Budget vini: {budget_level}
-{user_notes}
-
-OSPITI ({guest_count} persone):
-{dietary_summary}
-
-VINI DISPONIBILI IN CANTINA:
-{inventory_summary}
-
-ISTRUZIONI PRIORITARIE:
-⚠️ MASSIMA PRIORITÀ: Le "RICHIESTE SPECIFICHE DELL'UTENTE" DEVONO essere seguite ESATTAMENTE.
-   - Se l'utente specifica il numero di piatti per portata (es. "10 antipasti, 1 primo"), genera ESATTAMENTE quel numero
-   - Se l'utente specifica il tipo di cucina, tema, o ingredienti, seguili alla lettera
-   - NON ignorare MAI le richieste dell'utente
-
-ISTRUZIONI GENERALI (se non specificate dall'utente):
-1. Se non ci sono richieste specifiche, proponi: 1 antipasto, 1 primo, 1 secondo, 1 dolce
-2. Considera TUTTE le restrizioni alimentari - nessun piatto deve contenere ingredienti vietati
-3. Adatta la complessità al tempo di preparazione disponibile
-4. Per ogni piatto indica:
-   - Nome e breve descrizione
-   - Flag dietetici (GF=senza glutine, LF=senza lattosio, V=vegetariano, VG=vegano)
-   - Tempo di preparazione stimato
-5. ABBINAMENTI VINO:
-   - Ogni piatto DEVE avere un vino abbinato
-   - MINIMIZZA il numero di vini diversi (es. stesso vino per tutti gli antipasti)
-   - Per ogni piatto proponi:
-     a) "cellarWine": un vino dalla lista "DISPONIBILI IN CANTINA" (se disponibile)
-     b) "marketWine": un vino da acquistare come alternativa
-   - Se lo stesso vino va bene per più portate, usa lo stesso nome esatto
-6. Lo stile del menu deve rispecchiare il tipo di cena (informale/conviviale/elegante)
-
-TIPI DI PORTATA:
-- "starter" = antipasto
-- "first" = primo (pasta, risotto, zuppe)
-- "main" = secondo (carne, pesce)
-- "side" = contorno
-- "dessert" = dolce
-
-FORMATO OUTPUT (JSON):
-{
-  "menu": {
-    "courses": [
-      {
-        "course": "starter|first|main|side|dessert",
-        "name": "Nome piatto",
-        "description": "Descrizione",
-        "dietaryFlags": ["GF", "LF", "V"],
-        "prepTime": 30,
-        "cellarWine": {
-          "name": "Nome esatto del vino dalla cantina",
-          "reasoning": "Perché questo abbinamento"
-        },
-        "marketWine": {
-          "name": "Nome vino da acquistare",
-          "details": "Tipo, regione, produttore consigliato",
-          "reasoning": "Perché questo abbinamento"
-        }
-      }
-    ],
-    "reasoning": "Spiegazione generale delle scelte di menu e vini",
-    "wineStrategy": "Strategia abbinamenti (es. 'Due vini: un bianco per antipasto e primo, un rosso per il secondo')",
-    "seasonContext": "Come la stagione ha influenzato le scelte",
-    "guestConsiderations": ["Considerazione 1", "Considerazione 2"],
-    "totalPrepTime": 120
-  }
-}
+/** `theme` steers a menu variant ("di mare"); the user's notes still come first */
+async function generateProposal(context: ProposalContext, theme?: string): Promise<MenuProposal> {
+  const prompt = fillDinnerContext(PROPOSAL_PROMPTS[context.language], context)
+    .replace('{menu_theme}', theme ? `\n${promptText(context.language, 'menuTheme', { theme })}` : '');
 
-IMPORTANTE: Se l'utente chiede N piatti di un tipo, l'array "courses" DEVE contenere esattamente N elementi con quel course type.
+  // Log AI input
+  logger.info('=== AI REQUEST (proposeDinnerMenu) ===');
+  logger.info('USER NOTES: ' + (context.dinner.notes || 'NESSUNA'));
+  if (theme) logger.info('THEME: ' + theme);
+  logger.info('FULL PROMPT:', { prompt });
 
-Rispondi SOLO con il JSON, senza altro testo.`;
+  const parsed = await requestJson(prompt, 'proposeDinnerMenu');
 
-interface GeneratedProposal {
-  menu: MenuProposal;
-  wines: {
-    available: WineProposal[];
-    suggested: WineProposal[];
+  // Transform to our types
+  const courses: MenuCourse[] = parsed.menu.courses.map(toMenuCourse);
+  return {
+    courses,
+    reasoning: parsed.menu.reasoning,
+    wineStrategy: parsed.menu.wineStrategy,
+    seasonContext: parsed.menu.seasonContext,
+    guestConsiderations: parsed.menu.guestConsiderations || [],
+    totalPrepTime: parsed.menu.totalPrepTime,
+    generatedAt: Timestamp.now(),
   };
 }
 
-async function generateProposal(context: ProposalContext): Promise<GeneratedProposal> {
+/**
+ * Fills the dinner, guests and cellar placeholders shared by the menu and
+ * course prompts.
+ */
+function fillDinnerContext(template: string, context: ProposalContext): string {
+  const { language } = context;
   const userNotesSection = context.dinner.notes
-    ? `\nRICHIESTE SPECIFICHE DELL'UTENTE:\n${context.dinner.notes}`
+    ? `\n${promptText(language, 'userNotes', { notes: context.dinner.notes })}`
     : '';
 
-  // Handle iOS model which uses 'title' instead of 'name' and may not have style/cookingTime/budgetLevel
-  const dinnerName = (context.dinner as any).title || context.dinner.name || 'Cena';
-  const dinnerStyle = context.dinner.style || 'conviviale';
+  // Handle iOS model which uses 'title' instead of 'name' and may not have style/cookingTime
+  const dinnerName = dinnerTitle(context.dinner, language);
+  const dinnerStyle = context.dinner.style || 'convivial';
   const cookingTime = context.dinner.cookingTime || 'twoHours';
-  const budgetLevel = context.dinner.budgetLevel || 'standard';
-  const guestCount = (context.dinner as any).guestCount || context.guests.length || 4;
+  // Same head count as the wine plan and the budget
+  const people = partySize(context.dinner, context.guests.length);
 
-  const prompt = PROPOSAL_PROMPT
+  return template
     .replace('{dinner_name}', dinnerName)
-    .replace('{dinner_date}', context.dinner.date.toDate().toLocaleDateString('it-IT'))
-    .replace('{season}', context.season)
+    .replace('{dinner_date}', formatDate(context.dinner.date.toDate(), language))
+    .replace('{season}', SEASON_NAMES[language][context.season])
     .replace('{dinner_style}', dinnerStyle)
     .replace('{cooking_time}', cookingTime)
-    .replace('{budget_level}', budgetLevel)
+    .replace('{budget_level}', describeBudget(context.budget, people, language))
     .replace('{user_notes}', userNotesSection)
-    .replace('{guest_count}', guestCount.toString())
-    .replace('{dietary_summary}', context.dietarySummary.length > 0 ? context.dietarySummary.join('\n') : 'Nessun ospite registrato')
-    .replace('{inventory_summary}', context.inventorySummary || 'Nessun vino in cantina');
+    .replace(/\{guest_count\}/g, people.toString())
+    .replace('{dietary_summary}', context.dietarySummary.length > 0
+      ? context.dietarySummary.join('\n')
+      : promptText(language, 'noGuests'))
+    .replace('{inventory_summary}', context.inventorySummary || promptText(language, 'noWines'))
+    .replace('{guest_history}', guestHistorySection(context));
+}
 
-  // Log AI input
-  logger.info('=== AI REQUEST (proposeDinnerMenu) ===');
-  logger.info('USER NOTES: ' + (context.dinner.notes || 'NESSUNA'));
-  logger.info('FULL PROMPT:', { prompt });
+function guestHistorySection(context: ProposalContext): string {
+  if (context.history.length === 0) return '';
+
+  const { language } = context;
+  const rule = promptText(language, context.dinner.allowHouseClassics ? 'historyHouseClassics' : 'historyNoRepeats');
 
+  return `\n${promptText(language, 'historyHeader')}\n${summarizeGuestHistory(context.history, language)}\n${rule}\n`;
+}
+
+async function requestJson(prompt: string, label: string): Promise<any> {
   const response = await anthropic.messages.create({
     model: 'claude-sonnet-4-20250514',
     max_tokens: 4096,
@@ -468,7 +867,7 @@ async function generateProposal(context: ProposalContext): Promise<GeneratedProp
     .join('');
 
   // Log AI output
-  logger.info('=== AI RESPONSE (proposeDinnerMenu) ===');
+  logger.info(`=== AI RESPONSE (${label}) ===`);
   logger.info('RESPONSE:', { responseText });
 
   // Parse JSON
@@ -477,79 +876,373 @@ async function generateProposal(context: ProposalContext): Promise<GeneratedProp
     .replace(/```\n?/g, '')
     .trim();
 
-  const parsed = JSON.parse(jsonText);
+  return JSON.parse(jsonText);
+}
 
-  // Transform to our types
-  const menu: MenuProposal = {
-    courses: parsed.menu.courses.map((c: any) => ({
-      course: c.course as CourseType,
-      name: c.name,
-      description: c.description,
-      dietaryFlags: c.dietaryFlags || [],
-      prepTime: c.prepTime,
-      notes: c.notes,
-      cellarWine: c.cellarWine ? {
+function toMenuCourse(c: any): MenuCourse {
+  const priceRange = parsePriceRange(c.marketWine?.priceRange);
+  return {
+    course: c.course as CourseType,
+    name: c.name,
+    description: c.description,
+    dietaryFlags: c.dietaryFlags || [],
+    ...(Array.isArray(c.ingredients) && c.ingredients.length > 0 && { ingredients: c.ingredients.map(String) }),
+    prepTime: c.prepTime,
+    ...(c.notes && { notes: c.notes }),
+    ...(c.cellarWine && {
+      cellarWine: {
         name: c.cellarWine.name,
         reasoning: c.cellarWine.reasoning,
-      } : undefined,
-      marketWine: c.marketWine ? {
+        ...(c.cellarWine.wineId && { wineId: String(c.cellarWine.wineId) }),
+      },
+    }),
+    ...(c.marketWine && {
+      marketWine: {
         name: c.marketWine.name,
         reasoning: c.marketWine.reasoning,
         details: c.marketWine.details,
-      } : undefined,
-    })),
-    reasoning: parsed.menu.reasoning,
-    wineStrategy: parsed.menu.wineStrategy,
-    seasonContext: parsed.menu.seasonContext,
-    guestConsiderations: parsed.menu.guestConsiderations || [],
-    totalPrepTime: parsed.menu.totalPrepTime,
-    generatedAt: Timestamp.now(),
+        ...(priceRange && { priceRange }),
+      },
+    }),
   };
+}
 
-  // Extract wine proposals
-  const availableWines: WineProposal[] = [];
-  const suggestedWines: WineProposal[] = [];
+function collectWineProposals(
+  menu: MenuProposal,
+  dinnerId: string
+): { available: WineProposal[]; suggested: WineProposal[] } {
+  const proposals = menu.courses.map((course, courseIndex) =>
+    buildWineProposals(course, courseIndex, dinnerId, menu.winePlan)
+  );
+  return {
+    available: proposals.flatMap(p => p.available),
+    suggested: proposals.flatMap(p => p.suggested),
+  };
+}
 
-  for (const c of parsed.menu.courses) {
-    if (c.cellarWine) {
-      const matchedWine = context.inventory.find(inv =>
-        inv.name.toLowerCase().includes(c.cellarWine.name.toLowerCase()) ||
-        c.cellarWine.name.toLowerCase().includes(inv.name.toLowerCase())
-      );
+/** The wine's bottles for the whole dinner: proposals of the same wine share one reservation */
+function plannedBottles(
+  winePlan: WinePlanEntry[],
+  source: WinePlanEntry['source'],
+  courseIndex: number
+): number | undefined {
+  return winePlan.find(e => e.source === source && e.courseIndexes.includes(courseIndex))?.bottlesNeeded;
+}
 
-      availableWines.push({
-        id: '',
-        dinnerId: context.dinner.id,
-        type: 'available',
-        wineId: matchedWine?.id,
-        course: c.course as CourseType,
-        reasoning: c.cellarWine.reasoning,
-        isSelected: false,
-        createdAt: Timestamp.now(),
-      });
+function buildWineProposals(
+  course: MenuCourse,
+  courseIndex: number,
+  dinnerId: string,
+  winePlan: WinePlanEntry[] = []
+): { available: WineProposal[]; suggested: WineProposal[] } {
+  const available: WineProposal[] = [];
+  const suggested: WineProposal[] = [];
+
+  const bottlesNeeded = (source: WinePlanEntry['source']) => plannedBottles(winePlan, source, courseIndex);
+
+  if (course.cellarWine) {
+    available.push({
+      id: '',
+      dinnerId,
+      type: 'available',
+      wineId: course.cellarWine.wineId,
+      course: course.course,
+      courseIndex,
+      reasoning: course.cellarWine.reasoning,
+      bottlesNeeded: bottlesNeeded('cellar'),
+      isSelected: false,
+      createdAt: Timestamp.now(),
+    });
+  }
+
+  if (course.marketWine) {
+    suggested.push({
+      id: '',
+      dinnerId,
+      type: 'suggested_purchase',
+      suggestedWineName: course.marketWine.name,
+      suggestedWineDetails: course.marketWine.details,
+      ...(course.marketWine.priceRange && { priceRange: course.marketWine.priceRange }),
+      course: course.course,
+      courseIndex,
+      reasoning: course.marketWine.reasoning,
+      bottlesNeeded: bottlesNeeded('market'),
+      isSelected: false,
+      createdAt: Timestamp.now(),
+    });
+  }
+
+  return { available, suggested };
+}
+
+interface CourseInstructions {
+  /** From the user */
+  instruction?: string;
+  /** From the dietary validator */
+  dietary?: string;
+  /** From the guest history check */
+  variety?: string;
+}
+
+interface GeneratedCourse {
+  course: MenuCourse;
+  wineStrategy?: string;
+}
+
+async function generateCourse(
+  context: ProposalContext,
+  menu: MenuProposal,
+  courseIndex: number,
+  { instruction, dietary, variety }: CourseInstructions = {}
+): Promise<GeneratedCourse> {
+  const target = menu.courses[courseIndex];
+
+  const { language } = context;
+  const currentMenu = menu.courses
+    .map((c, i) => {
+      let line = `${i + 1}. [${c.course}] ${c.name}`;
+      if (i === courseIndex) return `${line} ${promptText(language, 'courseToReplace')}`;
+      line += ` - ${c.description}`;
+      if (c.cellarWine) {
+        line += ` | ${promptText(language, 'courseCellarWine')}: ` +
+          `${c.cellarWine.wineId ? `[${c.cellarWine.wineId}] ` : ''}${c.cellarWine.name}`;
+      }
+      if (c.marketWine) line += ` | ${promptText(language, 'courseMarketWine')}: ${c.marketWine.name}`;
+      return line;
+    })
+    .join('\n');
+
+  const prompt = fillDinnerContext(COURSE_PROMPTS[language], context)
+    .replace('{current_menu}', currentMenu)
+    .replace('{wine_strategy}', menu.wineStrategy || promptText(language, 'wineStrategyUnset'))
+    .replace('{course_number}', String(courseIndex + 1))
+    .replace(/\{course_type\}/g, target.course)
+    .replace('{course_name}', target.name)
+    .replace('{instruction}', [
+      instruction && promptText(language, 'userInstruction', { text: instruction }),
+      dietary && promptText(language, 'dietaryConstraint', { text: dietary }),
+      variety && promptText(language, 'varietyConstraint', { text: variety }),
+    ].filter(Boolean).join('\n'));
+
+  // Log AI input
+  logger.info('=== AI REQUEST (regenerateCourse) ===');
+  logger.info('INSTRUCTION: ' + (instruction || 'NESSUNA'));
+  if (dietary) logger.info('DIETARY: ' + dietary);
+  if (variety) logger.info('VARIETY: ' + variety);
+  logger.info('FULL PROMPT:', { prompt });
+
+  const parsed = await requestJson(prompt, 'regenerateCourse');
+
+  return {
+    course: toMenuCourse({ course: target.course, ...parsed.course }),
+    ...(parsed.wineStrategy && { wineStrategy: parsed.wineStrategy }),
+  };
+}
+
+function replaceCourse(menu: MenuProposal, courseIndex: number, generated: GeneratedCourse): MenuProposal {
+  const previous = menu.courses[courseIndex];
+  const { course, wineStrategy } = generated;
+  return {
+    ...menu,
+    courses: menu.courses.map((c, i) => i === courseIndex ? course : c),
+    ...(wineStrategy && { wineStrategy }),
+    totalPrepTime: Math.max(0, (menu.totalPrepTime || 0) - (previous.prepTime || 0) + (course.prepTime || 0)),
+  };
+}
+
+// ============================================================
+// WINE PLAN
+// ============================================================
+
+/**
+ * Checks a cellar pairing against the inventory. The model picks by ID;
+ * a missing or unknown ID falls back to matching the name, and a pairing
+ * that matches no available wine is dropped, as is a wine too young to
+ * serve at the dinner.
+ */
+function resolveCellarPairing(pairing: WinePairing, context: ProposalContext): WinePairing | undefined {
+  const byId = pairing.wineId
+    ? context.inventory.find(w => w.id === pairing.wineId)
+    : undefined;
+  const wine = byId ?? findWineByDescription(pairing.name, context.inventory)?.wine;
+
+  if (!wine) {
+    logger.warn('Cellar pairing not in inventory, dropped', { wineId: pairing.wineId, name: pairing.name });
+    return undefined;
+  }
+
+  if (context.inventory.find(w => w.id === wine.id)?.drinkingStatus === 'too_young') {
+    logger.warn('Cellar pairing too young for the dinner, dropped', { wineId: wine.id, window: wine.drinkingWindow });
+    return undefined;
+  }
+
+  if (!byId) {
+    logger.warn('Cellar pairing matched by name', { wineId: pairing.wineId, name: pairing.name, matched: wine.id });
+  }
+
+  return { ...pairing, wineId: wine.id };
+}
+
+/** Validates the cellar pairings, computes the bottles each wine needs and what the wines cost */
+function finalizeWinePlan(context: ProposalContext, menu: MenuProposal): MenuProposal {
+  const courses = menu.courses.map(course => {
+    if (!course.cellarWine) return course;
+
+    const { cellarWine, ...rest } = course;
+    const resolved = resolveCellarPairing(cellarWine, context);
+    return resolved ? { ...rest, cellarWine: resolved } : rest;
+  });
+
+  const people = partySize(context.dinner, context.guests.length);
+  const availableBottles = new Map(context.inventory.map(w => [w.id, w.availableBottles]));
+  const cellarPrices = new Map(
+    context.inventory.flatMap(w => w.averagePrice !== undefined ? [[w.id, w.averagePrice] as const] : [])
+  );
+  const winePlan = buildWinePlan(courses, people, availableBottles, cellarPrices);
+  const wineCost = summarizeWineCost(courses, winePlan, people, context.budget);
+
+  const shortfalls = winePlan.filter(e => (e.shortfall ?? 0) > 0);
+  if (shortfalls.length > 0) {
+    logger.warn('Not enough cellar bottles for the dinner', {
+      people,
+      shortfalls: shortfalls.map(e => ({ wineId: e.wineId, needed: e.bottlesNeeded, available: e.availableBottles })),
+    });
+  }
+
+  if (wineCost.status !== 'within') {
+    logger.warn('Wine plan may exceed the dinner budget', { people, ...wineCost });
+  }
+
+  return { ...menu, courses, winePlan, wineCost };
+}
+
+// ============================================================
+// REVIEW
+// ============================================================
+
+/**
+ * Checks that every generated menu goes through: dishes the guests already
+ * had are replaced, then dietary violations (which must win), then cellar
+ * picks are validated and bottles planned. `courseIndexes` limits the
+ * regenerations to the courses just replaced.
+ */
+async function reviewMenu(
+  context: ProposalContext,
+  menu: MenuProposal,
+  options: { courseIndexes?: number[]; instruction?: string } = {}
+): Promise<MenuProposal> {
+  const varied = await avoidRepeats(context, menu, options);
+  const checked = await enforceDietaryRules(context, varied, options);
+  return annotateRepeats(context, finalizeWinePlan(context, checked));
+}
+
+// ============================================================
+// GUEST HISTORY CHECK
+// ============================================================
+
+/**
+ * Regenerates once the courses (all, or only courseIndexes) whose dish the
+ * guests already had at a previous dinner. Skipped for dinners that allow
+ * house classics.
+ */
+async function avoidRepeats(
+  context: ProposalContext,
+  menu: MenuProposal,
+  options: { courseIndexes?: number[]; instruction?: string } = {}
+): Promise<MenuProposal> {
+  if (context.dinner.allowHouseClassics || context.history.length === 0) return menu;
+
+  const repeated = new Map<number, Repeat[]>();
+  for (const repeat of findRepeats(menu.courses, context.history)) {
+    if (repeat.kind !== 'dish') continue;
+    if (options.courseIndexes && !options.courseIndexes.includes(repeat.courseIndex)) continue;
+    repeated.set(repeat.courseIndex, [...(repeated.get(repeat.courseIndex) || []), repeat]);
+  }
+
+  let current = menu;
+  for (const [courseIndex, repeats] of repeated) {
+    logger.info('Course repeats a previous dinner', {
+      courseIndex,
+      name: current.courses[courseIndex].name,
+      previousDinnerId: repeats[0].previous.dinnerId,
+    });
+
+    const generated = await generateCourse(context, current, courseIndex, {
+      instruction: options.instruction,
+      variety: buildRepeatInstruction(repeats, context.language),
+    });
+    current = replaceCourse(current, courseIndex, generated);
+  }
+
+  return current;
+}
+
+/** Lists the dishes and wines the guests already had in guestConsiderations */
+function annotateRepeats(context: ProposalContext, menu: MenuProposal): MenuProposal {
+  const repeats = findRepeats(menu.courses, context.history);
+  return {
+    ...menu,
+    guestConsiderations: withRepeatNotes(
+      menu.guestConsiderations || [],
+      repeats,
+      !!context.dinner.allowHouseClassics,
+      context.language
+    ),
+  };
+}
+
+// ============================================================
+// DIETARY CHECK
+// ============================================================
+
+const MAX_DIETARY_ATTEMPTS = 2;
+
+/**
+ * Regenerates the courses (all, or only courseIndexes) that contain an
+ * ingredient a guest cannot eat, up to MAX_DIETARY_ATTEMPTS times each.
+ * Whatever is still flagged afterwards is listed in guestConsiderations.
+ */
+async function enforceDietaryRules(
+  context: ProposalContext,
+  menu: MenuProposal,
+  options: { courseIndexes?: number[]; instruction?: string } = {}
+): Promise<MenuProposal> {
+  const guests = context.guests.map(g => ({ name: g.friend.name, preferences: g.preferences }));
+  let current = menu;
+
+  for (let attempt = 1; attempt <= MAX_DIETARY_ATTEMPTS; attempt++) {
+    const violations = new Map<number, DietaryIssue[]>();
+    for (const issue of validateMenu(current.courses, guests, context.language)) {
+      if (issue.level !== 'violation') continue;
+      if (options.courseIndexes && !options.courseIndexes.includes(issue.courseIndex)) continue;
+      violations.set(issue.courseIndex, [...(violations.get(issue.courseIndex) || []), issue]);
     }
+    if (violations.size === 0) break;
+
+    for (const [courseIndex, issues] of violations) {
+      logger.warn('Course violates dietary restrictions', {
+        courseIndex,
+        name: current.courses[courseIndex].name,
+        attempt,
+        issues: issues.map(i => ({ guest: i.guestName, restriction: i.restriction, matches: i.matches })),
+      });
 
-    if (c.marketWine) {
-      suggestedWines.push({
-        id: '',
-        dinnerId: context.dinner.id,
-        type: 'suggested_purchase',
-        suggestedWineName: c.marketWine.name,
-        suggestedWineDetails: c.marketWine.details,
-        course: c.course as CourseType,
-        reasoning: c.marketWine.reasoning,
-        isSelected: false,
-        createdAt: Timestamp.now(),
+      const generated = await generateCourse(context, current, courseIndex, {
+        instruction: options.instruction,
+        dietary: buildDietaryInstruction(issues, context.language),
       });
+      current = replaceCourse(current, courseIndex, generated);
     }
   }
 
+  const remaining = validateMenu(current.courses, guests, context.language);
+  if (remaining.length > 0) {
+    logger.warn('Dietary issues left in menu', { count: remaining.length });
+  }
+
   return {
-    menu,
-    wines: {
-      available: availableWines,
-      suggested: suggestedWines,
-    },
+    ...current,
+    guestConsiderations: withDietaryWarnings(current.guestConsiderations || [], remaining, context.language),
   };
 }
 
@@ -561,16 +1254,102 @@ async function saveDinnerProposal(
   userId: string,
   dinnerId: string,
   menu: MenuProposal,
-  wines: { available: WineProposal[]; suggested: WineProposal[] }
-): Promise<void> {
+  wines: { available: WineProposal[]; suggested: WineProposal[] },
+  dinnerFields: Record<string, unknown> = {}
+): Promise<{ available: WineProposal[]; suggested: WineProposal[] }> {
+  // Bottles held by the previous proposals go back to the cellar
+  await releaseDinnerReservations(userId, dinnerId, 'Nuova proposta menu');
+
+  const proposalsRef = db.collection('users').doc(userId)
+    .collection('dinners').doc(dinnerId)
+    .collection('proposals');
+  const previous = await proposalsRef.get();
+
+  const batch = db.batch();
+  previous.docs.forEach(doc => batch.delete(doc.ref));
+
+  const saved = {
+    available: wines.available.map(p => storeProposal(batch, proposalsRef, p)),
+    suggested: wines.suggested.map(p => storeProposal(batch, proposalsRef, p)),
+  };
+
   // Dinners are in top-level collection
   const dinnerRef = db.collection('dinners').doc(dinnerId);
 
   // Update dinner with menu proposal (iOS uses 'menu' field)
-  await dinnerRef.update({
+  batch.update(dinnerRef, {
+    menu: menu,
+    ...dinnerFields,
+    updatedAt: Timestamp.now(),
+  });
+
+  await batch.commit();
+
+  logger.info('Saved menu proposal to dinner', {
+    dinnerId,
+    proposals: saved.available.length + saved.suggested.length,
+  });
+  return saved;
+}
+
+async function saveRegeneratedCourse(
+  userId: string,
+  dinnerId: string,
+  menu: MenuProposal,
+  courseIndex: number,
+  wines: { available: WineProposal[]; suggested: WineProposal[] }
+): Promise<{ available: WineProposal[]; suggested: WineProposal[] }> {
+  // Bottles held for the replaced dish go back to the cellar
+  await releaseDinnerReservations(userId, dinnerId, 'Portata rigenerata', { courseIndex });
+
+  const proposalsRef = db.collection('users').doc(userId)
+    .collection('dinners').doc(dinnerId)
+    .collection('proposals');
+  const previous = await proposalsRef.get();
+
+  const batch = db.batch();
+  for (const doc of previous.docs) {
+    const proposal = doc.data() as WineProposal;
+    if (proposal.courseIndex === courseIndex) {
+      batch.delete(doc.ref);
+      continue;
+    }
+
+    // The new dish can change how many bottles a wine shared with other courses needs
+    const source = proposal.type === 'available' ? 'cellar' : 'market';
+    const bottlesNeeded = plannedBottles(menu.winePlan ?? [], source, proposal.courseIndex);
+    if (bottlesNeeded !== proposal.bottlesNeeded) {
+      batch.update(doc.ref, { bottlesNeeded: bottlesNeeded ?? FieldValue.delete() });
+    }
+  }
+
+  const saved = {
+    available: wines.available.map(p => storeProposal(batch, proposalsRef, p)),
+    suggested: wines.suggested.map(p => storeProposal(batch, proposalsRef, p)),
+  };
+
+  batch.update(db.collection('dinners').doc(dinnerId), {
     menu: menu,
     updatedAt: Timestamp.now(),
   });
 
-  logger.info('Saved menu proposal to dinner', { dinnerId });
+  await batch.commit();
+
+  logger.info('Saved regenerated course', { dinnerId, courseIndex });
+  return saved;
+}
+
+function storeProposal(
+  batch: WriteBatch,
+  proposalsRef: CollectionReference,
+  proposal: WineProposal
+): WineProposal {
+  const ref = proposalsRef.doc();
+  const { id: _id, ...data } = proposal;
+  // Firestore rejects undefined values (wineId when no cellar match)
+  const stored = Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  );
+  batch.set(ref, stored);
+  return { ...proposal, id: ref.id };
 }
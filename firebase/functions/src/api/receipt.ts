@@ -0,0 +1,260 @@
+/**
+ * Import Purchase Receipt
+ *
+ * Pipeline:
+ * 1. Receive a receipt/invoice (photo or PDF) uploaded to the user's Storage folder
+ * 2. Document OCR
+ * 3. Claude extracts seller, date and wine line items (prompt in the user's language)
+ * 4. Fuzzy matching of each line with the user's wines
+ * 5. Save as a pending extraction with the proposed bottles,
+ *    to be confirmed with confirmReceiptImport
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import Anthropic from '@anthropic-ai/sdk';
+import { logger } from 'firebase-functions';
+import { z } from 'zod';
+import { resolveUserObjectUrl } from '../services/images';
+import { getOcrProvider } from '../services/ocr';
+import { loadCellarWines } from '../services/cellar';
+import { rankWineMatches } from '../services/wineMatching';
+import { loadUserLanguage, t } from '../services/i18n';
+import { RECEIPT_PROMPTS } from '../services/prompts';
+import type {
+  Extraction,
+  ImportReceiptRequest,
+  ImportReceiptResponse,
+  Language,
+  ReceiptExtractionResult,
+  ReceiptLineItem
+} from '../types';
+
+const db = getFirestore();
+
+const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+});
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+const MIN_OCR_LENGTH = 10;
+
+// Minimum match score (0-100) to propose linking a line to an existing wine
+const LINK_MATCH_THRESHOLD = 70;
+
+const RequestSchema = z.object({
+  fileUrl: z.string().url(),
+  mimeType: z.string().regex(/^(image\/[\w.+-]+|application\/pdf)$/).optional(),
+  language: z.string().max(10).optional(),
+  userId: z.string().min(1),
+});
+
+/** YYYY-MM-DD naming a real day: Date.parse rolls 2024-02-31 over to March 2 */
+function isCalendarDate(value: string): boolean {
+  const time = Date.parse(value);
+  return !isNaN(time) && new Date(time).toISOString().slice(0, 10) === value;
+}
+
+const ReceiptSchema = z.object({
+  seller: z.string().optional(),
+  // A date the model misread is dropped rather than failing the import
+  purchaseDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).refine(isCalendarDate).optional().catch(undefined),
+  currency: z.string().optional(),
+  total: z.number().optional(),
+  lines: z.array(z.object({
+    description: z.string(),
+    isWine: z.boolean(),
+    name: z.string().optional(),
+    producer: z.string().optional(),
+    vintage: z.number().int().optional(),
+    type: z.enum(['red', 'white', 'rosé', 'sparkling', 'dessert', 'fortified']).optional(),
+    quantity: z.number().int().min(1),
+    unitPrice: z.number().optional(),
+  })),
+});
+
+// ============================================================
+// MAIN FUNCTION
+// ============================================================
+
+export const importPurchaseReceipt = onCall<ImportReceiptRequest>(
+  {
+    region: 'europe-west1',
+    memory: '512MiB',
+    timeoutSeconds: 120,
+    secrets: ['ANTHROPIC_API_KEY'],
+  },
+  async (request): Promise<ImportReceiptResponse> => {
+    // Validate request
+    const validation = RequestSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
+
+    const { userId } = validation.data;
+    const mimeType = validation.data.mimeType ?? guessMimeType(validation.data.fileUrl);
+
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot import for another user');
+    }
+
+    // Only the caller's own uploads are read, by their gs:// URL
+    const fileUrl = resolveUserObjectUrl(validation.data.fileUrl, userId);
+    if (!fileUrl) {
+      throw new HttpsError('permission-denied', 'Receipts must be uploaded to your own storage folder');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+
+    logger.info('Starting receipt import', { userId, mimeType, language });
+
+    try {
+      // Step 1: Document OCR
+      const ocrText = await getOcrProvider().detectDocumentText(fileUrl, mimeType);
+      logger.info('OCR completed', { textLength: ocrText.length });
+
+      if (ocrText.length < MIN_OCR_LENGTH) {
+        return {
+          success: false,
+          error: t(language, 'noTextInDocument'),
+        };
+      }
+
+      // Step 2: LLM line item extraction
+      const parsed = await interpretReceiptWithLlm(ocrText, language);
+      const wineLines = parsed.lines.filter(line => line.isWine);
+      logger.info('Receipt interpretation completed', {
+        lines: parsed.lines.length,
+        wineLines: wineLines.length,
+      });
+
+      // Step 3: Match each line with the user's wines
+      const cellarWines = wineLines.length > 0 ? await loadCellarWines(userId) : [];
+
+      const lines: ReceiptLineItem[] = wineLines.map(({ isWine: _isWine, ...line }) => {
+        const [best] = rankWineMatches({
+          name: line.name,
+          producer: line.producer,
+          vintage: line.vintage,
+          type: line.type,
+        }, cellarWines, { limit: 1 });
+        const linked = best && best.score >= LINK_MATCH_THRESHOLD;
+
+        return {
+          ...line,
+          ...(linked && {
+            match: { wineId: best.wine.id, name: best.wine.name, score: best.score },
+          }),
+          proposedAction: linked ? 'link' : 'create',
+        };
+      });
+
+      const receipt: ReceiptExtractionResult = {
+        ocrText,
+        fileUrl,
+        mimeType,
+        ...(parsed.seller && { seller: parsed.seller }),
+        ...(parsed.purchaseDate && { purchaseDate: parsed.purchaseDate }),
+        ...(parsed.currency && { currency: parsed.currency }),
+        ...(parsed.total !== undefined && { total: parsed.total }),
+        lines,
+      };
+
+      // Step 4: Persist for confirmation
+      const extractionId = await saveReceiptExtraction(userId, receipt);
+
+      return {
+        success: true,
+        extractionId,
+        receipt,
+      };
+
+    } catch (error) {
+      logger.error('Receipt import failed', { userId, error });
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError('internal', t(language, 'receiptImportFailed', { error: (error as Error).message }));
+    }
+  }
+);
+
+function guessMimeType(fileUrl: string): string {
+  const path = fileUrl.split('?')[0].toLowerCase();
+  if (path.endsWith('.pdf')) return 'application/pdf';
+  if (path.endsWith('.png')) return 'image/png';
+  if (path.endsWith('.heic')) return 'image/heic';
+  return 'image/jpeg';
+}
+
+// ============================================================
+// LLM INTERPRETATION
+// ============================================================
+
+async function interpretReceiptWithLlm(
+  ocrText: string,
+  language: Language
+): Promise<z.infer<typeof ReceiptSchema>> {
+  const prompt = RECEIPT_PROMPTS[language].replace('{ocr_text}', ocrText);
+
+  // Log AI input
+  logger.info('=== AI REQUEST (importPurchaseReceipt) ===');
+  logger.info('OCR TEXT:', { ocrText });
+
+  const response = await anthropic.messages.create({
+    model: 'claude-sonnet-4-20250514',
+    max_tokens: 4096,
+    messages: [
+      { role: 'user', content: prompt }
+    ],
+  });
+
+  const responseText = response.content
+    .filter(block => block.type === 'text')
+    .map(block => (block as { type: 'text'; text: string }).text)
+    .join('');
+
+  // Log AI output
+  logger.info('=== AI RESPONSE (importPurchaseReceipt) ===');
+  logger.info('RESPONSE:', { responseText });
+
+  // Parse JSON response
+  const jsonText = responseText
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim();
+
+  return ReceiptSchema.parse(JSON.parse(jsonText));
+}
+
+// ============================================================
+// PERSISTENCE
+// ============================================================
+
+async function saveReceiptExtraction(
+  userId: string,
+  receipt: ReceiptExtractionResult
+): Promise<string> {
+  const now = Timestamp.now();
+  const extraction: Omit<Extraction, 'id'> = {
+    userId,
+    mode: 'receipt',
+    status: 'pending',
+    receiptResult: receipt,
+    suggestedMatchIds: [...new Set(receipt.lines.flatMap(l => l.match ? [l.match.wineId] : []))],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const ref = await db.collection('users').doc(userId)
+    .collection('extractions').add(extraction);
+
+  logger.info('Saved receipt extraction', { userId, extractionId: ref.id });
+  return ref.id;
+}
@@ -0,0 +1,371 @@
+/**
+ * Shopping List
+ *
+ * Genera la lista della spesa per il menu di una cena:
+ * 1. LLM estrae gli ingredienti di ogni portata (dose per persona o per piatto),
+ *    nella lingua dell'utente come i reparti e l'esportazione
+ * 2. Quantità scalate sul numero di commensali, unite tra le portate e
+ *    raggruppate per reparto
+ * 3. Aggiunge le bottiglie dei marketWine da comprare (escluse le portate
+ *    per cui è già stato scelto un vino della cantina)
+ * 4. Salva la lista sulla cena (campo 'shoppingList')
+ *
+ * toggleShoppingItem spunta/toglie la spunta da un articolo,
+ * exportShoppingList restituisce la lista come testo o Markdown.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import Anthropic from '@anthropic-ai/sdk';
+import { logger } from 'firebase-functions';
+import { z } from 'zod';
+import {
+  buildIngredientItems,
+  buildWineItems,
+  carryOverChecked,
+  renderShoppingList,
+  sortShoppingItems,
+  CourseIngredient,
+  SHOPPING_SECTION_LABELS,
+  SHOPPING_SECTIONS
+} from '../services/shopping';
+import { loadUserLanguage, t } from '../services/i18n';
+import { INGREDIENTS_PROMPTS } from '../services/prompts';
+import { partySize, planWineServings } from '../services/winePlanning';
+import { dinnerTitle, loadDinner, loadMenu } from '../services/dinners';
+import type {
+  DinnerEvent,
+  ExportShoppingListRequest,
+  ExportShoppingListResponse,
+  GenerateShoppingListRequest,
+  GenerateShoppingListResponse,
+  Language,
+  MenuProposal,
+  ShoppingItem,
+  ShoppingList,
+  ToggleShoppingItemRequest,
+  ToggleShoppingItemResponse,
+  WineProposal
+} from '../types';
+
+const db = getFirestore();
+
+const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+});
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+const GenerateSchema = z.object({
+  dinnerId: z.string().min(1),
+  language: z.string().max(10).optional(),
+  userId: z.string().min(1),
+});
+
+const ToggleSchema = z.object({
+  dinnerId: z.string().min(1),
+  itemId: z.string().min(1),
+  checked: z.boolean(),
+  language: z.string().max(10).optional(),
+  userId: z.string().min(1),
+});
+
+const ExportSchema = z.object({
+  dinnerId: z.string().min(1),
+  format: z.enum(['text', 'markdown']),
+  includeChecked: z.boolean().optional(),
+  language: z.string().max(10).optional(),
+  userId: z.string().min(1),
+});
+
+// ============================================================
+// GENERATE
+// ============================================================
+
+export const generateShoppingList = onCall<GenerateShoppingListRequest>(
+  {
+    region: 'europe-west1',
+    memory: '512MiB',
+    timeoutSeconds: 120,
+    secrets: ['ANTHROPIC_API_KEY'],
+  },
+  async (request): Promise<GenerateShoppingListResponse> => {
+    // Validate request
+    const validation = GenerateSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
+
+    const { dinnerId, userId } = validation.data;
+
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot generate shopping lists for another user');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+
+    logger.info('Generating shopping list', { userId, dinnerId, language });
+
+    try {
+      const dinner = await loadDinner(userId, dinnerId);
+      if (!dinner) {
+        throw new HttpsError('not-found', t(language, 'dinnerNotFound'));
+      }
+
+      const menu = loadMenu(dinner);
+      if (!menu) {
+        throw new HttpsError('failed-precondition', t(language, 'dinnerHasNoMenu'));
+      }
+
+      const dinnerRef = db.collection('users').doc(userId).collection('dinners').doc(dinnerId);
+      const [guestsSnapshot, selectedSnapshot] = await Promise.all([
+        dinnerRef.collection('guests').get(),
+        dinnerRef.collection('proposals').where('isSelected', '==', true).get(),
+      ]);
+
+      const people = partySize(dinner, guestsSnapshot.size);
+
+      // Ingredients
+      const ingredients = await extractIngredients(menu, language);
+      const ingredientItems = buildIngredientItems(ingredients, people);
+
+      // Wines to buy: skip courses already covered by a cellar bottle
+      const coveredByCellar = new Set(
+        selectedSnapshot.docs
+          .map(doc => doc.data() as WineProposal)
+          .filter(p => p.type === 'available')
+          .map(p => p.courseIndex)
+      );
+      const wineItems = buildWineItems(
+        planWineServings(menu.courses, people, (course, courseIndex) =>
+          coveredByCellar.has(courseIndex) ? undefined : course.marketWine
+        )
+      );
+
+      const now = Timestamp.now();
+      const shoppingList: ShoppingList = {
+        items: sortShoppingItems(
+          carryOverChecked([...ingredientItems, ...wineItems], dinner.shoppingList)
+        ),
+        partySize: people,
+        generatedAt: now,
+        updatedAt: now,
+      };
+
+      await db.collection('dinners').doc(dinnerId).update({
+        shoppingList,
+        updatedAt: now,
+      });
+
+      logger.info('Shopping list generated', {
+        dinnerId,
+        partySize: people,
+        ingredients: ingredientItems.length,
+        wines: wineItems.length,
+      });
+
+      return {
+        success: true,
+        shoppingList,
+      };
+
+    } catch (error) {
+      logger.error('Shopping list generation failed', { userId, dinnerId, error });
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError('internal', t(language, 'shoppingFailed', { error: (error as Error).message }));
+    }
+  }
+);
+
+// ============================================================
+// TOGGLE
+// ============================================================
+
+export const toggleShoppingItem = onCall<ToggleShoppingItemRequest>(
+  {
+    region: 'europe-west1',
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request): Promise<ToggleShoppingItemResponse> => {
+    // Validate request
+    const validation = ToggleSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
+
+    const { dinnerId, itemId, checked, userId } = validation.data;
+
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot update shopping lists for another user');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+    const dinnerRef = db.collection('dinners').doc(dinnerId);
+
+    try {
+      const item = await db.runTransaction(async (tx) => {
+        const dinnerDoc = await tx.get(dinnerRef);
+        const dinner = dinnerDoc.data() as DinnerEvent | undefined;
+        if (!dinner || dinner.hostId !== userId) {
+          throw new HttpsError('not-found', t(language, 'dinnerNotFound'));
+        }
+
+        const list = dinner.shoppingList;
+        const current = list?.items.find(i => i.id === itemId);
+        if (!list || !current) {
+          throw new HttpsError('not-found', t(language, 'shoppingItemNotFound'));
+        }
+
+        if (current.checked === checked) {
+          return current;
+        }
+
+        const updated: ShoppingItem = { ...current, checked };
+        tx.update(dinnerRef, {
+          'shoppingList.items': list.items.map(i => i.id === itemId ? updated : i),
+          'shoppingList.updatedAt': Timestamp.now(),
+        });
+        return updated;
+      });
+
+      return {
+        success: true,
+        item,
+      };
+
+    } catch (error) {
+      logger.error('Shopping item update failed', { userId, dinnerId, itemId, error });
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError('internal', t(language, 'shoppingUpdateFailed', { error: (error as Error).message }));
+    }
+  }
+);
+
+// ============================================================
+// EXPORT
+// ============================================================
+
+export const exportShoppingList = onCall<ExportShoppingListRequest>(
+  {
+    region: 'europe-west1',
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request): Promise<ExportShoppingListResponse> => {
+    // Validate request
+    const validation = ExportSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
+
+    const { dinnerId, format, includeChecked, userId } = validation.data;
+
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot export shopping lists for another user');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+
+    const dinner = await loadDinner(userId, dinnerId);
+    if (!dinner) {
+      throw new HttpsError('not-found', t(language, 'dinnerNotFound'));
+    }
+
+    const list = dinner.shoppingList;
+    if (!list) {
+      throw new HttpsError('failed-precondition', t(language, 'dinnerHasNoShoppingList'));
+    }
+
+    const content = renderShoppingList(list, format, {
+      title: t(language, 'shoppingTitle', { dinner: dinnerTitle(dinner, language) }),
+      language,
+      includeChecked,
+    });
+
+    return {
+      success: true,
+      content,
+    };
+  }
+);
+
+// ============================================================
+// LLM EXTRACTION
+// ============================================================
+
+async function extractIngredients(menu: MenuProposal, language: Language): Promise<CourseIngredient[]> {
+  const menuText = menu.courses
+    .map((c, i) => {
+      let line = `${i}. [${c.course}] ${c.name} - ${c.description}`;
+      if (c.notes) line += ` (${c.notes})`;
+      return line;
+    })
+    .join('\n');
+
+  const sections = SHOPPING_SECTIONS
+    .filter(section => section !== 'wine')
+    .map(section => `"${section}" (${SHOPPING_SECTION_LABELS[language][section]})`)
+    .join(', ');
+  const prompt = INGREDIENTS_PROMPTS[language]
+    .replace('{menu}', menuText)
+    .replace('{sections}', sections);
+
+  // Log AI input
+  logger.info('=== AI REQUEST (generateShoppingList) ===');
+  logger.info('FULL PROMPT:', { prompt });
+
+  const response = await anthropic.messages.create({
+    model: 'claude-sonnet-4-20250514',
+    max_tokens: 4096,
+    messages: [
+      { role: 'user', content: prompt }
+    ],
+  });
+
+  const responseText = response.content
+    .filter(block => block.type === 'text')
+    .map(block => (block as { type: 'text'; text: string }).text)
+    .join('');
+
+  // Log AI output
+  logger.info('=== AI RESPONSE (generateShoppingList) ===');
+  logger.info('RESPONSE:', { responseText });
+
+  // Parse JSON
+  const jsonText = responseText
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim();
+
+  const parsed = JSON.parse(jsonText);
+
+  return (parsed.courses || [])
+    .filter((c: any) => Number.isInteger(c.courseIndex) && c.courseIndex >= 0 && c.courseIndex < menu.courses.length)
+    .flatMap((c: any) => (c.ingredients || []).map((ing: any): CourseIngredient => ({
+      courseIndex: c.courseIndex,
+      name: String(ing.name || ''),
+      ...(typeof ing.quantity === 'number' && { quantity: ing.quantity }),
+      ...(ing.unit && { unit: String(ing.unit) }),
+      ...(ing.section && { section: String(ing.section) }),
+      perPerson: ing.perPerson !== false,
+      ...(ing.notes && { notes: String(ing.notes) }),
+    })));
+}
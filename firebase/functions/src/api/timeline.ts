@@ -0,0 +1,296 @@
+/**
+ * Dinner Timeline
+ *
+ * Genera la scaletta della serata a ritroso dall'ora della cena:
+ * quando iniziare ogni piatto, quando prendere ogni bottiglia dalla
+ * cantina, metterla in frigo o decantarla, con temperatura e calice.
+ * Nessun LLM: regole in services/serving e services/timeline.
+ *
+ * I vini sono quelli scelti (proposte selezionate) o, in mancanza, i
+ * cellarWine del menu. La scaletta è salvata sulla cena ('timeline') ed
+ * esportabile in iCalendar con promemoria (exportDinnerTimeline).
+ * I testi dei passi sono scritti nella lingua dell'utente al momento
+ * della generazione e l'esportazione li riporta invariati.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { z } from 'zod';
+import { servingGuide } from '../services/serving';
+import {
+  buildTimelineSteps,
+  isValidTimeZone,
+  resolveDinnerTime,
+  DEFAULT_TIME_ZONE,
+  TimelineWine
+} from '../services/timeline';
+import { buildCalendar, IcsEvent } from '../services/ics';
+import { partySize, planWineServings } from '../services/winePlanning';
+import { dinnerTitle, loadDinner, loadMenu } from '../services/dinners';
+import { loadUserLanguage, t } from '../services/i18n';
+import type {
+  Bottle,
+  DinnerEvent,
+  DinnerTimeline,
+  ExportTimelineRequest,
+  ExportTimelineResponse,
+  GenerateTimelineRequest,
+  GenerateTimelineResponse,
+  Location,
+  MenuProposal,
+  Wine,
+  WineProposal
+} from '../types';
+
+const db = getFirestore();
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+const GenerateSchema = z.object({
+  dinnerId: z.string().min(1),
+  timeZone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
+  language: z.string().max(10).optional(),
+  userId: z.string().min(1),
+});
+
+const ExportSchema = z.object({
+  dinnerId: z.string().min(1),
+  language: z.string().max(10).optional(),
+  userId: z.string().min(1),
+});
+
+// ============================================================
+// GENERATE
+// ============================================================
+
+export const generateDinnerTimeline = onCall<GenerateTimelineRequest>(
+  {
+    region: 'europe-west1',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async (request): Promise<GenerateTimelineResponse> => {
+    // Validate request
+    const validation = GenerateSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
+
+    const { dinnerId, userId } = validation.data;
+
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot plan dinners for another user');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+
+    logger.info('Generating dinner timeline', { userId, dinnerId, language });
+
+    try {
+      const dinner = await loadDinner(userId, dinnerId);
+      if (!dinner) {
+        throw new HttpsError('not-found', t(language, 'dinnerNotFound'));
+      }
+
+      const menu = loadMenu(dinner);
+      if (!menu) {
+        throw new HttpsError('failed-precondition', t(language, 'dinnerHasNoMenu'));
+      }
+
+      const timeZone = validation.data.timeZone || dinner.timeline?.timeZone || DEFAULT_TIME_ZONE;
+      const dinnerTime = resolveDinnerTime(dinner.date.toDate(), dinner.time, timeZone);
+
+      const wines = await loadTimelineWines(userId, dinner, menu);
+      const steps = buildTimelineSteps(menu, dinnerTime, wines, language);
+
+      const timeline: DinnerTimeline = {
+        dinnerTime: Timestamp.fromDate(dinnerTime),
+        timeZone,
+        steps,
+        generatedAt: Timestamp.now(),
+      };
+
+      await db.collection('dinners').doc(dinnerId).update({
+        timeline,
+        updatedAt: Timestamp.now(),
+      });
+
+      logger.info('Dinner timeline generated', {
+        dinnerId,
+        steps: steps.length,
+        wines: wines.length,
+        firstStep: steps[0]?.at.toDate().toISOString(),
+      });
+
+      return {
+        success: true,
+        timeline,
+      };
+
+    } catch (error) {
+      logger.error('Timeline generation failed', { userId, dinnerId, error });
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError('internal', t(language, 'timelineFailed', { error: (error as Error).message }));
+    }
+  }
+);
+
+// ============================================================
+// EXPORT
+// ============================================================
+
+// Length of the calendar entries that are not cooking
+const STEP_EVENT_MINUTES = 10;
+
+export const exportDinnerTimeline = onCall<ExportTimelineRequest>(
+  {
+    region: 'europe-west1',
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request): Promise<ExportTimelineResponse> => {
+    // Validate request
+    const validation = ExportSchema.safeParse(request.data);
+    if (!validation.success) {
+      throw new HttpsError('invalid-argument', 'Invalid request: ' + validation.error.message);
+    }
+
+    const { dinnerId, userId } = validation.data;
+
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (request.auth.uid !== userId) {
+      throw new HttpsError('permission-denied', 'Cannot export dinners of another user');
+    }
+
+    const language = await loadUserLanguage(userId, validation.data.language);
+
+    const dinner = await loadDinner(userId, dinnerId);
+    if (!dinner) {
+      throw new HttpsError('not-found', t(language, 'dinnerNotFound'));
+    }
+
+    const timeline = dinner.timeline;
+    if (!timeline?.steps.length) {
+      throw new HttpsError('failed-precondition', t(language, 'dinnerHasNoTimeline'));
+    }
+
+    // Cooking runs until its course is served
+    const serveTimes = new Map<number, Date>();
+    for (const step of timeline.steps.filter(s => s.kind === 'serve')) {
+      for (const i of step.courseIndexes || []) serveTimes.set(i, step.at.toDate());
+    }
+
+    const events: IcsEvent[] = timeline.steps.map(step => {
+      const start = step.at.toDate();
+      const cookEnd = step.kind === 'cook' ? serveTimes.get(step.courseIndexes?.[0] ?? -1) : undefined;
+      return {
+        uid: `${dinnerId}-${step.id}@convivio`,
+        start,
+        end: cookEnd && cookEnd > start ? cookEnd : new Date(start.getTime() + STEP_EVENT_MINUTES * 60000),
+        summary: step.title,
+        ...(step.description && { description: step.description }),
+        alarmMinutesBefore: step.alarmMinutesBefore,
+      };
+    });
+
+    const dinnerName = dinnerTitle(dinner, language);
+    const content = buildCalendar({ name: dinnerName, events });
+
+    logger.info('Dinner timeline exported', { dinnerId, events: events.length });
+
+    return {
+      success: true,
+      content,
+      filename: `${dinnerName.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'cena'}.ics`,
+    };
+  }
+);
+
+// ============================================================
+// DATA LOADING
+// ============================================================
+
+/**
+ * The wine poured with each course: a selected purchase proposal means
+ * the marketWine, otherwise the cellarWine (or the marketWine when the
+ * course has no cellar pairing).
+ */
+async function loadTimelineWines(
+  userId: string,
+  dinner: DinnerEvent,
+  menu: MenuProposal
+): Promise<TimelineWine[]> {
+  const dinnerRef = db.collection('users').doc(userId).collection('dinners').doc(dinner.id);
+  const [guestsSnapshot, selectedSnapshot] = await Promise.all([
+    dinnerRef.collection('guests').get(),
+    dinnerRef.collection('proposals').where('isSelected', '==', true).get(),
+  ]);
+
+  const selected = selectedSnapshot.docs.map(doc => doc.data() as WineProposal);
+  const buying = new Set(selected.filter(p => p.type === 'suggested_purchase').map(p => p.courseIndex));
+
+  const servings = planWineServings(
+    menu.courses,
+    partySize(dinner, guestsSnapshot.size),
+    (course, courseIndex) => buying.has(courseIndex)
+      ? course.marketWine
+      : course.cellarWine ?? course.marketWine
+  );
+
+  const wines: TimelineWine[] = [];
+  for (const serving of servings) {
+    const wine = serving.wineId ? await loadWine(serving.wineId) : null;
+    const reserved = selected.find(p => p.wineId && p.wineId === serving.wineId && p.reservedBottles?.length);
+    const location = reserved ? await describeBottleLocation(reserved) : undefined;
+
+    wines.push({
+      ...(serving.wineId && { wineId: serving.wineId }),
+      name: serving.name,
+      courseIndexes: serving.courseIndexes,
+      bottles: serving.bottles,
+      guide: servingGuide(wine
+        ? { name: wine.name, type: wine.type, vintage: wine.vintage, grapes: wine.grapes, appellation: wine.appellation }
+        : { name: serving.name, details: serving.details }),
+      ...(location && { location }),
+    });
+  }
+
+  return wines;
+}
+
+async function loadWine(wineId: string): Promise<Wine | null> {
+  const doc = await db.collection('wines').doc(wineId).get();
+  return doc.exists ? { id: doc.id, ...doc.data() } as Wine : null;
+}
+
+/** "Cantina di casa - Scaffale A" for the first bottle reserved by the proposal */
+async function describeBottleLocation(proposal: WineProposal): Promise<string | undefined> {
+  const { cellarId, bottleId } = proposal.reservedBottles![0];
+  const cellarRef = db.collection('cellars').doc(cellarId);
+
+  const [cellarDoc, bottleDoc] = await Promise.all([
+    cellarRef.get(),
+    cellarRef.collection('bottles').doc(bottleId).get(),
+  ]);
+  const bottle = bottleDoc.data() as Bottle | undefined;
+
+  const locationDoc = bottle?.locationId
+    ? await cellarRef.collection('locations').doc(bottle.locationId).get()
+    : undefined;
+  const location = locationDoc?.data() as Location | undefined;
+
+  const parts = [cellarDoc.data()?.name, location?.name].filter(Boolean);
+  return parts.length > 0 ? parts.join(' - ') : undefined;
+}
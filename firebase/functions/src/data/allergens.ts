@@ -0,0 +1,267 @@
+/**
+ * Allergen and Diet Lexicon
+ *
+ * Ingredient keywords used by services/dietaryValidator to check menu
+ * courses against guests' allergies, intolerances and diets. Keywords are
+ * Italian, followed by the common English, German and French names, and
+ * are matched on accent-free lowercase words ("œ" = oe, "ß" = ss); a
+ * trailing '*' matches any word starting with the stem ("gamber*" =
+ * gamberi, gamberetti; "walnuss*" = Walnusskuchen).
+ *
+ * `aliases` map the free-text FoodPreference.category to a rule;
+ * `safePhrases` are wordings that suggest the dish was adapted ("pasta
+ * senza glutine"): next to a keyword they downgrade a hit from violation
+ * to risk.
+ */
+
+export type DietaryRuleId =
+  | 'gluten'
+  | 'lactose'
+  | 'eggs'
+  | 'tree_nuts'
+  | 'peanuts'
+  | 'fish'
+  | 'crustaceans'
+  | 'molluscs'
+  | 'soy'
+  | 'sesame'
+  | 'celery'
+  | 'mustard'
+  | 'sulphites'
+  | 'pork'
+  | 'vegetarian'
+  | 'vegan'
+  | 'pescatarian';
+
+export interface DietaryRule {
+  id: DietaryRuleId;
+  label: string;
+  aliases: string[];
+  keywords: string[];
+  safePhrases?: string[];
+  /** Keywords of other rules that also apply (a vegan avoids dairy) */
+  includes?: DietaryRuleId[];
+}
+
+const MEAT = [
+  'carne', 'carni', 'manzo', 'vitello', 'vitella', 'maiale', 'agnello', 'capretto', 'pollo', 'tacchino',
+  'anatra', 'oca', 'faraona', 'coniglio', 'cinghiale', 'capriolo', 'cervo', 'fagiano', 'piccione', 'quaglia*',
+  'prosciutto', 'salame', 'salumi', 'speck', 'pancetta', 'guanciale', 'lardo', 'salsiccia', 'salsicce',
+  'mortadella', 'bresaola', 'cotechino', 'zampone', 'nduja', 'porchetta', 'culatello',
+  'ragu', 'bolognese', 'brodo di carne', 'fegato', 'fegatini', 'trippa', 'ossobuco', 'bistecca',
+  'brasato', 'spezzatino', 'hamburger', 'costata', 'costate', 'braciol*', 'scaloppin*',
+  'vitello tonnato', 'bacon', 'beef', 'pork', 'chicken', 'lamb', 'ham', 'gelatina animale', 'strutto',
+  'meat', 'veal', 'duck', 'turkey', 'rabbit', 'venison', 'steak', 'sausage*', 'meatball*', 'mince', 'chorizo',
+  'fleisch*', 'rind', 'rinder*', 'kalb*', 'lamm*', 'schwein*', 'huhn', 'huhner*', 'hahnchen*', 'ente', 'gans',
+  'kaninchen', 'wildschwein*', 'hirsch*', 'schinken*', 'wurst*', 'hack*', 'schnitzel', 'braten', 'gulasch',
+  'frikadelle*', 'viande*', 'boeuf', 'veau', 'porc', 'agneau', 'poulet', 'volaille*', 'canard', 'dinde',
+  'lapin', 'gibier', 'chevreuil', 'jambon*', 'lardon*', 'saucisse*', 'saucisson*', 'magret*', 'foie gras',
+  'rillettes',
+];
+
+export const DIETARY_RULES: DietaryRule[] = [
+  {
+    id: 'gluten',
+    label: 'glutine',
+    aliases: [
+      'glutine', 'gluten', 'celiachia', 'celiaco', 'celiaca', 'frumento', 'grano', 'wheat', 'coeliac', 'celiac',
+      'zoliakie', 'weizen', 'glutenunvertraglichkeit', 'coeliaque', 'ble',
+    ],
+    keywords: [
+      'pasta', 'spaghett*', 'tagliatell*', 'fettuccin*', 'pappardell*', 'lasagn*', 'ravioli', 'tortellin*',
+      'tortelli', 'agnolotti', 'cappellett*', 'gnocchi', 'orecchiette', 'trofie', 'pici', 'bigoli', 'maccheroni',
+      'rigatoni', 'penne', 'paccheri', 'fusilli', 'linguine', 'bucatini', 'cannelloni', 'pane', 'panino',
+      'pangrattato', 'impanat*', 'panat*', 'crostin*', 'bruschett*', 'focaccia', 'pizza', 'piadina', 'grissini',
+      'taralli', 'farina', 'frumento', 'grano', 'semola', 'orzo', 'farro', 'segale', 'couscous', 'cous cous',
+      'bulgur', 'seitan', 'besciamella', 'pastella', 'frittura', 'fritto misto', 'torta', 'crostata', 'biscott*',
+      'savoiardi', 'tiramisu', 'pan di spagna', 'sfoglia', 'brioche', 'cantucci', 'panettone', 'pandoro',
+      'strudel', 'cannoli', 'baba', 'birra', 'bread', 'flour', 'wheat',
+      'breadcrumb*', 'noodle*', 'pastry', 'pie', 'cake', 'tart', 'crumble', 'biscuit*', 'cookie*', 'crouton*',
+      'dumpling*', 'batter', 'beer', 'nudel*', 'brot', 'brote', 'brotchen', 'semmel*', 'mehl', 'weizen*',
+      'teig*', 'kuchen', 'torte*', 'spatzle', 'knodel', 'paniert*', 'bier', 'pain', 'farine', 'ble', 'pates',
+      'pate feuilletee', 'pate brisee', 'pate sablee', 'nouilles', 'tarte*', 'gateau*', 'chapelure', 'pane',
+      'croute', 'beignet*', 'quiche', 'crepe*', 'biere',
+    ],
+    safePhrases: [
+      'senza glutine', 'gluten free', 'pasta di riso', 'pasta di mais', 'farina di riso', 'farina di ceci',
+      'grano saraceno', 'glutenfrei*', 'sans gluten',
+    ],
+  },
+  {
+    id: 'lactose',
+    label: 'lattosio',
+    aliases: [
+      'lattosio', 'lactose', 'latte', 'latticini', 'dairy', 'proteine del latte', 'caseina', 'milk', 'laktose',
+      'laktoseintoleranz', 'milch', 'milchprodukte', 'lait', 'produits laitiers',
+    ],
+    keywords: [
+      'latte', 'burro', 'panna', 'formaggi*', 'parmigiano', 'grana', 'pecorino', 'mozzarella', 'ricotta',
+      'mascarpone', 'stracciatella', 'burrata', 'gorgonzola', 'fontina', 'taleggio', 'scamorza', 'provola',
+      'provolone', 'caciocavallo', 'cacio', 'asiago', 'montasio', 'robiola', 'stracchino', 'squacquerone',
+      'crescenza', 'fonduta', 'besciamella', 'yogurt', 'crema pasticcera', 'gelato', 'semifreddo', 'panna cotta',
+      'tiramisu', 'cheesecake', 'mantecat*', 'butter', 'cream', 'cheese', 'milk',
+      'buttermilk', 'creamy', 'parmesan', 'ice cream', 'custard', 'yoghurt', 'milch*', 'sahne*', 'rahm*', 'kase*',
+      'quark', 'joghurt', 'schmand', 'lait', 'laitier*', 'beurre*', 'creme*', 'fromage*', 'chantilly', 'yaourt',
+    ],
+    safePhrases: [
+      'senza lattosio', 'lactose free', 'latte vegetale', 'latte di riso', 'latte di soia', 'latte di cocco',
+      'latte di mandorla', 'panna vegetale', 'burro vegetale', 'burro vegan*', 'dairy free', 'vegan butter',
+      'vegan cheese', 'laktosefrei*', 'sans lactose',
+    ],
+  },
+  {
+    id: 'eggs',
+    label: 'uova',
+    aliases: ['uova', 'uovo', 'egg', 'eggs', 'albume', 'tuorlo', 'ei', 'eier', 'oeuf', 'oeufs'],
+    keywords: [
+      'uovo', 'uova', 'tuorl*', 'albume', 'frittata', 'maionese', 'carbonara', 'pasta all uovo', 'tagliatell*',
+      'pappardell*', 'tajarin', 'meringa', 'meringhe', 'zabaione', 'zabaglione', 'tiramisu', 'crema pasticcera',
+      'pan di spagna', 'savoiardi', 'flan', 'sformato', 'egg', 'eggs', 'mayonnaise',
+      'mayo', 'omelet*', 'meringue*', 'aioli', 'hollandaise', 'ei', 'eier*', 'eigelb', 'eiweiss', 'spiegelei',
+      'ruhrei', 'baiser', 'oeuf*', 'sabayon',
+    ],
+    safePhrases: ['senza uova', 'egg free', 'ohne ei', 'sans oeuf*'],
+  },
+  {
+    id: 'tree_nuts',
+    label: 'frutta a guscio',
+    aliases: [
+      'frutta a guscio', 'frutta secca', 'noci', 'nocciole', 'mandorle', 'pistacchi', 'tree nuts', 'nuts', 'anacardi',
+      'walnuts', 'hazelnuts', 'almonds', 'nuss', 'nusse', 'nussallergie', 'schalenfruchte', 'haselnusse', 'mandeln',
+      'noix', 'fruits a coque', 'noisettes', 'amandes',
+    ],
+    keywords: [
+      'noce', 'noci', 'nocciol*', 'mandorl*', 'pistacchi*', 'anacardi', 'pinoli', 'pecan', 'macadamia',
+      'noci brasiliane', 'pesto', 'marzapane', 'amaretti', 'amaretto', 'croccante', 'gianduia', 'praline',
+      'frangipane', 'torrone', 'cantucci', 'nutella', 'walnut*', 'almond*', 'hazelnut*', 'pistachio*',
+      'nut', 'nuts', 'cashew*', 'pine nut*', 'marzipan', 'praline*', 'nougat', 'nuss*', 'walnuss*', 'haselnuss*',
+      'mandel*', 'pistazie*', 'pinienkern*', 'noix', 'noisette*', 'amande*', 'pistache*', 'cajou', 'pignon*',
+    ],
+    safePhrases: [
+      'senza frutta a guscio', 'pesto senza pinoli', 'noce moscata', 'noce di cocco', 'nut free', 'ohne nusse',
+      'noix de coco', 'noix de muscade',
+    ],
+  },
+  {
+    id: 'peanuts',
+    label: 'arachidi',
+    aliases: ['arachidi', 'arachide', 'peanut', 'peanuts', 'noccioline', 'erdnuss', 'erdnusse', 'cacahuete', 'cacahuetes'],
+    keywords: ['arachid*', 'noccioline', 'burro di arachidi', 'peanut*', 'satay', 'erdnuss*', 'cacahuete*'],
+  },
+  {
+    id: 'fish',
+    label: 'pesce',
+    aliases: ['pesce', 'fish', 'pesci', 'fisch', 'poisson'],
+    keywords: [
+      'pesce', 'pesci', 'salmone', 'tonno', 'branzino', 'spigola', 'orata', 'merluzzo', 'baccala', 'stoccafisso',
+      'acciugh*', 'alici', 'sardin*', 'sgombro', 'pesce spada', 'rombo', 'sogliola', 'trota', 'dentice',
+      'ricciola', 'cernia', 'triglia', 'triglie', 'anguilla', 'bottarga', 'colatura', 'sushi', 'sashimi',
+      'carpaccio di pesce', 'vitello tonnato', 'fish', 'salmon', 'tuna', 'cod', 'anchov*',
+      'trout', 'sea bass', 'sardine*', 'mackerel', 'swordfish', 'halibut', 'fisch*', 'lachs*', 'thunfisch*',
+      'kabeljau', 'forelle*', 'sardelle*', 'makrele*', 'zander', 'dorade', 'poisson*', 'saumon', 'thon',
+      'cabillaud', 'morue', 'truite', 'anchois', 'maquereau', 'lotte', 'brandade',
+    ],
+  },
+  {
+    id: 'crustaceans',
+    label: 'crostacei',
+    aliases: [
+      'crostacei', 'crostaceo', 'shellfish', 'crustaceans', 'gamberi', 'frutti di mare', 'krebstiere',
+      'krustentiere', 'garnelen', 'crustaces', 'crevettes', 'fruits de mer',
+    ],
+    keywords: [
+      'gamber*', 'scampi', 'scampo', 'aragost*', 'astice', 'granchi*', 'mazzancoll*', 'canocchi*', 'cicale',
+      'frutti di mare', 'shrimp*', 'prawn*', 'lobster', 'crab',
+      'langoustine*', 'crayfish', 'seafood', 'garnele*', 'krabbe*', 'hummer', 'languste*', 'krebs*', 'crevette*',
+      'homard', 'crabe*', 'ecrevisse*', 'langouste*', 'fruits de mer',
+    ],
+  },
+  {
+    id: 'molluscs',
+    label: 'molluschi',
+    aliases: [
+      'molluschi', 'mollusco', 'molluscs', 'mollusks', 'frutti di mare', 'weichtiere', 'muscheln', 'mollusques',
+      'fruits de mer',
+    ],
+    keywords: [
+      'cozze', 'cozza', 'vongol*', 'ostric*', 'capesant*', 'calamar*', 'seppi*', 'polpo', 'polpi', 'moscardin*',
+      'totani', 'fasolari', 'telline', 'lumache', 'escargot*', 'frutti di mare', 'mussel*', 'clam*', 'oyster*',
+      'squid', 'octopus',
+      'scallop*', 'cuttlefish', 'snail*', 'seafood', 'muschel*', 'miesmuschel*', 'auster*', 'jakobsmuschel*',
+      'tintenfisch*', 'oktopus', 'schnecke*', 'moule*', 'huitre*', 'saint jacques', 'calmar*', 'seiche*',
+      'poulpe', 'palourde*', 'encornet*', 'fruits de mer',
+    ],
+  },
+  {
+    id: 'soy',
+    label: 'soia',
+    aliases: ['soia', 'soya', 'soy', 'soja'],
+    keywords: ['soia', 'tofu', 'edamame', 'tempeh', 'miso', 'salsa di soia', 'soy', 'soya', 'teriyaki', 'soja*'],
+  },
+  {
+    id: 'sesame',
+    label: 'sesamo',
+    aliases: ['sesamo', 'sesame', 'sesam'],
+    keywords: ['sesamo', 'tahina', 'tahini', 'hummus', 'gomasio', 'sesame', 'sesam*'],
+  },
+  {
+    id: 'celery',
+    label: 'sedano',
+    aliases: ['sedano', 'celery', 'sellerie', 'celeri'],
+    keywords: ['sedano', 'soffritto', 'brodo vegetale', 'celery', 'sellerie', 'celeri*'],
+  },
+  {
+    id: 'mustard',
+    label: 'senape',
+    aliases: ['senape', 'mustard', 'senf', 'moutarde'],
+    keywords: ['senape', 'mostarda', 'mustard', 'dijon', 'senf*', 'moutarde*'],
+  },
+  {
+    id: 'sulphites',
+    label: 'solfiti',
+    aliases: ['solfiti', 'sulphites', 'sulfites', 'anidride solforosa', 'sulfite'],
+    keywords: [
+      'solfiti', 'sfumat* al vino', 'sfumat* con vino', 'al vino', 'marsala', 'brasato al barolo', 'aceto',
+      'frutta secca', 'uvetta', 'in wine', 'wine sauce', 'vinegar', 'raisins', 'in wein', 'weinsauce', 'essig*',
+      'rosinen', 'au vin', 'vinaigre*', 'raisins secs',
+    ],
+  },
+  {
+    id: 'pork',
+    label: 'maiale',
+    aliases: ['maiale', 'suino', 'pork', 'halal', 'kosher', 'schwein', 'schweinefleisch', 'porc'],
+    keywords: [
+      'maiale', 'suino', 'prosciutto', 'salame', 'salumi', 'speck', 'pancetta', 'guanciale', 'lardo',
+      'salsiccia', 'salsicce', 'mortadella', 'cotechino', 'zampone', 'nduja', 'porchetta',
+      'culatello', 'strutto', 'carbonara', 'amatriciana', 'gricia', 'bacon', 'ham', 'pork',
+      'sausage*', 'chorizo', 'salami', 'gammon', 'lard', 'schwein*', 'schinken*', 'wurst*', 'porc', 'jambon*',
+      'lardon*', 'saucisse*', 'saucisson*', 'rillettes',
+    ],
+  },
+  {
+    id: 'vegetarian',
+    label: 'dieta vegetariana',
+    aliases: ['vegetariano', 'vegetariana', 'vegetarian', 'vegetariani', 'vegetarisch', 'vegetarier', 'vegetarien', 'vegetarienne'],
+    keywords: MEAT,
+    includes: ['fish', 'crustaceans', 'molluscs'],
+  },
+  {
+    id: 'pescatarian',
+    label: 'dieta pescetariana',
+    aliases: ['pescetariano', 'pescetariana', 'pescatarian', 'pescetariani', 'pescetarisch', 'pescetarier', 'pescetarien'],
+    keywords: MEAT,
+  },
+  {
+    id: 'vegan',
+    label: 'dieta vegana',
+    aliases: ['vegano', 'vegana', 'vegan', 'vegani', 'vegane', 'veganer', 'vegetalien', 'vegetalienne'],
+    keywords: ['miele', 'gelatina', 'colla di pesce', 'honey', 'gelatin*', 'honig', 'miel'],
+    // Only vegan versions of an ingredient: "vegano" elsewhere in the course is no guarantee
+    safePhrases: [
+      'burro vegan*', 'burro vegetale', 'formaggi* vegan*', 'formaggi* vegetal*', 'maionese vegana', 'panna vegan*',
+      'panna vegetale', 'latte vegetale', 'gelato vegano', 'vegan butter', 'vegan cheese', 'vegan mayo*',
+      'vegane* butter', 'vegane* kase', 'beurre vegetal', 'fromage vegetal', 'fromage vegan',
+    ],
+    includes: ['vegetarian', 'lactose', 'eggs'],
+  },
+];
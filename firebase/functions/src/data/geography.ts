@@ -0,0 +1,395 @@
+/**
+ * Wine Geography Reference Data
+ *
+ * Offline dataset of wine countries, regions and appellations used to
+ * normalize Wine.country / region / appellation (see services/geography).
+ *
+ * Canonical names are Italian, like the rest of the stored data; `names`
+ * holds the IT/EN/FR/DE forms, `aliases` any other spelling seen on labels.
+ * Appellation names are the official ones and are not translated.
+ */
+
+export type GeographyLanguage = 'it' | 'en' | 'fr' | 'de';
+
+export type LocalizedNames = Record<GeographyLanguage, string>;
+
+export type AppellationClass = 'DOCG' | 'DOC' | 'IGT' | 'AOC' | 'DO' | 'DOCa' | 'DAC' | 'AVA';
+
+export interface CountryEntry {
+  code: string;
+  names: LocalizedNames;
+  aliases?: string[];
+}
+
+export interface RegionEntry {
+  id: string;
+  country: string;
+  names: LocalizedNames;
+  aliases?: string[];
+}
+
+export interface AppellationEntry {
+  name: string;
+  classification: AppellationClass;
+  /** Region ids, the first being where most of the production is */
+  regions: string[];
+  aliases?: string[];
+}
+
+const names = (it: string, en = it, fr = en, de = en): LocalizedNames => ({ it, en, fr, de });
+
+// ============================================================
+// COUNTRIES
+// ============================================================
+
+export const COUNTRIES: CountryEntry[] = [
+  { code: 'IT', names: names('Italia', 'Italy', 'Italie', 'Italien') },
+  { code: 'FR', names: names('Francia', 'France', 'France', 'Frankreich') },
+  { code: 'ES', names: names('Spagna', 'Spain', 'Espagne', 'Spanien'), aliases: ['España'] },
+  { code: 'PT', names: names('Portogallo', 'Portugal', 'Portugal', 'Portugal') },
+  { code: 'DE', names: names('Germania', 'Germany', 'Allemagne', 'Deutschland') },
+  { code: 'AT', names: names('Austria', 'Austria', 'Autriche', 'Österreich') },
+  { code: 'CH', names: names('Svizzera', 'Switzerland', 'Suisse', 'Schweiz') },
+  { code: 'US', names: names('Stati Uniti', 'United States', 'États-Unis', 'Vereinigte Staaten'), aliases: ['USA', 'U.S.A.', 'America'] },
+  { code: 'AR', names: names('Argentina', 'Argentina', 'Argentine', 'Argentinien') },
+  { code: 'CL', names: names('Cile', 'Chile', 'Chili', 'Chile') },
+  { code: 'AU', names: names('Australia', 'Australia', 'Australie', 'Australien') },
+  { code: 'NZ', names: names('Nuova Zelanda', 'New Zealand', 'Nouvelle-Zélande', 'Neuseeland') },
+  { code: 'ZA', names: names('Sudafrica', 'South Africa', 'Afrique du Sud', 'Südafrika') },
+  { code: 'GR', names: names('Grecia', 'Greece', 'Grèce', 'Griechenland') },
+  { code: 'HU', names: names('Ungheria', 'Hungary', 'Hongrie', 'Ungarn') },
+  { code: 'SI', names: names('Slovenia', 'Slovenia', 'Slovénie', 'Slowenien') },
+];
+
+// ============================================================
+// REGIONS
+// ============================================================
+
+export const REGIONS: RegionEntry[] = [
+  // Italy
+  { id: 'piemonte', country: 'IT', names: names('Piemonte', 'Piedmont', 'Piémont', 'Piemont') },
+  { id: 'valle-d-aosta', country: 'IT', names: names('Valle d\'Aosta', 'Aosta Valley', 'Vallée d\'Aoste', 'Aostatal') },
+  { id: 'lombardia', country: 'IT', names: names('Lombardia', 'Lombardy', 'Lombardie', 'Lombardei') },
+  { id: 'trentino-alto-adige', country: 'IT', names: names('Trentino-Alto Adige', 'Trentino-South Tyrol', 'Trentin-Haut-Adige', 'Trentino-Südtirol'), aliases: ['Trentino', 'Alto Adige', 'South Tyrol', 'Südtirol', 'Haut-Adige'] },
+  { id: 'veneto', country: 'IT', names: names('Veneto', 'Veneto', 'Vénétie', 'Venetien') },
+  { id: 'friuli-venezia-giulia', country: 'IT', names: names('Friuli-Venezia Giulia', 'Friuli-Venezia Giulia', 'Frioul-Vénétie Julienne', 'Friaul-Julisch Venetien'), aliases: ['Friuli', 'Frioul', 'Friaul'] },
+  { id: 'liguria', country: 'IT', names: names('Liguria', 'Liguria', 'Ligurie', 'Ligurien') },
+  { id: 'emilia-romagna', country: 'IT', names: names('Emilia-Romagna', 'Emilia-Romagna', 'Émilie-Romagne', 'Emilia-Romagna'), aliases: ['Emilia', 'Romagna'] },
+  { id: 'toscana', country: 'IT', names: names('Toscana', 'Tuscany', 'Toscane', 'Toskana') },
+  { id: 'umbria', country: 'IT', names: names('Umbria', 'Umbria', 'Ombrie', 'Umbrien') },
+  { id: 'marche', country: 'IT', names: names('Marche', 'Marche', 'Marches', 'Marken'), aliases: ['The Marches'] },
+  { id: 'lazio', country: 'IT', names: names('Lazio', 'Lazio', 'Latium', 'Latium') },
+  { id: 'abruzzo', country: 'IT', names: names('Abruzzo', 'Abruzzo', 'Abruzzes', 'Abruzzen'), aliases: ['Abruzzi'] },
+  { id: 'molise', country: 'IT', names: names('Molise') },
+  { id: 'campania', country: 'IT', names: names('Campania', 'Campania', 'Campanie', 'Kampanien') },
+  { id: 'puglia', country: 'IT', names: names('Puglia', 'Apulia', 'Pouilles', 'Apulien') },
+  { id: 'basilicata', country: 'IT', names: names('Basilicata', 'Basilicata', 'Basilicate', 'Basilikata') },
+  { id: 'calabria', country: 'IT', names: names('Calabria', 'Calabria', 'Calabre', 'Kalabrien') },
+  { id: 'sicilia', country: 'IT', names: names('Sicilia', 'Sicily', 'Sicile', 'Sizilien') },
+  { id: 'sardegna', country: 'IT', names: names('Sardegna', 'Sardinia', 'Sardaigne', 'Sardinien') },
+
+  // France
+  { id: 'borgogna', country: 'FR', names: names('Borgogna', 'Burgundy', 'Bourgogne', 'Burgund') },
+  { id: 'bordeaux', country: 'FR', names: names('Bordeaux'), aliases: ['Bordelais'] },
+  { id: 'champagne', country: 'FR', names: names('Champagne') },
+  { id: 'valle-del-rodano', country: 'FR', names: names('Valle del Rodano', 'Rhône Valley', 'Vallée du Rhône', 'Rhônetal'), aliases: ['Rodano', 'Rhône'] },
+  { id: 'valle-della-loira', country: 'FR', names: names('Valle della Loira', 'Loire Valley', 'Vallée de la Loire', 'Loiretal'), aliases: ['Loira', 'Loire'] },
+  { id: 'alsazia', country: 'FR', names: names('Alsazia', 'Alsace', 'Alsace', 'Elsass') },
+  { id: 'linguadoca-rossiglione', country: 'FR', names: names('Linguadoca-Rossiglione', 'Languedoc-Roussillon', 'Languedoc-Roussillon', 'Languedoc-Roussillon'), aliases: ['Linguadoca', 'Languedoc', 'Roussillon'] },
+  { id: 'provenza', country: 'FR', names: names('Provenza', 'Provence', 'Provence', 'Provence') },
+  { id: 'beaujolais', country: 'FR', names: names('Beaujolais') },
+  { id: 'jura', country: 'FR', names: names('Giura', 'Jura', 'Jura', 'Jura') },
+  { id: 'sud-ovest', country: 'FR', names: names('Sud-Ovest', 'South West France', 'Sud-Ouest', 'Südwestfrankreich') },
+  { id: 'savoia', country: 'FR', names: names('Savoia', 'Savoy', 'Savoie', 'Savoyen') },
+  { id: 'corsica', country: 'FR', names: names('Corsica', 'Corsica', 'Corse', 'Korsika') },
+
+  // Spain
+  { id: 'la-rioja', country: 'ES', names: names('La Rioja') },
+  { id: 'navarra', country: 'ES', names: names('Navarra', 'Navarre', 'Navarre', 'Navarra') },
+  { id: 'castiglia-e-leon', country: 'ES', names: names('Castiglia e León', 'Castile and León', 'Castille-et-León', 'Kastilien-León'), aliases: ['Castilla y León'] },
+  { id: 'castiglia-la-mancia', country: 'ES', names: names('Castiglia-La Mancia', 'Castilla-La Mancha', 'Castille-La Manche', 'Kastilien-La Mancha'), aliases: ['La Mancha'] },
+  { id: 'catalogna', country: 'ES', names: names('Catalogna', 'Catalonia', 'Catalogne', 'Katalonien'), aliases: ['Catalunya', 'Cataluña'] },
+  { id: 'galizia', country: 'ES', names: names('Galizia', 'Galicia', 'Galice', 'Galicien') },
+  { id: 'andalusia', country: 'ES', names: names('Andalusia', 'Andalusia', 'Andalousie', 'Andalusien'), aliases: ['Andalucía'] },
+
+  // Portugal
+  { id: 'douro', country: 'PT', names: names('Douro'), aliases: ['Valle del Douro', 'Douro Valley'] },
+  { id: 'minho', country: 'PT', names: names('Minho') },
+  { id: 'alentejo', country: 'PT', names: names('Alentejo') },
+  { id: 'madeira', country: 'PT', names: names('Madeira', 'Madeira', 'Madère', 'Madeira') },
+
+  // Germany
+  { id: 'mosella', country: 'DE', names: names('Mosella', 'Mosel', 'Moselle', 'Mosel'), aliases: ['Mosel-Saar-Ruwer'] },
+  { id: 'rheingau', country: 'DE', names: names('Rheingau') },
+  { id: 'rheinhessen', country: 'DE', names: names('Assia Renana', 'Rheinhessen', 'Hesse rhénane', 'Rheinhessen') },
+  { id: 'palatinato', country: 'DE', names: names('Palatinato', 'Palatinate', 'Palatinat', 'Pfalz'), aliases: ['Pfalz'] },
+  { id: 'baden', country: 'DE', names: names('Baden') },
+  { id: 'franconia', country: 'DE', names: names('Franconia', 'Franconia', 'Franconie', 'Franken') },
+
+  // Austria
+  { id: 'bassa-austria', country: 'AT', names: names('Bassa Austria', 'Lower Austria', 'Basse-Autriche', 'Niederösterreich') },
+  { id: 'burgenland', country: 'AT', names: names('Burgenland') },
+  { id: 'stiria', country: 'AT', names: names('Stiria', 'Styria', 'Styrie', 'Steiermark') },
+
+  // Switzerland
+  { id: 'vallese', country: 'CH', names: names('Vallese', 'Valais', 'Valais', 'Wallis') },
+
+  // New World
+  { id: 'california', country: 'US', names: names('California', 'California', 'Californie', 'Kalifornien') },
+  { id: 'oregon', country: 'US', names: names('Oregon') },
+  { id: 'washington', country: 'US', names: names('Washington'), aliases: ['Washington State'] },
+  { id: 'mendoza', country: 'AR', names: names('Mendoza') },
+  { id: 'valle-centrale', country: 'CL', names: names('Valle Centrale', 'Central Valley', 'Vallée Centrale', 'Zentraltal'), aliases: ['Valle Central'] },
+  { id: 'australia-meridionale', country: 'AU', names: names('Australia Meridionale', 'South Australia', 'Australie-Méridionale', 'Südaustralien') },
+  { id: 'marlborough', country: 'NZ', names: names('Marlborough') },
+  { id: 'capo-occidentale', country: 'ZA', names: names('Capo Occidentale', 'Western Cape', 'Cap-Occidental', 'Westkap') },
+
+  // Central Europe and Greece
+  { id: 'tokaj', country: 'HU', names: names('Tokaj'), aliases: ['Tokaj-Hegyalja'] },
+  { id: 'santorini', country: 'GR', names: names('Santorini', 'Santorini', 'Santorin', 'Santorin') },
+  { id: 'primorska', country: 'SI', names: names('Primorska', 'Littoral', 'Littoral', 'Küstenland') },
+];
+
+// ============================================================
+// APPELLATIONS
+// ============================================================
+
+export const APPELLATIONS: AppellationEntry[] = [
+  // Piemonte
+  { name: 'Barolo', classification: 'DOCG', regions: ['piemonte'] },
+  { name: 'Barbaresco', classification: 'DOCG', regions: ['piemonte'] },
+  { name: 'Roero', classification: 'DOCG', regions: ['piemonte'] },
+  { name: 'Gattinara', classification: 'DOCG', regions: ['piemonte'] },
+  { name: 'Ghemme', classification: 'DOCG', regions: ['piemonte'] },
+  { name: 'Asti', classification: 'DOCG', regions: ['piemonte'], aliases: ['Moscato d\'Asti', 'Asti Spumante'] },
+  { name: 'Barbera d\'Asti', classification: 'DOCG', regions: ['piemonte'] },
+  { name: 'Nizza', classification: 'DOCG', regions: ['piemonte'] },
+  { name: 'Gavi', classification: 'DOCG', regions: ['piemonte'], aliases: ['Cortese di Gavi'] },
+  { name: 'Dogliani', classification: 'DOCG', regions: ['piemonte'] },
+  { name: 'Langhe', classification: 'DOC', regions: ['piemonte'] },
+  { name: 'Barbera d\'Alba', classification: 'DOC', regions: ['piemonte'] },
+  { name: 'Dolcetto d\'Alba', classification: 'DOC', regions: ['piemonte'] },
+  { name: 'Nebbiolo d\'Alba', classification: 'DOC', regions: ['piemonte'] },
+
+  // Lombardia
+  { name: 'Franciacorta', classification: 'DOCG', regions: ['lombardia'] },
+  { name: 'Valtellina Superiore', classification: 'DOCG', regions: ['lombardia'] },
+  { name: 'Sforzato di Valtellina', classification: 'DOCG', regions: ['lombardia'], aliases: ['Sfursat di Valtellina', 'Sfursat'] },
+  { name: 'Oltrepò Pavese', classification: 'DOC', regions: ['lombardia'] },
+  { name: 'Lugana', classification: 'DOC', regions: ['lombardia', 'veneto'] },
+
+  // Trentino-Alto Adige
+  { name: 'Trento', classification: 'DOC', regions: ['trentino-alto-adige'], aliases: ['Trentodoc'] },
+  { name: 'Alto Adige', classification: 'DOC', regions: ['trentino-alto-adige'], aliases: ['Südtirol', 'Südtiroler'] },
+  { name: 'Teroldego Rotaliano', classification: 'DOC', regions: ['trentino-alto-adige'] },
+
+  // Veneto
+  { name: 'Amarone della Valpolicella', classification: 'DOCG', regions: ['veneto'], aliases: ['Amarone'] },
+  { name: 'Recioto della Valpolicella', classification: 'DOCG', regions: ['veneto'] },
+  { name: 'Valpolicella', classification: 'DOC', regions: ['veneto'] },
+  { name: 'Valpolicella Ripasso', classification: 'DOC', regions: ['veneto'], aliases: ['Ripasso'] },
+  { name: 'Soave', classification: 'DOC', regions: ['veneto'] },
+  { name: 'Soave Superiore', classification: 'DOCG', regions: ['veneto'] },
+  { name: 'Bardolino', classification: 'DOC', regions: ['veneto'] },
+  { name: 'Conegliano Valdobbiadene Prosecco', classification: 'DOCG', regions: ['veneto'], aliases: ['Conegliano Valdobbiadene', 'Valdobbiadene Prosecco', 'Prosecco Superiore', 'Valdobbiadene'] },
+  { name: 'Asolo Prosecco', classification: 'DOCG', regions: ['veneto'], aliases: ['Asolo'] },
+  { name: 'Prosecco', classification: 'DOC', regions: ['veneto', 'friuli-venezia-giulia'] },
+
+  // Friuli-Venezia Giulia
+  { name: 'Collio', classification: 'DOC', regions: ['friuli-venezia-giulia'], aliases: ['Collio Goriziano'] },
+  { name: 'Friuli Colli Orientali', classification: 'DOC', regions: ['friuli-venezia-giulia'], aliases: ['Colli Orientali del Friuli'] },
+  { name: 'Friuli Grave', classification: 'DOC', regions: ['friuli-venezia-giulia'] },
+  { name: 'Ramandolo', classification: 'DOCG', regions: ['friuli-venezia-giulia'] },
+
+  // Liguria
+  { name: 'Cinque Terre', classification: 'DOC', regions: ['liguria'] },
+  { name: 'Riviera Ligure di Ponente', classification: 'DOC', regions: ['liguria'] },
+
+  // Emilia-Romagna
+  { name: 'Lambrusco di Sorbara', classification: 'DOC', regions: ['emilia-romagna'] },
+  { name: 'Lambrusco Grasparossa di Castelvetro', classification: 'DOC', regions: ['emilia-romagna'] },
+  { name: 'Romagna Albana', classification: 'DOCG', regions: ['emilia-romagna'], aliases: ['Albana di Romagna'] },
+  { name: 'Colli Piacentini', classification: 'DOC', regions: ['emilia-romagna'] },
+
+  // Toscana
+  { name: 'Brunello di Montalcino', classification: 'DOCG', regions: ['toscana'], aliases: ['Brunello'] },
+  { name: 'Rosso di Montalcino', classification: 'DOC', regions: ['toscana'] },
+  { name: 'Chianti', classification: 'DOCG', regions: ['toscana'] },
+  { name: 'Chianti Classico', classification: 'DOCG', regions: ['toscana'] },
+  { name: 'Vino Nobile di Montepulciano', classification: 'DOCG', regions: ['toscana'], aliases: ['Nobile di Montepulciano'] },
+  { name: 'Rosso di Montepulciano', classification: 'DOC', regions: ['toscana'] },
+  { name: 'Bolgheri', classification: 'DOC', regions: ['toscana'] },
+  { name: 'Bolgheri Sassicaia', classification: 'DOC', regions: ['toscana'] },
+  { name: 'Morellino di Scansano', classification: 'DOCG', regions: ['toscana'] },
+  { name: 'Carmignano', classification: 'DOCG', regions: ['toscana'] },
+  { name: 'Vernaccia di San Gimignano', classification: 'DOCG', regions: ['toscana'] },
+  { name: 'Maremma Toscana', classification: 'DOC', regions: ['toscana'] },
+  { name: 'Toscana', classification: 'IGT', regions: ['toscana'], aliases: ['Toscano'] },
+
+  // Umbria
+  { name: 'Montefalco Sagrantino', classification: 'DOCG', regions: ['umbria'], aliases: ['Sagrantino di Montefalco'] },
+  { name: 'Torgiano Rosso Riserva', classification: 'DOCG', regions: ['umbria'] },
+  { name: 'Orvieto', classification: 'DOC', regions: ['umbria', 'lazio'] },
+
+  // Marche
+  { name: 'Verdicchio dei Castelli di Jesi', classification: 'DOC', regions: ['marche'] },
+  { name: 'Verdicchio di Matelica', classification: 'DOC', regions: ['marche'] },
+  { name: 'Conero', classification: 'DOCG', regions: ['marche'] },
+  { name: 'Rosso Conero', classification: 'DOC', regions: ['marche'] },
+
+  // Lazio
+  { name: 'Cesanese del Piglio', classification: 'DOCG', regions: ['lazio'] },
+  { name: 'Frascati', classification: 'DOC', regions: ['lazio'] },
+  { name: 'Est! Est!! Est!!! di Montefiascone', classification: 'DOC', regions: ['lazio'] },
+
+  // Abruzzo e Molise
+  { name: 'Montepulciano d\'Abruzzo', classification: 'DOC', regions: ['abruzzo'] },
+  { name: 'Montepulciano d\'Abruzzo Colline Teramane', classification: 'DOCG', regions: ['abruzzo'] },
+  { name: 'Trebbiano d\'Abruzzo', classification: 'DOC', regions: ['abruzzo'] },
+  { name: 'Cerasuolo d\'Abruzzo', classification: 'DOC', regions: ['abruzzo'] },
+  { name: 'Tintilia del Molise', classification: 'DOC', regions: ['molise'] },
+
+  // Campania
+  { name: 'Taurasi', classification: 'DOCG', regions: ['campania'] },
+  { name: 'Fiano di Avellino', classification: 'DOCG', regions: ['campania'] },
+  { name: 'Greco di Tufo', classification: 'DOCG', regions: ['campania'] },
+  { name: 'Aglianico del Taburno', classification: 'DOCG', regions: ['campania'] },
+  { name: 'Falerno del Massico', classification: 'DOC', regions: ['campania'] },
+  { name: 'Vesuvio', classification: 'DOC', regions: ['campania'], aliases: ['Lacryma Christi del Vesuvio', 'Lacryma Christi'] },
+
+  // Puglia, Basilicata, Calabria
+  { name: 'Primitivo di Manduria', classification: 'DOC', regions: ['puglia'] },
+  { name: 'Salice Salentino', classification: 'DOC', regions: ['puglia'] },
+  { name: 'Castel del Monte', classification: 'DOC', regions: ['puglia'] },
+  { name: 'Salento', classification: 'IGT', regions: ['puglia'] },
+  { name: 'Aglianico del Vulture', classification: 'DOC', regions: ['basilicata'] },
+  { name: 'Aglianico del Vulture Superiore', classification: 'DOCG', regions: ['basilicata'] },
+  { name: 'Cirò', classification: 'DOC', regions: ['calabria'] },
+
+  // Sicilia
+  { name: 'Etna', classification: 'DOC', regions: ['sicilia'] },
+  { name: 'Cerasuolo di Vittoria', classification: 'DOCG', regions: ['sicilia'] },
+  { name: 'Marsala', classification: 'DOC', regions: ['sicilia'] },
+  { name: 'Pantelleria', classification: 'DOC', regions: ['sicilia'], aliases: ['Passito di Pantelleria', 'Moscato di Pantelleria'] },
+  { name: 'Terre Siciliane', classification: 'IGT', regions: ['sicilia'] },
+
+  // Sardegna
+  { name: 'Cannonau di Sardegna', classification: 'DOC', regions: ['sardegna'] },
+  { name: 'Vermentino di Gallura', classification: 'DOCG', regions: ['sardegna'] },
+  { name: 'Vermentino di Sardegna', classification: 'DOC', regions: ['sardegna'] },
+  { name: 'Carignano del Sulcis', classification: 'DOC', regions: ['sardegna'] },
+
+  // Borgogna
+  { name: 'Chablis', classification: 'AOC', regions: ['borgogna'] },
+  { name: 'Bourgogne', classification: 'AOC', regions: ['borgogna'] },
+  { name: 'Gevrey-Chambertin', classification: 'AOC', regions: ['borgogna'] },
+  { name: 'Chambolle-Musigny', classification: 'AOC', regions: ['borgogna'] },
+  { name: 'Vosne-Romanée', classification: 'AOC', regions: ['borgogna'] },
+  { name: 'Nuits-Saint-Georges', classification: 'AOC', regions: ['borgogna'] },
+  { name: 'Pommard', classification: 'AOC', regions: ['borgogna'] },
+  { name: 'Volnay', classification: 'AOC', regions: ['borgogna'] },
+  { name: 'Meursault', classification: 'AOC', regions: ['borgogna'] },
+  { name: 'Puligny-Montrachet', classification: 'AOC', regions: ['borgogna'] },
+  { name: 'Chassagne-Montrachet', classification: 'AOC', regions: ['borgogna'] },
+  { name: 'Corton', classification: 'AOC', regions: ['borgogna'] },
+  { name: 'Corton-Charlemagne', classification: 'AOC', regions: ['borgogna'] },
+  { name: 'Pouilly-Fuissé', classification: 'AOC', regions: ['borgogna'] },
+  { name: 'Mâcon', classification: 'AOC', regions: ['borgogna'], aliases: ['Mâcon-Villages'] },
+
+  // Bordeaux
+  { name: 'Bordeaux', classification: 'AOC', regions: ['bordeaux'] },
+  { name: 'Bordeaux Supérieur', classification: 'AOC', regions: ['bordeaux'] },
+  { name: 'Médoc', classification: 'AOC', regions: ['bordeaux'] },
+  { name: 'Haut-Médoc', classification: 'AOC', regions: ['bordeaux'] },
+  { name: 'Margaux', classification: 'AOC', regions: ['bordeaux'] },
+  { name: 'Pauillac', classification: 'AOC', regions: ['bordeaux'] },
+  { name: 'Saint-Julien', classification: 'AOC', regions: ['bordeaux'] },
+  { name: 'Saint-Estèphe', classification: 'AOC', regions: ['bordeaux'] },
+  { name: 'Pessac-Léognan', classification: 'AOC', regions: ['bordeaux'] },
+  { name: 'Graves', classification: 'AOC', regions: ['bordeaux'] },
+  { name: 'Saint-Émilion', classification: 'AOC', regions: ['bordeaux'], aliases: ['Saint-Émilion Grand Cru'] },
+  { name: 'Pomerol', classification: 'AOC', regions: ['bordeaux'] },
+  { name: 'Sauternes', classification: 'AOC', regions: ['bordeaux'] },
+  { name: 'Entre-Deux-Mers', classification: 'AOC', regions: ['bordeaux'] },
+
+  // Champagne, Alsazia
+  { name: 'Champagne', classification: 'AOC', regions: ['champagne'] },
+  { name: 'Alsace', classification: 'AOC', regions: ['alsazia'], aliases: ['Vin d\'Alsace'] },
+  { name: 'Alsace Grand Cru', classification: 'AOC', regions: ['alsazia'] },
+  { name: 'Crémant d\'Alsace', classification: 'AOC', regions: ['alsazia'] },
+
+  // Valle del Rodano
+  { name: 'Côtes du Rhône', classification: 'AOC', regions: ['valle-del-rodano'] },
+  { name: 'Côtes du Rhône Villages', classification: 'AOC', regions: ['valle-del-rodano'] },
+  { name: 'Châteauneuf-du-Pape', classification: 'AOC', regions: ['valle-del-rodano'] },
+  { name: 'Hermitage', classification: 'AOC', regions: ['valle-del-rodano'] },
+  { name: 'Crozes-Hermitage', classification: 'AOC', regions: ['valle-del-rodano'] },
+  { name: 'Côte-Rôtie', classification: 'AOC', regions: ['valle-del-rodano'] },
+  { name: 'Condrieu', classification: 'AOC', regions: ['valle-del-rodano'] },
+  { name: 'Gigondas', classification: 'AOC', regions: ['valle-del-rodano'] },
+  { name: 'Vacqueyras', classification: 'AOC', regions: ['valle-del-rodano'] },
+  { name: 'Saint-Joseph', classification: 'AOC', regions: ['valle-del-rodano'] },
+  { name: 'Tavel', classification: 'AOC', regions: ['valle-del-rodano'] },
+
+  // Valle della Loira
+  { name: 'Sancerre', classification: 'AOC', regions: ['valle-della-loira'] },
+  { name: 'Pouilly-Fumé', classification: 'AOC', regions: ['valle-della-loira'], aliases: ['Blanc Fumé de Pouilly'] },
+  { name: 'Vouvray', classification: 'AOC', regions: ['valle-della-loira'] },
+  { name: 'Chinon', classification: 'AOC', regions: ['valle-della-loira'] },
+  { name: 'Savennières', classification: 'AOC', regions: ['valle-della-loira'] },
+  { name: 'Saumur-Champigny', classification: 'AOC', regions: ['valle-della-loira'] },
+  { name: 'Muscadet Sèvre et Maine', classification: 'AOC', regions: ['valle-della-loira'], aliases: ['Muscadet'] },
+
+  // Sud della Francia
+  { name: 'Languedoc', classification: 'AOC', regions: ['linguadoca-rossiglione'] },
+  { name: 'Minervois', classification: 'AOC', regions: ['linguadoca-rossiglione'] },
+  { name: 'Corbières', classification: 'AOC', regions: ['linguadoca-rossiglione'] },
+  { name: 'Pic Saint-Loup', classification: 'AOC', regions: ['linguadoca-rossiglione'] },
+  { name: 'Fitou', classification: 'AOC', regions: ['linguadoca-rossiglione'] },
+  { name: 'Côtes de Provence', classification: 'AOC', regions: ['provenza'] },
+  { name: 'Bandol', classification: 'AOC', regions: ['provenza'] },
+  { name: 'Cahors', classification: 'AOC', regions: ['sud-ovest'] },
+  { name: 'Madiran', classification: 'AOC', regions: ['sud-ovest'] },
+  { name: 'Jurançon', classification: 'AOC', regions: ['sud-ovest'] },
+
+  // Beaujolais, Giura
+  { name: 'Beaujolais', classification: 'AOC', regions: ['beaujolais'], aliases: ['Beaujolais-Villages'] },
+  { name: 'Morgon', classification: 'AOC', regions: ['beaujolais'] },
+  { name: 'Fleurie', classification: 'AOC', regions: ['beaujolais'] },
+  { name: 'Moulin-à-Vent', classification: 'AOC', regions: ['beaujolais'] },
+  { name: 'Arbois', classification: 'AOC', regions: ['jura'] },
+  { name: 'Château-Chalon', classification: 'AOC', regions: ['jura'] },
+
+  // Spagna
+  { name: 'Rioja', classification: 'DOCa', regions: ['la-rioja', 'navarra'] },
+  { name: 'Priorat', classification: 'DOCa', regions: ['catalogna'], aliases: ['Priorato'] },
+  { name: 'Ribera del Duero', classification: 'DO', regions: ['castiglia-e-leon'] },
+  { name: 'Toro', classification: 'DO', regions: ['castiglia-e-leon'] },
+  { name: 'Rueda', classification: 'DO', regions: ['castiglia-e-leon'] },
+  { name: 'Penedès', classification: 'DO', regions: ['catalogna'] },
+  { name: 'Cava', classification: 'DO', regions: ['catalogna'] },
+  { name: 'Rías Baixas', classification: 'DO', regions: ['galizia'] },
+  { name: 'Jerez-Xérès-Sherry', classification: 'DO', regions: ['andalusia'], aliases: ['Jerez', 'Xérès', 'Sherry'] },
+  { name: 'Navarra', classification: 'DO', regions: ['navarra'] },
+  { name: 'La Mancha', classification: 'DO', regions: ['castiglia-la-mancia'] },
+
+  // Portogallo
+  { name: 'Douro', classification: 'DOC', regions: ['douro'] },
+  { name: 'Porto', classification: 'DOC', regions: ['douro'], aliases: ['Port', 'Vinho do Porto', 'Oporto'] },
+  { name: 'Vinho Verde', classification: 'DOC', regions: ['minho'] },
+  { name: 'Alentejo', classification: 'DOC', regions: ['alentejo'] },
+  { name: 'Madeira', classification: 'DOC', regions: ['madeira'], aliases: ['Madère'] },
+
+  // Austria
+  { name: 'Wachau', classification: 'DAC', regions: ['bassa-austria'] },
+  { name: 'Kamptal', classification: 'DAC', regions: ['bassa-austria'] },
+  { name: 'Kremstal', classification: 'DAC', regions: ['bassa-austria'] },
+  { name: 'Weinviertel', classification: 'DAC', regions: ['bassa-austria'] },
+
+  // Stati Uniti
+  { name: 'Napa Valley', classification: 'AVA', regions: ['california'], aliases: ['Napa'] },
+  { name: 'Sonoma Coast', classification: 'AVA', regions: ['california'] },
+  { name: 'Russian River Valley', classification: 'AVA', regions: ['california'] },
+  { name: 'Paso Robles', classification: 'AVA', regions: ['california'] },
+  { name: 'Willamette Valley', classification: 'AVA', regions: ['oregon'] },
+];
@@ -20,9 +20,20 @@ export const db = getFirestore();
 
 // Triggers
 export { onUserCreate, onUserDelete } from './triggers/users';
+export { onPhotoUploaded, onPhotoWritten } from './triggers/photos';
+export { onLabelPhotoUploaded } from './triggers/extraction';
+export { onWineWritten } from './triggers/wines';
+export { onDinnerWritten } from './triggers/dinners';
 
 // API Endpoints
 export { extractWineFromPhoto } from './api/extract';
-export { proposeDinnerMenu } from './api/propose';
+export { confirmExtraction, confirmReceiptImport } from './api/confirm';
+export { importPurchaseReceipt } from './api/receipt';
+export { proposeDinnerMenu, regenerateCourse, proposeMenuVariants, promoteMenuVariant } from './api/propose';
+export { selectWineProposal } from './api/proposals';
+export { createGuestInvites, guestRsvp, reviewGuestPreferences } from './api/guests';
+export { generateShoppingList, toggleShoppingItem, exportShoppingList } from './api/shopping';
+export { generateDinnerTimeline, exportDinnerTimeline } from './api/timeline';
+export { generateDinnerInvitation } from './api/invitation';
 export { chatWithSommelier } from './api/chat';
 export { healthCheck } from './api/health';
@@ -0,0 +1,74 @@
+/**
+ * Barcodes
+ *
+ * EAN-13 / EAN-8 / UPC-A handling for bottle barcodes. Codes come either
+ * from the client's scanner or from the digits printed under the bars,
+ * which OCR picks up. Known codes are stored on Wine.barcodes.
+ */
+
+import { getFirestore } from 'firebase-admin/firestore';
+import type { Wine } from '../types';
+
+const db = getFirestore();
+
+// Firestore limit for array-contains-any
+const MAX_LOOKUP_CODES = 10;
+
+/**
+ * Returns the canonical form of a GTIN (UPC-A is widened to EAN-13),
+ * or null when the code is malformed or its check digit is wrong.
+ */
+export function normalizeBarcode(raw: string): string | null {
+  const digits = raw.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits)) return null;
+
+  const code = digits.length === 12 ? '0' + digits : digits;
+  if (code.length !== 8 && code.length !== 13) return null;
+
+  return hasValidCheckDigit(code) ? code : null;
+}
+
+function hasValidCheckDigit(code: string): boolean {
+  const digits = code.split('').map(Number);
+  const check = digits.pop()!;
+
+  // Weights alternate 3,1,3,... starting from the digit next to the check digit
+  const sum = digits
+    .reverse()
+    .reduce((acc, digit, i) => acc + digit * (i % 2 === 0 ? 3 : 1), 0);
+
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+/**
+ * Finds valid GTINs among the digit groups of an OCR text. Printed EANs are
+ * usually split by spaces ("8 001234 567895"), so groups are joined back.
+ */
+export function findBarcodesInText(text: string): string[] {
+  const candidates = text.match(/\d[\d -]{6,18}\d/g) || [];
+  const codes = candidates
+    .map(normalizeBarcode)
+    .filter((code): code is string => code !== null);
+
+  return [...new Set(codes)];
+}
+
+/** Looks up the first wine carrying any of the given codes. */
+export async function findWineByBarcode(
+  codes: string[]
+): Promise<{ code: string; wine: Wine } | null> {
+  if (codes.length === 0) return null;
+
+  const snapshot = await db.collection('wines')
+    .where('barcodes', 'array-contains-any', codes.slice(0, MAX_LOOKUP_CODES))
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) return null;
+
+  const doc = snapshot.docs[0];
+  const wine = { id: doc.id, ...doc.data() } as Wine;
+  const code = codes.find(c => wine.barcodes?.includes(c))!;
+
+  return { code, wine };
+}
@@ -0,0 +1,179 @@
+/**
+ * Wine Budget
+ *
+ * What a dinner may spend on wine, by DinnerEvent.budgetLevel: the price
+ * band of a bottle to buy (passed to the prompts) and a ceiling per person
+ * the wine plan is checked against. Users can override both per level in
+ * UserPreferences.wineBudgets.
+ *
+ * The cost of a plan counts the cellar bottles at their acquiredPrice and,
+ * as purchases, the market wines of the courses without a cellar pick plus
+ * the bottles the cellar is short of.
+ */
+
+import { getFirestore } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { DEFAULT_CURRENCY, multiplyPrice, planWineServings } from './winePlanning';
+import { promptText } from './prompts';
+import type {
+  BudgetLevel,
+  Language,
+  MenuCourse,
+  PriceRange,
+  User,
+  WineBudgetSettings,
+  WineCostSummary,
+  WinePlanEntry
+} from '../types';
+
+const db = getFirestore();
+
+export interface WineBudget extends Required<WineBudgetSettings> {
+  level: BudgetLevel;
+  currency: string;
+}
+
+export const DEFAULT_WINE_BUDGETS: Record<BudgetLevel, Required<WineBudgetSettings>> = {
+  economic: { bottleMin: 6, bottleMax: 12, perPerson: 8 },
+  standard: { bottleMin: 12, bottleMax: 25, perPerson: 15 },
+  premium: { bottleMin: 25, bottleMax: 50, perPerson: 30 },
+  luxury: { bottleMin: 50, bottleMax: 150, perPerson: 80 },
+};
+
+// ============================================================
+// BUDGET
+// ============================================================
+
+/** Dinners without a (known) budget level spend like 'standard' */
+function resolveBudgetLevel(level: BudgetLevel | undefined): BudgetLevel {
+  return level && DEFAULT_WINE_BUDGETS[level] ? level : 'standard';
+}
+
+export function resolveWineBudget(
+  level: BudgetLevel | undefined,
+  overrides: WineBudgetSettings = {}
+): WineBudget {
+  const resolvedLevel = resolveBudgetLevel(level);
+  const defaults = DEFAULT_WINE_BUDGETS[resolvedLevel];
+  const valid = (value: number | undefined) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+
+  const bottleMin = valid(overrides.bottleMin) ?? defaults.bottleMin;
+  const bottleMax = valid(overrides.bottleMax) ?? defaults.bottleMax;
+
+  return {
+    level: resolvedLevel,
+    bottleMin: Math.min(bottleMin, bottleMax),
+    bottleMax: Math.max(bottleMin, bottleMax),
+    perPerson: valid(overrides.perPerson) ?? defaults.perPerson,
+    currency: DEFAULT_CURRENCY,
+  };
+}
+
+/** The user's budget for `level`, or the default one. Never throws. */
+export async function loadWineBudget(userId: string, level: BudgetLevel | undefined): Promise<WineBudget> {
+  try {
+    const userDoc = await db.collection('users').doc(userId).get();
+    const overrides = (userDoc.data() as User | undefined)?.preferences?.wineBudgets;
+    return resolveWineBudget(level, overrides?.[resolveBudgetLevel(level)]);
+  } catch (error) {
+    logger.warn('Could not load wine budget', { userId, error });
+    return resolveWineBudget(level);
+  }
+}
+
+export function budgetCeiling(budget: WineBudget, people: number): number {
+  return budget.perPerson * people;
+}
+
+/** "standard - bottiglie da acquistare tra 12 e 25 EUR, ..." for the prompts */
+export function describeBudget(budget: WineBudget, people: number, language: Language = 'it'): string {
+  return promptText(language, 'budget', {
+    level: budget.level,
+    min: budget.bottleMin,
+    max: budget.bottleMax,
+    currency: budget.currency,
+    ceiling: budgetCeiling(budget, people),
+    people,
+  });
+}
+
+// ============================================================
+// PRICES
+// ============================================================
+
+/** A { min, max, currency } estimate from the LLM, or undefined when unusable */
+export function parsePriceRange(raw: unknown): PriceRange | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const { min, max, currency } = raw as Record<string, unknown>;
+
+  const low = Number(min);
+  const high = max === undefined || max === null ? low : Number(max);
+  if (!Number.isFinite(low) || !Number.isFinite(high) || low <= 0 || high <= 0) return undefined;
+
+  const code = typeof currency === 'string' && /^[a-z]{3}$/i.test(currency.trim())
+    ? currency.trim().toUpperCase()
+    : DEFAULT_CURRENCY;
+
+  return { min: Math.min(low, high), max: Math.max(low, high), currency: code };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ============================================================
+// SUMMARY
+// ============================================================
+
+export function summarizeWineCost(
+  courses: MenuCourse[],
+  winePlan: WinePlanEntry[],
+  people: number,
+  budget: WineBudget
+): WineCostSummary {
+  const unpricedWines: string[] = [];
+  const purchase = { min: 0, max: 0 };
+  let cellarValue = 0;
+
+  const addPurchase = (name: string, price: PriceRange | undefined, bottles: number) => {
+    if (!price || price.currency !== budget.currency) {
+      unpricedWines.push(name);
+      return;
+    }
+    const cost = multiplyPrice(price, bottles);
+    purchase.min += cost.min;
+    purchase.max += cost.max;
+  };
+
+  for (const entry of winePlan.filter(e => e.source === 'cellar')) {
+    const poured = Math.min(entry.bottlesNeeded, entry.availableBottles ?? 0);
+    if (entry.bottlePrice) {
+      cellarValue += entry.bottlePrice.min * poured;
+    } else {
+      unpricedWines.push(entry.name);
+    }
+    // Missing bottles have to be bought, at roughly what the others cost
+    if (entry.shortfall) addPurchase(entry.name, entry.bottlePrice, entry.shortfall);
+  }
+
+  // Market wines only count where there is no cellar pick
+  const toBuy = planWineServings(courses, people, c => c.cellarWine ? undefined : c.marketWine);
+  for (const serving of toBuy) {
+    addPurchase(serving.name, serving.priceRange, serving.bottles);
+  }
+
+  const total = { min: round(cellarValue + purchase.min), max: round(cellarValue + purchase.max) };
+  const ceiling = budgetCeiling(budget, people);
+
+  return {
+    currency: budget.currency,
+    budgetLevel: budget.level,
+    cellarValue: round(cellarValue),
+    purchaseCost: { min: round(purchase.min), max: round(purchase.max) },
+    total,
+    ceiling,
+    status: total.max <= ceiling ? 'within' : total.min <= ceiling ? 'at_risk' : 'over',
+    unpricedWines: [...new Set(unpricedWines)],
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Cellar Queries
+ *
+ * Read helpers shared by the API functions.
+ */
+
+import { getFirestore } from 'firebase-admin/firestore';
+import type { Wine } from '../types';
+
+const db = getFirestore();
+
+/**
+ * Loads every wine that has at least one bottle (any status) in a cellar
+ * the user is a member of.
+ */
+export async function loadCellarWines(userId: string): Promise<Wine[]> {
+  // Get user's cellars
+  const cellarsSnapshot = await db.collection('cellars')
+    .where(`members.${userId}`, '!=', null)
+    .get();
+
+  if (cellarsSnapshot.empty) {
+    return [];
+  }
+
+  // Get all wine IDs from user's cellars
+  const wineIds = new Set<string>();
+  for (const cellarDoc of cellarsSnapshot.docs) {
+    const bottlesSnapshot = await cellarDoc.ref.collection('bottles').get();
+    bottlesSnapshot.docs.forEach(b => wineIds.add(b.data().wineId));
+  }
+
+  const wines: Wine[] = [];
+  for (const wineId of wineIds) {
+    const wineDoc = await db.collection('wines').doc(wineId).get();
+    if (!wineDoc.exists) continue;
+    wines.push({ id: wineDoc.id, ...wineDoc.data() } as Wine);
+  }
+
+  return wines;
+}
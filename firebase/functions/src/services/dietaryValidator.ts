@@ -0,0 +1,296 @@
+/**
+ * Dietary Validator
+ *
+ * Rule-based check of generated menu courses against the guests'
+ * allergies, intolerances and diets. The LLM gets the restrictions in the
+ * prompt, but its output (and its self-reported dietaryFlags) is not
+ * trusted: every course's name, description and notes are scanned for the
+ * ingredients in data/allergens.
+ *
+ * - violation: a forbidden ingredient is named in the course
+ * - risk: a forbidden ingredient is named, but next to a wording saying
+ *   it was adapted ("pasta senza glutine") - the host should double-check
+ *
+ * FoodPreference categories that map to no rule are matched literally
+ * ("funghi" -> any word starting with "fung").
+ *
+ * The lexicon is Italian with the common English, German and French
+ * names; menus in those languages are mainly checked through their
+ * 'ingredients', which the prompts ask for in Italian. A course of such a
+ * menu without ingredients cannot be verified, so every restriction it
+ * does not already break is reported as a risk rather than passed.
+ */
+
+import { normalizeWineText } from './wineMatching';
+import { PREFERENCE_TYPE_LABELS, t } from './i18n';
+import { promptText } from './prompts';
+import { DIETARY_RULES, DietaryRule, DietaryRuleId } from '../data/allergens';
+import type { FoodPreference, Language, MenuCourse } from '../types';
+
+export type DietaryIssueLevel = 'violation' | 'risk';
+
+export interface DietaryGuest {
+  name: string;
+  preferences: FoodPreference[];
+}
+
+export interface DietaryIssue {
+  courseIndex: number;
+  courseName: string;
+  guestName: string;
+  preferenceId: string;
+  preferenceType: FoodPreference['type'];
+  /** The preference as the host wrote it */
+  category: string;
+  restriction: string;
+  /** Empty when the course could not be checked (no ingredients) */
+  matches: string[];
+  level: DietaryIssueLevel;
+}
+
+/** Prefix of the guestConsiderations lines written by the validator */
+export const DIETARY_WARNING_PREFIX = '⚠️ ';
+
+const CHECKED_TYPES: FoodPreference['type'][] = ['allergy', 'intolerance', 'diet'];
+
+// Words allowed between a keyword and the safe phrase that adapts it ("pasta fresca senza glutine")
+const SAFE_PHRASE_GAP = 2;
+
+// ============================================================
+// RULES
+// ============================================================
+
+interface CompiledRule {
+  label: string;
+  keywords: RegExp[];
+  safePhrases: RegExp[];
+}
+
+/** Accent-free lowercase words, with the ligatures NFD does not split */
+function normalizeDishText(text: string): string {
+  return normalizeWineText(text.replace(/œ/gi, 'oe').replace(/æ/gi, 'ae').replace(/ß/g, 'ss'));
+}
+
+function compileKeyword(keyword: string): RegExp {
+  const stem = keyword.endsWith('*');
+  const text = normalizeDishText(stem ? keyword.slice(0, -1) : keyword);
+  return new RegExp(`(?<![a-z0-9])${text}${stem ? '[a-z0-9]*' : '(?![a-z0-9])'}`, 'g');
+}
+
+const RULES_BY_ID = new Map(DIETARY_RULES.map(r => [r.id, r]));
+
+/** A rule's keywords plus those of the rules it includes (vegan -> lactose, eggs, ...) */
+function expandRule(rule: DietaryRule, seen = new Set<DietaryRuleId>()): DietaryRule[] {
+  if (seen.has(rule.id)) return [];
+  seen.add(rule.id);
+  return [
+    rule,
+    ...(rule.includes || []).flatMap(id => expandRule(RULES_BY_ID.get(id)!, seen)),
+  ];
+}
+
+function compileRule(rule: DietaryRule): CompiledRule {
+  const rules = expandRule(rule);
+  const keywords = [...new Set(rules.flatMap(r => r.keywords))];
+  return {
+    label: rule.label,
+    keywords: keywords.map(compileKeyword),
+    // Only the rule's own safe phrases: "senza glutine" says nothing about meat
+    safePhrases: (rule.safePhrases || []).map(compileKeyword),
+  };
+}
+
+const COMPILED_RULES = new Map(DIETARY_RULES.map(r => [r.id, compileRule(r)]));
+
+const RULE_ALIASES = new Map<string, DietaryRuleId[]>();
+for (const rule of DIETARY_RULES) {
+  for (const alias of rule.aliases) {
+    const key = normalizeDishText(alias);
+    RULE_ALIASES.set(key, [...(RULE_ALIASES.get(key) || []), rule.id]);
+  }
+}
+
+/**
+ * Rules for a preference category. Tries the whole category, then its
+ * words ("allergia alle noci" -> noci); unknown categories become a literal
+ * rule on the category itself.
+ */
+function resolveDietaryRules(category: string): CompiledRule[] {
+  const key = normalizeDishText(category);
+  if (!key) return [];
+
+  const ids = RULE_ALIASES.get(key)
+    ?? [...new Set(key.split(' ').flatMap(word => RULE_ALIASES.get(word) || []))];
+  if (ids.length > 0) {
+    return ids.map(id => COMPILED_RULES.get(id)!);
+  }
+
+  // Plural/singular tolerant stem for single words ("funghi" -> "fung*")
+  const literal = !key.includes(' ') && key.length > 4 ? `${key.slice(0, -2)}*` : key;
+  return [{
+    label: category.trim(),
+    keywords: [compileKeyword(literal)],
+    safePhrases: [compileKeyword(`senza ${key}`)],
+  }];
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+function courseText(course: MenuCourse): string {
+  return normalizeDishText(
+    [course.name, course.description, course.notes, ...(course.ingredients || [])].filter(Boolean).join(' ')
+  );
+}
+
+interface WordSpan {
+  text: string;
+  first: number;
+  last: number;
+}
+
+/** Every occurrence of the pattern, by word position in the normalized text */
+function findSpans(pattern: RegExp, text: string): WordSpan[] {
+  return [...text.matchAll(pattern)].map(match => {
+    const first = match.index === 0 ? 0 : text.slice(0, match.index).split(' ').length - 1;
+    return { text: match[0], first, last: first + match[0].split(' ').length - 1 };
+  });
+}
+
+function isAdapted(hit: WordSpan, safe: WordSpan[]): boolean {
+  return safe.some(s => Math.max(s.first - hit.last, hit.first - s.last) - 1 <= SAFE_PHRASE_GAP);
+}
+
+/**
+ * Issues of one course. `language` is the language of the menu texts:
+ * outside Italian a course without ingredients is not trusted.
+ */
+export function validateCourse(
+  course: MenuCourse,
+  courseIndex: number,
+  guests: DietaryGuest[],
+  language: Language = 'it'
+): DietaryIssue[] {
+  const text = courseText(course);
+  const unverified = language !== 'it' && !course.ingredients?.length;
+  const issues: DietaryIssue[] = [];
+
+  for (const guest of guests) {
+    for (const preference of guest.preferences) {
+      if (!CHECKED_TYPES.includes(preference.type)) continue;
+
+      for (const rule of resolveDietaryRules(preference.category)) {
+        const hits = rule.keywords.flatMap(pattern => findSpans(pattern, text));
+        if (hits.length === 0 && !unverified) continue;
+
+        // A hit is only excused by a safe phrase next to it, and only if all of them are
+        const safe = rule.safePhrases.flatMap(pattern => findSpans(pattern, text));
+        const adapted = hits.every(hit => isAdapted(hit, safe));
+
+        issues.push({
+          courseIndex,
+          courseName: course.name,
+          guestName: guest.name,
+          preferenceId: preference.id,
+          preferenceType: preference.type,
+          category: preference.category,
+          restriction: rule.label,
+          matches: [...new Set(hits.map(hit => hit.text))],
+          level: hits.length > 0 && !adapted ? 'violation' : 'risk',
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+export function validateMenu(
+  courses: MenuCourse[],
+  guests: DietaryGuest[],
+  language: Language = 'it'
+): DietaryIssue[] {
+  return courses.flatMap((course, i) => validateCourse(course, i, guests, language));
+}
+
+export interface DietaryCoverage {
+  /** Guest allergies, intolerances and diets checked */
+  restrictions: number;
+  /** Restrictions no course violates */
+  respected: number;
+  violations: number;
+  risks: number;
+}
+
+export function dietaryCoverage(
+  courses: MenuCourse[],
+  guests: DietaryGuest[],
+  language: Language = 'it'
+): DietaryCoverage {
+  const issues = validateMenu(courses, guests, language);
+  const restrictions = guests.reduce(
+    (sum, g) => sum + g.preferences.filter(p => CHECKED_TYPES.includes(p.type)).length,
+    0
+  );
+  const violated = new Set(
+    issues.filter(i => i.level === 'violation').map(i => `${i.guestName}|${i.preferenceId}`)
+  );
+
+  return {
+    restrictions,
+    respected: restrictions - violated.size,
+    violations: issues.filter(i => i.level === 'violation').length,
+    risks: issues.filter(i => i.level === 'risk').length,
+  };
+}
+
+// ============================================================
+// REPORTING
+// ============================================================
+
+/**
+ * Rule labels and matched words are Italian: other languages name the
+ * restriction as the host wrote it.
+ */
+function describeRestriction(issue: DietaryIssue, language: Language = 'it'): string {
+  const restriction = language === 'it' ? issue.restriction : issue.category;
+  return issue.preferenceType === 'diet'
+    ? restriction
+    : `${PREFERENCE_TYPE_LABELS[language][issue.preferenceType]}: ${restriction}`;
+}
+
+export function describeIssue(issue: DietaryIssue, language: Language = 'it'): string {
+  const key = issue.matches.length === 0
+    ? 'dietaryUnverified'
+    : issue.level === 'violation' ? 'dietaryViolation' : 'dietaryRisk';
+  const message = t(language, key, {
+    course: issue.courseName,
+    found: issue.matches.join(', '),
+    guest: issue.guestName,
+    restriction: describeRestriction(issue, language),
+  });
+  return DIETARY_WARNING_PREFIX + message;
+}
+
+/**
+ * Replaces the validator lines in guestConsiderations with the current
+ * issues, keeping the LLM's own notes.
+ */
+export function withDietaryWarnings(
+  considerations: string[],
+  issues: DietaryIssue[],
+  language: Language = 'it'
+): string[] {
+  return [
+    ...considerations.filter(c => !c.startsWith(DIETARY_WARNING_PREFIX)),
+    ...issues.map(issue => describeIssue(issue, language)),
+  ];
+}
+
+/** Instruction for regenerating a course that failed validation */
+export function buildDietaryInstruction(issues: DietaryIssue[], language: Language = 'it'): string {
+  const forbidden = [...new Set(issues.flatMap(i => i.matches))].join(', ');
+  const guests = [...new Set(issues.map(i => `${i.guestName} (${describeRestriction(i, language)})`))].join('; ');
+  return promptText(language, 'dietaryInstruction', { guests, forbidden });
+}
@@ -0,0 +1,115 @@
+/**
+ * Dinner Completion
+ *
+ * What happens when a dinner is marked 'completed':
+ *
+ *   - the cellar bottles of the selected proposals are consumed, once per
+ *     wine even when it is served with several courses: those reserved
+ *     for the dinner, or (selections made before reservations existed)
+ *     available bottles of the same wine, bottlesNeeded of them
+ *   - every cellar wine served gets a pending "rate this wine" draft in
+ *     users/{uid}/ratings, unless the host already rated it
+ *
+ * Everything runs in one transaction that also writes
+ * DinnerEvent.completion, so a retried or repeated event does nothing.
+ */
+
+import { getFirestore, DocumentSnapshot, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import {
+  consumeBottlesInTransaction,
+  findAvailableBottles,
+  readReservedBottles,
+  ReservationContext
+} from './reservations';
+import type { DinnerCompletion, DinnerEvent, Rating, WineProposal } from '../types';
+
+const db = getFirestore();
+
+/** Draft ids are fixed so a wine is never asked twice for the same dinner */
+function ratingDraftId(dinnerId: string, wineId: string): string {
+  return `${dinnerId}_${wineId}`;
+}
+
+/**
+ * Runs the completion workflow for a dinner of `hostId`. Returns null when
+ * it already ran.
+ */
+export async function completeDinner(hostId: string, dinnerId: string): Promise<DinnerCompletion | null> {
+  const dinnerRef = db.collection('dinners').doc(dinnerId);
+  const proposalsRef = db.collection('users').doc(hostId)
+    .collection('dinners').doc(dinnerId)
+    .collection('proposals');
+  const ratingsRef = db.collection('users').doc(hostId).collection('ratings');
+
+  const completion = await db.runTransaction(async (tx) => {
+    const dinnerDoc = await tx.get(dinnerRef);
+    const dinner = dinnerDoc.data() as DinnerEvent | undefined;
+    if (!dinner || dinner.completion) return null;
+
+    const selectedSnapshot = await tx.get(proposalsRef.where('isSelected', '==', true));
+    const cellarProposals = selectedSnapshot.docs
+      .map(doc => doc.data() as WineProposal)
+      .filter(p => p.type === 'available' && p.wineId);
+
+    // Reads: bottles to consume and the host's ratings of the wines served
+    const servedWineIds = [...new Set(cellarProposals.map(p => p.wineId!))];
+    const bottles = new Map<string, DocumentSnapshot>();
+    for (const wineId of servedWineIds) {
+      const proposals = cellarProposals.filter(p => p.wineId === wineId);
+      const reserved = proposals.flatMap(p => p.reservedBottles || []);
+      const bottlesNeeded = Math.max(...proposals.map(p => p.bottlesNeeded ?? 1));
+      const found = reserved.length > 0
+        ? await readReservedBottles(tx, reserved, dinnerId)
+        : await findAvailableBottles(tx, hostId, wineId, bottlesNeeded);
+      found.forEach(b => bottles.set(b.ref.path, b));
+    }
+
+    const toRate: string[] = [];
+    for (const wineId of servedWineIds) {
+      const ratingsSnapshot = await tx.get(ratingsRef.where('wineId', '==', wineId));
+      if (ratingsSnapshot.empty) toRate.push(wineId);
+    }
+
+    // Writes
+    const context: ReservationContext = {
+      dinnerId,
+      userId: hostId,
+      reason: `Cena: ${dinner.title || dinner.name || dinnerId}`,
+    };
+    const consumedBottles = consumeBottlesInTransaction(tx, [...bottles.values()], context);
+
+    const now = Timestamp.now();
+    for (const wineId of toRate) {
+      const draft: Omit<Rating, 'id'> = {
+        wineId,
+        userId: hostId,
+        rating: 0,
+        isFavorite: false,
+        status: 'pending',
+        dinnerId,
+        createdAt: now,
+        updatedAt: now,
+      };
+      tx.set(ratingsRef.doc(ratingDraftId(dinnerId, wineId)), draft);
+    }
+
+    const result: DinnerCompletion = {
+      completedAt: now,
+      consumedBottles,
+      ratingDrafts: toRate,
+    };
+    tx.update(dinnerRef, { completion: result, updatedAt: now });
+
+    return result;
+  });
+
+  if (completion) {
+    logger.info('Dinner completed', {
+      dinnerId,
+      consumedBottles: completion.consumedBottles.length,
+      ratingDrafts: completion.ratingDrafts.length,
+    });
+  }
+  return completion;
+}
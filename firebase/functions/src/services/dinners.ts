@@ -0,0 +1,35 @@
+/**
+ * Dinner Queries
+ *
+ * Read helpers shared by the API functions.
+ */
+
+import { getFirestore } from 'firebase-admin/firestore';
+import { t } from './i18n';
+import type { DinnerEvent, Language, MenuProposal } from '../types';
+
+const db = getFirestore();
+
+/** The dinner, or null when it does not exist or the user is not its host */
+export async function loadDinner(userId: string, dinnerId: string): Promise<DinnerEvent | null> {
+  // Dinners are in top-level collection
+  const doc = await db.collection('dinners').doc(dinnerId).get();
+  if (!doc.exists) return null;
+
+  const data = doc.data();
+  // Verify ownership
+  if (data?.hostId !== userId) return null;
+
+  return { id: doc.id, ...data } as DinnerEvent;
+}
+
+/** iOS stores the name in 'title' */
+export function dinnerTitle(dinner: DinnerEvent, language: Language = 'it'): string {
+  return dinner.title || dinner.name || t(language, 'untitledDinner');
+}
+
+/** The menu is stored in 'menu' (iOS); older dinners used 'menuProposal'. */
+export function loadMenu(dinner: DinnerEvent): MenuProposal | null {
+  const menu = dinner.menu || dinner.menuProposal;
+  return menu?.courses?.length ? menu : null;
+}
@@ -0,0 +1,179 @@
+/**
+ * Drinking Window
+ *
+ * Rule-based estimate of when a vintage is ready, at its best and past
+ * it, from type, appellation, grapes and name. Ageing profiles are years
+ * after the vintage; the first profile whose keywords the wine mentions
+ * wins, then the type default. Non-vintage wines have no window.
+ *
+ * A window the user set (source 'user') always takes precedence.
+ */
+
+import { inferWineType } from './serving';
+import { normalizeWineText } from './wineMatching';
+import type { DrinkingStatus, DrinkingWindow, Wine, WineType } from '../types';
+
+interface AgeingProfile {
+  from: number;
+  peak: number;
+  to: number;
+}
+
+// ============================================================
+// PROFILES
+// ============================================================
+
+/** `types` limits a profile to wines of those types (a white Hermitage is not a red one) */
+const KEYWORD_PROFILES: { keywords: string[]; types?: WineType[]; profile: AgeingProfile }[] = [
+  // Sweet and fortified wines that last decades
+  {
+    keywords: ['sauternes', 'tokaji', 'recioto', 'vin santo', 'passito', 'muffato', 'vintage port', 'madeira', 'marsala vergine'],
+    profile: { from: 3, peak: 10, to: 30 },
+  },
+  // Great reds for long ageing
+  {
+    keywords: [
+      'barolo', 'barbaresco', 'brunello', 'taurasi', 'sagrantino', 'amarone', 'sforzato', 'sfursat', 'gattinara',
+      'ghemme', 'aglianico del vulture', 'hermitage', 'cote rotie', 'pauillac', 'margaux', 'saint julien',
+      'saint estephe', 'pomerol', 'priorat', 'gran reserva',
+    ],
+    types: ['red'],
+    profile: { from: 6, peak: 12, to: 25 },
+  },
+  // Structured reds
+  {
+    keywords: [
+      'bolgheri', 'sassicaia', 'vino nobile', 'chianti classico gran selezione', 'chianti classico riserva',
+      'ribera del duero', 'rioja reserva', 'chateauneuf', 'saint emilion', 'pessac leognan', 'haut medoc',
+      'gevrey chambertin', 'vosne romanee', 'corton', 'valtellina superiore', 'carmignano', 'montefalco',
+      'supertuscan', 'super tuscan', 'bordeaux superieur', 'cahors', 'madiran', 'bandol',
+    ],
+    types: ['red'],
+    profile: { from: 3, peak: 7, to: 15 },
+  },
+  // Vintage sparkling wines on the lees
+  {
+    keywords: ['champagne', 'franciacorta', 'trentodoc', 'trento doc', 'metodo classico', 'millesimato'],
+    profile: { from: 2, peak: 5, to: 12 },
+  },
+  // Whites that improve with a few years
+  {
+    keywords: [
+      'riesling', 'chablis', 'meursault', 'montrachet', 'corton charlemagne', 'savennieres', 'vouvray', 'fiano',
+      'timorasso', 'verdicchio', 'carricante', 'etna bianco', 'greco di tufo', 'trebbiano d abruzzo', 'hermitage',
+    ],
+    types: ['white'],
+    profile: { from: 1, peak: 4, to: 10 },
+  },
+  // Medium-bodied reds
+  {
+    keywords: [
+      'chianti', 'nebbiolo', 'barbera', 'ripasso', 'rosso di montalcino', 'rosso di montepulciano', 'montepulciano',
+      'primitivo', 'nero d avola', 'aglianico', 'cannonau', 'etna rosso', 'morellino', 'cabernet', 'merlot', 'syrah',
+      'shiraz', 'malbec', 'rioja', 'crianza', 'cotes du rhone', 'bordeaux', 'medoc', 'bourgogne', 'pinot nero',
+      'pinot noir',
+    ],
+    types: ['red'],
+    profile: { from: 1, peak: 4, to: 8 },
+  },
+  // Reds to drink young
+  {
+    keywords: [
+      'novello', 'nouveau', 'beaujolais', 'lambrusco', 'bardolino', 'dolcetto', 'grignolino', 'schiava', 'vernatsch',
+      'frappato', 'freisa', 'ruche', 'valpolicella', 'gamay',
+    ],
+    types: ['red'],
+    profile: { from: 0, peak: 1, to: 4 },
+  },
+];
+
+const TYPE_PROFILES: Record<WineType, AgeingProfile> = {
+  red: { from: 1, peak: 3, to: 7 },
+  white: { from: 0, peak: 1, to: 4 },
+  'rosé': { from: 0, peak: 1, to: 3 },
+  sparkling: { from: 0, peak: 1, to: 3 },
+  dessert: { from: 2, peak: 6, to: 15 },
+  fortified: { from: 2, peak: 10, to: 30 },
+};
+
+// "Riserva" on a still wine: more time in the cellar before and after
+const RESERVE_KEYWORDS = ['riserva', 'reserva', 'reserve'];
+const RESERVE_SHIFT: AgeingProfile = { from: 1, peak: 2, to: 4 };
+
+// ============================================================
+// ESTIMATE
+// ============================================================
+
+function mentions(text: string, keywords: string[]): boolean {
+  return keywords.some(k => new RegExp(`(?<![a-z0-9])${normalizeWineText(k)}(?![a-z0-9])`).test(text));
+}
+
+/** The estimated window of a vintage wine, null for non-vintage wines */
+export function estimateDrinkingWindow(
+  wine: Pick<Wine, 'name' | 'type' | 'vintage' | 'appellation' | 'grapes'>
+): DrinkingWindow | null {
+  if (!wine.vintage) return null;
+
+  const type = inferWineType({ name: wine.name, type: wine.type });
+  const text = normalizeWineText([wine.name, wine.appellation, ...(wine.grapes || [])].filter(Boolean).join(' '));
+
+  const matched = KEYWORD_PROFILES.find(p => (!p.types || p.types.includes(type)) && mentions(text, p.keywords));
+  let profile = matched?.profile ?? TYPE_PROFILES[type];
+
+  // Keywords that name a reserve ("Chianti Classico Riserva") already account for it
+  const reserveKeyword = matched?.keywords.some(k => mentions(text, [k]) && mentions(k, RESERVE_KEYWORDS));
+  const isStill = type === 'red' || type === 'white';
+  if (isStill && !reserveKeyword && mentions(text, RESERVE_KEYWORDS)) {
+    profile = {
+      from: profile.from + RESERVE_SHIFT.from,
+      peak: profile.peak + RESERVE_SHIFT.peak,
+      to: profile.to + RESERVE_SHIFT.to,
+    };
+  }
+
+  return {
+    from: wine.vintage + profile.from,
+    peak: wine.vintage + profile.peak,
+    to: wine.vintage + profile.to,
+    source: 'estimated',
+  };
+}
+
+/** The stored window, or the estimate for wines written before windows existed */
+export function drinkingWindowOf(wine: Wine): DrinkingWindow | null {
+  return wine.drinkingWindow ?? estimateDrinkingWindow(wine);
+}
+
+export function isSameWindow(a: DrinkingWindow | undefined | null, b: DrinkingWindow | undefined | null): boolean {
+  return a?.from === b?.from && a?.peak === b?.peak && a?.to === b?.to && a?.source === b?.source;
+}
+
+// ============================================================
+// STATUS
+// ============================================================
+
+/**
+ * Where `year` falls in the window. The peak lasts from the year before
+ * 'peak' through the first third of the years between 'peak' and 'to'.
+ */
+export function drinkingStatus(window: DrinkingWindow, year: number): DrinkingStatus {
+  if (year < window.from) return 'too_young';
+  if (year > window.to) return 'past';
+
+  const peakEnd = window.peak + Math.max(1, Math.round((window.to - window.peak) / 3));
+  if (year >= window.peak - 1 && year <= peakEnd) return 'peak';
+  return year < window.peak ? 'ready' : 'declining';
+}
+
+/** Wines that should be opened before they lose their best years */
+export function shouldDrinkSoon(status: DrinkingStatus): boolean {
+  return status === 'peak' || status === 'declining' || status === 'past';
+}
+
+export const DRINKING_STATUS_LABELS: Record<DrinkingStatus, string> = {
+  too_young: 'troppo giovane',
+  ready: 'pronto, in crescita',
+  peak: 'al picco',
+  declining: 'da bere presto',
+  past: 'oltre la finestra ideale',
+};
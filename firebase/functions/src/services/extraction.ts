@@ -0,0 +1,716 @@
+/**
+ * Wine Extraction Pipeline
+ *
+ * Shared by the extractWineFromPhoto callable and the background
+ * extraction triggered by label uploads:
+ * 1. Photo URLs from Firebase Storage (front label, back label, bottle)
+ *    plus any barcode read by the client scanner
+ * 2. OCR of each photo (Google Vision, or recorded fixtures in the emulator)
+ * 3. Claude for interpretation and mapping to Wine schema, photo by photo
+ * 4. Merge per-photo fields with provenance and combined confidence
+ * 5. Fuzzy matching with existing wines
+ * 6. Persist as a pending extraction in users/{uid}/extractions
+ *
+ * A barcode (from the client or printed digits found by OCR) that is already
+ * stored on a Wine short-circuits the pipeline: exact match, no LLM call.
+ *
+ * Results are cached by image content hash (see services/extractionCache);
+ * forceRefresh bypasses the cache.
+ *
+ * In 'list' mode (restaurant wine list, shelf, shop display) step 3-4 return
+ * an array of wines instead, each cross-checked against the user's cellar.
+ */
+
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import Anthropic from '@anthropic-ai/sdk';
+import { logger } from 'firebase-functions';
+import { z } from 'zod';
+import { getOcrProvider } from './ocr';
+import { loadCellarWines } from './cellar';
+import { findBarcodesInText, findWineByBarcode } from './barcodes';
+import { fieldsToMatchQuery, rankWineMatches } from './wineMatching';
+import { normalizeGeography } from './geography';
+import { loadUserLanguage, t } from './i18n';
+import { EXTRACTION_PROMPTS, PHOTO_TYPE_LABELS, WINE_LIST_PROMPTS } from './prompts';
+import {
+  computeExtractionCacheKey,
+  readExtractionCache,
+  writeExtractionCache
+} from './extractionCache';
+import type {
+  ExtractWineResponse,
+  Extraction,
+  ExtractionCacheEntry,
+  ExtractionMode,
+  ExtractionResult,
+  ExtractionPhoto,
+  ExtractionSource,
+  ExtractedField,
+  Language,
+  ListedWine,
+  ListExtractionResult,
+  PhotoOcrResult,
+  PhotoType,
+  Wine
+} from '../types';
+
+const db = getFirestore();
+
+const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+});
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+const MIN_OCR_LENGTH = 10;
+
+const ExtractedWineSchema = z.object({
+  name: z.object({ value: z.string(), confidence: z.number() }).optional(),
+  producer: z.object({ value: z.string(), confidence: z.number() }).optional(),
+  vintage: z.object({ value: z.string(), confidence: z.number() }).optional(),
+  type: z.object({ value: z.string(), confidence: z.number() }).optional(),
+  region: z.object({ value: z.string(), confidence: z.number() }).optional(),
+  country: z.object({ value: z.string(), confidence: z.number() }).optional(),
+  appellation: z.object({ value: z.string(), confidence: z.number() }).optional(),
+  grapes: z.object({ value: z.array(z.string()), confidence: z.number() }).optional(),
+  alcohol: z.object({ value: z.number(), confidence: z.number() }).optional(),
+});
+
+type RawExtractedFields = z.infer<typeof ExtractedWineSchema>;
+
+const ListedWineSchema = z.object({
+  name: z.string().min(1),
+  producer: z.string().optional(),
+  vintage: z.number().int().optional(),
+  type: z.enum(['red', 'white', 'rosé', 'sparkling', 'dessert', 'fortified']).optional(),
+  region: z.string().optional(),
+  price: z.number().optional(),
+  currency: z.string().optional(),
+  confidence: z.number(),
+});
+
+const WineListSchema = z.object({
+  wines: z.array(ListedWineSchema),
+});
+
+type RawListedWine = z.infer<typeof ListedWineSchema>;
+
+// ============================================================
+// PIPELINE
+// ============================================================
+
+export interface ExtractionInput {
+  photos: ExtractionPhoto[];
+  mode: Exclude<ExtractionMode, 'receipt'>;
+  /** Already normalized (see services/barcodes) */
+  barcodes: string[];
+  forceRefresh: boolean;
+  /** Language of the prompts and of the messages in the response (default: the user's) */
+  language?: Language;
+}
+
+/** Where the resulting extraction is written. */
+export interface ExtractionTarget {
+  userId: string;
+  /** Fixed document id; a new one is generated when omitted */
+  extractionId?: string;
+  source?: ExtractionSource;
+  photoId?: string;
+}
+
+export async function runExtraction(
+  target: ExtractionTarget,
+  input: ExtractionInput
+): Promise<ExtractWineResponse> {
+  const { photos, mode, forceRefresh } = input;
+  const clientBarcodes = input.barcodes;
+
+  // Step 0: A known barcode identifies the wine exactly
+  if (mode === 'single' && clientBarcodes.length > 0) {
+    const hit = await findWineByBarcode(clientBarcodes);
+    if (hit) {
+      return await respondWithBarcodeMatch(target, hit.wine, hit.code, [], clientBarcodes);
+    }
+  }
+
+  // Step 0b: Identical images were already interpreted
+  const cacheKey = await computeExtractionCacheKey(mode, photos);
+  if (cacheKey && !forceRefresh) {
+    const cached = await readExtractionCache(target.userId, cacheKey);
+    if (cached) {
+      logger.info('Extraction served from cache', { userId: target.userId, cacheKey });
+      return await respondFromCache(target, cached, photos);
+    }
+  }
+
+  // Step 1: OCR, one photo at a time
+  const photoResults: PhotoOcrResult[] = [];
+  for (const photo of photos) {
+    const ocrText = await performOcr(photo.url);
+    photoResults.push({ ...photo, ocrText });
+  }
+  logger.info('OCR completed', {
+    textLengths: photoResults.map(p => p.ocrText.length),
+  });
+
+  // Barcode digits printed on the label, checked before spending an LLM call
+  const ocrBarcodes = photoResults.flatMap(p => findBarcodesInText(p.ocrText))
+    .filter(code => !clientBarcodes.includes(code));
+  const barcodes = [...new Set([...clientBarcodes, ...ocrBarcodes])];
+
+  if (mode === 'single' && ocrBarcodes.length > 0) {
+    const hit = await findWineByBarcode(ocrBarcodes);
+    if (hit) {
+      return await respondWithBarcodeMatch(target, hit.wine, hit.code, photoResults, barcodes);
+    }
+  }
+
+  const readablePhotos = photoResults
+    .map((photo, photoIndex) => ({ ...photo, photoIndex }))
+    .filter(photo => photo.ocrText.length >= MIN_OCR_LENGTH);
+
+  const language = input.language ?? await loadUserLanguage(target.userId);
+
+  if (readablePhotos.length === 0) {
+    return {
+      success: false,
+      error: t(language, 'noTextDetected'),
+    };
+  }
+
+  if (mode === 'list') {
+    const rawWines = await interpretListWithLlm(combineOcrText(photoResults), language);
+    logger.info('Wine list interpretation completed', { count: rawWines.length });
+
+    if (cacheKey) {
+      await writeExtractionCache(target.userId, cacheKey, {
+        mode,
+        ocrTexts: photoResults.map(p => p.ocrText),
+        listWines: rawWines,
+      });
+    }
+
+    return await respondWithWineList(target, photoResults, rawWines, false);
+  }
+
+  // Step 2: LLM interpretation of each readable photo
+  const interpretations: PhotoInterpretation[] = [];
+  for (const photo of readablePhotos) {
+    const fields = await interpretWithLlm(photo.ocrText, photo.type, language);
+    interpretations.push({ photoIndex: photo.photoIndex, photoType: photo.type, fields });
+  }
+
+  // Step 3: Merge fields and calculate overall confidence
+  const extractedFields = normalizeExtractedGeography(mergeExtractedFields(interpretations));
+  logger.info('LLM interpretation completed', { fields: Object.keys(extractedFields) });
+
+  const overallConfidence = calculateOverallConfidence(extractedFields);
+
+  if (cacheKey) {
+    await writeExtractionCache(target.userId, cacheKey, {
+      mode,
+      ocrTexts: photoResults.map(p => p.ocrText),
+      extractedFields,
+      overallConfidence,
+      barcodes,
+    });
+  }
+
+  // Step 4-5: Match, persist and respond
+  return await respondWithExtraction(target, {
+    ocrText: combineOcrText(photoResults),
+    photos: photoResults,
+    extractedFields,
+    overallConfidence,
+    ...(barcodes.length > 0 && { barcodes }),
+  }, false);
+}
+
+// ============================================================
+// OCR
+// ============================================================
+
+async function performOcr(imageUrl: string): Promise<string> {
+  return getOcrProvider().detectText(imageUrl);
+}
+
+function combineOcrText(photos: PhotoOcrResult[]): string {
+  if (photos.length <= 1) {
+    return photos[0]?.ocrText ?? '';
+  }
+
+  return photos
+    .filter(photo => photo.ocrText)
+    .map(photo => `[${photo.type}]\n${photo.ocrText}`)
+    .join('\n\n');
+}
+
+// ============================================================
+// LLM INTERPRETATION
+// ============================================================
+
+async function interpretWithLlm(
+  ocrText: string,
+  photoType: PhotoType,
+  language: Language
+): Promise<RawExtractedFields> {
+  const prompt = EXTRACTION_PROMPTS[language]
+    .replace('{photo_type}', PHOTO_TYPE_LABELS[language][photoType])
+    .replace('{ocr_text}', ocrText);
+
+  // Log AI input
+  logger.info('=== AI REQUEST (extractWineFromPhoto) ===');
+  logger.info('OCR TEXT:', { photoType, ocrText });
+
+  const response = await anthropic.messages.create({
+    model: 'claude-sonnet-4-20250514',
+    max_tokens: 1024,
+    messages: [
+      { role: 'user', content: prompt }
+    ],
+  });
+
+  const responseText = response.content
+    .filter(block => block.type === 'text')
+    .map(block => (block as { type: 'text'; text: string }).text)
+    .join('');
+
+  // Log AI output
+  logger.info('=== AI RESPONSE (extractWineFromPhoto) ===');
+  logger.info('RESPONSE:', { responseText });
+
+  // Parse JSON response
+  try {
+    const jsonText = responseText
+      .replace(/```json\n?/g, '')
+      .replace(/```\n?/g, '')
+      .trim();
+
+    const parsed = JSON.parse(jsonText);
+    const validated = ExtractedWineSchema.parse(parsed);
+
+    return validated;
+  } catch (error) {
+    logger.error('Failed to parse LLM response', { error, responseText });
+    return {};
+  }
+}
+
+// ============================================================
+// RESPONSES
+// ============================================================
+
+async function respondWithExtraction(
+  target: ExtractionTarget,
+  extraction: ExtractionResult,
+  fromCache: boolean
+): Promise<ExtractWineResponse> {
+  // Step 4: Find similar wines
+  const suggestedMatches = await findSimilarWines(target.userId, extraction.extractedFields);
+  logger.info('Found similar wines', { count: suggestedMatches.length });
+
+  // Step 5: Persist for review and later confirmation
+  const extractionId = await saveExtraction(target, {
+    mode: 'single',
+    result: extraction,
+    suggestedMatchIds: suggestedMatches.map(w => w.id),
+  });
+
+  return {
+    success: true,
+    fromCache,
+    extractionId,
+    extraction,
+    suggestedMatches,
+  };
+}
+
+async function respondFromCache(
+  target: ExtractionTarget,
+  cached: ExtractionCacheEntry,
+  photos: ExtractionPhoto[]
+): Promise<ExtractWineResponse> {
+  const photoResults: PhotoOcrResult[] = photos.map((photo, i) => ({
+    ...photo,
+    ocrText: cached.ocrTexts[i] ?? '',
+  }));
+
+  if (cached.mode === 'list') {
+    return respondWithWineList(target, photoResults, cached.listWines || [], true);
+  }
+
+  // The wine may have been saved with this barcode since the entry was cached
+  const barcodes = cached.barcodes || [];
+  if (barcodes.length > 0) {
+    const hit = await findWineByBarcode(barcodes);
+    if (hit) {
+      return respondWithBarcodeMatch(target, hit.wine, hit.code, photoResults, barcodes);
+    }
+  }
+
+  return respondWithExtraction(target, {
+    ocrText: combineOcrText(photoResults),
+    photos: photoResults,
+    extractedFields: cached.extractedFields || {},
+    overallConfidence: cached.overallConfidence ?? 0,
+    ...(barcodes.length > 0 && { barcodes }),
+  }, true);
+}
+
+// ============================================================
+// BARCODE MATCH
+// ============================================================
+
+async function respondWithBarcodeMatch(
+  target: ExtractionTarget,
+  wine: Wine,
+  code: string,
+  photoResults: PhotoOcrResult[],
+  barcodes: string[]
+): Promise<ExtractWineResponse> {
+  logger.info('Barcode match', { userId: target.userId, code, wineId: wine.id });
+
+  const extraction: ExtractionResult = {
+    ocrText: combineOcrText(photoResults),
+    photos: photoResults,
+    extractedFields: wineToExtractedFields(wine),
+    overallConfidence: 1,
+    barcodes,
+    barcodeMatch: { code, wineId: wine.id },
+  };
+
+  const extractionId = await saveExtraction(target, {
+    mode: 'single',
+    result: extraction,
+    suggestedMatchIds: [wine.id],
+  });
+
+  return {
+    success: true,
+    fromCache: false,
+    extractionId,
+    extraction,
+    suggestedMatches: [wine],
+  };
+}
+
+function wineToExtractedFields(wine: Wine): ExtractionResult['extractedFields'] {
+  const exact = <T>(value: T) => ({ value, confidence: 1 });
+
+  return {
+    name: exact(wine.name),
+    type: exact(wine.type),
+    ...(wine.producer && { producer: exact(wine.producer) }),
+    ...(wine.vintage && { vintage: exact(wine.vintage.toString()) }),
+    ...(wine.region && { region: exact(wine.region) }),
+    ...(wine.country && { country: exact(wine.country) }),
+    ...(wine.appellation && { appellation: exact(wine.appellation) }),
+    ...(wine.grapes && { grapes: exact(wine.grapes) }),
+    ...(wine.alcohol !== undefined && { alcohol: exact(wine.alcohol) }),
+  };
+}
+
+// ============================================================
+// WINE LIST MODE
+// ============================================================
+
+// Minimum match score (0-100) to tell the user they already own a listed wine
+const OWNED_MATCH_THRESHOLD = 70;
+
+async function respondWithWineList(
+  target: ExtractionTarget,
+  photoResults: PhotoOcrResult[],
+  rawWines: RawListedWine[],
+  fromCache: boolean
+): Promise<ExtractWineResponse> {
+  const ocrText = combineOcrText(photoResults);
+  const cellarWines = rawWines.length > 0 ? await loadCellarWines(target.userId) : [];
+
+  const wines: ListedWine[] = rawWines.map(listed => {
+    const raw = listed.region
+      ? { ...listed, region: normalizeGeography({ region: listed.region }).region }
+      : listed;
+    const [best] = rankWineMatches({
+      name: raw.name,
+      producer: raw.producer,
+      vintage: raw.vintage,
+      type: raw.type,
+      region: raw.region,
+    }, cellarWines, { limit: 1 });
+    const owned = best && best.score >= OWNED_MATCH_THRESHOLD;
+
+    return {
+      ...raw,
+      ...(owned && {
+        ownedMatch: { wineId: best.wine.id, name: best.wine.name, score: best.score },
+      }),
+      suggestion: owned ? 'owned' : 'wishlist',
+    };
+  });
+
+  const listExtraction: ListExtractionResult = {
+    ocrText,
+    photos: photoResults,
+    wines,
+  };
+
+  const extractionId = await saveExtraction(target, {
+    mode: 'list',
+    listResult: listExtraction,
+    suggestedMatchIds: [...new Set(wines.flatMap(w => w.ownedMatch ? [w.ownedMatch.wineId] : []))],
+  });
+
+  return {
+    success: true,
+    fromCache,
+    extractionId,
+    listExtraction,
+  };
+}
+
+async function interpretListWithLlm(ocrText: string, language: Language): Promise<RawListedWine[]> {
+  const prompt = WINE_LIST_PROMPTS[language].replace('{ocr_text}', ocrText);
+
+  // Log AI input
+  logger.info('=== AI REQUEST (extractWineFromPhoto, list) ===');
+  logger.info('OCR TEXT:', { ocrText });
+
+  const response = await anthropic.messages.create({
+    model: 'claude-sonnet-4-20250514',
+    max_tokens: 4096,
+    messages: [
+      { role: 'user', content: prompt }
+    ],
+  });
+
+  const responseText = response.content
+    .filter(block => block.type === 'text')
+    .map(block => (block as { type: 'text'; text: string }).text)
+    .join('');
+
+  // Log AI output
+  logger.info('=== AI RESPONSE (extractWineFromPhoto, list) ===');
+  logger.info('RESPONSE:', { responseText });
+
+  try {
+    const jsonText = responseText
+      .replace(/```json\n?/g, '')
+      .replace(/```\n?/g, '')
+      .trim();
+
+    return WineListSchema.parse(JSON.parse(jsonText)).wines;
+  } catch (error) {
+    logger.error('Failed to parse LLM wine list response', { error, responseText });
+    return [];
+  }
+}
+
+// ============================================================
+// MULTI-PHOTO MERGE
+// ============================================================
+
+type FieldName = keyof ExtractionResult['extractedFields'];
+
+interface PhotoInterpretation {
+  photoIndex: number;
+  photoType: PhotoType;
+  fields: RawExtractedFields;
+}
+
+// Which photo is the most trustworthy source for each field, best first.
+// Name and vintage live on the front label; technical data on the back label.
+const FIELD_PHOTO_PRIORITY: Record<FieldName, PhotoType[]> = {
+  name: ['label_front', 'bottle', 'label_back', 'other'],
+  producer: ['label_front', 'label_back', 'bottle', 'other'],
+  vintage: ['label_front', 'bottle', 'label_back', 'other'],
+  type: ['label_front', 'label_back', 'bottle', 'other'],
+  region: ['label_back', 'label_front', 'bottle', 'other'],
+  country: ['label_back', 'label_front', 'bottle', 'other'],
+  appellation: ['label_back', 'label_front', 'bottle', 'other'],
+  grapes: ['label_back', 'label_front', 'bottle', 'other'],
+  alcohol: ['label_back', 'label_front', 'bottle', 'other'],
+};
+
+interface FieldCandidateGroup {
+  value: unknown;
+  confidences: number[];
+  photos: PhotoInterpretation[];
+}
+
+function mergeExtractedFields(interpretations: PhotoInterpretation[]): ExtractionResult['extractedFields'] {
+  const merged: Partial<Record<FieldName, ExtractedField<unknown>>> = {};
+
+  for (const field of Object.keys(FIELD_PHOTO_PRIORITY) as FieldName[]) {
+    const priority = FIELD_PHOTO_PRIORITY[field];
+
+    // Group identical readings coming from different photos
+    const groups = new Map<string, FieldCandidateGroup>();
+    for (const interpretation of interpretations) {
+      const candidate = interpretation.fields[field];
+      if (!candidate) continue;
+
+      const key = fieldValueKey(candidate.value);
+      const group = groups.get(key) || { value: candidate.value, confidences: [], photos: [] };
+      group.confidences.push(clamp(candidate.confidence));
+      group.photos.push(interpretation);
+      groups.set(key, group);
+    }
+
+    if (groups.size === 0) continue;
+
+    const ranked = [...groups.values()]
+      .map(group => {
+        // Independent readings of the same value reinforce each other
+        const confidence = 1 - group.confidences.reduce((acc, c) => acc * (1 - c), 1);
+        const source = group.photos
+          .slice()
+          .sort((a, b) => priority.indexOf(a.photoType) - priority.indexOf(b.photoType))[0];
+        // Less authoritative photos weigh a bit less when readings disagree
+        const score = confidence * (1 - priority.indexOf(source.photoType) * 0.1);
+        return { group, confidence, source, score };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const best = ranked[0];
+    const runnerUp = ranked[1];
+
+    // A conflicting reading on another photo lowers our certainty
+    const confidence = runnerUp
+      ? best.confidence * (1 - runnerUp.confidence / 2)
+      : best.confidence;
+
+    merged[field] = {
+      value: best.group.value,
+      confidence: Math.round(confidence * 100) / 100,
+      source: {
+        photoIndex: best.source.photoIndex,
+        photoType: best.source.photoType,
+        supportingPhotos: best.group.photos.map(p => p.photoIndex).sort((a, b) => a - b),
+      },
+    };
+  }
+
+  return merged as ExtractionResult['extractedFields'];
+}
+
+function fieldValueKey(value: unknown): string {
+  const normalize = (v: unknown) => String(v)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+  if (Array.isArray(value)) {
+    return value.map(normalize).sort().join('|');
+  }
+  return normalize(value);
+}
+
+function clamp(confidence: number): number {
+  return Math.max(0, Math.min(1, confidence));
+}
+
+// ============================================================
+// GEOGRAPHY
+// ============================================================
+
+type GeographyFieldName = 'region' | 'country' | 'appellation';
+
+/**
+ * Replaces region/country/appellation with canonical values. Fields derived
+ * from a more specific one (Piemonte from "Barolo DOCG") inherit its
+ * confidence and provenance.
+ */
+function normalizeExtractedGeography(
+  fields: ExtractionResult['extractedFields']
+): ExtractionResult['extractedFields'] {
+  const normalized = normalizeGeography({
+    region: fields.region?.value,
+    country: fields.country?.value,
+    appellation: fields.appellation?.value,
+  });
+
+  const origin = fields.appellation ?? fields.region ?? fields.country;
+  const result = { ...fields };
+
+  for (const name of ['region', 'country', 'appellation'] as GeographyFieldName[]) {
+    const value = normalized[name];
+    if (!value) continue;
+
+    const field = fields[name] ?? origin;
+    if (field) {
+      result[name] = { ...field, value };
+    }
+  }
+
+  return result;
+}
+
+// ============================================================
+// CONFIDENCE CALCULATION
+// ============================================================
+
+function calculateOverallConfidence(fields: ExtractionResult['extractedFields']): number {
+  const confidences: number[] = [];
+
+  if (fields.name?.confidence) confidences.push(fields.name.confidence * 1.5); // Weight name higher
+  if (fields.producer?.confidence) confidences.push(fields.producer.confidence);
+  if (fields.vintage?.confidence) confidences.push(fields.vintage.confidence);
+  if (fields.type?.confidence) confidences.push(fields.type.confidence);
+  if (fields.region?.confidence) confidences.push(fields.region.confidence);
+  if (fields.country?.confidence) confidences.push(fields.country.confidence);
+
+  if (confidences.length === 0) return 0;
+
+  const sum = confidences.reduce((a, b) => a + b, 0);
+  return Math.min(1, sum / (confidences.length + 0.5)); // Normalize
+}
+
+// ============================================================
+// SIMILAR WINE MATCHING
+// ============================================================
+
+async function findSimilarWines(
+  userId: string,
+  fields: ExtractionResult['extractedFields']
+): Promise<Wine[]> {
+  if (!fields.name?.value) {
+    return [];
+  }
+
+  const cellarWines = await loadCellarWines(userId);
+
+  // Return top 5
+  return rankWineMatches(fieldsToMatchQuery(fields), cellarWines, { limit: 5 })
+    .map(m => m.wine);
+}
+
+// ============================================================
+// PERSISTENCE
+// ============================================================
+
+async function saveExtraction(
+  target: ExtractionTarget,
+  data: Pick<Extraction, 'mode' | 'result' | 'listResult' | 'suggestedMatchIds'>
+): Promise<string> {
+  const { userId, extractionId, source, photoId } = target;
+  const now = Timestamp.now();
+  const extraction: Omit<Extraction, 'id'> = {
+    ...data,
+    userId,
+    status: 'pending',
+    ...(source && { source }),
+    ...(photoId && { photoId }),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const extractions = db.collection('users').doc(userId).collection('extractions');
+  const ref = extractionId ? extractions.doc(extractionId) : extractions.doc();
+  await ref.set(extraction);
+
+  logger.info('Saved extraction', { userId, extractionId: ref.id });
+  return ref.id;
+}
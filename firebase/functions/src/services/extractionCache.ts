@@ -0,0 +1,76 @@
+/**
+ * Extraction Cache
+ *
+ * Stores OCR + LLM output keyed by the content hash of the photos, so that
+ * re-scanning the same label (or retrying after a network error) does not
+ * call Vision and Claude again. Entries live in users/{uid}/extractionCache
+ * and expire after EXTRACTION_CACHE_TTL_HOURS (default 7 days).
+ */
+
+import { createHash } from 'crypto';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { downloadImage, hashImage } from './images';
+import type { ExtractionCacheEntry, ExtractionMode, ExtractionPhoto } from '../types';
+
+const db = getFirestore();
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+function ttlMs(): number {
+  const hours = Number(process.env.EXTRACTION_CACHE_TTL_HOURS) || DEFAULT_TTL_HOURS;
+  return hours * 60 * 60 * 1000;
+}
+
+function cacheRef(userId: string, key: string) {
+  return db.collection('users').doc(userId).collection('extractionCache').doc(key);
+}
+
+/**
+ * Hashes mode, photo order/types and image bytes. Returns null when an
+ * image cannot be downloaded: the extraction then simply runs uncached.
+ */
+export async function computeExtractionCacheKey(
+  mode: ExtractionMode,
+  photos: ExtractionPhoto[]
+): Promise<string | null> {
+  try {
+    const hash = createHash('sha256').update(mode);
+    for (const photo of photos) {
+      hash.update(`|${photo.type}:${hashImage(await downloadImage(photo.url))}`);
+    }
+    return hash.digest('hex');
+  } catch (error) {
+    logger.warn('Could not hash images, skipping extraction cache', { error });
+    return null;
+  }
+}
+
+export async function readExtractionCache(
+  userId: string,
+  key: string
+): Promise<ExtractionCacheEntry | null> {
+  const doc = await cacheRef(userId, key).get();
+  if (!doc.exists) return null;
+
+  const entry = doc.data() as ExtractionCacheEntry;
+  if (entry.expiresAt.toMillis() < Date.now()) {
+    return null;
+  }
+  return entry;
+}
+
+export async function writeExtractionCache(
+  userId: string,
+  key: string,
+  data: Omit<ExtractionCacheEntry, 'key' | 'createdAt' | 'expiresAt'>
+): Promise<void> {
+  const now = Timestamp.now();
+  const entry: ExtractionCacheEntry = {
+    ...data,
+    key,
+    createdAt: now,
+    expiresAt: Timestamp.fromMillis(now.toMillis() + ttlMs()),
+  };
+  await cacheRef(userId, key).set(entry);
+}
@@ -0,0 +1,175 @@
+/**
+ * Wine Geography
+ *
+ * Resolves free-text country / region / appellation values (from the LLM,
+ * OCR or user input, in any of IT/EN/FR/DE) against the reference data in
+ * data/geography, and returns the canonical values stored on Wine:
+ *
+ *   { region: 'Langhe', country: 'Italy' }  ->  { region: 'Piemonte', country: 'Italia', appellation: 'Langhe DOC' }
+ *
+ * Values that cannot be resolved are kept as given (trimmed).
+ */
+
+import { normalizeWineText } from './wineMatching';
+import {
+  APPELLATIONS,
+  COUNTRIES,
+  REGIONS,
+  AppellationEntry,
+  CountryEntry,
+  RegionEntry
+} from '../data/geography';
+
+export interface GeographyFields {
+  region?: string;
+  country?: string;
+  appellation?: string;
+}
+
+// ============================================================
+// LOOKUP KEYS
+// ============================================================
+
+// Official wording around the appellation name on labels
+const CLASSIFICATION_PHRASES: RegExp[] = [
+  /\bdenominazione di origine controllata( e garantita)?\b/g,
+  /\bdenominazione di origine protetta\b/g,
+  /\bindicazione geografica (tipica|protetta)\b/g,
+  /\bdenominacion de origen( calificada)?\b/g,
+  /\bappellation\b/g,
+  /\bd origine\b/g,
+  /\b(controlee|protegee)\b/g,
+  /\b(docg|doc|dop|igt|igp|aoc|aop|doca|doq|dac|ava)\b/g,
+  /\bdo$/,
+];
+
+// Qualifiers that do not change the appellation ("Chianti Classico Riserva")
+const TRAILING_QUALIFIERS = [
+  'riserva', 'superiore', 'classico', 'gran selezione', 'grand cru', 'premier cru',
+  '1er cru', 'villages', 'reserva', 'gran reserva', 'crianza', 'rosso', 'bianco',
+];
+
+function lookupKey(value: string): string {
+  return normalizeWineText(value);
+}
+
+function appellationKey(value: string): string {
+  let key = normalizeWineText(value);
+  for (const phrase of CLASSIFICATION_PHRASES) {
+    key = key.replace(phrase, ' ');
+  }
+  return key.replace(/\s+/g, ' ').trim();
+}
+
+function buildIndex<T>(entries: T[], keysOf: (entry: T) => string[]): Map<string, T[]> {
+  const index = new Map<string, T[]>();
+  for (const entry of entries) {
+    for (const key of new Set(keysOf(entry))) {
+      if (!key) continue;
+      const bucket = index.get(key) ?? [];
+      bucket.push(entry);
+      index.set(key, bucket);
+    }
+  }
+  return index;
+}
+
+const COUNTRY_INDEX = buildIndex(COUNTRIES, c =>
+  [c.code, ...Object.values(c.names), ...(c.aliases || [])].map(lookupKey)
+);
+
+const REGION_INDEX = buildIndex(REGIONS, r =>
+  [...Object.values(r.names), ...(r.aliases || [])].map(lookupKey)
+);
+
+const APPELLATION_INDEX = buildIndex(APPELLATIONS, a =>
+  [a.name, ...(a.aliases || [])].map(appellationKey)
+);
+
+const REGIONS_BY_ID = new Map(REGIONS.map(r => [r.id, r]));
+const COUNTRIES_BY_CODE = new Map(COUNTRIES.map(c => [c.code, c]));
+
+// ============================================================
+// RESOLVERS
+// ============================================================
+
+export function resolveCountry(value: string): CountryEntry | null {
+  return COUNTRY_INDEX.get(lookupKey(value))?.[0] ?? null;
+}
+
+/** countryCode breaks ties between regions with the same name. */
+export function resolveRegion(value: string, countryCode?: string): RegionEntry | null {
+  const candidates = REGION_INDEX.get(lookupKey(value));
+  if (!candidates) return null;
+  return candidates.find(r => r.country === countryCode) ?? candidates[0];
+}
+
+export function resolveAppellation(value: string, countryCode?: string): AppellationEntry | null {
+  let key = appellationKey(value);
+
+  // Drop trailing qualifiers one at a time until something matches
+  while (key) {
+    const candidates = APPELLATION_INDEX.get(key);
+    if (candidates) {
+      return candidates.find(a => appellationCountry(a) === countryCode) ?? candidates[0];
+    }
+
+    const qualifier = TRAILING_QUALIFIERS.find(q => key.endsWith(' ' + q));
+    if (!qualifier) return null;
+    key = key.slice(0, -(qualifier.length + 1));
+  }
+
+  return null;
+}
+
+function appellationCountry(appellation: AppellationEntry): string | undefined {
+  return REGIONS_BY_ID.get(appellation.regions[0])?.country;
+}
+
+export function formatAppellation(appellation: AppellationEntry): string {
+  return `${appellation.name} ${appellation.classification}`;
+}
+
+// ============================================================
+// NORMALIZATION
+// ============================================================
+
+/**
+ * Returns canonical values for the three fields. The most specific value
+ * wins: an appellation fixes its region, a region fixes its country, and
+ * missing fields are filled in from the more specific ones.
+ */
+export function normalizeGeography(input: GeographyFields): GeographyFields {
+  const region = input.region?.trim() || undefined;
+  const country = input.country?.trim() || undefined;
+  const appellation = input.appellation?.trim() || undefined;
+
+  const countryEntry = country ? resolveCountry(country) : null;
+  let regionEntry = region ? resolveRegion(region, countryEntry?.code) : null;
+
+  // "Langhe" or "Chianti" given as region
+  let appellationEntry = appellation ? resolveAppellation(appellation, countryEntry?.code) : null;
+  if (!appellation && region && !regionEntry) {
+    appellationEntry = resolveAppellation(region, countryEntry?.code);
+  }
+
+  if (appellationEntry && !(regionEntry && appellationEntry.regions.includes(regionEntry.id))) {
+    regionEntry = REGIONS_BY_ID.get(appellationEntry.regions[0]) ?? regionEntry;
+  }
+
+  const resolvedCountry = regionEntry
+    ? COUNTRIES_BY_CODE.get(regionEntry.country)
+    : countryEntry;
+
+  const normalized: GeographyFields = {
+    region: regionEntry?.names.it ?? region,
+    country: resolvedCountry?.names.it ?? country,
+    appellation: appellationEntry ? formatAppellation(appellationEntry) : appellation,
+  };
+
+  return {
+    ...(normalized.region && { region: normalized.region }),
+    ...(normalized.country && { country: normalized.country }),
+    ...(normalized.appellation && { appellation: normalized.appellation }),
+  };
+}
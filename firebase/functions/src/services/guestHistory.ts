@@ -0,0 +1,239 @@
+/**
+ * Guest History
+ *
+ * What the host already served to the same guests: the most recent
+ * completed dinners sharing at least one guest with the dinner being
+ * planned, with their dishes and wines. Used by propose.ts to steer the
+ * menu away from repeats, and to flag the repeats that remain.
+ *
+ * A dish repeats when its name shares most of its significant words with
+ * an earlier one ("Risotto ai porcini" ~ "Risotto ai funghi porcini"); a
+ * wine repeats by wineId or by name.
+ */
+
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { dinnerTitle, loadMenu } from './dinners';
+import { formatDate, t } from './i18n';
+import { promptText } from './prompts';
+import { normalizeWineText } from './wineMatching';
+import type { DinnerEvent, Language, MenuCourse } from '../types';
+
+const db = getFirestore();
+
+// Completed dinners scanned, and how many of those with shared guests are kept
+const HISTORY_LOOKBACK = 30;
+const MAX_HISTORY_DINNERS = 5;
+
+// Share of significant words two dish names must have in common
+const DISH_SIMILARITY = 0.6;
+
+/** Prefix of the guestConsiderations lines about repeats */
+export const REPEAT_NOTE_PREFIX = '🔁 ';
+
+export interface HistoryGuest {
+  id: string;
+  name: string;
+}
+
+export interface GuestHistoryEntry {
+  dinnerId: string;
+  dinnerName: string;
+  date: Timestamp;
+  /** Guests of the planned dinner who were at this one */
+  guests: HistoryGuest[];
+  dishes: string[];
+  wines: { name: string; wineId?: string }[];
+}
+
+export interface Repeat {
+  kind: 'dish' | 'wine';
+  courseIndex: number;
+  name: string;
+  previous: GuestHistoryEntry;
+}
+
+// ============================================================
+// LOADING
+// ============================================================
+
+/**
+ * Completed dinners of the host, newest first, that shared guests with
+ * `guests`. Requires the (hostId, status, date desc) index.
+ */
+export async function loadGuestHistory(
+  hostId: string,
+  dinnerId: string,
+  guests: HistoryGuest[],
+  language: Language = 'it'
+): Promise<GuestHistoryEntry[]> {
+  if (guests.length === 0) return [];
+
+  const guestsById = new Map(guests.map(g => [g.id, g]));
+
+  const dinnersSnapshot = await db.collection('dinners')
+    .where('hostId', '==', hostId)
+    .where('status', '==', 'completed')
+    .orderBy('date', 'desc')
+    .limit(HISTORY_LOOKBACK)
+    .get();
+
+  const dinners = dinnersSnapshot.docs
+    .filter(doc => doc.id !== dinnerId)
+    .map(doc => ({ id: doc.id, ...doc.data() } as DinnerEvent))
+    .flatMap(dinner => {
+      const menu = loadMenu(dinner);
+      return menu ? [{ dinner, menu }] : [];
+    });
+
+  // One guests query per dinner, run side by side
+  const guestSnapshots = await Promise.all(dinners.map(({ dinner }) =>
+    db.collection('users').doc(hostId)
+      .collection('dinners').doc(dinner.id)
+      .collection('guests').get()
+  ));
+
+  const history: GuestHistoryEntry[] = [];
+
+  dinners.forEach(({ dinner, menu }, i) => {
+    if (history.length >= MAX_HISTORY_DINNERS) return;
+
+    const shared = guestSnapshots[i].docs
+      .map(doc => guestsById.get(doc.data().friendId))
+      .filter((g): g is HistoryGuest => !!g);
+    if (shared.length === 0) return;
+
+    history.push({
+      dinnerId: dinner.id,
+      dinnerName: dinnerTitle(dinner, language),
+      date: dinner.date,
+      guests: shared,
+      dishes: menu.courses.map(c => c.name),
+      wines: servedWines(menu.courses),
+    });
+  });
+
+  logger.info('Loaded guest history', { dinnerId, dinners: history.length });
+  return history;
+}
+
+function servedWines(courses: MenuCourse[]): { name: string; wineId?: string }[] {
+  const wines = new Map<string, { name: string; wineId?: string }>();
+  for (const course of courses) {
+    const pairing = course.cellarWine ?? course.marketWine;
+    if (!pairing?.name) continue;
+    const key = pairing.wineId || normalizeWineText(pairing.name);
+    if (!wines.has(key)) {
+      wines.set(key, { name: pairing.name, ...(pairing.wineId && { wineId: pairing.wineId }) });
+    }
+  }
+  return [...wines.values()];
+}
+
+// ============================================================
+// PROMPT
+// ============================================================
+
+export function summarizeGuestHistory(history: GuestHistoryEntry[], language: Language = 'it'): string {
+  return history
+    .map(entry => {
+      let line = promptText(language, 'historyDinner', {
+        date: formatDate(entry.date.toDate(), language),
+        dinner: entry.dinnerName,
+        guests: entry.guests.map(g => g.name).join(', '),
+        dishes: entry.dishes.join(', '),
+      });
+      if (entry.wines.length > 0) {
+        line += promptText(language, 'historyWines', { wines: entry.wines.map(w => w.name).join(', ') });
+      }
+      return line;
+    })
+    .join('\n');
+}
+
+// ============================================================
+// REPEAT CHECK
+// ============================================================
+
+const STOPWORDS = new Set([
+  'a', 'al', 'alla', 'alle', 'allo', 'ai', 'agli', 'all', 'di', 'del', 'della', 'delle', 'dello', 'dei', 'degli',
+  'da', 'dal', 'dalla', 'in', 'con', 'e', 'ed', 'il', 'lo', 'la', 'le', 'i', 'gli', 'un', 'una', 'su', 'sul',
+  'sulla', 'per', 'salsa', 'crema', 'nostro', 'nostra', 'casa',
+]);
+
+function dishWords(name: string): Set<string> {
+  return new Set(normalizeWineText(name).split(' ').filter(w => w.length > 1 && !STOPWORDS.has(w)));
+}
+
+function isSameDish(a: string, b: string): boolean {
+  const wordsA = dishWords(a);
+  const wordsB = dishWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return false;
+
+  const shared = [...wordsA].filter(w => wordsB.has(w)).length;
+  return shared / Math.max(wordsA.size, wordsB.size) >= DISH_SIMILARITY;
+}
+
+function isSameWine(a: { name: string; wineId?: string }, b: { name: string; wineId?: string }): boolean {
+  if (a.wineId && b.wineId) return a.wineId === b.wineId;
+  return normalizeWineText(a.name) === normalizeWineText(b.name);
+}
+
+/** Dishes and cellar/market wines of the menu already served to these guests (latest occurrence) */
+export function findRepeats(courses: MenuCourse[], history: GuestHistoryEntry[]): Repeat[] {
+  const repeats: Repeat[] = [];
+  const seenWines = new Set<string>();
+
+  courses.forEach((course, courseIndex) => {
+    const previousDish = history.find(entry => entry.dishes.some(d => isSameDish(d, course.name)));
+    if (previousDish) {
+      repeats.push({ kind: 'dish', courseIndex, name: course.name, previous: previousDish });
+    }
+
+    for (const pairing of [course.cellarWine, course.marketWine]) {
+      if (!pairing?.name) continue;
+      const key = pairing.wineId || normalizeWineText(pairing.name);
+      if (seenWines.has(key)) continue;
+
+      const previousWine = history.find(entry => entry.wines.some(w => isSameWine(w, pairing)));
+      if (previousWine) {
+        seenWines.add(key);
+        repeats.push({ kind: 'wine', courseIndex, name: pairing.name, previous: previousWine });
+      }
+    }
+  });
+
+  return repeats;
+}
+
+export function describeRepeat(repeat: Repeat, allowed: boolean, language: Language = 'it'): string {
+  const key = allowed ? 'houseClassic' : repeat.kind === 'dish' ? 'repeatedDish' : 'repeatedWine';
+  return REPEAT_NOTE_PREFIX + t(language, key, {
+    name: repeat.name,
+    guests: repeat.previous.guests.map(g => g.name).join(', '),
+    date: formatDate(repeat.previous.date.toDate(), language),
+  });
+}
+
+/** Replaces the repeat lines in guestConsiderations with the current ones */
+export function withRepeatNotes(
+  considerations: string[],
+  repeats: Repeat[],
+  allowed: boolean,
+  language: Language = 'it'
+): string[] {
+  return [
+    ...considerations.filter(c => !c.startsWith(REPEAT_NOTE_PREFIX)),
+    ...repeats.map(r => describeRepeat(r, allowed, language)),
+  ];
+}
+
+/** Instruction for regenerating a course that repeats an earlier dish */
+export function buildRepeatInstruction(repeats: Repeat[], language: Language = 'it'): string {
+  const dishes = repeats.filter(r => r.kind === 'dish')
+    .map(r => promptText(language, 'repeatedDish', {
+      name: r.name,
+      date: formatDate(r.previous.date.toDate(), language),
+    }));
+  return promptText(language, 'repeatInstruction', { dishes: dishes.join(', ') });
+}
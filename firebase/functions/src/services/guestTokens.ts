@@ -0,0 +1,88 @@
+/**
+ * Guest Tokens
+ *
+ * Signed, expiring tokens for the RSVP links sent to dinner guests, who
+ * have no account. A token is `<payload>.<signature>`: base64url JSON
+ * naming the host, dinner and guest, signed with HMAC-SHA256 using the
+ * GUEST_TOKEN_SECRET secret.
+ *
+ * DinnerGuest.tokenVersion is part of the payload: issuing new links for
+ * a guest bumps it and invalidates the old ones.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+
+export interface GuestTokenPayload {
+  hostId: string;
+  dinnerId: string;
+  guestId: string;
+  version: number;
+  /** Expiry, seconds since epoch */
+  expiresAt: number;
+}
+
+export type GuestTokenError = 'malformed' | 'bad_signature' | 'expired';
+
+export type GuestTokenCheck =
+  | { valid: true; payload: GuestTokenPayload }
+  | { valid: false; error: GuestTokenError };
+
+function secret(): string {
+  const value = process.env.GUEST_TOKEN_SECRET;
+  if (!value) throw new Error('GUEST_TOKEN_SECRET is not configured');
+  return value;
+}
+
+function sign(data: string): Buffer {
+  return createHmac('sha256', secret()).update(data).digest();
+}
+
+export function createGuestToken(payload: GuestTokenPayload): string {
+  const data = Buffer.from(JSON.stringify({
+    h: payload.hostId,
+    d: payload.dinnerId,
+    g: payload.guestId,
+    v: payload.version,
+    exp: payload.expiresAt,
+  })).toString('base64url');
+
+  return `${data}.${sign(data).toString('base64url')}`;
+}
+
+export function verifyGuestToken(token: string, now: Date = new Date()): GuestTokenCheck {
+  const [data, signature, ...rest] = token.split('.');
+  if (!data || !signature || rest.length > 0) return { valid: false, error: 'malformed' };
+
+  const expected = sign(data);
+  const given = Buffer.from(signature, 'base64url');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return { valid: false, error: 'bad_signature' };
+  }
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, error: 'malformed' };
+  }
+
+  const { h, d, g, v, exp } = raw;
+  if (typeof h !== 'string' || typeof d !== 'string' || typeof g !== 'string' ||
+      typeof v !== 'number' || typeof exp !== 'number') {
+    return { valid: false, error: 'malformed' };
+  }
+
+  if (exp * 1000 <= now.getTime()) return { valid: false, error: 'expired' };
+
+  return { valid: true, payload: { hostId: h, dinnerId: d, guestId: g, version: v, expiresAt: exp } };
+}
+
+/** False once a newer link was issued for the guest (DinnerGuest.tokenVersion) */
+export function isCurrentGuestToken(payload: GuestTokenPayload, tokenVersion: number | undefined): boolean {
+  return (tokenVersion ?? 0) === payload.version;
+}
+
+/** Stable id of a token for rate limiting, without storing the token */
+export function guestTokenKey(token: string): string {
+  return createHash('sha256').update(token).digest('hex').slice(0, 32);
+}
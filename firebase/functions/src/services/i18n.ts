@@ -0,0 +1,555 @@
+/**
+ * Localization
+ *
+ * Message and prompt catalog for the languages of the iOS app. The
+ * language comes from the request ('language' override) or from
+ * UserPreferences.language, falling back to Italian.
+ *
+ * The extraction, receipt, shopping list and menu prompts are catalogued
+ * per language in services/prompts; the sommelier chat prompt is kept here.
+ */
+
+import { getFirestore } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import type { FoodPreference, Language, User } from '../types';
+
+const db = getFirestore();
+
+export const LANGUAGES: Language[] = ['it', 'en', 'de', 'fr'];
+
+export const DEFAULT_LANGUAGE: Language = 'it';
+
+const LOCALES: Record<Language, string> = {
+  it: 'it-IT',
+  en: 'en-GB',
+  de: 'de-DE',
+  fr: 'fr-FR',
+};
+
+/** "de", "DE", "de-CH", "de_AT" -> 'de'; anything else -> Italian */
+export function resolveLanguage(value: string | undefined | null): Language {
+  const code = (value || '').trim().toLowerCase().split(/[-_]/)[0];
+  return LANGUAGES.find(l => l === code) ?? DEFAULT_LANGUAGE;
+}
+
+/** The request override, or the user's preference. Never throws. */
+export async function loadUserLanguage(userId: string, override?: string): Promise<Language> {
+  if (override) return resolveLanguage(override);
+
+  try {
+    const userDoc = await db.collection('users').doc(userId).get();
+    return resolveLanguage((userDoc.data() as User | undefined)?.preferences?.language);
+  } catch (error) {
+    logger.warn('Could not load user language', { userId, error });
+    return DEFAULT_LANGUAGE;
+  }
+}
+
+export function formatDate(date: Date, language: Language): string {
+  return date.toLocaleDateString(LOCALES[language]);
+}
+
+/** "sabato 14 giugno 2025" in the given time zone */
+export function formatLongDate(date: Date, language: Language, timeZone: string): string {
+  return date.toLocaleDateString(LOCALES[language], {
+    weekday: 'long', day: 'numeric', month: 'long', year: 'numeric', timeZone,
+  });
+}
+
+/** "20:30" in the given time zone */
+export function formatTime(date: Date, language: Language, timeZone: string): string {
+  return date.toLocaleTimeString(LOCALES[language], { hour: '2-digit', minute: '2-digit', hour12: false, timeZone });
+}
+
+/** "1.234,5" / "1,234.5", at most two decimals */
+export function formatNumber(value: number, language: Language): string {
+  return value.toLocaleString(LOCALES[language], { maximumFractionDigits: 2 });
+}
+
+/** Language names for the Italian prompts ("Scrivi in {name}") */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  it: 'italiano',
+  en: 'inglese',
+  de: 'tedesco',
+  fr: 'francese',
+};
+
+// ============================================================
+// MESSAGES
+// ============================================================
+
+type MessageKey =
+  | 'dinnerNotFound'
+  | 'untitledDinner'
+  | 'dinnerHasNoMenu'
+  | 'dinnerClosed'
+  | 'courseNotFound'
+  | 'variantNotFound'
+  | 'proposalNotFound'
+  | 'proposalSelectionFailed'
+  | 'proposalFailed'
+  | 'courseRegenerationFailed'
+  | 'variantsFailed'
+  | 'variantPromotionFailed'
+  | 'extractionFailed'
+  | 'noTextDetected'
+  | 'conversationNotFound'
+  | 'chatFailed'
+  | 'dietaryViolation'
+  | 'dietaryRisk'
+  | 'dietaryUnverified'
+  | 'repeatedDish'
+  | 'repeatedWine'
+  | 'houseClassic'
+  | 'dinnerPast'
+  | 'noGuestsToInvite'
+  | 'invitesFailed'
+  | 'unnamedGuest'
+  | 'preferencesReviewFailed'
+  | 'rsvpInvalidLink'
+  | 'rsvpExpiredLink'
+  | 'rsvpDinnerClosed'
+  | 'rsvpTooManyRequests'
+  | 'rsvpConfirmed'
+  | 'rsvpDeclined'
+  | 'invitationFailed'
+  | 'invitationWhen'
+  | 'invitationWhere'
+  | 'invitationMenu'
+  | 'shoppingFailed'
+  | 'shoppingItemNotFound'
+  | 'shoppingUpdateFailed'
+  | 'dinnerHasNoShoppingList'
+  | 'shoppingTitle'
+  | 'shoppingPartySize'
+  | 'shoppingNothingToBuy'
+  | 'quantityToTaste'
+  | 'quantityPieces'
+  | 'bottleOne'
+  | 'bottleMany'
+  | 'timelineFailed'
+  | 'dinnerHasNoTimeline'
+  | 'timelineCook'
+  | 'timelineCookDetails'
+  | 'timelineServe'
+  | 'timelinePour'
+  | 'timelineChill'
+  | 'timelineChillDetails'
+  | 'timelineFetch'
+  | 'timelineFetchDetails'
+  | 'timelineDecant'
+  | 'timelineDecantDetails'
+  | 'timelineOpen'
+  | 'timelineOpenDetails'
+  | 'noTextInDocument'
+  | 'receiptImportFailed'
+  | 'extractionNotFound'
+  | 'extractionNotPending'
+  | 'extractionFailedNoReason'
+  | 'wineListNotImportable'
+  | 'cellarWriteDenied'
+  | 'locationNotFound'
+  | 'wineNotFound'
+  | 'linkedWineNotFound'
+  | 'notAReceipt'
+  | 'receiptLineNotFound'
+  | 'tooManyBottles'
+  | 'confirmFailed'
+  | 'wineNameMissing'
+  | 'wineTypeMissing';
+
+export const MESSAGES: Record<Language, Record<MessageKey, string>> = {
+  it: {
+    dinnerNotFound: 'Cena non trovata',
+    untitledDinner: 'Cena',
+    dinnerHasNoMenu: 'La cena non ha ancora un menu',
+    dinnerClosed: 'La cena è già conclusa o annullata',
+    courseNotFound: 'Portata {number} inesistente',
+    variantNotFound: 'Variante non trovata',
+    proposalNotFound: 'Proposta non trovata',
+    proposalSelectionFailed: 'Selezione proposta fallita: {error}',
+    proposalFailed: 'Generazione proposta fallita: {error}',
+    courseRegenerationFailed: 'Rigenerazione portata fallita: {error}',
+    variantsFailed: 'Generazione varianti menu fallita: {error}',
+    variantPromotionFailed: 'Scelta variante menu fallita: {error}',
+    extractionFailed: 'Estrazione fallita: {error}',
+    noTextDetected: 'Nessun testo rilevato nell\'immagine',
+    conversationNotFound: 'Conversazione non trovata',
+    chatFailed: 'Chat fallita: {error}',
+    dietaryViolation: '"{course}" contiene {found} - non adatto a {guest} ({restriction})',
+    dietaryRisk: '"{course}" cita {found}: verificare gli ingredienti per {guest} ({restriction})',
+    dietaryUnverified: '"{course}" non ha un elenco di ingredienti da controllare: verificarlo per {guest} ({restriction})',
+    repeatedDish: 'Piatto già servito a {guests} il {date}: {name}',
+    repeatedWine: 'Vino già servito a {guests} il {date}: {name}',
+    houseClassic: 'Classico della casa: {name}, già servito a {guests} il {date}',
+    dinnerPast: 'La cena è già passata',
+    noGuestsToInvite: 'Nessun ospite da invitare',
+    invitesFailed: 'Creazione inviti fallita: {error}',
+    unnamedGuest: 'Ospite',
+    preferencesReviewFailed: 'Revisione preferenze fallita: {error}',
+    rsvpInvalidLink: 'Link di invito non valido',
+    rsvpExpiredLink: 'Il link di invito è scaduto: chiedine uno nuovo a chi ti ha invitato',
+    rsvpDinnerClosed: 'Questa cena è già conclusa o è stata annullata',
+    rsvpTooManyRequests: 'Troppe richieste, riprova tra qualche minuto',
+    rsvpConfirmed: 'Grazie! La tua presenza è confermata',
+    rsvpDeclined: 'Grazie per la risposta, sarà per la prossima volta',
+    invitationFailed: 'Generazione invito fallita: {error}',
+    invitationWhen: 'Quando',
+    invitationWhere: 'Dove',
+    invitationMenu: 'Il menu',
+    shoppingFailed: 'Generazione lista della spesa fallita: {error}',
+    shoppingItemNotFound: 'Articolo non trovato',
+    shoppingUpdateFailed: 'Aggiornamento lista della spesa fallito: {error}',
+    dinnerHasNoShoppingList: 'La cena non ha ancora una lista della spesa',
+    shoppingTitle: 'Spesa per {dinner}',
+    shoppingPartySize: 'Quantità per {count} persone',
+    shoppingNothingToBuy: 'Niente da comprare.',
+    quantityToTaste: 'q.b.',
+    quantityPieces: '{count} pz',
+    bottleOne: '1 bottiglia',
+    bottleMany: '{count} bottiglie',
+    timelineFailed: 'Generazione scaletta fallita: {error}',
+    dinnerHasNoTimeline: 'La cena non ha ancora una scaletta',
+    timelineCook: 'Inizia a preparare: {name}',
+    timelineCookDetails: '{description} (circa {minutes} minuti)',
+    timelineServe: 'Servi: {names}',
+    timelinePour: 'Vino: {name} a {temperature}, {glass}',
+    timelineChill: 'Metti in frigo: {name}',
+    timelineChillDetails: 'Metti in frigorifero {bottles}{location}. Servire a {temperature}.',
+    timelineFetch: 'Prendi dalla cantina: {name}',
+    timelineFetchDetails: 'Porta a temperatura ambiente {bottles}{location}. Servire a {temperature}.',
+    timelineDecant: 'Decanta: {name}',
+    timelineDecantDetails: 'Versa nel decanter per farlo ossigenare ({minutes} minuti prima del servizio).',
+    timelineOpen: 'Apri: {name}',
+    timelineOpenDetails: 'Stappa per farlo respirare. Calice: {glass}.',
+    noTextInDocument: 'Nessun testo rilevato nel documento',
+    receiptImportFailed: 'Importazione scontrino fallita: {error}',
+    extractionNotFound: 'Estrazione non trovata',
+    extractionNotPending: 'Estrazione già {status}',
+    extractionFailedNoReason: 'Estrazione fallita',
+    wineListNotImportable: 'Le liste vini non possono essere caricate in cantina',
+    cellarWriteDenied: 'Nessun accesso in scrittura alla cantina',
+    locationNotFound: 'Posizione non trovata',
+    wineNotFound: 'Vino non trovato',
+    linkedWineNotFound: 'Vino {wineId} non trovato',
+    notAReceipt: 'L\'estrazione non è uno scontrino',
+    receiptLineNotFound: 'Riga {line} inesistente',
+    tooManyBottles: 'Troppe bottiglie in un\'importazione ({count}, massimo {max})',
+    confirmFailed: 'Conferma fallita: {error}',
+    wineNameMissing: 'Nome del vino mancante',
+    wineTypeMissing: 'Tipo di vino mancante o non valido per "{name}"',
+  },
+  en: {
+    dinnerNotFound: 'Dinner not found',
+    untitledDinner: 'Dinner',
+    dinnerHasNoMenu: 'The dinner has no menu yet',
+    dinnerClosed: 'The dinner is already over or cancelled',
+    courseNotFound: 'Course {number} does not exist',
+    variantNotFound: 'Menu variant not found',
+    proposalNotFound: 'Wine proposal not found',
+    proposalSelectionFailed: 'Selecting the wine proposal failed: {error}',
+    proposalFailed: 'Menu proposal failed: {error}',
+    courseRegenerationFailed: 'Course regeneration failed: {error}',
+    variantsFailed: 'Menu variants generation failed: {error}',
+    variantPromotionFailed: 'Choosing the menu variant failed: {error}',
+    extractionFailed: 'Extraction failed: {error}',
+    noTextDetected: 'No text detected in the image',
+    conversationNotFound: 'Conversation not found',
+    chatFailed: 'Chat failed: {error}',
+    dietaryViolation: '"{course}" contains {found} - not suitable for {guest} ({restriction})',
+    dietaryRisk: '"{course}" mentions {found}: check the ingredients for {guest} ({restriction})',
+    dietaryUnverified: '"{course}" has no ingredient list to check: verify it for {guest} ({restriction})',
+    repeatedDish: 'Dish already served to {guests} on {date}: {name}',
+    repeatedWine: 'Wine already served to {guests} on {date}: {name}',
+    houseClassic: 'House classic: {name}, already served to {guests} on {date}',
+    dinnerPast: 'The dinner is already past',
+    noGuestsToInvite: 'No guests to invite',
+    invitesFailed: 'Creating the invites failed: {error}',
+    unnamedGuest: 'Guest',
+    preferencesReviewFailed: 'Preference review failed: {error}',
+    rsvpInvalidLink: 'Invalid invitation link',
+    rsvpExpiredLink: 'The invitation link has expired: ask your host for a new one',
+    rsvpDinnerClosed: 'This dinner is already over or has been cancelled',
+    rsvpTooManyRequests: 'Too many requests, please try again in a few minutes',
+    rsvpConfirmed: 'Thank you! Your attendance is confirmed',
+    rsvpDeclined: 'Thank you for letting us know, maybe next time',
+    invitationFailed: 'Invitation generation failed: {error}',
+    invitationWhen: 'When',
+    invitationWhere: 'Where',
+    invitationMenu: 'The menu',
+    shoppingFailed: 'Shopping list generation failed: {error}',
+    shoppingItemNotFound: 'Item not found',
+    shoppingUpdateFailed: 'Updating the shopping list failed: {error}',
+    dinnerHasNoShoppingList: 'The dinner has no shopping list yet',
+    shoppingTitle: 'Shopping for {dinner}',
+    shoppingPartySize: 'Quantities for {count} people',
+    shoppingNothingToBuy: 'Nothing to buy.',
+    quantityToTaste: 'to taste',
+    quantityPieces: '{count} pcs',
+    bottleOne: '1 bottle',
+    bottleMany: '{count} bottles',
+    timelineFailed: 'Timeline generation failed: {error}',
+    dinnerHasNoTimeline: 'The dinner has no timeline yet',
+    timelineCook: 'Start preparing: {name}',
+    timelineCookDetails: '{description} (about {minutes} minutes)',
+    timelineServe: 'Serve: {names}',
+    timelinePour: 'Wine: {name} at {temperature}, {glass}',
+    timelineChill: 'Chill: {name}',
+    timelineChillDetails: 'Put {bottles}{location} in the fridge. Serve at {temperature}.',
+    timelineFetch: 'Bring up from the cellar: {name}',
+    timelineFetchDetails: 'Let {bottles}{location} come to room temperature. Serve at {temperature}.',
+    timelineDecant: 'Decant: {name}',
+    timelineDecantDetails: 'Pour into the decanter to let it breathe ({minutes} minutes before serving).',
+    timelineOpen: 'Open: {name}',
+    timelineOpenDetails: 'Uncork to let it breathe. Glass: {glass}.',
+    noTextInDocument: 'No text detected in the document',
+    receiptImportFailed: 'Receipt import failed: {error}',
+    extractionNotFound: 'Extraction not found',
+    extractionNotPending: 'Extraction already {status}',
+    extractionFailedNoReason: 'Extraction failed',
+    wineListNotImportable: 'Wine lists cannot be added to the cellar',
+    cellarWriteDenied: 'No write access to the cellar',
+    locationNotFound: 'Location not found',
+    wineNotFound: 'Wine not found',
+    linkedWineNotFound: 'Wine {wineId} not found',
+    notAReceipt: 'The extraction is not a receipt',
+    receiptLineNotFound: 'Line {line} does not exist',
+    tooManyBottles: 'Too many bottles in one import ({count}, at most {max})',
+    confirmFailed: 'Confirmation failed: {error}',
+    wineNameMissing: 'Wine name missing',
+    wineTypeMissing: 'Missing or invalid wine type for "{name}"',
+  },
+  de: {
+    dinnerNotFound: 'Abendessen nicht gefunden',
+    untitledDinner: 'Abendessen',
+    dinnerHasNoMenu: 'Das Abendessen hat noch kein Menü',
+    dinnerClosed: 'Das Abendessen ist bereits vorbei oder abgesagt',
+    courseNotFound: 'Gang {number} existiert nicht',
+    variantNotFound: 'Menüvariante nicht gefunden',
+    proposalNotFound: 'Weinvorschlag nicht gefunden',
+    proposalSelectionFailed: 'Auswahl des Weinvorschlags fehlgeschlagen: {error}',
+    proposalFailed: 'Menüvorschlag fehlgeschlagen: {error}',
+    courseRegenerationFailed: 'Neuer Vorschlag für den Gang fehlgeschlagen: {error}',
+    variantsFailed: 'Erstellen der Menüvarianten fehlgeschlagen: {error}',
+    variantPromotionFailed: 'Auswahl der Menüvariante fehlgeschlagen: {error}',
+    extractionFailed: 'Erkennung fehlgeschlagen: {error}',
+    noTextDetected: 'Kein Text im Bild erkannt',
+    conversationNotFound: 'Unterhaltung nicht gefunden',
+    chatFailed: 'Chat fehlgeschlagen: {error}',
+    dietaryViolation: '„{course}“ enthält {found} - nicht geeignet für {guest} ({restriction})',
+    dietaryRisk: '„{course}“ nennt {found}: Zutaten für {guest} prüfen ({restriction})',
+    dietaryUnverified: '„{course}“ hat keine Zutatenliste zum Prüfen: für {guest} kontrollieren ({restriction})',
+    repeatedDish: 'Gericht bereits am {date} für {guests} serviert: {name}',
+    repeatedWine: 'Wein bereits am {date} für {guests} serviert: {name}',
+    houseClassic: 'Klassiker des Hauses: {name}, bereits am {date} für {guests} serviert',
+    dinnerPast: 'Das Abendessen liegt bereits in der Vergangenheit',
+    noGuestsToInvite: 'Keine Gäste zum Einladen',
+    invitesFailed: 'Erstellen der Einladungslinks fehlgeschlagen: {error}',
+    unnamedGuest: 'Gast',
+    preferencesReviewFailed: 'Prüfung der Vorlieben fehlgeschlagen: {error}',
+    rsvpInvalidLink: 'Ungültiger Einladungslink',
+    rsvpExpiredLink: 'Der Einladungslink ist abgelaufen: bitte frag deinen Gastgeber nach einem neuen',
+    rsvpDinnerClosed: 'Dieses Abendessen ist bereits vorbei oder wurde abgesagt',
+    rsvpTooManyRequests: 'Zu viele Anfragen, bitte versuche es in ein paar Minuten erneut',
+    rsvpConfirmed: 'Danke! Deine Teilnahme ist bestätigt',
+    rsvpDeclined: 'Danke für deine Antwort, vielleicht beim nächsten Mal',
+    invitationFailed: 'Erstellen der Einladung fehlgeschlagen: {error}',
+    invitationWhen: 'Wann',
+    invitationWhere: 'Wo',
+    invitationMenu: 'Das Menü',
+    shoppingFailed: 'Erstellen der Einkaufsliste fehlgeschlagen: {error}',
+    shoppingItemNotFound: 'Artikel nicht gefunden',
+    shoppingUpdateFailed: 'Aktualisieren der Einkaufsliste fehlgeschlagen: {error}',
+    dinnerHasNoShoppingList: 'Das Abendessen hat noch keine Einkaufsliste',
+    shoppingTitle: 'Einkauf für {dinner}',
+    shoppingPartySize: 'Mengen für {count} Personen',
+    shoppingNothingToBuy: 'Nichts einzukaufen.',
+    quantityToTaste: 'nach Bedarf',
+    quantityPieces: '{count} Stk.',
+    bottleOne: '1 Flasche',
+    bottleMany: '{count} Flaschen',
+    timelineFailed: 'Erstellen des Ablaufplans fehlgeschlagen: {error}',
+    dinnerHasNoTimeline: 'Das Abendessen hat noch keinen Ablaufplan',
+    timelineCook: 'Mit der Zubereitung beginnen: {name}',
+    timelineCookDetails: '{description} (etwa {minutes} Minuten)',
+    timelineServe: 'Servieren: {names}',
+    timelinePour: 'Wein: {name} bei {temperature}, {glass}',
+    timelineChill: 'Kalt stellen: {name}',
+    timelineChillDetails: '{bottles}{location} in den Kühlschrank stellen. Bei {temperature} servieren.',
+    timelineFetch: 'Aus dem Keller holen: {name}',
+    timelineFetchDetails: '{bottles}{location} auf Raumtemperatur kommen lassen. Bei {temperature} servieren.',
+    timelineDecant: 'Dekantieren: {name}',
+    timelineDecantDetails: 'In die Karaffe gießen, damit er atmen kann ({minutes} Minuten vor dem Servieren).',
+    timelineOpen: 'Öffnen: {name}',
+    timelineOpenDetails: 'Entkorken, damit er atmen kann. Glas: {glass}.',
+    noTextInDocument: 'Kein Text im Dokument erkannt',
+    receiptImportFailed: 'Import des Kassenbons fehlgeschlagen: {error}',
+    extractionNotFound: 'Erkennung nicht gefunden',
+    extractionNotPending: 'Erkennung bereits {status}',
+    extractionFailedNoReason: 'Erkennung fehlgeschlagen',
+    wineListNotImportable: 'Weinkarten können nicht in den Keller übernommen werden',
+    cellarWriteDenied: 'Kein Schreibzugriff auf den Keller',
+    locationNotFound: 'Lagerort nicht gefunden',
+    wineNotFound: 'Wein nicht gefunden',
+    linkedWineNotFound: 'Wein {wineId} nicht gefunden',
+    notAReceipt: 'Die Erkennung ist kein Kassenbon',
+    receiptLineNotFound: 'Zeile {line} existiert nicht',
+    tooManyBottles: 'Zu viele Flaschen in einem Import ({count}, höchstens {max})',
+    confirmFailed: 'Bestätigung fehlgeschlagen: {error}',
+    wineNameMissing: 'Name des Weins fehlt',
+    wineTypeMissing: 'Weintyp fehlt oder ist ungültig für „{name}“',
+  },
+  fr: {
+    dinnerNotFound: 'Dîner introuvable',
+    untitledDinner: 'Dîner',
+    dinnerHasNoMenu: 'Le dîner n\'a pas encore de menu',
+    dinnerClosed: 'Le dîner est déjà terminé ou annulé',
+    courseNotFound: 'Le plat {number} n\'existe pas',
+    variantNotFound: 'Variante de menu introuvable',
+    proposalNotFound: 'Proposition de vin introuvable',
+    proposalSelectionFailed: 'Échec de la sélection de la proposition de vin : {error}',
+    proposalFailed: 'Échec de la proposition de menu : {error}',
+    courseRegenerationFailed: 'Échec du remplacement du plat : {error}',
+    variantsFailed: 'Échec de la génération des variantes de menu : {error}',
+    variantPromotionFailed: 'Échec du choix de la variante de menu : {error}',
+    extractionFailed: 'Échec de l\'extraction : {error}',
+    noTextDetected: 'Aucun texte détecté dans l\'image',
+    conversationNotFound: 'Conversation introuvable',
+    chatFailed: 'Échec du chat : {error}',
+    dietaryViolation: '« {course} » contient {found} - ne convient pas à {guest} ({restriction})',
+    dietaryRisk: '« {course} » mentionne {found} : vérifier les ingrédients pour {guest} ({restriction})',
+    dietaryUnverified: '« {course} » n\'a pas de liste d\'ingrédients à contrôler : à vérifier pour {guest} ({restriction})',
+    repeatedDish: 'Plat déjà servi à {guests} le {date} : {name}',
+    repeatedWine: 'Vin déjà servi à {guests} le {date} : {name}',
+    houseClassic: 'Classique de la maison : {name}, déjà servi à {guests} le {date}',
+    dinnerPast: 'Le dîner est déjà passé',
+    noGuestsToInvite: 'Aucun invité à inviter',
+    invitesFailed: 'Création des invitations échouée : {error}',
+    unnamedGuest: 'Invité',
+    preferencesReviewFailed: 'Vérification des préférences échouée : {error}',
+    rsvpInvalidLink: 'Lien d\'invitation non valide',
+    rsvpExpiredLink: 'Le lien d\'invitation a expiré : demande-en un nouveau à ton hôte',
+    rsvpDinnerClosed: 'Ce dîner est déjà terminé ou a été annulé',
+    rsvpTooManyRequests: 'Trop de requêtes, réessaie dans quelques minutes',
+    rsvpConfirmed: 'Merci ! Ta présence est confirmée',
+    rsvpDeclined: 'Merci pour ta réponse, ce sera pour la prochaine fois',
+    invitationFailed: 'Création de l\'invitation échouée : {error}',
+    invitationWhen: 'Quand',
+    invitationWhere: 'Où',
+    invitationMenu: 'Le menu',
+    shoppingFailed: 'Échec de la génération de la liste de courses : {error}',
+    shoppingItemNotFound: 'Article introuvable',
+    shoppingUpdateFailed: 'Échec de la mise à jour de la liste de courses : {error}',
+    dinnerHasNoShoppingList: 'Le dîner n\'a pas encore de liste de courses',
+    shoppingTitle: 'Courses pour {dinner}',
+    shoppingPartySize: 'Quantités pour {count} personnes',
+    shoppingNothingToBuy: 'Rien à acheter.',
+    quantityToTaste: 'q.s.',
+    quantityPieces: '{count} pce(s)',
+    bottleOne: '1 bouteille',
+    bottleMany: '{count} bouteilles',
+    timelineFailed: 'Échec de la génération du déroulé : {error}',
+    dinnerHasNoTimeline: 'Le dîner n\'a pas encore de déroulé',
+    timelineCook: 'Commencer à préparer : {name}',
+    timelineCookDetails: '{description} (environ {minutes} minutes)',
+    timelineServe: 'Servir : {names}',
+    timelinePour: 'Vin : {name} à {temperature}, {glass}',
+    timelineChill: 'Mettre au frais : {name}',
+    timelineChillDetails: 'Mettre {bottles}{location} au réfrigérateur. Servir à {temperature}.',
+    timelineFetch: 'Sortir de la cave : {name}',
+    timelineFetchDetails: 'Laisser {bottles}{location} revenir à température ambiante. Servir à {temperature}.',
+    timelineDecant: 'Carafer : {name}',
+    timelineDecantDetails: 'Verser en carafe pour l\'oxygéner ({minutes} minutes avant le service).',
+    timelineOpen: 'Ouvrir : {name}',
+    timelineOpenDetails: 'Déboucher pour le laisser respirer. Verre : {glass}.',
+    noTextInDocument: 'Aucun texte détecté dans le document',
+    receiptImportFailed: 'Échec de l\'import du ticket de caisse : {error}',
+    extractionNotFound: 'Extraction introuvable',
+    extractionNotPending: 'Extraction déjà {status}',
+    extractionFailedNoReason: 'Échec de l\'extraction',
+    wineListNotImportable: 'Les cartes des vins ne peuvent pas être ajoutées à la cave',
+    cellarWriteDenied: 'Aucun accès en écriture à la cave',
+    locationNotFound: 'Emplacement introuvable',
+    wineNotFound: 'Vin introuvable',
+    linkedWineNotFound: 'Vin {wineId} introuvable',
+    notAReceipt: 'L\'extraction n\'est pas un ticket de caisse',
+    receiptLineNotFound: 'La ligne {line} n\'existe pas',
+    tooManyBottles: 'Trop de bouteilles dans un import ({count}, au plus {max})',
+    confirmFailed: 'Échec de la confirmation : {error}',
+    wineNameMissing: 'Nom du vin manquant',
+    wineTypeMissing: 'Type de vin manquant ou non valide pour « {name} »',
+  },
+};
+
+/** The message with its {placeholders} filled; unknown placeholders are left as is */
+export function t(
+  language: Language,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string {
+  return MESSAGES[language][key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+export const PREFERENCE_TYPE_LABELS: Record<Language, Record<FoodPreference['type'], string>> = {
+  it: { allergy: 'allergia', intolerance: 'intolleranza', diet: 'dieta', dislike: 'non gradito', preference: 'preferenza' },
+  en: { allergy: 'allergy', intolerance: 'intolerance', diet: 'diet', dislike: 'dislike', preference: 'preference' },
+  de: { allergy: 'Allergie', intolerance: 'Unverträglichkeit', diet: 'Ernährung', dislike: 'mag nicht', preference: 'Vorliebe' },
+  fr: { allergy: 'allergie', intolerance: 'intolérance', diet: 'régime', dislike: 'n\'aime pas', preference: 'préférence' },
+};
+
+// ============================================================
+// PROMPTS
+// ============================================================
+
+const SOMMELIER_PROMPTS: Record<Language, string> = {
+  it: `Sei un sommelier esperto e amichevole. Aiuti gli utenti a:
+- Trovare vini nella loro cantina
+- Scegliere il vino giusto per un'occasione
+- Capire abbinamenti cibo-vino
+- Gestire la loro collezione
+
+Rispondi sempre in italiano in modo cordiale ma professionale.
+Usa i tool disponibili per accedere ai dati della cantina dell'utente.
+Quando suggerisci vini, spiega brevemente il perché della scelta.`,
+  en: `You are an expert and friendly sommelier. You help users to:
+- Find wines in their cellar
+- Choose the right wine for an occasion
+- Understand food and wine pairings
+- Manage their collection
+
+Always answer in English, in a warm but professional tone.
+Use the available tools to access the user's cellar data (their results may be in Italian).
+When you suggest wines, briefly explain why.`,
+  de: `Du bist ein erfahrener und freundlicher Sommelier. Du hilfst den Nutzern dabei:
+- Weine in ihrem Keller zu finden
+- Den richtigen Wein für einen Anlass auszuwählen
+- Speise- und Weinbegleitungen zu verstehen
+- Ihre Sammlung zu verwalten
+
+Antworte immer auf Deutsch, herzlich, aber professionell.
+Nutze die verfügbaren Tools, um auf die Kellerdaten des Nutzers zuzugreifen (die Ergebnisse können auf Italienisch sein).
+Wenn du Weine vorschlägst, erkläre kurz warum.`,
+  fr: `Tu es un sommelier expert et chaleureux. Tu aides les utilisateurs à :
+- Trouver des vins dans leur cave
+- Choisir le bon vin pour une occasion
+- Comprendre les accords mets et vins
+- Gérer leur collection
+
+Réponds toujours en français, de façon cordiale mais professionnelle.
+Utilise les outils disponibles pour accéder aux données de la cave de l'utilisateur (leurs résultats peuvent être en italien).
+Quand tu suggères des vins, explique brièvement pourquoi.`,
+};
+
+export function sommelierPrompt(language: Language): string {
+  return SOMMELIER_PROMPTS[language];
+}
+
+/** Themes of the menu variants when the user gives none */
+export const DEFAULT_VARIANT_THEMES: Record<Language, string[]> = {
+  it: ['tradizionale italiano', 'di mare', 'vegetariano', 'creativo di stagione'],
+  en: ['traditional Italian', 'seafood', 'vegetarian', 'creative seasonal'],
+  de: ['traditionell italienisch', 'Meeresküche', 'vegetarisch', 'kreativ und saisonal'],
+  fr: ['italien traditionnel', 'de la mer', 'végétarien', 'créatif de saison'],
+};
@@ -0,0 +1,140 @@
+/**
+ * Image Helpers
+ *
+ * Resolve photo URLs to Cloud Storage objects and load their bytes.
+ * Works against production Storage and the Storage emulator alike.
+ *
+ * Only objects in the project's default bucket are ever read, and URLs
+ * coming from clients must point into the caller's own users/{uid}/
+ * folder (see resolveUserObjectUrl): nothing is fetched from the web.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { getStorage } from 'firebase-admin/storage';
+import type { ThumbnailSize } from '../types';
+
+export interface StorageObjectRef {
+  bucket: string;
+  path: string;
+}
+
+/** An upload under users/{uid}/photos/; the file name without extension is the photo doc id. */
+export interface PhotoObjectRef {
+  userId: string;
+  photoId: string;
+}
+
+const PHOTO_PATH = /^users\/([^/]+)\/photos\/([^/]+)$/;
+const NORMALIZED_PATH = /^users\/([^/]+)\/thumbnails\/([^/]+)_normalized\.jpg$/;
+
+/**
+ * Parses the URL forms we receive from clients:
+ * - gs://bucket/path/to/object
+ * - https://firebasestorage.googleapis.com/v0/b/bucket/o/encoded%2Fpath?alt=media&token=...
+ * - http://127.0.0.1:9199/v0/b/bucket/o/encoded%2Fpath?alt=media (emulator)
+ * - https://storage.googleapis.com/bucket/path/to/object
+ */
+export function parseStorageUrl(url: string): StorageObjectRef | null {
+  if (url.startsWith('gs://')) {
+    const [bucket, ...rest] = url.slice('gs://'.length).split('/');
+    return bucket && rest.length > 0 ? { bucket, path: rest.join('/') } : null;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const firebaseMatch = parsed.pathname.match(/^\/v0\/b\/([^/]+)\/o\/(.+)$/);
+  if (firebaseMatch) {
+    return { bucket: firebaseMatch[1], path: decodeURIComponent(firebaseMatch[2]) };
+  }
+
+  if (parsed.hostname === 'storage.googleapis.com') {
+    const [, bucket, ...rest] = parsed.pathname.split('/');
+    return bucket && rest.length > 0 ? { bucket, path: decodeURIComponent(rest.join('/')) } : null;
+  }
+
+  return null;
+}
+
+export function parsePhotoPath(path: string): PhotoObjectRef | null {
+  const match = path.match(PHOTO_PATH);
+  if (!match) return null;
+
+  const photoId = match[2].replace(/\.[^.]+$/, '');
+  return photoId ? { userId: match[1], photoId } : null;
+}
+
+/** Thumbnails and the normalized copy of a photo (see triggers/photos) */
+export function thumbnailPath(photo: PhotoObjectRef, variant: ThumbnailSize | 'normalized'): string {
+  return `users/${photo.userId}/thumbnails/${photo.photoId}_${variant}.jpg`;
+}
+
+/** The photo a normalized copy was made from */
+export function parseNormalizedPath(path: string): PhotoObjectRef | null {
+  const match = path.match(NORMALIZED_PATH);
+  return match ? { userId: match[1], photoId: match[2] } : null;
+}
+
+/**
+ * The normalized (EXIF-rotated, bounded size) copy of an uploaded photo
+ * once it has been written, otherwise the URL itself.
+ */
+export async function normalizedImageUrl(url: string): Promise<string> {
+  const ref = parseStorageUrl(url);
+  const photo = ref && parsePhotoPath(ref.path);
+  if (!ref || !photo) return url;
+
+  const path = thumbnailPath(photo, 'normalized');
+  const [exists] = await getStorage().bucket(ref.bucket).file(path).exists();
+  return exists ? `gs://${ref.bucket}/${path}` : url;
+}
+
+/** The project's default bucket, where clients upload photos and receipts */
+function defaultBucketName(): string {
+  return getStorage().bucket().name;
+}
+
+/**
+ * Checks a client-supplied URL and returns the canonical gs:// URL of the
+ * object, or null unless it is in the default bucket under users/{userId}/.
+ */
+export function resolveUserObjectUrl(url: string, userId: string): string | null {
+  const ref = parseStorageUrl(url);
+  if (!ref || ref.bucket !== defaultBucketName()) return null;
+  if (!ref.path.startsWith(`users/${userId}/`)) return null;
+
+  return `gs://${ref.bucket}/${ref.path}`;
+}
+
+export async function downloadImage(url: string): Promise<Buffer> {
+  const ref = parseStorageUrl(url);
+  if (!ref || ref.bucket !== defaultBucketName()) {
+    throw new Error('Immagine fuori dal bucket del progetto');
+  }
+
+  const [contents] = await getStorage().bucket(ref.bucket).file(ref.path).download();
+  return contents;
+}
+
+export function hashImage(bytes: Buffer): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+/**
+ * Builds a Firebase download URL for an object, attaching a fresh download
+ * token to its metadata. Points at the Storage emulator when running there.
+ */
+export async function createDownloadUrl(bucket: string, path: string): Promise<string> {
+  const token = randomUUID();
+  await getStorage().bucket(bucket).file(path).setMetadata({
+    metadata: { firebaseStorageDownloadTokens: token },
+  });
+
+  const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+  const origin = emulatorHost ? `http://${emulatorHost}` : 'https://firebasestorage.googleapis.com';
+  return `${origin}/v0/b/${bucket}/o/${encodeURIComponent(path)}?alt=media&token=${token}`;
+}
@@ -0,0 +1,97 @@
+/**
+ * Inventory Service
+ *
+ * Shared helpers to change the physical inventory (bottles, movements,
+ * location counts) inside Firestore transactions.
+ */
+
+import { getFirestore, FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+import type { Bottle, Movement, UserRole } from '../types';
+
+const db = getFirestore();
+
+// ============================================================
+// ACCESS
+// ============================================================
+
+/**
+ * Returns the user's role in a cellar, or null when the cellar does not
+ * exist or the user is not a member.
+ */
+export async function getCellarRole(
+  tx: Transaction,
+  cellarId: string,
+  userId: string
+): Promise<UserRole | null> {
+  const cellarDoc = await tx.get(db.collection('cellars').doc(cellarId));
+  if (!cellarDoc.exists) return null;
+  return (cellarDoc.data()?.members?.[userId] as UserRole | undefined) ?? null;
+}
+
+export function canWriteCellar(role: UserRole | null): boolean {
+  return role === 'owner' || role === 'family';
+}
+
+// ============================================================
+// BOTTLE CREATION
+// ============================================================
+
+export interface NewBottlesInput {
+  wineId: string;
+  cellarId: string;
+  locationId?: string;
+  quantity: number;
+  createdBy: string;
+  reason: string;
+  acquiredAt?: Timestamp;
+  acquiredPrice?: number;
+  acquiredFrom?: string;
+}
+
+/**
+ * Creates `quantity` available bottles with one 'in' movement each and
+ * bumps the location count. Only writes: callers must do their reads first.
+ */
+export function addBottlesInTransaction(tx: Transaction, input: NewBottlesInput): string[] {
+  const cellarRef = db.collection('cellars').doc(input.cellarId);
+  const now = Timestamp.now();
+  const bottleIds: string[] = [];
+
+  for (let i = 0; i < input.quantity; i++) {
+    const bottleRef = cellarRef.collection('bottles').doc();
+    const bottle: Omit<Bottle, 'id'> = {
+      wineId: input.wineId,
+      cellarId: input.cellarId,
+      status: 'available',
+      createdBy: input.createdBy,
+      createdAt: now,
+      updatedAt: now,
+      ...(input.locationId && { locationId: input.locationId }),
+      ...(input.acquiredAt && { acquiredAt: input.acquiredAt }),
+      ...(input.acquiredPrice !== undefined && { acquiredPrice: input.acquiredPrice }),
+      ...(input.acquiredFrom && { acquiredFrom: input.acquiredFrom }),
+    };
+    tx.set(bottleRef, bottle);
+
+    const movementRef = cellarRef.collection('movements').doc();
+    const movement: Omit<Movement, 'id'> = {
+      bottleId: bottleRef.id,
+      type: 'in',
+      reason: input.reason,
+      createdBy: input.createdBy,
+      createdAt: now,
+      ...(input.locationId && { toLocationId: input.locationId }),
+    };
+    tx.set(movementRef, movement);
+
+    bottleIds.push(bottleRef.id);
+  }
+
+  if (input.locationId) {
+    tx.update(cellarRef.collection('locations').doc(input.locationId), {
+      currentCount: FieldValue.increment(input.quantity),
+    });
+  }
+
+  return bottleIds;
+}
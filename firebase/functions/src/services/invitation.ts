@@ -0,0 +1,126 @@
+/**
+ * Invitation Rendering
+ *
+ * Turns the invitation message written by the LLM into the formats the
+ * host sends: plain text (chat apps, SMS), an HTML email body and an
+ * iCalendar event to attach. Labels come from services/i18n; the message
+ * and the menu teaser are used as given, HTML-escaped.
+ */
+
+import { buildCalendar } from './ics';
+import { formatLongDate, formatTime, t } from './i18n';
+import type { DinnerStyle, Language } from '../types';
+
+// Calendar event length when the dinner has no end
+const DINNER_DURATION_MINUTES = 180;
+
+// Calendar reminder: the afternoon of the dinner
+const ALARM_MINUTES_BEFORE = 240;
+
+/** How the LLM should write, by DinnerStyle */
+export const INVITATION_TONES: Record<DinnerStyle, string> = {
+  informal: 'informale e scherzoso, come un messaggio tra amici stretti',
+  convivial: 'caloroso e conviviale, accogliente ma non formale',
+  elegant: 'elegante e raffinato, cortese, senza risultare rigido',
+};
+
+export interface InvitationContent {
+  subject: string;
+  message: string;
+  /** Hint at the menu, when requested */
+  teaser?: string;
+}
+
+export interface InvitationDetails {
+  dinnerId: string;
+  dinnerName: string;
+  start: Date;
+  timeZone: string;
+  location?: string;
+  language: Language;
+}
+
+export interface RenderedInvitation {
+  subject: string;
+  text: string;
+  html: string;
+  ics: string;
+  icsFilename: string;
+}
+
+export function renderInvitation(content: InvitationContent, details: InvitationDetails): RenderedInvitation {
+  const { language, start, timeZone } = details;
+  const when = `${formatLongDate(start, language, timeZone)}, ${formatTime(start, language, timeZone)}`;
+
+  return {
+    subject: content.subject,
+    text: renderText(content, details, when),
+    html: renderHtml(content, details, when),
+    ics: buildCalendar({
+      name: details.dinnerName,
+      events: [{
+        // Fixed per dinner: a resent invitation updates the calendar entry
+        uid: `${details.dinnerId}-invitation@convivio`,
+        start,
+        end: new Date(start.getTime() + DINNER_DURATION_MINUTES * 60000),
+        summary: details.dinnerName,
+        description: content.message,
+        ...(details.location && { location: details.location }),
+        alarmMinutesBefore: ALARM_MINUTES_BEFORE,
+      }],
+    }),
+    icsFilename: `${details.dinnerName.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'cena'}.ics`,
+  };
+}
+
+function renderText(content: InvitationContent, details: InvitationDetails, when: string): string {
+  const lines = [content.message, '', `${t(details.language, 'invitationWhen')}: ${when}`];
+  if (details.location) lines.push(`${t(details.language, 'invitationWhere')}: ${details.location}`);
+  if (content.teaser) lines.push('', `${t(details.language, 'invitationMenu')}: ${content.teaser}`);
+  return lines.join('\n');
+}
+
+function renderHtml(content: InvitationContent, details: InvitationDetails, when: string): string {
+  const paragraphs = content.message
+    .split(/\n\s*\n/)
+    .map(p => `<p>${escapeHtml(p.trim()).replace(/\n/g, '<br>')}</p>`)
+    .join('\n    ');
+
+  const facts = [
+    `<li><strong>${escapeHtml(t(details.language, 'invitationWhen'))}:</strong> ${escapeHtml(when)}</li>`,
+    ...(details.location
+      ? [`<li><strong>${escapeHtml(t(details.language, 'invitationWhere'))}:</strong> ${escapeHtml(details.location)}</li>`]
+      : []),
+  ].join('\n      ');
+
+  const teaser = content.teaser
+    ? `\n    <h2 style="font-size:16px;margin:24px 0 8px">${escapeHtml(t(details.language, 'invitationMenu'))}</h2>\n    <p style="font-style:italic">${escapeHtml(content.teaser)}</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${details.language}">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(content.subject)}</title>
+</head>
+<body style="margin:0;padding:24px;background:#faf7f2;font-family:Georgia,serif;color:#2b2118">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;padding:32px;border-radius:8px">
+    <h1 style="font-size:22px;margin:0 0 16px">${escapeHtml(details.dinnerName)}</h1>
+    ${paragraphs}
+    <ul style="list-style:none;padding:0;margin:24px 0 0">
+      ${facts}
+    </ul>${teaser}
+  </div>
+</body>
+</html>
+`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,147 @@
+/**
+ * OCR Providers
+ *
+ * - vision:  Google Cloud Vision text detection (production). Label photos
+ *            are read from their normalized copy (EXIF-rotated, bounded
+ *            size) once triggers/photos has written it.
+ * - fixture: recorded OCR text, for the emulator and tests. Looks for a
+ *            sidecar object "<photo>.ocr.txt" next to the photo in Storage,
+ *            then for the image's SHA-256 in the JSON table at OCR_FIXTURES_PATH.
+ *            Fixtures are recorded against the uploaded image, as is.
+ *
+ * Selected with the OCR_PROVIDER environment variable (default: vision).
+ */
+
+import { readFileSync } from 'fs';
+import { ImageAnnotatorClient } from '@google-cloud/vision';
+import { getStorage } from 'firebase-admin/storage';
+import { logger } from 'firebase-functions';
+import { downloadImage, hashImage, normalizedImageUrl, parseStorageUrl } from './images';
+
+export interface OcrProvider {
+  readonly name: string;
+  /** Sparse text detection, tuned for labels and signs. */
+  detectText(imageUrl: string): Promise<string>;
+  /** Dense document OCR for receipts and invoices (images or PDF). */
+  detectDocumentText(fileUrl: string, mimeType: string): Promise<string>;
+}
+
+// Vision reads at most 5 pages per synchronous file request
+const MAX_PDF_PAGES = 5;
+
+// ============================================================
+// VISION
+// ============================================================
+
+export function createVisionOcrProvider(): OcrProvider {
+  let client: ImageAnnotatorClient | undefined;
+
+  return {
+    name: 'vision',
+    async detectText(imageUrl: string): Promise<string> {
+      client ??= new ImageAnnotatorClient();
+
+      const [result] = await client.textDetection(await normalizedImageUrl(imageUrl));
+      const detections = result.textAnnotations;
+
+      if (!detections || detections.length === 0) {
+        return '';
+      }
+
+      // First detection is the full text
+      return detections[0].description || '';
+    },
+
+    async detectDocumentText(fileUrl: string, mimeType: string): Promise<string> {
+      client ??= new ImageAnnotatorClient();
+
+      if (mimeType !== 'application/pdf') {
+        const [result] = await client.documentTextDetection(fileUrl);
+        return result.fullTextAnnotation?.text || '';
+      }
+
+      const content = await downloadImage(fileUrl);
+      const [result] = await client.batchAnnotateFiles({
+        requests: [{
+          inputConfig: { content, mimeType },
+          features: [{ type: 'DOCUMENT_TEXT_DETECTION' }],
+          pages: Array.from({ length: MAX_PDF_PAGES }, (_, i) => i + 1),
+        }],
+      });
+
+      return (result.responses?.[0]?.responses || [])
+        .map(page => page.fullTextAnnotation?.text || '')
+        .filter(text => text)
+        .join('\n');
+    },
+  };
+}
+
+// ============================================================
+// FIXTURES
+// ============================================================
+
+const SIDECAR_SUFFIX = '.ocr.txt';
+
+export function createFixtureOcrProvider(fixturesPath?: string): OcrProvider {
+  let table: Record<string, string> | undefined;
+
+  const loadTable = (): Record<string, string> => {
+    if (!table) {
+      table = fixturesPath ? JSON.parse(readFileSync(fixturesPath, 'utf8')) : {};
+    }
+    return table!;
+  };
+
+  const detect = async (imageUrl: string): Promise<string> => {
+    // 1. Sidecar text file uploaded next to the photo
+    const ref = parseStorageUrl(imageUrl);
+    if (ref) {
+      const sidecar = getStorage().bucket(ref.bucket).file(ref.path + SIDECAR_SUFFIX);
+      const [exists] = await sidecar.exists();
+      if (exists) {
+        const [contents] = await sidecar.download();
+        return contents.toString('utf8');
+      }
+    }
+
+    // 2. Hash-keyed fixture table
+    const hash = hashImage(await downloadImage(imageUrl));
+    const text = loadTable()[hash];
+    if (text === undefined) {
+      logger.warn('No OCR fixture for image', { imageUrl, hash });
+      return '';
+    }
+    return text;
+  };
+
+  return {
+    name: 'fixture',
+    detectText: detect,
+    detectDocumentText: detect,
+  };
+}
+
+// ============================================================
+// SELECTION
+// ============================================================
+
+let provider: OcrProvider | undefined;
+
+export function getOcrProvider(): OcrProvider {
+  if (!provider) {
+    const name = process.env.OCR_PROVIDER || 'vision';
+    switch (name) {
+      case 'vision':
+        provider = createVisionOcrProvider();
+        break;
+      case 'fixture':
+        provider = createFixtureOcrProvider(process.env.OCR_FIXTURES_PATH);
+        break;
+      default:
+        throw new Error(`Unknown OCR provider: ${name}`);
+    }
+    logger.info('OCR provider selected', { provider: provider.name });
+  }
+  return provider;
+}
@@ -0,0 +1,1338 @@
+/**
+ * Prompt Catalog
+ *
+ * The label extraction, receipt, shopping list and menu prompts in each
+ * language of the iOS app, with the fragments that fill them. Instructions
+ * are written in the user's language, which the model follows for every
+ * text it writes.
+ *
+ * Whatever the language, JSON keys and enum values ('course', 'type',
+ * dietaryFlags, shopping 'unit' and 'section') follow the same schema,
+ * cellar wine ids and names are copied unchanged, and the 'ingredients' of
+ * each course stay in Italian for the dietary validator.
+ */
+
+import { DRINKING_STATUS_LABELS } from './drinkingWindow';
+import type { DrinkingStatus, Language, PhotoType } from '../types';
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+// ============================================================
+// FRAGMENTS
+// ============================================================
+
+type PromptTextKey =
+  | 'userNotes'
+  | 'menuTheme'
+  | 'noGuests'
+  | 'noWines'
+  | 'guestAvoid'
+  | 'guestDislikes'
+  | 'guestNoRestrictions'
+  | 'wineBottles'
+  | 'wineRating'
+  | 'drinkingWindow'
+  | 'budget'
+  | 'historyHeader'
+  | 'historyHouseClassics'
+  | 'historyNoRepeats'
+  | 'historyDinner'
+  | 'historyWines'
+  | 'repeatedDish'
+  | 'repeatInstruction'
+  | 'dietaryInstruction'
+  | 'courseToReplace'
+  | 'courseCellarWine'
+  | 'courseMarketWine'
+  | 'wineStrategyUnset'
+  | 'userInstruction'
+  | 'dietaryConstraint'
+  | 'varietyConstraint';
+
+export const PROMPT_TEXTS: Record<Language, Record<PromptTextKey, string>> = {
+  it: {
+    userNotes: 'RICHIESTE SPECIFICHE DELL\'UTENTE:\n{notes}',
+    menuTheme: 'TEMA DEL MENU: {theme} (rispettalo in tutte le portate)',
+    noGuests: 'Nessun ospite registrato',
+    noWines: 'Nessun vino in cantina',
+    guestAvoid: 'EVITARE: {items}',
+    guestDislikes: 'non gradisce: {items}',
+    guestNoRestrictions: 'Nessuna restrizione',
+    wineBottles: '{count} bottiglia/e',
+    wineRating: 'Rating: {rating}/5',
+    drinkingWindow: 'Finestra {from}-{to}, picco {peak}: {status}',
+    budget: '{level} - bottiglie da acquistare tra {min} e {max} {currency}; spesa vini complessiva entro {ceiling} {currency} per {people} persone',
+    historyHeader: 'GIÀ SERVITO A QUESTI OSPITI:',
+    historyHouseClassics: 'L\'host ammette i "classici della casa": puoi riproporre un piatto o un vino se è la scelta migliore, ma non ripetere l\'intero menu.',
+    historyNoRepeats: 'NON riproporre questi piatti né questi vini: gli ospiti li hanno già avuti.',
+    historyDinner: '- {date} "{dinner}" con {guests}: {dishes}',
+    historyWines: ' | Vini: {wines}',
+    repeatedDish: '"{name}" (già servito il {date})',
+    repeatInstruction: 'Gli ospiti hanno già mangiato {dishes} in una cena precedente: proponi un piatto diverso, senza ripeterne l\'ingrediente principale.',
+    dietaryInstruction: 'Il piatto attuale NON è compatibile con le restrizioni di: {guests}. Il nuovo piatto NON deve contenere né citare: {forbidden}.',
+    courseToReplace: '← DA SOSTITUIRE',
+    courseCellarWine: 'Cantina',
+    courseMarketWine: 'Acquisto',
+    wineStrategyUnset: 'Non specificata',
+    userInstruction: 'INDICAZIONE DELL\'UTENTE: {text}',
+    dietaryConstraint: 'VINCOLO ALIMENTARE: {text}',
+    varietyConstraint: 'VARIETÀ: {text}',
+  },
+  en: {
+    userNotes: 'SPECIFIC USER REQUESTS:\n{notes}',
+    menuTheme: 'MENU THEME: {theme} (follow it in every course)',
+    noGuests: 'No guests registered',
+    noWines: 'No wines in the cellar',
+    guestAvoid: 'AVOID: {items}',
+    guestDislikes: 'dislikes: {items}',
+    guestNoRestrictions: 'No restrictions',
+    wineBottles: '{count} bottle(s)',
+    wineRating: 'Rating: {rating}/5',
+    drinkingWindow: 'Window {from}-{to}, peak {peak}: {status}',
+    budget: '{level} - bottles to buy between {min} and {max} {currency}; total wine spend within {ceiling} {currency} for {people} people',
+    historyHeader: 'ALREADY SERVED TO THESE GUESTS:',
+    historyHouseClassics: 'The host welcomes "house classics": you may serve a dish or a wine again if it is the best choice, but do not repeat the whole menu.',
+    historyNoRepeats: 'Do NOT serve these dishes or these wines again: the guests have already had them.',
+    historyDinner: '- {date} "{dinner}" with {guests}: {dishes}',
+    historyWines: ' | Wines: {wines}',
+    repeatedDish: '"{name}" (already served on {date})',
+    repeatInstruction: 'The guests already had {dishes} at an earlier dinner: propose a different dish, without repeating its main ingredient.',
+    dietaryInstruction: 'The current dish is NOT compatible with the restrictions of: {guests}. The new dish must NOT contain or mention (Italian ingredient names): {forbidden}.',
+    courseToReplace: '← TO REPLACE',
+    courseCellarWine: 'Cellar',
+    courseMarketWine: 'To buy',
+    wineStrategyUnset: 'Not specified',
+    userInstruction: 'USER INSTRUCTION: {text}',
+    dietaryConstraint: 'DIETARY CONSTRAINT: {text}',
+    varietyConstraint: 'VARIETY: {text}',
+  },
+  de: {
+    userNotes: 'BESONDERE WÜNSCHE DES NUTZERS:\n{notes}',
+    menuTheme: 'MENÜTHEMA: {theme} (in allen Gängen einhalten)',
+    noGuests: 'Keine Gäste erfasst',
+    noWines: 'Keine Weine im Keller',
+    guestAvoid: 'VERMEIDEN: {items}',
+    guestDislikes: 'mag nicht: {items}',
+    guestNoRestrictions: 'Keine Einschränkungen',
+    wineBottles: '{count} Flasche(n)',
+    wineRating: 'Bewertung: {rating}/5',
+    drinkingWindow: 'Trinkfenster {from}-{to}, Höhepunkt {peak}: {status}',
+    budget: '{level} - zu kaufende Flaschen zwischen {min} und {max} {currency}; Weinausgaben insgesamt höchstens {ceiling} {currency} für {people} Personen',
+    historyHeader: 'DIESEN GÄSTEN BEREITS SERVIERT:',
+    historyHouseClassics: 'Der Gastgeber erlaubt "Klassiker des Hauses": Du darfst ein Gericht oder einen Wein erneut vorschlagen, wenn er die beste Wahl ist, aber nicht das ganze Menü wiederholen.',
+    historyNoRepeats: 'Schlage diese Gerichte und Weine NICHT erneut vor: Die Gäste hatten sie bereits.',
+    historyDinner: '- {date} "{dinner}" mit {guests}: {dishes}',
+    historyWines: ' | Weine: {wines}',
+    repeatedDish: '"{name}" (bereits serviert am {date})',
+    repeatInstruction: 'Die Gäste hatten {dishes} bereits bei einem früheren Abendessen: Schlage ein anderes Gericht vor, ohne dessen Hauptzutat zu wiederholen.',
+    dietaryInstruction: 'Das aktuelle Gericht ist NICHT mit den Einschränkungen von {guests} vereinbar. Das neue Gericht darf Folgendes weder enthalten noch erwähnen (italienische Zutatennamen): {forbidden}.',
+    courseToReplace: '← ZU ERSETZEN',
+    courseCellarWine: 'Keller',
+    courseMarketWine: 'Zu kaufen',
+    wineStrategyUnset: 'Nicht angegeben',
+    userInstruction: 'HINWEIS DES NUTZERS: {text}',
+    dietaryConstraint: 'ERNÄHRUNGSVORGABE: {text}',
+    varietyConstraint: 'ABWECHSLUNG: {text}',
+  },
+  fr: {
+    userNotes: 'DEMANDES SPÉCIFIQUES DE L\'UTILISATEUR :\n{notes}',
+    menuTheme: 'THÈME DU MENU : {theme} (à respecter dans tous les plats)',
+    noGuests: 'Aucun invité enregistré',
+    noWines: 'Aucun vin en cave',
+    guestAvoid: 'À ÉVITER : {items}',
+    guestDislikes: 'n\'aime pas : {items}',
+    guestNoRestrictions: 'Aucune restriction',
+    wineBottles: '{count} bouteille(s)',
+    wineRating: 'Note : {rating}/5',
+    drinkingWindow: 'Fenêtre {from}-{to}, apogée {peak} : {status}',
+    budget: '{level} - bouteilles à acheter entre {min} et {max} {currency} ; dépense totale en vins d\'au plus {ceiling} {currency} pour {people} personnes',
+    historyHeader: 'DÉJÀ SERVI À CES INVITÉS :',
+    historyHouseClassics: 'L\'hôte accepte les « classiques de la maison » : tu peux reproposer un plat ou un vin si c\'est le meilleur choix, mais ne répète pas tout le menu.',
+    historyNoRepeats: 'Ne repropose PAS ces plats ni ces vins : les invités les ont déjà eus.',
+    historyDinner: '- {date} « {dinner} » avec {guests} : {dishes}',
+    historyWines: ' | Vins : {wines}',
+    repeatedDish: '« {name} » (déjà servi le {date})',
+    repeatInstruction: 'Les invités ont déjà mangé {dishes} lors d\'un dîner précédent : propose un plat différent, sans en répéter l\'ingrédient principal.',
+    dietaryInstruction: 'Le plat actuel N\'est PAS compatible avec les restrictions de : {guests}. Le nouveau plat ne doit NI contenir NI mentionner (noms d\'ingrédients en italien) : {forbidden}.',
+    courseToReplace: '← À REMPLACER',
+    courseCellarWine: 'Cave',
+    courseMarketWine: 'À acheter',
+    wineStrategyUnset: 'Non précisée',
+    userInstruction: 'INDICATION DE L\'UTILISATEUR : {text}',
+    dietaryConstraint: 'CONTRAINTE ALIMENTAIRE : {text}',
+    varietyConstraint: 'VARIÉTÉ : {text}',
+  },
+};
+
+/** The fragment with its {placeholders} filled; unknown placeholders are left as is */
+export function promptText(
+  language: Language,
+  key: PromptTextKey,
+  params: Record<string, string | number> = {}
+): string {
+  return PROMPT_TEXTS[language][key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+export const SEASON_NAMES: Record<Language, Record<Season, string>> = {
+  it: { spring: 'primavera', summer: 'estate', autumn: 'autunno', winter: 'inverno' },
+  en: { spring: 'spring', summer: 'summer', autumn: 'autumn', winter: 'winter' },
+  de: { spring: 'Frühling', summer: 'Sommer', autumn: 'Herbst', winter: 'Winter' },
+  fr: { spring: 'printemps', summer: 'été', autumn: 'automne', winter: 'hiver' },
+};
+
+/** Shown in upper case in the wine list; the menu prompts refer to them by name */
+export const DRINKING_STATUS_NAMES: Record<Language, Record<DrinkingStatus, string>> = {
+  it: DRINKING_STATUS_LABELS,
+  en: {
+    too_young: 'too young',
+    ready: 'ready, still improving',
+    peak: 'at its peak',
+    declining: 'drink soon',
+    past: 'past its ideal window',
+  },
+  de: {
+    too_young: 'zu jung',
+    ready: 'trinkreif, entwickelt sich noch',
+    peak: 'auf dem Höhepunkt',
+    declining: 'bald trinken',
+    past: 'über dem idealen Trinkfenster',
+  },
+  fr: {
+    too_young: 'trop jeune',
+    ready: 'prêt, encore en progression',
+    peak: 'à son apogée',
+    declining: 'à boire bientôt',
+    past: 'au-delà de la fenêtre idéale',
+  },
+};
+
+export const PHOTO_TYPE_LABELS: Record<Language, Record<PhotoType, string>> = {
+  it: { label_front: 'etichetta frontale', label_back: 'retroetichetta', bottle: 'bottiglia intera', other: 'altro' },
+  en: { label_front: 'front label', label_back: 'back label', bottle: 'whole bottle', other: 'other' },
+  de: { label_front: 'Vorderetikett', label_back: 'Rückenetikett', bottle: 'ganze Flasche', other: 'sonstiges' },
+  fr: { label_front: 'étiquette', label_back: 'contre-étiquette', bottle: 'bouteille entière', other: 'autre' },
+};
+
+// ============================================================
+// LABEL EXTRACTION
+// ============================================================
+
+const EXTRACTION_FORMAT = `{
+  "name": { "value": "Nome Vino", "confidence": 0.95 },
+  "producer": { "value": "Cantina", "confidence": 0.90 },
+  "vintage": { "value": "2018", "confidence": 0.98 },
+  "type": { "value": "red", "confidence": 0.95 },
+  "region": { "value": "Piemonte", "confidence": 0.85 },
+  "country": { "value": "Italia", "confidence": 0.90 },
+  "appellation": { "value": "Barolo DOCG", "confidence": 0.90 },
+  "grapes": { "value": ["Nebbiolo"], "confidence": 0.80 },
+  "alcohol": { "value": 14.5, "confidence": 0.95 }
+}`;
+
+export const EXTRACTION_PROMPTS: Record<Language, string> = {
+  it: `Analizza il seguente testo estratto da un'etichetta di vino e identifica le informazioni chiave.
+
+TIPO DI FOTO: {photo_type}
+
+TESTO OCR:
+{ocr_text}
+
+Estrai le seguenti informazioni se presenti, con un livello di confidenza (0.0-1.0):
+- name: Nome del vino (es. "Barolo", "Amarone della Valpolicella")
+- producer: Produttore/Cantina (es. "Giacomo Conterno", "Antinori")
+- vintage: Anno di vendemmia (es. "2018")
+- type: Tipo di vino (red, white, rosé, sparkling, dessert, fortified)
+- region: Regione di produzione (es. "Piemonte", "Toscana")
+- country: Paese (es. "Italia", "Francia")
+- appellation: Denominazione (es. "Barolo DOCG", "Chianti Classico DOCG", "Chablis AOC")
+- grapes: Vitigni utilizzati (array, es. ["Nebbiolo"], ["Sangiovese", "Merlot"])
+- alcohol: Gradazione alcolica in % (es. 14.5)
+
+Regole:
+- Se un'informazione non è chiaramente presente, non includerla
+- La confidenza riflette quanto sei sicuro dell'informazione estratta
+- Per il tipo di vino, deducilo dal vitigno o dalla denominazione se non esplicito
+- Normalizza i nomi delle regioni e dei paesi
+- La retroetichetta contiene spesso gradazione, vitigni, denominazione e indirizzo del produttore
+
+Rispondi SOLO con JSON valido nel seguente formato:
+${EXTRACTION_FORMAT}`,
+
+  en: `Analyse the following text extracted from a wine label and identify the key information.
+
+PHOTO TYPE: {photo_type}
+
+OCR TEXT:
+{ocr_text}
+
+Extract the following information when present, each with a confidence level (0.0-1.0):
+- name: Wine name (e.g. "Barolo", "Amarone della Valpolicella")
+- producer: Producer/winery (e.g. "Giacomo Conterno", "Antinori")
+- vintage: Vintage year (e.g. "2018")
+- type: Wine type (red, white, rosé, sparkling, dessert, fortified)
+- region: Region of production (e.g. "Piemonte", "Toscana")
+- country: Country (e.g. "Italia", "Francia")
+- appellation: Appellation (e.g. "Barolo DOCG", "Chianti Classico DOCG", "Chablis AOC")
+- grapes: Grape varieties (array, e.g. ["Nebbiolo"], ["Sangiovese", "Merlot"])
+- alcohol: Alcohol by volume in % (e.g. 14.5)
+
+Rules:
+- If a piece of information is not clearly present, leave it out
+- The confidence reflects how sure you are of the extracted information
+- When the wine type is not explicit, infer it from the grape or the appellation
+- Normalize region and country names
+- The back label often carries the alcohol, grapes, appellation and the producer's address
+
+Reply ONLY with valid JSON in the following format:
+${EXTRACTION_FORMAT}`,
+
+  de: `Analysiere den folgenden Text, der aus einem Weinetikett extrahiert wurde, und bestimme die wichtigsten Angaben.
+
+FOTOTYP: {photo_type}
+
+OCR-TEXT:
+{ocr_text}
+
+Extrahiere die folgenden Angaben, sofern vorhanden, jeweils mit einem Konfidenzwert (0.0-1.0):
+- name: Name des Weins (z. B. "Barolo", "Amarone della Valpolicella")
+- producer: Erzeuger/Weingut (z. B. "Giacomo Conterno", "Antinori")
+- vintage: Jahrgang (z. B. "2018")
+- type: Weintyp (red, white, rosé, sparkling, dessert, fortified)
+- region: Anbauregion (z. B. "Piemonte", "Toscana")
+- country: Land (z. B. "Italia", "Francia")
+- appellation: Herkunftsbezeichnung (z. B. "Barolo DOCG", "Chianti Classico DOCG", "Chablis AOC")
+- grapes: Rebsorten (Array, z. B. ["Nebbiolo"], ["Sangiovese", "Merlot"])
+- alcohol: Alkoholgehalt in % (z. B. 14.5)
+
+Regeln:
+- Lass Angaben weg, die nicht eindeutig vorhanden sind
+- Die Konfidenz gibt an, wie sicher du dir bei der extrahierten Angabe bist
+- Ist der Weintyp nicht angegeben, leite ihn aus der Rebsorte oder der Herkunftsbezeichnung ab
+- Vereinheitliche die Namen von Regionen und Ländern
+- Das Rückenetikett enthält oft Alkoholgehalt, Rebsorten, Herkunftsbezeichnung und die Adresse des Erzeugers
+
+Antworte NUR mit gültigem JSON im folgenden Format:
+${EXTRACTION_FORMAT}`,
+
+  fr: `Analyse le texte suivant, extrait d'une étiquette de vin, et identifie les informations clés.
+
+TYPE DE PHOTO : {photo_type}
+
+TEXTE OCR :
+{ocr_text}
+
+Extrais les informations suivantes si elles sont présentes, avec un niveau de confiance (0.0-1.0) :
+- name : Nom du vin (ex. "Barolo", "Amarone della Valpolicella")
+- producer : Producteur/domaine (ex. "Giacomo Conterno", "Antinori")
+- vintage : Millésime (ex. "2018")
+- type : Type de vin (red, white, rosé, sparkling, dessert, fortified)
+- region : Région de production (ex. "Piemonte", "Toscana")
+- country : Pays (ex. "Italia", "Francia")
+- appellation : Appellation (ex. "Barolo DOCG", "Chianti Classico DOCG", "Chablis AOC")
+- grapes : Cépages (tableau, ex. ["Nebbiolo"], ["Sangiovese", "Merlot"])
+- alcohol : Degré d'alcool en % (ex. 14.5)
+
+Règles :
+- Si une information n'est pas clairement présente, ne l'inclus pas
+- La confiance reflète ta certitude sur l'information extraite
+- Si le type de vin n'est pas explicite, déduis-le du cépage ou de l'appellation
+- Normalise les noms des régions et des pays
+- La contre-étiquette indique souvent le degré, les cépages, l'appellation et l'adresse du producteur
+
+Réponds UNIQUEMENT avec un JSON valide au format suivant :
+${EXTRACTION_FORMAT}`,
+};
+
+const WINE_LIST_FORMAT = `{
+  "wines": [
+    { "name": "Barolo", "producer": "Giacomo Conterno", "vintage": 2016, "type": "red", "region": "Piemonte", "price": 180, "currency": "EUR", "confidence": 0.9 }
+  ]
+}`;
+
+export const WINE_LIST_PROMPTS: Record<Language, string> = {
+  it: `Analizza il seguente testo estratto dalla foto di una carta dei vini, di uno scaffale o di un espositore. La foto può contenere MOLTI vini diversi.
+
+TESTO OCR:
+{ocr_text}
+
+Per OGNI vino presente estrai, se disponibili:
+- name: Nome del vino (es. "Barolo", "Amarone della Valpolicella")
+- producer: Produttore/Cantina
+- vintage: Anno di vendemmia (numero)
+- type: Tipo di vino (red, white, rosé, sparkling, dessert, fortified)
+- region: Regione di produzione
+- price: Prezzo della bottiglia se stampato (numero, senza simbolo di valuta)
+- currency: Valuta del prezzo in codice ISO (es. "EUR", "CHF")
+- confidence: Confidenza complessiva sulla riga (0.0-1.0)
+
+Regole:
+- Una voce per ogni vino distinto; non unire vini diversi
+- Se sono indicati prezzo al calice e alla bottiglia, usa quello della bottiglia
+- Ignora intestazioni, sezioni e descrizioni che non sono vini
+- Per il tipo di vino, deducilo dalla sezione della carta, dal vitigno o dalla denominazione
+
+Rispondi SOLO con JSON valido nel seguente formato:
+${WINE_LIST_FORMAT}`,
+
+  en: `Analyse the following text extracted from a photo of a wine list, a shelf or a display. The photo may contain MANY different wines.
+
+OCR TEXT:
+{ocr_text}
+
+For EVERY wine listed extract, when available:
+- name: Wine name (e.g. "Barolo", "Amarone della Valpolicella")
+- producer: Producer/winery
+- vintage: Vintage year (number)
+- type: Wine type (red, white, rosé, sparkling, dessert, fortified)
+- region: Region of production
+- price: Bottle price if printed (number, without currency symbol)
+- currency: ISO code of the price currency (e.g. "EUR", "CHF")
+- confidence: Overall confidence in the entry (0.0-1.0)
+
+Rules:
+- One entry per distinct wine; do not merge different wines
+- If both a glass and a bottle price are given, use the bottle price
+- Ignore headings, sections and descriptions that are not wines
+- Infer the wine type from the section of the list, the grape or the appellation
+
+Reply ONLY with valid JSON in the following format:
+${WINE_LIST_FORMAT}`,
+
+  de: `Analysiere den folgenden Text aus dem Foto einer Weinkarte, eines Regals oder einer Auslage. Das Foto kann VIELE verschiedene Weine enthalten.
+
+OCR-TEXT:
+{ocr_text}
+
+Extrahiere für JEDEN aufgeführten Wein, sofern vorhanden:
+- name: Name des Weins (z. B. "Barolo", "Amarone della Valpolicella")
+- producer: Erzeuger/Weingut
+- vintage: Jahrgang (Zahl)
+- type: Weintyp (red, white, rosé, sparkling, dessert, fortified)
+- region: Anbauregion
+- price: Flaschenpreis, falls angegeben (Zahl, ohne Währungssymbol)
+- currency: ISO-Code der Währung (z. B. "EUR", "CHF")
+- confidence: Gesamtkonfidenz für den Eintrag (0.0-1.0)
+
+Regeln:
+- Ein Eintrag pro Wein; verschiedene Weine nicht zusammenfassen
+- Sind Glas- und Flaschenpreis angegeben, verwende den Flaschenpreis
+- Ignoriere Überschriften, Abschnitte und Beschreibungen, die keine Weine sind
+- Leite den Weintyp aus dem Abschnitt der Karte, der Rebsorte oder der Herkunftsbezeichnung ab
+
+Antworte NUR mit gültigem JSON im folgenden Format:
+${WINE_LIST_FORMAT}`,
+
+  fr: `Analyse le texte suivant, extrait de la photo d'une carte des vins, d'un rayon ou d'un présentoir. La photo peut contenir de NOMBREUX vins différents.
+
+TEXTE OCR :
+{ocr_text}
+
+Pour CHAQUE vin présent, extrais si disponibles :
+- name : Nom du vin (ex. "Barolo", "Amarone della Valpolicella")
+- producer : Producteur/domaine
+- vintage : Millésime (nombre)
+- type : Type de vin (red, white, rosé, sparkling, dessert, fortified)
+- region : Région de production
+- price : Prix de la bouteille s'il est imprimé (nombre, sans symbole monétaire)
+- currency : Code ISO de la devise (ex. "EUR", "CHF")
+- confidence : Confiance globale sur la ligne (0.0-1.0)
+
+Règles :
+- Une entrée par vin distinct ; ne fusionne pas des vins différents
+- Si le prix au verre et à la bouteille sont indiqués, utilise celui de la bouteille
+- Ignore les titres, les sections et les descriptions qui ne sont pas des vins
+- Déduis le type de vin de la section de la carte, du cépage ou de l'appellation
+
+Réponds UNIQUEMENT avec un JSON valide au format suivant :
+${WINE_LIST_FORMAT}`,
+};
+
+// ============================================================
+// PURCHASE RECEIPT
+// ============================================================
+
+const RECEIPT_FORMAT = `{
+  "seller": "Enoteca Rossi",
+  "purchaseDate": "2024-11-15",
+  "currency": "EUR",
+  "total": 210.0,
+  "lines": [
+    { "description": "BAROLO DOCG 2019 CONTERNO x6", "isWine": true, "name": "Barolo", "producer": "Giacomo Conterno", "vintage": 2019, "type": "red", "quantity": 6, "unitPrice": 35.0 }
+  ]
+}`;
+
+export const RECEIPT_PROMPTS: Record<Language, string> = {
+  it: `Analizza il seguente testo estratto da uno scontrino o da una fattura di acquisto vini.
+
+TESTO OCR:
+{ocr_text}
+
+Estrai:
+- seller: Venditore (enoteca, cantina, negozio online)
+- purchaseDate: Data di acquisto in formato YYYY-MM-DD
+- currency: Valuta in codice ISO (es. "EUR")
+- total: Totale del documento (numero)
+- lines: Righe del documento, una per articolo, con:
+  - description: Testo della riga così come appare
+  - isWine: true se l'articolo è un vino, false per spedizione, sconti, cassette, accessori, ecc.
+  - name: Nome del vino (es. "Barolo")
+  - producer: Produttore/Cantina
+  - vintage: Anno di vendemmia (numero)
+  - type: Tipo di vino (red, white, rosé, sparkling, dessert, fortified)
+  - quantity: Numero di bottiglie (numero intero; una cassa da 6 = 6)
+  - unitPrice: Prezzo per bottiglia IVA inclusa (numero, senza simbolo di valuta)
+
+Regole:
+- Se un'informazione non è presente, non includerla
+- Se è indicato solo il prezzo totale della riga, dividilo per la quantità
+- Non inventare produttori o annate che non compaiono nel testo
+
+Rispondi SOLO con JSON valido nel seguente formato:
+${RECEIPT_FORMAT}`,
+  en: `Analyse the following text extracted from a receipt or an invoice for a wine purchase.
+
+OCR TEXT:
+{ocr_text}
+
+Extract:
+- seller: Seller (wine shop, winery, online store)
+- purchaseDate: Purchase date as YYYY-MM-DD
+- currency: ISO currency code (e.g. "EUR")
+- total: Document total (number)
+- lines: Document lines, one per item, with:
+  - description: Text of the line as it appears
+  - isWine: true if the item is a wine, false for shipping, discounts, cases, accessories, etc.
+  - name: Wine name (e.g. "Barolo")
+  - producer: Producer/Winery
+  - vintage: Vintage year (number)
+  - type: Wine type (red, white, rosé, sparkling, dessert, fortified)
+  - quantity: Number of bottles (integer; a case of 6 = 6)
+  - unitPrice: Price per bottle including VAT (number, without currency symbol)
+
+Rules:
+- If a piece of information is not present, leave it out
+- If only the line total is given, divide it by the quantity
+- Do not invent producers or vintages that do not appear in the text
+
+Reply ONLY with valid JSON in the following format:
+${RECEIPT_FORMAT}`,
+  de: `Analysiere den folgenden Text aus einem Kassenbon oder einer Rechnung über einen Weinkauf.
+
+OCR-TEXT:
+{ocr_text}
+
+Extrahiere:
+- seller: Verkäufer (Weinhandlung, Weingut, Onlineshop)
+- purchaseDate: Kaufdatum im Format YYYY-MM-DD
+- currency: Währung als ISO-Code (z. B. "EUR")
+- total: Gesamtbetrag des Dokuments (Zahl)
+- lines: Zeilen des Dokuments, eine pro Artikel, mit:
+  - description: Text der Zeile, wie er erscheint
+  - isWine: true, wenn der Artikel ein Wein ist, false für Versand, Rabatte, Kisten, Zubehör usw.
+  - name: Name des Weins (z. B. "Barolo")
+  - producer: Erzeuger/Weingut
+  - vintage: Jahrgang (Zahl)
+  - type: Weintyp (red, white, rosé, sparkling, dessert, fortified)
+  - quantity: Anzahl der Flaschen (ganze Zahl; eine 6er-Kiste = 6)
+  - unitPrice: Preis pro Flasche inklusive MwSt. (Zahl, ohne Währungssymbol)
+
+Regeln:
+- Fehlt eine Angabe, lass sie weg
+- Ist nur der Gesamtpreis der Zeile angegeben, teile ihn durch die Menge
+- Erfinde keine Erzeuger oder Jahrgänge, die nicht im Text stehen
+
+Antworte NUR mit gültigem JSON im folgenden Format:
+${RECEIPT_FORMAT}`,
+  fr: `Analyse le texte suivant, extrait d'un ticket de caisse ou d'une facture d'achat de vins.
+
+TEXTE OCR :
+{ocr_text}
+
+Extrais :
+- seller : Vendeur (caviste, domaine, boutique en ligne)
+- purchaseDate : Date d'achat au format YYYY-MM-DD
+- currency : Devise en code ISO (ex. "EUR")
+- total : Total du document (nombre)
+- lines : Lignes du document, une par article, avec :
+  - description : Texte de la ligne tel qu'il apparaît
+  - isWine : true si l'article est un vin, false pour la livraison, les remises, les caisses, les accessoires, etc.
+  - name : Nom du vin (ex. "Barolo")
+  - producer : Producteur/Domaine
+  - vintage : Millésime (nombre)
+  - type : Type de vin (red, white, rosé, sparkling, dessert, fortified)
+  - quantity : Nombre de bouteilles (entier ; une caisse de 6 = 6)
+  - unitPrice : Prix par bouteille TTC (nombre, sans symbole de devise)
+
+Règles :
+- Si une information n'est pas présente, ne l'inclus pas
+- Si seul le prix total de la ligne est indiqué, divise-le par la quantité
+- N'invente pas de producteurs ni de millésimes qui n'apparaissent pas dans le texte
+
+Réponds UNIQUEMENT avec du JSON valide au format suivant :
+${RECEIPT_FORMAT}`,
+};
+
+// ============================================================
+// MENU PROPOSAL
+// ============================================================
+
+export const PROPOSAL_PROMPTS: Record<Language, string> = {
+  it: `Sei un esperto chef e sommelier italiano. Devi proporre un menu completo con abbinamenti vino per una cena.
+
+CONTESTO CENA:
+- Nome: {dinner_name}
+- Data: {dinner_date}
+- Stagione: {season}
+- Stile: {dinner_style}
+- Tempo di preparazione disponibile: {cooking_time}
+- Budget vini: {budget_level}
+{user_notes}
+{menu_theme}
+
+OSPITI ({guest_count} persone):
+{dietary_summary}
+{guest_history}
+
+VINI DISPONIBILI IN CANTINA:
+{inventory_summary}
+
+ISTRUZIONI PRIORITARIE:
+⚠️ MASSIMA PRIORITÀ: Le "RICHIESTE SPECIFICHE DELL'UTENTE" DEVONO essere seguite ESATTAMENTE.
+   - Se l'utente specifica il numero di piatti per portata (es. "10 antipasti, 1 primo"), genera ESATTAMENTE quel numero
+   - Se l'utente specifica il tipo di cucina, tema, o ingredienti, seguili alla lettera
+   - NON ignorare MAI le richieste dell'utente
+
+ISTRUZIONI GENERALI (se non specificate dall'utente):
+1. Se non ci sono richieste specifiche, proponi: 1 antipasto, 1 primo, 1 secondo, 1 dolce
+2. Considera TUTTE le restrizioni alimentari - nessun piatto deve contenere ingredienti vietati
+3. Adatta la complessità al tempo di preparazione disponibile
+4. Per ogni piatto indica:
+   - Nome e breve descrizione
+   - Flag dietetici (GF=senza glutine, LF=senza lattosio, V=vegetariano, VG=vegano)
+   - Ingredienti principali, sempre in italiano
+   - Tempo di preparazione stimato
+5. ABBINAMENTI VINO:
+   - Ogni piatto DEVE avere un vino abbinato
+   - MINIMIZZA il numero di vini diversi (es. stesso vino per tutti gli antipasti)
+   - Per ogni piatto proponi:
+     a) "cellarWine": un vino dalla lista "DISPONIBILI IN CANTINA" (se disponibile), indicando in "wineId" l'ID tra parentesi quadre
+     b) "marketWine": un vino da acquistare come alternativa, con "priceRange" = prezzo stimato a bottiglia in enoteca (EUR), nella fascia del budget
+   - Se lo stesso vino va bene per più portate, usa lo stesso wineId e lo stesso nome esatto
+   - Una bottiglia serve 6 calici: per {guest_count} persone preferisci vini della cantina con bottiglie sufficienti per tutte le portate in cui li servi
+   - NON inventare wineId: se nessun vino della cantina è adatto, ometti "cellarWine"
+   - A parità di abbinamento preferisci i vini della cantina AL PICCO o DA BERE PRESTO; quelli OLTRE LA FINESTRA IDEALE solo se adatti, segnalandolo nel "reasoning"
+6. Lo stile del menu deve rispecchiare il tipo di cena (informale/conviviale/elegante)
+
+TIPI DI PORTATA:
+- "starter" = antipasto
+- "first" = primo (pasta, risotto, zuppe)
+- "main" = secondo (carne, pesce)
+- "side" = contorno
+- "dessert" = dolce
+
+FORMATO OUTPUT (JSON):
+{
+  "menu": {
+    "courses": [
+      {
+        "course": "starter|first|main|side|dessert",
+        "name": "Nome piatto",
+        "description": "Descrizione",
+        "dietaryFlags": ["GF", "LF", "V"],
+        "ingredients": ["ingrediente 1", "ingrediente 2"],
+        "prepTime": 30,
+        "cellarWine": {
+          "wineId": "ID del vino dalla cantina",
+          "name": "Nome esatto del vino dalla cantina",
+          "reasoning": "Perché questo abbinamento"
+        },
+        "marketWine": {
+          "name": "Nome vino da acquistare",
+          "details": "Tipo, regione, produttore consigliato",
+          "reasoning": "Perché questo abbinamento",
+          "priceRange": { "min": 15, "max": 20, "currency": "EUR" }
+        }
+      }
+    ],
+    "reasoning": "Spiegazione generale delle scelte di menu e vini",
+    "wineStrategy": "Strategia abbinamenti (es. 'Due vini: un bianco per antipasto e primo, un rosso per il secondo')",
+    "seasonContext": "Come la stagione ha influenzato le scelte",
+    "guestConsiderations": ["Considerazione 1", "Considerazione 2"],
+    "totalPrepTime": 120
+  }
+}
+
+IMPORTANTE: Se l'utente chiede N piatti di un tipo, l'array "courses" DEVE contenere esattamente N elementi con quel course type.
+
+Rispondi SOLO con il JSON, senza altro testo.`,
+
+  en: `You are an expert Italian chef and sommelier. Propose a complete menu with wine pairings for a dinner.
+
+DINNER CONTEXT:
+- Name: {dinner_name}
+- Date: {dinner_date}
+- Season: {season}
+- Style: {dinner_style}
+- Available preparation time: {cooking_time}
+- Wine budget: {budget_level}
+{user_notes}
+{menu_theme}
+
+GUESTS ({guest_count} people):
+{dietary_summary}
+{guest_history}
+
+WINES AVAILABLE IN THE CELLAR:
+{inventory_summary}
+
+PRIORITY INSTRUCTIONS:
+⚠️ HIGHEST PRIORITY: the "SPECIFIC USER REQUESTS" MUST be followed EXACTLY.
+   - If the user gives the number of dishes per course (e.g. "10 starters, 1 first course"), generate EXACTLY that number
+   - If the user gives a cuisine, theme or ingredients, follow them to the letter
+   - NEVER ignore the user's requests
+
+GENERAL INSTRUCTIONS (unless the user says otherwise):
+1. Without specific requests, propose: 1 starter, 1 first course, 1 main course, 1 dessert
+2. Take ALL dietary restrictions into account - no dish may contain forbidden ingredients
+3. Match the complexity to the available preparation time
+4. For each dish give:
+   - Name and short description
+   - Dietary flags (GF=gluten free, LF=lactose free, V=vegetarian, VG=vegan)
+   - Main ingredients, always in Italian
+   - Estimated preparation time
+5. WINE PAIRINGS:
+   - Every dish MUST have a paired wine
+   - MINIMIZE the number of different wines (e.g. the same wine for all the starters)
+   - For each dish propose:
+     a) "cellarWine": a wine from the "AVAILABLE IN THE CELLAR" list (if any), with the ID in square brackets in "wineId"
+     b) "marketWine": a wine to buy as an alternative, with "priceRange" = estimated wine shop price per bottle (EUR), within the budget range
+   - If the same wine suits several courses, use the same wineId and the same exact name
+   - A bottle pours 6 glasses: for {guest_count} people prefer cellar wines with enough bottles for every course they are served with
+   - NEVER invent a wineId: if no cellar wine suits the dish, leave out "cellarWine"
+   - All else being equal prefer cellar wines AT ITS PEAK or to DRINK SOON; those PAST ITS IDEAL WINDOW only if suitable, saying so in the "reasoning"
+6. The style of the menu must reflect the kind of dinner (informal/convivial/elegant)
+
+COURSE TYPES:
+- "starter" = starter (antipasto)
+- "first" = first course (pasta, risotto, soups)
+- "main" = main course (meat, fish)
+- "side" = side dish
+- "dessert" = dessert
+
+LANGUAGE: write every text in English. Keep JSON keys and enum values ("course", "dietaryFlags") exactly as in the schema, copy "wineId" and the names of cellar wines unchanged, and write "ingredients" in Italian.
+
+OUTPUT FORMAT (JSON):
+{
+  "menu": {
+    "courses": [
+      {
+        "course": "starter|first|main|side|dessert",
+        "name": "Dish name",
+        "description": "Description",
+        "dietaryFlags": ["GF", "LF", "V"],
+        "ingredients": ["ingrediente 1", "ingrediente 2"],
+        "prepTime": 30,
+        "cellarWine": {
+          "wineId": "ID of the cellar wine",
+          "name": "Exact name of the cellar wine",
+          "reasoning": "Why this pairing"
+        },
+        "marketWine": {
+          "name": "Name of the wine to buy",
+          "details": "Type, region, recommended producer",
+          "reasoning": "Why this pairing",
+          "priceRange": { "min": 15, "max": 20, "currency": "EUR" }
+        }
+      }
+    ],
+    "reasoning": "Overall explanation of the menu and wine choices",
+    "wineStrategy": "Pairing strategy (e.g. 'Two wines: a white for the starter and first course, a red for the main course')",
+    "seasonContext": "How the season shaped the choices",
+    "guestConsiderations": ["Consideration 1", "Consideration 2"],
+    "totalPrepTime": 120
+  }
+}
+
+IMPORTANT: if the user asks for N dishes of a type, the "courses" array MUST contain exactly N items with that course type.
+
+Reply ONLY with the JSON, without any other text.`,
+
+  de: `Du bist ein erfahrener italienischer Koch und Sommelier. Schlage ein vollständiges Menü mit Weinbegleitung für ein Abendessen vor.
+
+KONTEXT DES ABENDESSENS:
+- Name: {dinner_name}
+- Datum: {dinner_date}
+- Jahreszeit: {season}
+- Stil: {dinner_style}
+- Verfügbare Zubereitungszeit: {cooking_time}
+- Weinbudget: {budget_level}
+{user_notes}
+{menu_theme}
+
+GÄSTE ({guest_count} Personen):
+{dietary_summary}
+{guest_history}
+
+IM KELLER VERFÜGBARE WEINE:
+{inventory_summary}
+
+VORRANGIGE ANWEISUNGEN:
+⚠️ HÖCHSTE PRIORITÄT: Die "BESONDEREN WÜNSCHE DES NUTZERS" MÜSSEN GENAU befolgt werden.
+   - Gibt der Nutzer die Anzahl der Gerichte pro Gang an (z. B. "10 Vorspeisen, 1 erster Gang"), erzeuge GENAU diese Anzahl
+   - Gibt der Nutzer Küche, Thema oder Zutaten vor, halte dich wörtlich daran
+   - Ignoriere NIEMALS die Wünsche des Nutzers
+
+ALLGEMEINE ANWEISUNGEN (sofern der Nutzer nichts anderes angibt):
+1. Ohne besondere Wünsche schlage vor: 1 Vorspeise, 1 ersten Gang, 1 Hauptgang, 1 Dessert
+2. Berücksichtige ALLE Ernährungseinschränkungen - kein Gericht darf verbotene Zutaten enthalten
+3. Passe den Aufwand an die verfügbare Zubereitungszeit an
+4. Gib für jedes Gericht an:
+   - Name und kurze Beschreibung
+   - Ernährungskennzeichen (GF=glutenfrei, LF=laktosefrei, V=vegetarisch, VG=vegan)
+   - Hauptzutaten, immer auf Italienisch
+   - Geschätzte Zubereitungszeit
+5. WEINBEGLEITUNG:
+   - Jedes Gericht MUSS einen passenden Wein haben
+   - Halte die Zahl der verschiedenen Weine MÖGLICHST KLEIN (z. B. derselbe Wein für alle Vorspeisen)
+   - Schlage für jedes Gericht vor:
+     a) "cellarWine": einen Wein aus der Liste "IM KELLER VERFÜGBAR" (falls vorhanden), mit der ID aus den eckigen Klammern in "wineId"
+     b) "marketWine": einen Wein zum Kaufen als Alternative, mit "priceRange" = geschätzter Flaschenpreis im Weinhandel (EUR), innerhalb des Budgets
+   - Passt derselbe Wein zu mehreren Gängen, verwende dieselbe wineId und genau denselben Namen
+   - Eine Flasche ergibt 6 Gläser: Bevorzuge für {guest_count} Personen Kellerweine mit genug Flaschen für alle Gänge, zu denen sie serviert werden
+   - Erfinde KEINE wineId: Passt kein Kellerwein, lass "cellarWine" weg
+   - Bei gleich guter Begleitung bevorzuge Kellerweine AUF DEM HÖHEPUNKT oder zum BALD TRINKEN; solche ÜBER DEM IDEALEN TRINKFENSTER nur, wenn sie passen, und vermerke es im "reasoning"
+6. Der Stil des Menüs muss zur Art des Abendessens passen (informell/gesellig/elegant)
+
+GANGARTEN:
+- "starter" = Vorspeise (Antipasto)
+- "first" = erster Gang (Pasta, Risotto, Suppen)
+- "main" = Hauptgang (Fleisch, Fisch)
+- "side" = Beilage
+- "dessert" = Dessert
+
+SPRACHE: Schreibe alle Texte auf Deutsch. JSON-Schlüssel und Aufzählungswerte ("course", "dietaryFlags") bleiben genau wie im Schema, "wineId" und die Namen der Kellerweine bleiben unverändert, "ingredients" schreibst du auf Italienisch.
+
+AUSGABEFORMAT (JSON):
+{
+  "menu": {
+    "courses": [
+      {
+        "course": "starter|first|main|side|dessert",
+        "name": "Name des Gerichts",
+        "description": "Beschreibung",
+        "dietaryFlags": ["GF", "LF", "V"],
+        "ingredients": ["ingrediente 1", "ingrediente 2"],
+        "prepTime": 30,
+        "cellarWine": {
+          "wineId": "ID des Kellerweins",
+          "name": "Genauer Name des Kellerweins",
+          "reasoning": "Warum diese Begleitung"
+        },
+        "marketWine": {
+          "name": "Name des zu kaufenden Weins",
+          "details": "Typ, Region, empfohlener Erzeuger",
+          "reasoning": "Warum diese Begleitung",
+          "priceRange": { "min": 15, "max": 20, "currency": "EUR" }
+        }
+      }
+    ],
+    "reasoning": "Allgemeine Erklärung der Menü- und Weinauswahl",
+    "wineStrategy": "Begleitstrategie (z. B. 'Zwei Weine: ein Weißer zu Vorspeise und erstem Gang, ein Roter zum Hauptgang')",
+    "seasonContext": "Wie die Jahreszeit die Auswahl beeinflusst hat",
+    "guestConsiderations": ["Überlegung 1", "Überlegung 2"],
+    "totalPrepTime": 120
+  }
+}
+
+WICHTIG: Verlangt der Nutzer N Gerichte einer Art, MUSS das Array "courses" genau N Elemente mit diesem course-Typ enthalten.
+
+Antworte NUR mit dem JSON, ohne weiteren Text.`,
+
+  fr: `Tu es un chef et sommelier italien expert. Propose un menu complet avec les accords mets et vins pour un dîner.
+
+CONTEXTE DU DÎNER :
+- Nom : {dinner_name}
+- Date : {dinner_date}
+- Saison : {season}
+- Style : {dinner_style}
+- Temps de préparation disponible : {cooking_time}
+- Budget vins : {budget_level}
+{user_notes}
+{menu_theme}
+
+INVITÉS ({guest_count} personnes) :
+{dietary_summary}
+{guest_history}
+
+VINS DISPONIBLES EN CAVE :
+{inventory_summary}
+
+INSTRUCTIONS PRIORITAIRES :
+⚠️ PRIORITÉ ABSOLUE : les « DEMANDES SPÉCIFIQUES DE L'UTILISATEUR » DOIVENT être suivies EXACTEMENT.
+   - Si l'utilisateur précise le nombre de plats par service (ex. « 10 entrées, 1 primo »), génère EXACTEMENT ce nombre
+   - Si l'utilisateur précise une cuisine, un thème ou des ingrédients, suis-les à la lettre
+   - N'ignore JAMAIS les demandes de l'utilisateur
+
+INSTRUCTIONS GÉNÉRALES (sauf indication contraire de l'utilisateur) :
+1. Sans demande spécifique, propose : 1 entrée, 1 primo, 1 plat principal, 1 dessert
+2. Prends en compte TOUTES les restrictions alimentaires - aucun plat ne doit contenir d'ingrédients interdits
+3. Adapte la complexité au temps de préparation disponible
+4. Pour chaque plat indique :
+   - Nom et courte description
+   - Indicateurs alimentaires (GF=sans gluten, LF=sans lactose, V=végétarien, VG=végétalien)
+   - Ingrédients principaux, toujours en italien
+   - Temps de préparation estimé
+5. ACCORDS METS ET VINS :
+   - Chaque plat DOIT avoir un vin associé
+   - RÉDUIS AU MINIMUM le nombre de vins différents (ex. le même vin pour toutes les entrées)
+   - Pour chaque plat propose :
+     a) "cellarWine" : un vin de la liste « DISPONIBLES EN CAVE » (s'il y en a), avec l'ID entre crochets dans "wineId"
+     b) "marketWine" : un vin à acheter en alternative, avec "priceRange" = prix estimé de la bouteille chez un caviste (EUR), dans la fourchette du budget
+   - Si le même vin convient à plusieurs plats, utilise le même wineId et exactement le même nom
+   - Une bouteille sert 6 verres : pour {guest_count} personnes, préfère les vins de la cave ayant assez de bouteilles pour tous les plats où ils sont servis
+   - N'invente JAMAIS de wineId : si aucun vin de la cave ne convient, omets "cellarWine"
+   - À accord égal, préfère les vins de la cave À SON APOGÉE ou À BOIRE BIENTÔT ; ceux AU-DELÀ DE LA FENÊTRE IDÉALE seulement s'ils conviennent, en le signalant dans le "reasoning"
+6. Le style du menu doit refléter le type de dîner (décontracté/convivial/élégant)
+
+TYPES DE PLATS :
+- "starter" = entrée (antipasto)
+- "first" = primo (pâtes, risotto, soupes)
+- "main" = plat principal (viande, poisson)
+- "side" = accompagnement
+- "dessert" = dessert
+
+LANGUE : rédige tous les textes en français. Les clés JSON et les valeurs énumérées ("course", "dietaryFlags") restent exactement comme dans le schéma, "wineId" et les noms des vins de la cave restent inchangés, "ingredients" est rédigé en italien.
+
+FORMAT DE SORTIE (JSON) :
+{
+  "menu": {
+    "courses": [
+      {
+        "course": "starter|first|main|side|dessert",
+        "name": "Nom du plat",
+        "description": "Description",
+        "dietaryFlags": ["GF", "LF", "V"],
+        "ingredients": ["ingrediente 1", "ingrediente 2"],
+        "prepTime": 30,
+        "cellarWine": {
+          "wineId": "ID du vin de la cave",
+          "name": "Nom exact du vin de la cave",
+          "reasoning": "Pourquoi cet accord"
+        },
+        "marketWine": {
+          "name": "Nom du vin à acheter",
+          "details": "Type, région, producteur conseillé",
+          "reasoning": "Pourquoi cet accord",
+          "priceRange": { "min": 15, "max": 20, "currency": "EUR" }
+        }
+      }
+    ],
+    "reasoning": "Explication générale des choix de menu et de vins",
+    "wineStrategy": "Stratégie d'accords (ex. 'Deux vins : un blanc pour l'entrée et le primo, un rouge pour le plat principal')",
+    "seasonContext": "Comment la saison a influencé les choix",
+    "guestConsiderations": ["Remarque 1", "Remarque 2"],
+    "totalPrepTime": 120
+  }
+}
+
+IMPORTANT : si l'utilisateur demande N plats d'un type, le tableau "courses" DOIT contenir exactement N éléments avec ce type de course.
+
+Réponds UNIQUEMENT avec le JSON, sans autre texte.`,
+};
+
+// ============================================================
+// COURSE REGENERATION
+// ============================================================
+
+export const COURSE_PROMPTS: Record<Language, string> = {
+  it: `Sei un esperto chef e sommelier italiano. Devi sostituire UNA SOLA portata di un menu già definito, lasciando invariate tutte le altre.
+
+CONTESTO CENA:
+- Nome: {dinner_name}
+- Data: {dinner_date}
+- Stagione: {season}
+- Stile: {dinner_style}
+- Tempo di preparazione disponibile: {cooking_time}
+- Budget vini: {budget_level}
+{user_notes}
+
+OSPITI ({guest_count} persone):
+{dietary_summary}
+{guest_history}
+
+VINI DISPONIBILI IN CANTINA:
+{inventory_summary}
+
+MENU ATTUALE:
+{current_menu}
+
+STRATEGIA VINI ATTUALE: {wine_strategy}
+
+PORTATA DA SOSTITUIRE: n. {course_number} ({course_type}) "{course_name}"
+{instruction}
+
+ISTRUZIONI:
+1. Proponi UN solo piatto dello stesso tipo di portata ("{course_type}"), diverso da quello attuale
+2. Se c'è un'indicazione dell'utente per questa portata, seguila ESATTAMENTE
+3. Considera TUTTE le restrizioni alimentari - nessun piatto deve contenere ingredienti vietati
+4. Il piatto deve essere coerente con le altre portate e non ripeterne gli ingredienti principali
+   - Elenca gli ingredienti principali in "ingredients", sempre in italiano
+5. ABBINAMENTO VINO:
+   - Il numero di vini diversi della cena deve restare MINIMO
+   - Se un vino già presente nel menu si abbina bene al nuovo piatto, riusalo con lo stesso nome esatto
+   - Introduci un vino nuovo solo se nessuno di quelli presenti è adatto
+   - "cellarWine": un vino dalla lista "DISPONIBILI IN CANTINA" (se disponibile), con il suo ID in "wineId"
+   - A parità di abbinamento preferisci i vini della cantina AL PICCO o DA BERE PRESTO
+   - "marketWine": un vino da acquistare come alternativa, con "priceRange" = prezzo stimato a bottiglia in enoteca (EUR), nella fascia del budget
+
+FORMATO OUTPUT (JSON):
+{
+  "course": {
+    "course": "{course_type}",
+    "name": "Nome piatto",
+    "description": "Descrizione",
+    "dietaryFlags": ["GF", "LF", "V"],
+    "ingredients": ["ingrediente 1", "ingrediente 2"],
+    "prepTime": 30,
+    "cellarWine": {
+      "wineId": "ID del vino dalla cantina",
+      "name": "Nome esatto del vino dalla cantina",
+      "reasoning": "Perché questo abbinamento"
+    },
+    "marketWine": {
+      "name": "Nome vino da acquistare",
+      "details": "Tipo, regione, produttore consigliato",
+      "reasoning": "Perché questo abbinamento",
+      "priceRange": { "min": 15, "max": 20, "currency": "EUR" }
+    }
+  },
+  "wineStrategy": "Strategia abbinamenti aggiornata per l'intera cena"
+}
+
+Rispondi SOLO con il JSON, senza altro testo.`,
+
+  en: `You are an expert Italian chef and sommelier. Replace ONE SINGLE course of an existing menu, leaving all the others unchanged.
+
+DINNER CONTEXT:
+- Name: {dinner_name}
+- Date: {dinner_date}
+- Season: {season}
+- Style: {dinner_style}
+- Available preparation time: {cooking_time}
+- Wine budget: {budget_level}
+{user_notes}
+
+GUESTS ({guest_count} people):
+{dietary_summary}
+{guest_history}
+
+WINES AVAILABLE IN THE CELLAR:
+{inventory_summary}
+
+CURRENT MENU:
+{current_menu}
+
+CURRENT WINE STRATEGY: {wine_strategy}
+
+COURSE TO REPLACE: no. {course_number} ({course_type}) "{course_name}"
+{instruction}
+
+INSTRUCTIONS:
+1. Propose ONE dish of the same course type ("{course_type}"), different from the current one
+2. If the user gave an instruction for this course, follow it EXACTLY
+3. Take ALL dietary restrictions into account - no dish may contain forbidden ingredients
+4. The dish must fit the other courses and not repeat their main ingredients
+   - List the main ingredients in "ingredients", always in Italian
+5. WINE PAIRING:
+   - The number of different wines at the dinner must stay MINIMAL
+   - If a wine already on the menu pairs well with the new dish, reuse it with the same exact name
+   - Bring in a new wine only if none of the current ones suits the dish
+   - "cellarWine": a wine from the "AVAILABLE IN THE CELLAR" list (if any), with its ID in "wineId"
+   - All else being equal prefer cellar wines AT ITS PEAK or to DRINK SOON
+   - "marketWine": a wine to buy as an alternative, with "priceRange" = estimated wine shop price per bottle (EUR), within the budget range
+
+LANGUAGE: write every text in English. Keep JSON keys and enum values ("course", "dietaryFlags") exactly as in the schema, copy "wineId" and the names of cellar wines unchanged, and write "ingredients" in Italian.
+
+OUTPUT FORMAT (JSON):
+{
+  "course": {
+    "course": "{course_type}",
+    "name": "Dish name",
+    "description": "Description",
+    "dietaryFlags": ["GF", "LF", "V"],
+    "ingredients": ["ingrediente 1", "ingrediente 2"],
+    "prepTime": 30,
+    "cellarWine": {
+      "wineId": "ID of the cellar wine",
+      "name": "Exact name of the cellar wine",
+      "reasoning": "Why this pairing"
+    },
+    "marketWine": {
+      "name": "Name of the wine to buy",
+      "details": "Type, region, recommended producer",
+      "reasoning": "Why this pairing",
+      "priceRange": { "min": 15, "max": 20, "currency": "EUR" }
+    }
+  },
+  "wineStrategy": "Updated pairing strategy for the whole dinner"
+}
+
+Reply ONLY with the JSON, without any other text.`,
+
+  de: `Du bist ein erfahrener italienischer Koch und Sommelier. Ersetze EINEN EINZIGEN Gang eines bestehenden Menüs und lass alle anderen unverändert.
+
+KONTEXT DES ABENDESSENS:
+- Name: {dinner_name}
+- Datum: {dinner_date}
+- Jahreszeit: {season}
+- Stil: {dinner_style}
+- Verfügbare Zubereitungszeit: {cooking_time}
+- Weinbudget: {budget_level}
+{user_notes}
+
+GÄSTE ({guest_count} Personen):
+{dietary_summary}
+{guest_history}
+
+IM KELLER VERFÜGBARE WEINE:
+{inventory_summary}
+
+AKTUELLES MENÜ:
+{current_menu}
+
+AKTUELLE WEINSTRATEGIE: {wine_strategy}
+
+ZU ERSETZENDER GANG: Nr. {course_number} ({course_type}) "{course_name}"
+{instruction}
+
+ANWEISUNGEN:
+1. Schlage EIN Gericht derselben Gangart ("{course_type}") vor, das sich vom aktuellen unterscheidet
+2. Gibt es einen Hinweis des Nutzers zu diesem Gang, befolge ihn GENAU
+3. Berücksichtige ALLE Ernährungseinschränkungen - kein Gericht darf verbotene Zutaten enthalten
+4. Das Gericht muss zu den anderen Gängen passen und deren Hauptzutaten nicht wiederholen
+   - Nenne die Hauptzutaten in "ingredients", immer auf Italienisch
+5. WEINBEGLEITUNG:
+   - Die Zahl der verschiedenen Weine des Abends muss MINIMAL bleiben
+   - Passt ein Wein, der schon im Menü ist, gut zum neuen Gericht, verwende ihn mit genau demselben Namen
+   - Nimm nur dann einen neuen Wein, wenn keiner der vorhandenen passt
+   - "cellarWine": ein Wein aus der Liste "IM KELLER VERFÜGBAR" (falls vorhanden), mit seiner ID in "wineId"
+   - Bei gleich guter Begleitung bevorzuge Kellerweine AUF DEM HÖHEPUNKT oder zum BALD TRINKEN
+   - "marketWine": ein Wein zum Kaufen als Alternative, mit "priceRange" = geschätzter Flaschenpreis im Weinhandel (EUR), innerhalb des Budgets
+
+SPRACHE: Schreibe alle Texte auf Deutsch. JSON-Schlüssel und Aufzählungswerte ("course", "dietaryFlags") bleiben genau wie im Schema, "wineId" und die Namen der Kellerweine bleiben unverändert, "ingredients" schreibst du auf Italienisch.
+
+AUSGABEFORMAT (JSON):
+{
+  "course": {
+    "course": "{course_type}",
+    "name": "Name des Gerichts",
+    "description": "Beschreibung",
+    "dietaryFlags": ["GF", "LF", "V"],
+    "ingredients": ["ingrediente 1", "ingrediente 2"],
+    "prepTime": 30,
+    "cellarWine": {
+      "wineId": "ID des Kellerweins",
+      "name": "Genauer Name des Kellerweins",
+      "reasoning": "Warum diese Begleitung"
+    },
+    "marketWine": {
+      "name": "Name des zu kaufenden Weins",
+      "details": "Typ, Region, empfohlener Erzeuger",
+      "reasoning": "Warum diese Begleitung",
+      "priceRange": { "min": 15, "max": 20, "currency": "EUR" }
+    }
+  },
+  "wineStrategy": "Aktualisierte Begleitstrategie für das ganze Abendessen"
+}
+
+Antworte NUR mit dem JSON, ohne weiteren Text.`,
+
+  fr: `Tu es un chef et sommelier italien expert. Remplace UN SEUL plat d'un menu déjà défini, en laissant tous les autres inchangés.
+
+CONTEXTE DU DÎNER :
+- Nom : {dinner_name}
+- Date : {dinner_date}
+- Saison : {season}
+- Style : {dinner_style}
+- Temps de préparation disponible : {cooking_time}
+- Budget vins : {budget_level}
+{user_notes}
+
+INVITÉS ({guest_count} personnes) :
+{dietary_summary}
+{guest_history}
+
+VINS DISPONIBLES EN CAVE :
+{inventory_summary}
+
+MENU ACTUEL :
+{current_menu}
+
+STRATÉGIE DES VINS ACTUELLE : {wine_strategy}
+
+PLAT À REMPLACER : n° {course_number} ({course_type}) « {course_name} »
+{instruction}
+
+INSTRUCTIONS :
+1. Propose UN seul plat du même type ("{course_type}"), différent du plat actuel
+2. Si l'utilisateur a donné une indication pour ce plat, suis-la EXACTEMENT
+3. Prends en compte TOUTES les restrictions alimentaires - aucun plat ne doit contenir d'ingrédients interdits
+4. Le plat doit être cohérent avec les autres et ne pas en répéter les ingrédients principaux
+   - Liste les ingrédients principaux dans "ingredients", toujours en italien
+5. ACCORD METS ET VIN :
+   - Le nombre de vins différents du dîner doit rester MINIMAL
+   - Si un vin déjà présent au menu s'accorde bien avec le nouveau plat, réutilise-le avec exactement le même nom
+   - N'introduis un nouveau vin que si aucun de ceux présents ne convient
+   - "cellarWine" : un vin de la liste « DISPONIBLES EN CAVE » (s'il y en a), avec son ID dans "wineId"
+   - À accord égal, préfère les vins de la cave À SON APOGÉE ou À BOIRE BIENTÔT
+   - "marketWine" : un vin à acheter en alternative, avec "priceRange" = prix estimé de la bouteille chez un caviste (EUR), dans la fourchette du budget
+
+LANGUE : rédige tous les textes en français. Les clés JSON et les valeurs énumérées ("course", "dietaryFlags") restent exactement comme dans le schéma, "wineId" et les noms des vins de la cave restent inchangés, "ingredients" est rédigé en italien.
+
+FORMAT DE SORTIE (JSON) :
+{
+  "course": {
+    "course": "{course_type}",
+    "name": "Nom du plat",
+    "description": "Description",
+    "dietaryFlags": ["GF", "LF", "V"],
+    "ingredients": ["ingrediente 1", "ingrediente 2"],
+    "prepTime": 30,
+    "cellarWine": {
+      "wineId": "ID du vin de la cave",
+      "name": "Nom exact du vin de la cave",
+      "reasoning": "Pourquoi cet accord"
+    },
+    "marketWine": {
+      "name": "Nom du vin à acheter",
+      "details": "Type, région, producteur conseillé",
+      "reasoning": "Pourquoi cet accord",
+      "priceRange": { "min": 15, "max": 20, "currency": "EUR" }
+    }
+  },
+  "wineStrategy": "Stratégie d'accords mise à jour pour tout le dîner"
+}
+
+Réponds UNIQUEMENT avec le JSON, sans autre texte.`,
+};
+
+// ============================================================
+// SHOPPING LIST
+// ============================================================
+
+export const INGREDIENTS_PROMPTS: Record<Language, string> = {
+  it: `Sei uno chef italiano. Per ogni portata del menu seguente elenca gli ingredienti da comprare.
+
+MENU:
+{menu}
+
+ISTRUZIONI:
+1. Elenca TUTTI gli ingredienti necessari per preparare ogni piatto, inclusi condimenti e guarnizioni
+2. "quantity" + "unit": dose per UNA persona ("perPerson": true) oppure per l'intero piatto se non dipende dal numero di persone ("perPerson": false, es. un mazzetto di erbe, un barattolo)
+3. Unità ammesse: "g", "kg", "ml", "l", "pz", "qb" (quanto basta: sale, pepe, olio per cuocere - senza quantità)
+4. Usa nomi semplici e uguali tra portate diverse per lo stesso ingrediente (es. sempre "burro", non "burro fresco" e "burro di panna")
+5. "section" è il reparto del supermercato: {sections}
+6. Non includere i vini da abbinamento
+7. "notes" solo se serve una qualità specifica (es. "DOP", "fresco", "di grano duro")
+
+FORMATO OUTPUT (JSON):
+{
+  "courses": [
+    {
+      "courseIndex": 0,
+      "ingredients": [
+        { "name": "spaghetti", "quantity": 100, "unit": "g", "perPerson": true, "section": "pantry" },
+        { "name": "sale", "unit": "qb", "perPerson": false, "section": "pantry" }
+      ]
+    }
+  ]
+}
+
+Rispondi SOLO con il JSON, senza altro testo.`,
+  en: `You are an Italian chef. For each course of the following menu, list the ingredients to buy.
+
+MENU:
+{menu}
+
+INSTRUCTIONS:
+1. List ALL the ingredients needed to prepare each dish, including seasonings and garnishes
+2. "quantity" + "unit": amount for ONE person ("perPerson": true), or for the whole dish when it does not depend on the number of people ("perPerson": false, e.g. a bunch of herbs, a jar)
+3. Allowed units: "g", "kg", "ml", "l", "pz" (pieces), "qb" (to taste: salt, pepper, cooking oil - no quantity)
+4. Write the ingredient names in English, simple and identical across courses for the same ingredient (e.g. always "butter", not "fresh butter" and "cream butter")
+5. "section" is the supermarket aisle: {sections}
+6. Do not include the paired wines
+7. "notes" only when a specific quality is needed (e.g. "PDO", "fresh", "durum wheat")
+
+OUTPUT FORMAT (JSON):
+{
+  "courses": [
+    {
+      "courseIndex": 0,
+      "ingredients": [
+        { "name": "spaghetti", "quantity": 100, "unit": "g", "perPerson": true, "section": "pantry" },
+        { "name": "salt", "unit": "qb", "perPerson": false, "section": "pantry" }
+      ]
+    }
+  ]
+}
+
+Reply ONLY with the JSON, without any other text.`,
+  de: `Du bist ein italienischer Koch. Liste für jeden Gang des folgenden Menüs die einzukaufenden Zutaten auf.
+
+MENÜ:
+{menu}
+
+ANWEISUNGEN:
+1. Liste ALLE Zutaten auf, die für die Zubereitung jedes Gerichts nötig sind, einschließlich Würzmitteln und Garnituren
+2. "quantity" + "unit": Menge für EINE Person ("perPerson": true) oder für das ganze Gericht, wenn sie nicht von der Personenzahl abhängt ("perPerson": false, z. B. ein Bund Kräuter, ein Glas)
+3. Erlaubte Einheiten: "g", "kg", "ml", "l", "pz" (Stück), "qb" (nach Bedarf: Salz, Pfeffer, Öl zum Kochen - ohne Menge)
+4. Schreibe die Zutaten auf Deutsch, mit einfachen Namen, die für dieselbe Zutat in allen Gängen gleich sind (z. B. immer "Butter", nicht "frische Butter" und "Sahnebutter")
+5. "section" ist die Abteilung im Supermarkt: {sections}
+6. Nimm die Begleitweine nicht auf
+7. "notes" nur, wenn eine bestimmte Qualität nötig ist (z. B. "g.U.", "frisch", "aus Hartweizen")
+
+AUSGABEFORMAT (JSON):
+{
+  "courses": [
+    {
+      "courseIndex": 0,
+      "ingredients": [
+        { "name": "Spaghetti", "quantity": 100, "unit": "g", "perPerson": true, "section": "pantry" },
+        { "name": "Salz", "unit": "qb", "perPerson": false, "section": "pantry" }
+      ]
+    }
+  ]
+}
+
+Antworte NUR mit dem JSON, ohne weiteren Text.`,
+  fr: `Tu es un chef italien. Pour chaque plat du menu suivant, liste les ingrédients à acheter.
+
+MENU :
+{menu}
+
+INSTRUCTIONS :
+1. Liste TOUS les ingrédients nécessaires pour préparer chaque plat, assaisonnements et garnitures compris
+2. "quantity" + "unit" : dose pour UNE personne ("perPerson": true) ou pour le plat entier si elle ne dépend pas du nombre de personnes ("perPerson": false, ex. un bouquet d'herbes, un bocal)
+3. Unités admises : "g", "kg", "ml", "l", "pz" (pièces), "qb" (quantité suffisante : sel, poivre, huile de cuisson - sans quantité)
+4. Écris les ingrédients en français, avec des noms simples et identiques d'un plat à l'autre pour le même ingrédient (ex. toujours "beurre", pas "beurre frais" et "beurre de crème")
+5. "section" est le rayon du supermarché : {sections}
+6. N'inclus pas les vins d'accompagnement
+7. "notes" seulement si une qualité précise est nécessaire (ex. "AOP", "frais", "de blé dur")
+
+FORMAT DE SORTIE (JSON) :
+{
+  "courses": [
+    {
+      "courseIndex": 0,
+      "ingredients": [
+        { "name": "spaghetti", "quantity": 100, "unit": "g", "perPerson": true, "section": "pantry" },
+        { "name": "sel", "unit": "qb", "perPerson": false, "section": "pantry" }
+      ]
+    }
+  ]
+}
+
+Réponds UNIQUEMENT avec le JSON, sans autre texte.`,
+};
@@ -0,0 +1,54 @@
+/**
+ * Rate Limiting
+ *
+ * Fixed-window request counters in the rateLimits collection, for the
+ * endpoints that take unauthenticated requests. Clients have no access to
+ * the collection (no rule allows it). Documents carry 'expiresAt' for a
+ * Firestore TTL policy.
+ */
+
+import { createHash } from 'crypto';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+
+const db = getFirestore();
+
+export interface RateLimit {
+  /** Requests allowed per window */
+  limit: number;
+  windowSeconds: number;
+}
+
+interface RateLimitCounter {
+  count: number;
+  windowStart: Timestamp;
+  expiresAt: Timestamp;
+}
+
+/** Hashes identifiers such as IP addresses before they are stored */
+export function rateLimitKey(scope: string, value: string): string {
+  return `${scope}_${createHash('sha256').update(value).digest('hex').slice(0, 32)}`;
+}
+
+/** Counts one request for `key`; false when the window's limit is used up */
+export async function consumeRateLimit(key: string, rateLimit: RateLimit): Promise<boolean> {
+  const ref = db.collection('rateLimits').doc(key);
+  const windowMs = rateLimit.windowSeconds * 1000;
+
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const now = Date.now();
+    const counter = doc.data() as RateLimitCounter | undefined;
+    const inWindow = counter && now - counter.windowStart.toMillis() < windowMs;
+
+    if (inWindow && counter.count >= rateLimit.limit) return false;
+
+    const windowStart = inWindow ? counter.windowStart : Timestamp.fromMillis(now);
+    const next: RateLimitCounter = {
+      count: inWindow ? counter.count + 1 : 1,
+      windowStart,
+      expiresAt: Timestamp.fromMillis(windowStart.toMillis() + windowMs),
+    };
+    tx.set(ref, next);
+    return true;
+  });
+}
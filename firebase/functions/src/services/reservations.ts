@@ -0,0 +1,261 @@
+/**
+ * Bottle Reservations
+ *
+ * Selecting a cellar wine proposal for a dinner sets bottles aside:
+ * status 'available' -> 'reserved' (Bottle.reservedFor = dinnerId) with a
+ * 'reserve' Movement. Releasing does the opposite with a 'release'
+ * Movement. The bottles stay in their location, so location counts are
+ * not touched.
+ *
+ * When the dinner is completed its bottles are consumed: status
+ * 'consumed' with an 'out' Movement, and they leave their location.
+ *
+ * WineProposal.reservedBottles keeps track of which bottles a proposal holds.
+ */
+
+import {
+  getFirestore,
+  FieldValue,
+  QueryDocumentSnapshot,
+  DocumentSnapshot,
+  Timestamp,
+  Transaction
+} from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { canWriteCellar } from './inventory';
+import type { Bottle, Movement, ReservedBottle, UserRole, WineProposal } from '../types';
+
+const db = getFirestore();
+
+export interface ReservationContext {
+  dinnerId: string;
+  userId: string;
+  reason: string;
+}
+
+// ============================================================
+// RESERVE
+// ============================================================
+
+/**
+ * Finds up to `quantity` available bottles of a wine in the cellars the
+ * user can write to. Reads only, for use before the transaction's writes.
+ */
+export async function findAvailableBottles(
+  tx: Transaction,
+  userId: string,
+  wineId: string,
+  quantity: number
+): Promise<QueryDocumentSnapshot[]> {
+  const cellarsSnapshot = await tx.get(
+    db.collection('cellars').where(`members.${userId}`, '!=', null)
+  );
+
+  const bottles: QueryDocumentSnapshot[] = [];
+  for (const cellarDoc of cellarsSnapshot.docs) {
+    const role = cellarDoc.data().members?.[userId] as UserRole | undefined;
+    if (!canWriteCellar(role ?? null)) continue;
+
+    const bottlesSnapshot = await tx.get(
+      cellarDoc.ref.collection('bottles')
+        .where('wineId', '==', wineId)
+        .where('status', '==', 'available')
+        .limit(quantity - bottles.length)
+    );
+    bottles.push(...bottlesSnapshot.docs);
+
+    if (bottles.length >= quantity) break;
+  }
+
+  return bottles;
+}
+
+export function reserveBottlesInTransaction(
+  tx: Transaction,
+  bottles: DocumentSnapshot[],
+  context: ReservationContext
+): ReservedBottle[] {
+  const now = Timestamp.now();
+
+  return bottles.map(bottleDoc => {
+    const bottle = bottleDoc.data() as Bottle;
+
+    tx.update(bottleDoc.ref, {
+      status: 'reserved',
+      reservedFor: context.dinnerId,
+      updatedAt: now,
+    });
+
+    writeMovement(tx, bottle.cellarId, bottleDoc.id, 'reserve', bottle, context, now);
+
+    return { cellarId: bottle.cellarId, bottleId: bottleDoc.id };
+  });
+}
+
+// ============================================================
+// RELEASE
+// ============================================================
+
+/**
+ * Reads the given bottles and keeps those still reserved for the dinner
+ * (a bottle may have been consumed or released by hand in the meantime).
+ */
+export async function readReservedBottles(
+  tx: Transaction,
+  refs: ReservedBottle[],
+  dinnerId: string
+): Promise<DocumentSnapshot[]> {
+  const bottles: DocumentSnapshot[] = [];
+  for (const { cellarId, bottleId } of refs) {
+    const bottleDoc = await tx.get(
+      db.collection('cellars').doc(cellarId).collection('bottles').doc(bottleId)
+    );
+    const bottle = bottleDoc.data() as Bottle | undefined;
+    if (bottle?.status === 'reserved' && bottle.reservedFor === dinnerId) {
+      bottles.push(bottleDoc);
+    }
+  }
+  return bottles;
+}
+
+export function releaseBottlesInTransaction(
+  tx: Transaction,
+  bottles: DocumentSnapshot[],
+  context: ReservationContext
+): void {
+  const now = Timestamp.now();
+
+  for (const bottleDoc of bottles) {
+    const bottle = bottleDoc.data() as Bottle;
+
+    tx.update(bottleDoc.ref, {
+      status: 'available',
+      reservedFor: FieldValue.delete(),
+      updatedAt: now,
+    });
+
+    writeMovement(tx, bottle.cellarId, bottleDoc.id, 'release', bottle, context, now);
+  }
+}
+
+/**
+ * Releases every bottle held by the dinner's proposals (or by those of one
+ * course) and marks the proposals as deselected. Returns the number of
+ * bottles released.
+ */
+export async function releaseDinnerReservations(
+  hostId: string,
+  dinnerId: string,
+  reason: string,
+  options: { courseIndex?: number } = {}
+): Promise<number> {
+  const proposalsRef = db.collection('users').doc(hostId)
+    .collection('dinners').doc(dinnerId)
+    .collection('proposals');
+
+  let selectedQuery = proposalsRef.where('isSelected', '==', true);
+  if (options.courseIndex !== undefined) {
+    selectedQuery = selectedQuery.where('courseIndex', '==', options.courseIndex);
+  }
+
+  const released = await db.runTransaction(async (tx) => {
+    const proposalsSnapshot = await tx.get(selectedQuery);
+
+    const holding = proposalsSnapshot.docs.filter(doc =>
+      ((doc.data() as WineProposal).reservedBottles || []).length > 0
+    );
+
+    const bottlesByProposal: DocumentSnapshot[][] = [];
+    for (const proposalDoc of holding) {
+      const proposal = proposalDoc.data() as WineProposal;
+      bottlesByProposal.push(await readReservedBottles(tx, proposal.reservedBottles!, dinnerId));
+    }
+
+    const context: ReservationContext = { dinnerId, userId: hostId, reason };
+    holding.forEach((proposalDoc, i) => {
+      releaseBottlesInTransaction(tx, bottlesByProposal[i], context);
+      tx.update(proposalDoc.ref, {
+        isSelected: false,
+        reservedBottles: FieldValue.delete(),
+        selectedAt: FieldValue.delete(),
+      });
+    });
+
+    return bottlesByProposal.reduce((sum, bottles) => sum + bottles.length, 0);
+  });
+
+  if (released > 0) {
+    logger.info('Released dinner reservations', { dinnerId, released });
+  }
+  return released;
+}
+
+// ============================================================
+// CONSUME
+// ============================================================
+
+/** Only writes: `bottles` must have been read in the same transaction */
+export function consumeBottlesInTransaction(
+  tx: Transaction,
+  bottles: DocumentSnapshot[],
+  context: ReservationContext
+): ReservedBottle[] {
+  const now = Timestamp.now();
+  const leavingLocations = new Map<string, { cellarId: string; locationId: string; count: number }>();
+
+  const consumed = bottles.map(bottleDoc => {
+    const bottle = bottleDoc.data() as Bottle;
+
+    tx.update(bottleDoc.ref, {
+      status: 'consumed',
+      consumedAt: now,
+      reservedFor: FieldValue.delete(),
+      updatedAt: now,
+    });
+
+    writeMovement(tx, bottle.cellarId, bottleDoc.id, 'out', bottle, context, now);
+
+    if (bottle.locationId) {
+      const key = `${bottle.cellarId}/${bottle.locationId}`;
+      const location = leavingLocations.get(key) ?? { cellarId: bottle.cellarId, locationId: bottle.locationId, count: 0 };
+      location.count++;
+      leavingLocations.set(key, location);
+    }
+
+    return { cellarId: bottle.cellarId, bottleId: bottleDoc.id };
+  });
+
+  // One update per location
+  for (const { cellarId, locationId, count } of leavingLocations.values()) {
+    tx.update(db.collection('cellars').doc(cellarId).collection('locations').doc(locationId), {
+      currentCount: FieldValue.increment(-count),
+    });
+  }
+
+  return consumed;
+}
+
+// ============================================================
+// MOVEMENTS
+// ============================================================
+
+function writeMovement(
+  tx: Transaction,
+  cellarId: string,
+  bottleId: string,
+  type: 'reserve' | 'release' | 'out',
+  bottle: Bottle,
+  context: ReservationContext,
+  now: Timestamp
+): void {
+  const movementRef = db.collection('cellars').doc(cellarId).collection('movements').doc();
+  const movement: Omit<Movement, 'id'> = {
+    bottleId,
+    type,
+    reason: context.reason,
+    createdBy: context.userId,
+    createdAt: now,
+    ...(bottle.locationId && { fromLocationId: bottle.locationId }),
+  };
+  tx.set(movementRef, movement);
+}
@@ -0,0 +1,164 @@
+/**
+ * Wine Serving
+ *
+ * Rule-based serving guidance: temperature, glass, and how long before the
+ * first pour a wine should go in the fridge, come out of the cellar or be
+ * decanted. Cellar temperature is assumed to be around 14°C.
+ *
+ * Wines to buy have no Wine document: their type and body are guessed
+ * from the name and details the LLM gave.
+ */
+
+import { normalizeWineText } from './wineMatching';
+import type { WineServingGuide, WineType } from '../types';
+
+export interface ServingWine {
+  name: string;
+  type?: WineType;
+  vintage?: number;
+  grapes?: string[];
+  appellation?: string;
+  /** Free text, e.g. WinePairing.details */
+  details?: string;
+}
+
+// ============================================================
+// CLASSIFICATION
+// ============================================================
+
+const TYPE_KEYWORDS: { type: WineType; keywords: string[] }[] = [
+  { type: 'fortified', keywords: ['porto', 'port', 'marsala', 'sherry', 'jerez', 'madeira', 'banyuls', 'liquoroso'] },
+  { type: 'dessert', keywords: ['passito', 'vin santo', 'sauternes', 'recioto', 'tokaji', 'eiswein', 'icewine', 'vendemmia tardiva', 'muffato', 'moscato d asti', 'dolce'] },
+  {
+    type: 'sparkling',
+    keywords: ['spumante', 'champagne', 'franciacorta', 'prosecco', 'trentodoc', 'trento doc', 'metodo classico', 'cava', 'cremant', 'sekt', 'bollicine', 'brut', 'pas dose', 'extra dry', 'oltrepo pavese metodo classico'],
+  },
+  { type: 'rosé', keywords: ['rosato', 'rose', 'cerasuolo d abruzzo', 'chiaretto', 'rosado'] },
+  {
+    type: 'white',
+    keywords: [
+      'bianco', 'blanc', 'white', 'weiss', 'chardonnay', 'sauvignon', 'riesling', 'vermentino', 'verdicchio', 'soave',
+      'gavi', 'cortese', 'arneis', 'fiano', 'greco', 'falanghina', 'pinot grigio', 'pinot bianco', 'gewurztraminer',
+      'traminer', 'friulano', 'ribolla', 'trebbiano', 'grillo', 'catarratto', 'carricante', 'timorasso', 'pecorino',
+      'malvasia', 'kerner', 'muller thurgau', 'chablis', 'sancerre',
+    ],
+  },
+];
+
+// Reds that want the top of the range and air
+const FULL_BODIED = [
+  'nebbiolo', 'barolo', 'barbaresco', 'amarone', 'brunello', 'aglianico', 'taurasi', 'sagrantino', 'cabernet',
+  'syrah', 'shiraz', 'primitivo', 'montepulciano', 'nero d avola', 'cannonau', 'bolgheri', 'supertuscan',
+  'super tuscan', 'sforzato', 'sfursat', 'malbec', 'tannat', 'bordeaux', 'rioja', 'ribera', 'chateauneuf',
+];
+
+// Reds served cooler
+const LIGHT_BODIED = [
+  'pinot nero', 'pinot noir', 'schiava', 'vernatsch', 'bardolino', 'grignolino', 'dolcetto', 'frappato', 'gamay',
+  'beaujolais', 'lambrusco', 'valpolicella', 'rossese', 'freisa', 'ruche', 'cerasuolo di vittoria', 'lagrein',
+];
+
+function wineText(wine: ServingWine): string {
+  return normalizeWineText([wine.name, wine.appellation, wine.details, ...(wine.grapes || [])].filter(Boolean).join(' '));
+}
+
+function mentions(text: string, keywords: string[]): boolean {
+  return keywords.some(k => new RegExp(`(?<![a-z0-9])${normalizeWineText(k)}(?![a-z0-9])`).test(text));
+}
+
+export function inferWineType(wine: ServingWine): WineType {
+  if (wine.type) return wine.type;
+  const text = wineText(wine);
+  return TYPE_KEYWORDS.find(t => mentions(text, t.keywords))?.type ?? 'red';
+}
+
+// ============================================================
+// GUIDANCE
+// ============================================================
+
+export function servingGuide(wine: ServingWine, now: Date = new Date()): WineServingGuide {
+  const type = inferWineType(wine);
+  const text = wineText(wine);
+  const age = wine.vintage ? now.getFullYear() - wine.vintage : undefined;
+
+  switch (type) {
+    case 'sparkling':
+      return {
+        temperatureMin: 6,
+        temperatureMax: 8,
+        glass: 'Flûte o tulipano',
+        chillMinutes: 180,
+        notes: 'In alternativa 30 minuti in secchiello con acqua e ghiaccio',
+      };
+
+    case 'white': {
+      const structured = (age !== undefined && age >= 4) || mentions(text, ['riserva', 'barrique', 'legno', 'chardonnay', 'fiano', 'timorasso']);
+      return structured
+        ? { temperatureMin: 10, temperatureMax: 12, glass: 'Calice ampio da bianco strutturato', chillMinutes: 120 }
+        : { temperatureMin: 8, temperatureMax: 10, glass: 'Calice da bianco', chillMinutes: 150 };
+    }
+
+    case 'rosé':
+      return { temperatureMin: 8, temperatureMax: 10, glass: 'Calice da bianco', chillMinutes: 150 };
+
+    case 'dessert':
+      return {
+        temperatureMin: 10,
+        temperatureMax: 12,
+        glass: 'Calice piccolo da vino dolce',
+        chillMinutes: 90,
+      };
+
+    case 'fortified':
+      return {
+        temperatureMin: 14,
+        temperatureMax: 16,
+        glass: 'Calice da Porto',
+        restMinutes: 30,
+      };
+
+    case 'red':
+    default: {
+      if (mentions(text, LIGHT_BODIED)) {
+        return {
+          temperatureMin: 14,
+          temperatureMax: 16,
+          glass: 'Calice da rosso medio',
+          restMinutes: 30,
+        };
+      }
+
+      const full = mentions(text, FULL_BODIED);
+      if (age !== undefined && age >= 15) {
+        // Old bottles: decant off the sediment, not for air
+        return {
+          temperatureMin: 16,
+          temperatureMax: 18,
+          glass: 'Ballon',
+          restMinutes: 60,
+          decantMinutes: 20,
+          notes: 'Tenere la bottiglia in piedi da qualche ora e decantare con cautela per separare il deposito',
+        };
+      }
+
+      return full
+        ? {
+          temperatureMin: 16,
+          temperatureMax: 18,
+          glass: 'Ballon',
+          restMinutes: 60,
+          decantMinutes: age !== undefined && age <= 5 ? 90 : 60,
+        }
+        : {
+          temperatureMin: 16,
+          temperatureMax: 17,
+          glass: 'Calice da rosso',
+          restMinutes: 60,
+        };
+    }
+  }
+}
+
+export function formatTemperature(guide: WineServingGuide): string {
+  return `${guide.temperatureMin}-${guide.temperatureMax}°C`;
+}
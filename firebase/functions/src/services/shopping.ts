@@ -0,0 +1,282 @@
+/**
+ * Shopping List
+ *
+ * Turns per-course ingredients (from the LLM, per person or per dish) and
+ * the wines to buy into a ShoppingList: quantities scaled to the party
+ * size, converted to base units, merged across courses and grouped by
+ * store section. Also renders the list as plain text or Markdown in the
+ * user's language.
+ */
+
+import { createHash } from 'crypto';
+import { formatNumber, t } from './i18n';
+import { normalizeWineText } from './wineMatching';
+import type { WineServing } from './winePlanning';
+import type {
+  Language,
+  ShoppingExportFormat,
+  ShoppingItem,
+  ShoppingList,
+  ShoppingSection,
+  ShoppingUnit
+} from '../types';
+
+/** One ingredient of one course, as returned by the LLM */
+export interface CourseIngredient {
+  courseIndex: number;
+  name: string;
+  quantity?: number;
+  unit?: string;
+  section?: string;
+  /** true: quantity is per person and gets scaled; false: whole dish */
+  perPerson?: boolean;
+  notes?: string;
+}
+
+/** Store sections in list order */
+export const SHOPPING_SECTIONS: ShoppingSection[] = [
+  'produce', 'meat', 'fish', 'dairy', 'bakery', 'pantry', 'spices', 'frozen', 'beverages', 'wine', 'other',
+];
+
+export const SHOPPING_SECTION_LABELS: Record<Language, Record<ShoppingSection, string>> = {
+  it: {
+    produce: 'Frutta e verdura',
+    meat: 'Macelleria e salumi',
+    fish: 'Pescheria',
+    dairy: 'Latticini, uova e formaggi',
+    bakery: 'Pane e forno',
+    pantry: 'Dispensa',
+    spices: 'Spezie ed erbe aromatiche',
+    frozen: 'Surgelati',
+    beverages: 'Bevande',
+    wine: 'Vini',
+    other: 'Altro',
+  },
+  en: {
+    produce: 'Fruit and vegetables',
+    meat: 'Butcher and cured meats',
+    fish: 'Fishmonger',
+    dairy: 'Dairy, eggs and cheese',
+    bakery: 'Bread and bakery',
+    pantry: 'Pantry',
+    spices: 'Spices and herbs',
+    frozen: 'Frozen',
+    beverages: 'Drinks',
+    wine: 'Wines',
+    other: 'Other',
+  },
+  de: {
+    produce: 'Obst und Gemüse',
+    meat: 'Metzgerei und Wurstwaren',
+    fish: 'Fisch',
+    dairy: 'Milchprodukte, Eier und Käse',
+    bakery: 'Brot und Backwaren',
+    pantry: 'Vorratsschrank',
+    spices: 'Gewürze und Kräuter',
+    frozen: 'Tiefkühlware',
+    beverages: 'Getränke',
+    wine: 'Weine',
+    other: 'Sonstiges',
+  },
+  fr: {
+    produce: 'Fruits et légumes',
+    meat: 'Boucherie et charcuterie',
+    fish: 'Poissonnerie',
+    dairy: 'Produits laitiers, œufs et fromages',
+    bakery: 'Pain et boulangerie',
+    pantry: 'Épicerie',
+    spices: 'Épices et herbes aromatiques',
+    frozen: 'Surgelés',
+    beverages: 'Boissons',
+    wine: 'Vins',
+    other: 'Divers',
+  },
+};
+
+const SECTION_IDS = new Set(SHOPPING_SECTIONS);
+
+// ============================================================
+// UNITS
+// ============================================================
+
+/** Unit spelling -> base unit and factor */
+const UNIT_CONVERSIONS: Record<string, { unit: ShoppingUnit; factor: number }> = {
+  g: { unit: 'g', factor: 1 },
+  gr: { unit: 'g', factor: 1 },
+  grammi: { unit: 'g', factor: 1 },
+  hg: { unit: 'g', factor: 100 },
+  etti: { unit: 'g', factor: 100 },
+  kg: { unit: 'g', factor: 1000 },
+  ml: { unit: 'ml', factor: 1 },
+  cl: { unit: 'ml', factor: 10 },
+  dl: { unit: 'ml', factor: 100 },
+  l: { unit: 'ml', factor: 1000 },
+  lt: { unit: 'ml', factor: 1000 },
+  litri: { unit: 'ml', factor: 1000 },
+  pz: { unit: 'pz', factor: 1 },
+  pezzi: { unit: 'pz', factor: 1 },
+  n: { unit: 'pz', factor: 1 },
+  qb: { unit: 'qb', factor: 1 },
+  'q b': { unit: 'qb', factor: 1 },
+};
+
+function toBaseUnit(unit: string | undefined, quantity: number | undefined): { unit: ShoppingUnit; quantity?: number } {
+  const conversion = UNIT_CONVERSIONS[normalizeWineText(unit || 'pz')] ?? UNIT_CONVERSIONS.pz;
+  // No usable quantity: "sale q.b."
+  if (conversion.unit === 'qb' || !quantity || quantity <= 0) {
+    return { unit: 'qb' };
+  }
+  return { unit: conversion.unit, quantity: quantity * conversion.factor };
+}
+
+/** Rounds to amounts you can actually buy */
+function roundQuantity(quantity: number, unit: ShoppingUnit): number {
+  if (unit === 'pz' || unit === 'bottle') return Math.ceil(quantity - 0.05);
+  const step = quantity >= 1000 ? 50 : quantity >= 100 ? 10 : 5;
+  return Math.max(step, Math.round(quantity / step) * step);
+}
+
+export function formatQuantity(item: Pick<ShoppingItem, 'quantity' | 'unit'>, language: Language): string {
+  const { quantity, unit } = item;
+  if (unit === 'qb' || quantity === undefined) return t(language, 'quantityToTaste');
+
+  const format = (value: number) => formatNumber(value, language);
+  switch (unit) {
+    case 'g':
+      return quantity >= 1000 ? `${format(quantity / 1000)} kg` : `${format(quantity)} g`;
+    case 'ml':
+      return quantity >= 1000 ? `${format(quantity / 1000)} l` : `${format(quantity)} ml`;
+    case 'bottle':
+      return quantity === 1 ? t(language, 'bottleOne') : t(language, 'bottleMany', { count: quantity });
+    default:
+      return t(language, 'quantityPieces', { count: format(quantity) });
+  }
+}
+
+// ============================================================
+// BUILDING
+// ============================================================
+
+function itemId(name: string, unit: ShoppingUnit): string {
+  return createHash('sha256').update(`${normalizeWineText(name)}|${unit}`).digest('hex').slice(0, 12);
+}
+
+/**
+ * Scales, converts and merges the ingredients of all courses. Items with
+ * the same name and unit become one; 'q.b.' items never carry a quantity.
+ */
+export function buildIngredientItems(ingredients: CourseIngredient[], partySize: number): ShoppingItem[] {
+  const items = new Map<string, ShoppingItem>();
+
+  for (const ingredient of ingredients) {
+    const name = ingredient.name?.trim();
+    if (!name) continue;
+
+    const scaled = ingredient.perPerson && ingredient.quantity
+      ? ingredient.quantity * partySize
+      : ingredient.quantity;
+    const { unit, quantity } = toBaseUnit(ingredient.unit, scaled);
+
+    const id = itemId(name, unit);
+    const section = SECTION_IDS.has(ingredient.section as ShoppingSection)
+      ? ingredient.section as ShoppingSection
+      : 'other';
+
+    const existing = items.get(id);
+    if (!existing) {
+      items.set(id, {
+        id,
+        name,
+        ...(quantity !== undefined && { quantity }),
+        unit,
+        section,
+        courseIndexes: [ingredient.courseIndex],
+        checked: false,
+        ...(ingredient.notes && { notes: ingredient.notes }),
+      });
+      continue;
+    }
+
+    if (quantity !== undefined) {
+      existing.quantity = (existing.quantity ?? 0) + quantity;
+    }
+    if (!existing.courseIndexes.includes(ingredient.courseIndex)) {
+      existing.courseIndexes.push(ingredient.courseIndex);
+    }
+    if (ingredient.notes && !existing.notes?.split('; ').includes(ingredient.notes)) {
+      existing.notes = existing.notes ? `${existing.notes}; ${ingredient.notes}` : ingredient.notes;
+    }
+  }
+
+  return [...items.values()].map(item => item.quantity === undefined
+    ? item
+    : { ...item, quantity: roundQuantity(item.quantity, item.unit) }
+  );
+}
+
+export function buildWineItems(servings: WineServing[]): ShoppingItem[] {
+  return servings.map(serving => ({
+    id: itemId(serving.name, 'bottle'),
+    name: serving.name,
+    quantity: serving.bottles,
+    unit: 'bottle' as const,
+    section: 'wine' as const,
+    courseIndexes: serving.courseIndexes,
+    checked: false,
+    ...(serving.details && { notes: serving.details }),
+  }));
+}
+
+/** Keeps the ticks of a previous list on items that are still there */
+export function carryOverChecked(items: ShoppingItem[], previous?: ShoppingList): ShoppingItem[] {
+  const checked = new Set((previous?.items || []).filter(i => i.checked).map(i => i.id));
+  return items.map(item => checked.has(item.id) ? { ...item, checked: true } : item);
+}
+
+export function sortShoppingItems(items: ShoppingItem[]): ShoppingItem[] {
+  const order = new Map(SHOPPING_SECTIONS.map((section, i) => [section, i]));
+  return [...items].sort((a, b) =>
+    (order.get(a.section)! - order.get(b.section)!) || a.name.localeCompare(b.name, 'it')
+  );
+}
+
+// ============================================================
+// EXPORT
+// ============================================================
+
+export function renderShoppingList(
+  list: ShoppingList,
+  format: ShoppingExportFormat,
+  options: { title: string; language: Language; includeChecked?: boolean }
+): string {
+  const { language } = options;
+  const items = list.items.filter(i => options.includeChecked || !i.checked);
+  const lines: string[] = [];
+
+  lines.push(format === 'markdown' ? `# ${options.title}` : options.title.toUpperCase());
+  lines.push(t(language, 'shoppingPartySize', { count: list.partySize }));
+
+  for (const section of SHOPPING_SECTIONS) {
+    const sectionItems = items.filter(i => i.section === section);
+    if (sectionItems.length === 0) continue;
+
+    const label = SHOPPING_SECTION_LABELS[language][section];
+    lines.push('');
+    lines.push(format === 'markdown' ? `## ${label}` : `${label}:`);
+
+    for (const item of sectionItems) {
+      const notes = item.notes ? ` (${item.notes})` : '';
+      const text = `${item.name} - ${formatQuantity(item, language)}${notes}`;
+      lines.push(format === 'markdown'
+        ? `- [${item.checked ? 'x' : ' '}] ${text}`
+        : `${item.checked ? '[x]' : '[ ]'} ${text}`);
+    }
+  }
+
+  if (items.length === 0) {
+    lines.push('');
+    lines.push(t(language, 'shoppingNothingToBuy'));
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,284 @@
+/**
+ * Dinner Timeline
+ *
+ * Deterministic service plan working back from the dinner time:
+ *
+ *   - courses are served in menu order; consecutive courses of the same
+ *     type (and sides) go out together, each type takes COURSE_MINUTES
+ *   - each dish starts cooking prepTime minutes before it is served
+ *   - each wine is taken out of the cellar, chilled or decanted in time for
+ *     the first course it is poured with (see services/serving)
+ *
+ * Step texts are written in the user's language; the glass and notes of
+ * the serving guide are quoted as services/serving writes them.
+ */
+
+import { Timestamp } from 'firebase-admin/firestore';
+import { t } from './i18n';
+import { formatTemperature } from './serving';
+import { normalizeWineText } from './wineMatching';
+import type {
+  CourseType,
+  Language,
+  MenuProposal,
+  TimelineStep,
+  TimelineStepKind,
+  WineServingGuide
+} from '../types';
+
+export const DEFAULT_TIME_ZONE = 'Europe/Rome';
+
+// Used when the dinner has no explicit 'time'
+const DEFAULT_DINNER_TIME = '20:00';
+
+const COURSE_MINUTES: Record<CourseType, number> = {
+  aperitif: 30,
+  starter: 25,
+  first: 30,
+  main: 35,
+  side: 0,
+  dessert: 25,
+  pairing: 0,
+};
+
+const ALARM_MINUTES: Record<TimelineStepKind, number> = {
+  cook: 10,
+  serve: 5,
+  fetch_wine: 5,
+  chill_wine: 5,
+  decant_wine: 5,
+  open_wine: 0,
+};
+
+// Order of steps due at the same minute
+const KIND_ORDER: TimelineStepKind[] = ['fetch_wine', 'chill_wine', 'decant_wine', 'open_wine', 'cook', 'serve'];
+
+// Reds without decanting are opened shortly before pouring
+const OPEN_BEFORE_MINUTES = 20;
+
+export interface TimelineWine {
+  wineId?: string;
+  name: string;
+  courseIndexes: number[];
+  bottles: number;
+  guide: WineServingGuide;
+  /** Where the bottles are, e.g. "Cantina - Scaffale A" */
+  location?: string;
+}
+
+// ============================================================
+// DINNER TIME
+// ============================================================
+
+/** Minutes to add to UTC to get local time in `timeZone` at `date` */
+function timeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - date.getTime()) / 60000);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The dinner start as an instant. `time` ("20:30") is local to
+ * `timeZone` on the calendar day of `date`; without it, `date` is used
+ * as is unless it falls exactly on local midnight (date-only pickers).
+ */
+export function resolveDinnerTime(date: Date, time: string | undefined, timeZone: string): Date {
+  const offset = timeZoneOffset(date, timeZone);
+  const local = new Date(date.getTime() + offset * 60000);
+
+  const match = /^([01]?\d|2[0-3])[:.]([0-5]\d)$/.exec((time || '').trim());
+  const isMidnight = local.getUTCHours() === 0 && local.getUTCMinutes() === 0;
+  if (!match && !isMidnight) return date;
+
+  const [hours, minutes] = (match ? [match[1], match[2]] : DEFAULT_DINNER_TIME.split(':')).map(Number);
+  const guess = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate(), hours, minutes);
+
+  // Offset at the target time (DST may differ from the stored instant)
+  return new Date(guess - timeZoneOffset(new Date(guess), timeZone) * 60000);
+}
+
+// ============================================================
+// SCHEDULE
+// ============================================================
+
+interface ServiceGroup {
+  type: CourseType;
+  courseIndexes: number[];
+  serveAt: Date;
+}
+
+function scheduleCourses(menu: MenuProposal, dinnerTime: Date): ServiceGroup[] {
+  const groups: ServiceGroup[] = [];
+  let offset = 0;
+
+  menu.courses.forEach((course, courseIndex) => {
+    const last = groups[groups.length - 1];
+    const joinsLast = last && (course.course === last.type || course.course === 'side' || course.course === 'pairing');
+
+    if (joinsLast) {
+      last.courseIndexes.push(courseIndex);
+      return;
+    }
+
+    groups.push({
+      type: course.course,
+      courseIndexes: [courseIndex],
+      serveAt: new Date(dinnerTime.getTime() + offset * 60000),
+    });
+    offset += COURSE_MINUTES[course.course] ?? 25;
+  });
+
+  return groups;
+}
+
+function minutesBefore(date: Date, minutes: number): Date {
+  return new Date(date.getTime() - minutes * 60000);
+}
+
+function wineKey(wine: TimelineWine): string {
+  return wine.wineId || normalizeWineText(wine.name).replace(/ /g, '-');
+}
+
+function bottlesLabel(bottles: number, language: Language): string {
+  return bottles === 1 ? t(language, 'bottleOne') : t(language, 'bottleMany', { count: bottles });
+}
+
+/** Step titles and descriptions are written in `language` */
+export function buildTimelineSteps(
+  menu: MenuProposal,
+  dinnerTime: Date,
+  wines: TimelineWine[],
+  language: Language
+): TimelineStep[] {
+  const groups = scheduleCourses(menu, dinnerTime);
+  const serveAtOf = new Map(groups.flatMap(g => g.courseIndexes.map(i => [i, g.serveAt] as const)));
+  const steps: (Omit<TimelineStep, 'at' | 'alarmMinutesBefore'> & { at: Date })[] = [];
+
+  // Cooking
+  menu.courses.forEach((course, courseIndex) => {
+    if (!course.prepTime || course.prepTime <= 0) return;
+    steps.push({
+      id: `cook-${courseIndex}`,
+      at: minutesBefore(serveAtOf.get(courseIndex)!, course.prepTime),
+      kind: 'cook',
+      title: t(language, 'timelineCook', { name: course.name }),
+      description: t(language, 'timelineCookDetails', { description: course.description, minutes: course.prepTime }),
+      courseIndexes: [courseIndex],
+    });
+  });
+
+  // Service, with the wines poured alongside
+  groups.forEach((group, groupIndex) => {
+    const names = group.courseIndexes.map(i => menu.courses[i].name);
+    const pours = wines
+      .filter(w => w.courseIndexes.some(i => group.courseIndexes.includes(i)))
+      .map(w => t(language, 'timelinePour', {
+        name: w.name,
+        temperature: formatTemperature(w.guide),
+        glass: w.guide.glass.toLowerCase(),
+      }));
+
+    steps.push({
+      id: `serve-${groupIndex}`,
+      at: group.serveAt,
+      kind: 'serve',
+      title: t(language, 'timelineServe', { names: names.join(', ') }),
+      ...(pours.length > 0 && { description: pours.join('\n') }),
+      courseIndexes: group.courseIndexes,
+    });
+  });
+
+  // Wines
+  for (const wine of wines) {
+    const firstPour = new Date(Math.min(...wine.courseIndexes.map(i => serveAtOf.get(i)!.getTime())));
+    const key = wineKey(wine);
+    const { guide } = wine;
+    const fromCellar = {
+      bottles: bottlesLabel(wine.bottles, language),
+      location: wine.location ? ` (${wine.location})` : '',
+      temperature: formatTemperature(guide),
+    };
+    const common = {
+      courseIndexes: wine.courseIndexes,
+      ...(wine.wineId && { wineId: wine.wineId }),
+      wineName: wine.name,
+      serving: guide,
+    };
+
+    if (guide.chillMinutes) {
+      steps.push({
+        id: `chill-${key}`,
+        at: minutesBefore(firstPour, guide.chillMinutes),
+        kind: 'chill_wine',
+        title: t(language, 'timelineChill', { name: wine.name }),
+        description: t(language, 'timelineChillDetails', fromCellar) + (guide.notes ? `\n${guide.notes}` : ''),
+        ...common,
+      });
+      continue;
+    }
+
+    const restMinutes = Math.max(guide.restMinutes ?? 0, guide.decantMinutes ?? 0);
+    if (restMinutes > 0) {
+      steps.push({
+        id: `fetch-${key}`,
+        at: minutesBefore(firstPour, restMinutes),
+        kind: 'fetch_wine',
+        title: t(language, 'timelineFetch', { name: wine.name }),
+        description: t(language, 'timelineFetchDetails', fromCellar),
+        ...common,
+      });
+    }
+
+    if (guide.decantMinutes) {
+      steps.push({
+        id: `decant-${key}`,
+        at: minutesBefore(firstPour, guide.decantMinutes),
+        kind: 'decant_wine',
+        title: t(language, 'timelineDecant', { name: wine.name }),
+        description: guide.notes || t(language, 'timelineDecantDetails', { minutes: guide.decantMinutes }),
+        ...common,
+      });
+    } else if (guide.restMinutes) {
+      steps.push({
+        id: `open-${key}`,
+        at: minutesBefore(firstPour, OPEN_BEFORE_MINUTES),
+        kind: 'open_wine',
+        title: t(language, 'timelineOpen', { name: wine.name }),
+        description: t(language, 'timelineOpenDetails', { glass: guide.glass.toLowerCase() }),
+        ...common,
+      });
+    }
+  }
+
+  return steps
+    .sort((a, b) =>
+      a.at.getTime() - b.at.getTime() ||
+      KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+      a.id.localeCompare(b.id)
+    )
+    .map(step => ({
+      ...step,
+      at: Timestamp.fromDate(step.at),
+      alarmMinutesBefore: ALARM_MINUTES[step.kind],
+    }));
+}
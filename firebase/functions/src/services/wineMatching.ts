@@ -0,0 +1,380 @@
+/**
+ * Wine Matching
+ *
+ * Shared fuzzy matching engine used by extraction, proposals and chat.
+ *
+ * - Normalization: accent folding ("Rosé" = "Rose"), punctuation, apostrophes
+ *   ("Nero d'Avola" = "Nero d Avola"), stopwords and classification tokens
+ *   (DOC, DOCG, AOC, ...). Producer names also drop estate prefixes
+ *   ("Castello di Ama" = "Ama", "Tenuta San Guido" = "San Guido").
+ * - Similarity: best of soft token overlap (tolerates OCR typos such as
+ *   "Brunelo") and character trigram similarity.
+ * - Scoring: weighted name / producer / appellation / region / type / vintage
+ *   components, computed only where both sides have data. Every match carries
+ *   its breakdown and human-readable reasons.
+ */
+
+import type { ExtractionResult, Wine } from '../types';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface WineMatchQuery {
+  name?: string;
+  producer?: string;
+  vintage?: number;
+  type?: string;
+  region?: string;
+  appellation?: string;
+}
+
+export interface MatchBreakdown {
+  name?: number;
+  producer?: number;
+  appellation?: number;
+  region?: number;
+  type?: number;
+  vintage?: number;
+}
+
+export interface WineMatch {
+  wine: Wine;
+  /** 0-100 */
+  score: number;
+  breakdown: MatchBreakdown;
+  reasons: string[];
+}
+
+export interface RankOptions {
+  minScore?: number;
+  limit?: number;
+}
+
+// ============================================================
+// NORMALIZATION
+// ============================================================
+
+const STOPWORDS = new Set([
+  'di', 'del', 'della', 'dello', 'dei', 'delle', 'degli', 'da', 'dal', 'e', 'il', 'lo', 'la', 'le', 'i', 'gli', 'l', 'd',
+  'de', 'du', 'des', 'et', 'en', 'sur', 'aux',
+  'the', 'of', 'and',
+  'von', 'vom', 'der', 'und',
+  'y', 'el', 'los', 'las',
+]);
+
+const CLASSIFICATION_TOKENS = new Set([
+  'doc', 'docg', 'igt', 'igp', 'dop', 'aoc', 'aop', 'do', 'doca', 'dok', 'vdp', 'ava',
+  'denominazione', 'origine', 'controllata', 'garantita', 'indicazione', 'geografica', 'tipica',
+  'appellation', 'controlee', 'protegee', 'vino', 'vin', 'wine', 'wein',
+]);
+
+const PRODUCER_PREFIXES = new Set([
+  'castello', 'tenuta', 'tenute', 'cantina', 'cantine', 'azienda', 'aziende', 'agricola', 'vitivinicola',
+  'az', 'agr', 'societa', 'soc', 'fattoria', 'podere', 'poderi', 'marchesi', 'marchese', 'conti', 'conte',
+  'vigneti', 'vignaioli', 'produttori', 'cooperativa', 'srl', 'spa', 'ss', 'sas',
+  'domaine', 'domaines', 'chateau', 'maison', 'cave', 'caves', 'vignobles',
+  'bodega', 'bodegas', 'quinta', 'weingut', 'weinkellerei', 'winery', 'estate', 'estates', 'cellars',
+]);
+
+const TOKEN_ALIASES: Record<string, string> = {
+  st: 'saint',
+  ste: 'sainte',
+  mt: 'mont',
+  sto: 'santo',
+  sta: 'santa',
+  '1er': 'premier',
+};
+
+export function normalizeWineText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’`]/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function tokenize(text: string, extraStopwords?: Set<string>): string[] {
+  const tokens = normalizeWineText(text)
+    .split(' ')
+    .filter(t => t)
+    .map(t => TOKEN_ALIASES[t] ?? t);
+
+  const meaningful = tokens.filter(t =>
+    !STOPWORDS.has(t) &&
+    !CLASSIFICATION_TOKENS.has(t) &&
+    !(extraStopwords?.has(t))
+  );
+
+  // Never normalize a name away entirely ("Castello di Ama" keeps "ama",
+  // but "Tenuta" alone stays "tenuta")
+  return meaningful.length > 0 ? meaningful : tokens;
+}
+
+export function producerTokens(producer: string): string[] {
+  return tokenize(producer, PRODUCER_PREFIXES);
+}
+
+// ============================================================
+// SIMILARITY
+// ============================================================
+
+function trigrams(text: string): Map<string, number> {
+  const padded = `  ${text} `;
+  const grams = new Map<string, number>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    const gram = padded.slice(i, i + 3);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+}
+
+/** Dice coefficient over character trigrams, 0-1. */
+export function trigramSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const ga = trigrams(a);
+  const gb = trigrams(b);
+  let shared = 0;
+  let total = 0;
+  for (const [gram, count] of ga) {
+    shared += Math.min(count, gb.get(gram) || 0);
+    total += count;
+  }
+  for (const count of gb.values()) total += count;
+
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+// Tokens at least this similar count as the same word (OCR typos, plurals)
+const SOFT_TOKEN_THRESHOLD = 0.75;
+
+/** Sum of best per-token similarities of `needle` found in `haystack`. */
+function softOverlap(needle: string[], haystack: string[]): number {
+  let overlap = 0;
+  for (const token of needle) {
+    let best = 0;
+    for (const other of haystack) {
+      const sim = token === other ? 1 : trigramSimilarity(token, other);
+      if (sim > best) best = sim;
+      if (best === 1) break;
+    }
+    if (best >= SOFT_TOKEN_THRESHOLD) overlap += best;
+  }
+  return overlap;
+}
+
+/**
+ * Fraction (0-1) of the needle tokens that appear, softly, in the haystack.
+ * Used for free-text lookups where the needle is embedded in a longer text.
+ */
+export function tokenCoverage(needle: string[], haystack: string[]): number {
+  if (needle.length === 0 || haystack.length === 0) return 0;
+  return softOverlap(needle, haystack) / needle.length;
+}
+
+/**
+ * Token-set similarity (0-1) between two token lists: the best of soft Dice,
+ * discounted containment ("Barolo" vs "Barolo Cannubi") and trigram
+ * similarity of the joined strings.
+ */
+export function tokenSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const joinedA = a.join(' ');
+  const joinedB = b.join(' ');
+  if (joinedA === joinedB) return 1;
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  const overlap = softOverlap(shorter, longer);
+
+  const dice = (2 * overlap) / (a.length + b.length);
+  const containment = (overlap / shorter.length) * 0.85;
+  const trigram = trigramSimilarity(joinedA, joinedB);
+
+  return Math.min(1, Math.max(dice, containment, trigram));
+}
+
+export function textSimilarity(a: string, b: string): number {
+  return tokenSimilarity(tokenize(a), tokenize(b));
+}
+
+export function producerSimilarity(a: string, b: string): number {
+  return tokenSimilarity(producerTokens(a), producerTokens(b));
+}
+
+// ============================================================
+// SCORING
+// ============================================================
+
+const WEIGHTS: Required<Record<keyof MatchBreakdown, number>> = {
+  name: 0.45,
+  producer: 0.25,
+  vintage: 0.1,
+  appellation: 0.1,
+  region: 0.05,
+  type: 0.05,
+};
+
+// Below this name similarity a candidate is never a match, whatever else agrees
+const MIN_NAME_SIMILARITY = 0.3;
+
+function vintageSimilarity(a: number, b: number): number {
+  const diff = Math.abs(a - b);
+  if (diff === 0) return 1;
+  if (diff === 1) return 0.4; // Adjacent vintage or a misread digit
+  return 0;
+}
+
+export function scoreWineMatch(query: WineMatchQuery, wine: Wine): WineMatch | null {
+  if (!query.name || !wine.name) return null;
+
+  const breakdown: MatchBreakdown = {};
+  const reasons: string[] = [];
+
+  breakdown.name = textSimilarity(query.name, wine.name);
+  if (breakdown.name < MIN_NAME_SIMILARITY) return null;
+  reasons.push(breakdown.name === 1 ? 'nome identico' : `nome simile (${percent(breakdown.name)})`);
+
+  if (query.producer && wine.producer) {
+    breakdown.producer = producerSimilarity(query.producer, wine.producer);
+    reasons.push(breakdown.producer >= 0.9 ? 'stesso produttore' : `produttore ${percent(breakdown.producer)}`);
+  }
+
+  if (query.vintage && wine.vintage) {
+    breakdown.vintage = vintageSimilarity(query.vintage, wine.vintage);
+    reasons.push(breakdown.vintage === 1
+      ? `stessa annata (${wine.vintage})`
+      : `annata diversa (${query.vintage} vs ${wine.vintage})`);
+  }
+
+  if (query.appellation && wine.appellation) {
+    breakdown.appellation = textSimilarity(query.appellation, wine.appellation);
+    if (breakdown.appellation >= 0.9) reasons.push('stessa denominazione');
+  }
+
+  if (query.region && wine.region) {
+    breakdown.region = textSimilarity(query.region, wine.region);
+    if (breakdown.region >= 0.9) reasons.push('stessa regione');
+  }
+
+  if (query.type && wine.type) {
+    breakdown.type = query.type === wine.type ? 1 : 0;
+    if (breakdown.type === 0) reasons.push(`tipo diverso (${query.type} vs ${wine.type})`);
+  }
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [key, value] of Object.entries(breakdown) as [keyof MatchBreakdown, number][]) {
+    weighted += WEIGHTS[key] * value;
+    totalWeight += WEIGHTS[key];
+  }
+
+  // Fewer comparable fields means less evidence: a name-only match tops out below 90
+  const evidence = 0.75 + 0.25 * Math.min(1, totalWeight / (WEIGHTS.name + WEIGHTS.producer + WEIGHTS.vintage));
+  const score = Math.round((weighted / totalWeight) * evidence * 100);
+
+  return { wine, score, breakdown, reasons };
+}
+
+export function rankWineMatches(
+  query: WineMatchQuery,
+  wines: Wine[],
+  options: RankOptions = {}
+): WineMatch[] {
+  const { minScore = 40, limit } = options;
+
+  const matches = wines
+    .map(wine => scoreWineMatch(query, wine))
+    .filter((m): m is WineMatch => m !== null && m.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+
+  return limit ? matches.slice(0, limit) : matches;
+}
+
+/**
+ * Matches a free-text wine description (e.g. "Barolo (Giacomo Conterno) 2016"
+ * as written back by the LLM) against candidate wines: how much of each
+ * wine's name, producer and vintage appears in the text.
+ */
+export function findWineByDescription(
+  description: string,
+  wines: Wine[],
+  options: RankOptions = {}
+): WineMatch | null {
+  const { minScore = 60 } = options;
+  const text = tokenize(description);
+  const years = description.match(/\b(18|19|20)\d{2}\b/g)?.map(Number) ?? [];
+
+  let best: WineMatch | null = null;
+  for (const wine of wines) {
+    const breakdown: MatchBreakdown = {
+      name: tokenCoverage(tokenize(wine.name), text),
+    };
+    if (breakdown.name! < MIN_NAME_SIMILARITY) continue;
+
+    if (wine.producer) {
+      const producer = producerTokens(wine.producer);
+      // Only counts when the description mentions a producer at all
+      const coverage = tokenCoverage(producer, text);
+      if (coverage > 0) breakdown.producer = coverage;
+    }
+    if (wine.vintage && years.length > 0) {
+      breakdown.vintage = Math.max(...years.map(y => vintageSimilarity(y, wine.vintage!)));
+    }
+
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const [key, value] of Object.entries(breakdown) as [keyof MatchBreakdown, number][]) {
+      weighted += WEIGHTS[key] * value;
+      totalWeight += WEIGHTS[key];
+    }
+    const score = Math.round((weighted / totalWeight) * 100);
+
+    if (score >= minScore && (!best || score > best.score)) {
+      best = {
+        wine,
+        score,
+        breakdown,
+        reasons: [`descrizione copre il ${percent(breakdown.name!)} del nome`],
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Scores a search query against a wine's searchable text (name, producer,
+ * appellation, region, grapes): the fraction of query words found. 0-1.
+ */
+export function searchScore(query: string, wine: Wine): number {
+  const haystack = tokenize([
+    wine.name,
+    wine.producer || '',
+    wine.appellation || '',
+    wine.region || '',
+    ...(wine.grapes || []),
+  ].join(' '));
+  return tokenCoverage(tokenize(query), haystack);
+}
+
+export function fieldsToMatchQuery(fields: ExtractionResult['extractedFields']): WineMatchQuery {
+  const vintage = fields.vintage?.value ? parseInt(fields.vintage.value, 10) : undefined;
+
+  return {
+    name: fields.name?.value,
+    producer: fields.producer?.value,
+    vintage: vintage && !isNaN(vintage) ? vintage : undefined,
+    type: fields.type?.value,
+    region: fields.region?.value,
+    appellation: fields.appellation?.value,
+  };
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
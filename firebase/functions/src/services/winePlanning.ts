@@ -0,0 +1,134 @@
+/**
+ * Wine Planning
+ *
+ * Bottle math for a dinner: how many glasses each course pours and how
+ * many bottles each wine needs. A standard 0.75 l bottle pours 6 glasses;
+ * dessert wines are served in half glasses.
+ *
+ * Prices are per bottle: cellar wines at what was paid for them
+ * (acquiredPrice), market wines at the LLM's estimate.
+ */
+
+import { normalizeWineText } from './wineMatching';
+import type { CourseType, DinnerEvent, MenuCourse, PriceRange, WinePairing, WinePlanEntry } from '../types';
+
+export const GLASSES_PER_BOTTLE = 6;
+
+/** Currency of acquiredPrice and of the prompts' estimates */
+export const DEFAULT_CURRENCY = 'EUR';
+
+const GLASSES_PER_PERSON: Partial<Record<CourseType, number>> = {
+  dessert: 0.5,
+};
+
+export interface WineServing {
+  wineId?: string;
+  name: string;
+  details?: string;
+  /** First price estimate among the pairings */
+  priceRange?: PriceRange;
+  /** Courses the wine is poured with */
+  courseIndexes: number[];
+  glasses: number;
+  bottles: number;
+}
+
+/**
+ * People at the table. iOS stores 'guestCount' on the dinner; otherwise
+ * the guests in the subcollection plus the host.
+ */
+export function partySize(dinner: DinnerEvent, guestDocs: number): number {
+  const declared = Number(dinner.guestCount);
+  return declared > 0 ? declared : guestDocs + 1;
+}
+
+export function glassesForCourse(course: CourseType, people: number): number {
+  return people * (GLASSES_PER_PERSON[course] ?? 1);
+}
+
+export function bottlesForGlasses(glasses: number): number {
+  return Math.max(1, Math.ceil(glasses / GLASSES_PER_BOTTLE));
+}
+
+/**
+ * Groups the wines picked by `pick` across courses (same wine on several
+ * courses = one entry, by wineId or else by name) and computes the bottles
+ * each needs.
+ */
+export function planWineServings(
+  courses: MenuCourse[],
+  people: number,
+  pick: (course: MenuCourse, courseIndex: number) => WinePairing | undefined
+): WineServing[] {
+  const servings = new Map<string, WineServing>();
+
+  courses.forEach((course, courseIndex) => {
+    const pairing = pick(course, courseIndex);
+    if (!pairing?.name) return;
+
+    const key = pairing.wineId || normalizeWineText(pairing.name);
+    const serving = servings.get(key) ?? {
+      ...(pairing.wineId && { wineId: pairing.wineId }),
+      name: pairing.name,
+      ...(pairing.details && { details: pairing.details }),
+      courseIndexes: [],
+      glasses: 0,
+      bottles: 0,
+    };
+
+    if (!serving.priceRange && pairing.priceRange) serving.priceRange = pairing.priceRange;
+    serving.courseIndexes.push(courseIndex);
+    serving.glasses += glassesForCourse(course.course, people);
+    serving.bottles = bottlesForGlasses(serving.glasses);
+    servings.set(key, serving);
+  });
+
+  return [...servings.values()];
+}
+
+export function multiplyPrice(price: PriceRange, bottles: number): PriceRange {
+  return { min: price.min * bottles, max: price.max * bottles, currency: price.currency };
+}
+
+function priced(price: PriceRange | undefined, bottles: number): Pick<WinePlanEntry, 'bottlePrice' | 'totalCost'> {
+  return price ? { bottlePrice: price, totalCost: multiplyPrice(price, bottles) } : {};
+}
+
+/**
+ * Bottles needed for every wine of the menu. Cellar wines are checked
+ * against `availableBottles` (by wineId) and carry the shortfall; they are
+ * priced from `cellarPrices` (average acquiredPrice by wineId).
+ */
+export function buildWinePlan(
+  courses: MenuCourse[],
+  people: number,
+  availableBottles: Map<string, number>,
+  cellarPrices: Map<string, number> = new Map()
+): WinePlanEntry[] {
+  const cellar = planWineServings(courses, people, c => c.cellarWine?.wineId ? c.cellarWine : undefined)
+    .map((serving): WinePlanEntry => {
+      const available = availableBottles.get(serving.wineId!) ?? 0;
+      const price = cellarPrices.get(serving.wineId!);
+      return {
+        source: 'cellar',
+        wineId: serving.wineId,
+        name: serving.name,
+        courseIndexes: serving.courseIndexes,
+        bottlesNeeded: serving.bottles,
+        availableBottles: available,
+        shortfall: Math.max(0, serving.bottles - available),
+        ...priced(price !== undefined ? { min: price, max: price, currency: DEFAULT_CURRENCY } : undefined, serving.bottles),
+      };
+    });
+
+  const market = planWineServings(courses, people, c => c.marketWine)
+    .map((serving): WinePlanEntry => ({
+      source: 'market',
+      name: serving.name,
+      courseIndexes: serving.courseIndexes,
+      bottlesNeeded: serving.bottles,
+      ...priced(serving.priceRange, serving.bottles),
+    }));
+
+  return [...cellar, ...market];
+}
@@ -0,0 +1,54 @@
+/**
+ * Dinner Triggers
+ *
+ * Bottles reserved through selectWineProposal go back to the cellar when
+ * the dinner is cancelled or deleted. Completing a dinner consumes its
+ * bottles and asks the host to rate the wines (services/dinnerCompletion).
+ */
+
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { logger } from 'firebase-functions';
+import { releaseDinnerReservations } from '../services/reservations';
+import { completeDinner } from '../services/dinnerCompletion';
+import type { DinnerEvent } from '../types';
+
+export const onDinnerWritten = onDocumentWritten(
+  {
+    document: 'dinners/{dinnerId}',
+    region: 'europe-west1',
+  },
+  async (event) => {
+    const { dinnerId } = event.params;
+    const before = event.data?.before.exists ? event.data.before.data() as DinnerEvent : undefined;
+    const after = event.data?.after.exists ? event.data.after.data() as DinnerEvent : undefined;
+
+    if (!before) return;
+
+    // completeDinner is idempotent (DinnerEvent.completion), so retries are safe
+    if (after?.status === 'completed' && before.status !== 'completed') {
+      try {
+        await completeDinner(after.hostId, dinnerId);
+      } catch (error) {
+        logger.error('Dinner completion failed', { dinnerId, error });
+        throw error;
+      }
+      return;
+    }
+
+    const cancelled = after?.status === 'cancelled' && before.status !== 'cancelled';
+    const deleted = !after && before.status !== 'cancelled';
+    if (!cancelled && !deleted) return;
+
+    try {
+      const released = await releaseDinnerReservations(
+        before.hostId,
+        dinnerId,
+        deleted ? 'Cena eliminata' : 'Cena annullata'
+      );
+      logger.info('Dinner reservations released', { dinnerId, released, deleted });
+    } catch (error) {
+      logger.error('Releasing dinner reservations failed', { dinnerId, error });
+      throw error;
+    }
+  }
+);
@@ -0,0 +1,158 @@
+/**
+ * Background Extraction
+ *
+ * Label photos uploaded to users/{uid}/photos/ run through the extraction
+ * pipeline without the client waiting on a callable. The run starts when
+ * triggers/photos has written the photo's normalized copy (EXIF-rotated,
+ * bounded size), which is what Vision reads. The result is written to
+ * users/{uid}/extractions/{photoId}, which the client can listen to:
+ *
+ *   processing -> pending (ready for review / confirmExtraction)
+ *              -> failed  (error holds the reason; retry with the callable)
+ *
+ * The photo type comes from the upload's custom metadata ("type", copied to
+ * the normalized copy with the original's name in "source"), falling back
+ * to the users/{uid}/photos doc when it already exists.
+ */
+
+import { onObjectFinalized } from 'firebase-functions/v2/storage';
+import { getFirestore, DocumentReference, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { parseNormalizedPath, parsePhotoPath, PhotoObjectRef } from '../services/images';
+import { runExtraction } from '../services/extraction';
+import { loadUserLanguage, t } from '../services/i18n';
+import type { Extraction, Photo, PhotoType } from '../types';
+
+const db = getFirestore();
+
+const LABEL_PHOTO_TYPES: PhotoType[] = ['label_front', 'label_back'];
+
+const PHOTO_TYPES: PhotoType[] = ['label_front', 'label_back', 'bottle', 'other'];
+
+// ============================================================
+// STORAGE TRIGGER
+// ============================================================
+
+export const onLabelPhotoUploaded = onObjectFinalized(
+  {
+    region: 'europe-west1',
+    memory: '512MiB',
+    timeoutSeconds: 120,
+    secrets: ['ANTHROPIC_API_KEY'],
+  },
+  async (event) => {
+    const { bucket, name, metadata } = event.data;
+
+    const photo = parseNormalizedPath(name);
+    const source = metadata?.source;
+    if (!photo || !source || !isSamePhoto(parsePhotoPath(source), photo)) return;
+
+    const photoType = await resolvePhotoType(photo, metadata?.type);
+    if (!photoType || !LABEL_PHOTO_TYPES.includes(photoType)) {
+      logger.info('Skipping background extraction', { ...photo, photoType });
+      return;
+    }
+
+    const extractionRef = db.collection('users').doc(photo.userId)
+      .collection('extractions').doc(photo.photoId);
+
+    if (!await claimExtraction(extractionRef, photo)) {
+      logger.info('Extraction already started for photo', photo);
+      return;
+    }
+
+    const language = await loadUserLanguage(photo.userId);
+
+    logger.info('Starting background extraction', { ...photo, photoType, language });
+
+    try {
+      const response = await runExtraction(
+        {
+          userId: photo.userId,
+          extractionId: photo.photoId,
+          source: 'upload',
+          photoId: photo.photoId,
+        },
+        {
+          photos: [{ url: `gs://${bucket}/${source}`, type: photoType }],
+          mode: 'single',
+          barcodes: [],
+          forceRefresh: false,
+          language,
+        }
+      );
+
+      if (!response.success) {
+        await markFailed(extractionRef, response.error || t(language, 'extractionFailedNoReason'));
+      }
+
+    } catch (error) {
+      // Not rethrown: a retry would repeat the LLM call; the client can
+      // fall back to extractWineFromPhoto
+      logger.error('Background extraction failed', { ...photo, error });
+      await markFailed(extractionRef, t(language, 'extractionFailed', { error: (error as Error).message }));
+    }
+  }
+);
+
+function isSamePhoto(a: PhotoObjectRef | null, b: PhotoObjectRef): boolean {
+  return a?.userId === b.userId && a.photoId === b.photoId;
+}
+
+async function resolvePhotoType(
+  photo: PhotoObjectRef,
+  metadataType: string | undefined
+): Promise<PhotoType | null> {
+  if (metadataType && PHOTO_TYPES.includes(metadataType as PhotoType)) {
+    return metadataType as PhotoType;
+  }
+
+  const photoDoc = await db.collection('users').doc(photo.userId)
+    .collection('photos').doc(photo.photoId).get();
+
+  return photoDoc.exists ? (photoDoc.data() as Photo).type : null;
+}
+
+// ============================================================
+// STATUS
+// ============================================================
+
+/**
+ * Creates the extraction doc in 'processing' state. Returns false when a
+ * previous delivery of the same event already did (only failed runs are
+ * started again).
+ */
+async function claimExtraction(
+  ref: DocumentReference,
+  photo: PhotoObjectRef
+): Promise<boolean> {
+  return db.runTransaction(async (tx) => {
+    const existing = await tx.get(ref);
+    if (existing.exists && (existing.data() as Extraction).status !== 'failed') {
+      return false;
+    }
+
+    const now = Timestamp.now();
+    const extraction: Omit<Extraction, 'id'> = {
+      userId: photo.userId,
+      mode: 'single',
+      status: 'processing',
+      source: 'upload',
+      photoId: photo.photoId,
+      suggestedMatchIds: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    tx.set(ref, extraction);
+    return true;
+  });
+}
+
+async function markFailed(ref: DocumentReference, error: string): Promise<void> {
+  await ref.update({
+    status: 'failed',
+    error,
+    updatedAt: Timestamp.now(),
+  });
+}
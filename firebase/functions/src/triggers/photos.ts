@@ -0,0 +1,239 @@
+/**
+ * Photo Triggers
+ *
+ * - onPhotoUploaded: for every image under users/{uid}/photos/ in Storage,
+ *   writes resized JPEG thumbnails and a normalized (EXIF-rotated, bounded
+ *   size) JPEG for OCR under users/{uid}/thumbnails/, then records their
+ *   URLs on users/{uid}/photos/{photoId}.
+ * - onPhotoWritten: fills in the URLs when the photo doc is created after
+ *   the upload was processed, and sets Wine.imageUrl once the photo is
+ *   linked to a wine.
+ *
+ * The Storage file name (without extension) is the photo doc id.
+ */
+
+import { onObjectFinalized } from 'firebase-functions/v2/storage';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import { logger } from 'firebase-functions';
+import sharp from 'sharp';
+import {
+  createDownloadUrl,
+  parsePhotoPath,
+  parseStorageUrl,
+  thumbnailPath,
+  PhotoObjectRef
+} from '../services/images';
+import type { Photo, ThumbnailSize, Wine } from '../types';
+
+const db = getFirestore();
+
+// Longest side, in pixels
+const THUMBNAIL_SIZES: Record<ThumbnailSize, number> = {
+  small: 200,
+  medium: 600,
+};
+const NORMALIZED_MAX_SIZE = 2048;
+
+const JPEG_QUALITY = 82;
+
+// ============================================================
+// STORAGE TRIGGER
+// ============================================================
+
+export const onPhotoUploaded = onObjectFinalized(
+  {
+    region: 'europe-west1',
+    memory: '1GiB',
+    timeoutSeconds: 120,
+  },
+  async (event) => {
+    const { bucket, name, contentType, metadata: customMetadata } = event.data;
+
+    const photo = parsePhotoPath(name);
+    if (!photo) return;
+
+    // OCR sidecars and other non-image objects share the folder
+    if (!contentType?.startsWith('image/')) {
+      logger.info('Skipping non-image upload', { name, contentType });
+      return;
+    }
+
+    logger.info('Processing photo upload', photo);
+
+    try {
+      const file = getStorage().bucket(bucket).file(name);
+      const [original] = await file.download();
+
+      const urls = await writeDerivedImages(bucket, photo, original, {
+        source: name,
+        ...(customMetadata?.type && { type: customMetadata.type }),
+      });
+
+      // Dimensions as displayed: EXIF orientations 5-8 swap width and height
+      const metadata = await sharp(original).metadata();
+      const swapped = (metadata.orientation ?? 1) >= 5;
+      const width = swapped ? metadata.height : metadata.width;
+      const height = swapped ? metadata.width : metadata.height;
+
+      const update: Partial<Photo> = {
+        ...urls,
+        ...(width && { width }),
+        ...(height && { height }),
+        processedAt: Timestamp.now(),
+      };
+
+      const photoRef = db.collection('users').doc(photo.userId)
+        .collection('photos').doc(photo.photoId);
+      const snapshot = await photoRef.get();
+
+      if (!snapshot.exists) {
+        // onPhotoWritten picks the URLs up when the client creates the doc
+        logger.info('Photo doc not created yet', photo);
+        return;
+      }
+
+      await photoRef.update(update);
+      logger.info('Thumbnails recorded', photo);
+
+    } catch (error) {
+      logger.error('Thumbnail generation failed', { ...photo, error });
+      throw error;
+    }
+  }
+);
+
+/**
+ * `normalizedMetadata` is set as custom metadata on the normalized copy:
+ * its upload starts the background extraction (triggers/extraction),
+ * which needs the original object name and the photo type.
+ */
+async function writeDerivedImages(
+  bucket: string,
+  photo: PhotoObjectRef,
+  original: Buffer,
+  normalizedMetadata: Record<string, string>
+): Promise<Pick<Photo, 'thumbnailUrl' | 'thumbnails' | 'normalizedUrl'>> {
+  const storageBucket = getStorage().bucket(bucket);
+
+  const save = async (path: string, image: sharp.Sharp, custom?: Record<string, string>): Promise<string> => {
+    const bytes = await image.jpeg({ quality: JPEG_QUALITY, mozjpeg: true }).toBuffer();
+    await storageBucket.file(path).save(bytes, {
+      contentType: 'image/jpeg',
+      metadata: {
+        cacheControl: 'public, max-age=31536000',
+        ...(custom && { metadata: custom }),
+      },
+    });
+    return createDownloadUrl(bucket, path);
+  };
+
+  // rotate() without arguments applies the EXIF orientation
+  const resize = (size: number) => sharp(original)
+    .rotate()
+    .resize(size, size, { fit: 'inside', withoutEnlargement: true });
+
+  const thumbnails: Partial<Record<ThumbnailSize, string>> = {};
+  for (const [variant, size] of Object.entries(THUMBNAIL_SIZES) as [ThumbnailSize, number][]) {
+    thumbnails[variant] = await save(thumbnailPath(photo, variant), resize(size));
+  }
+
+  // Grayscale is left to the OCR engine; only orientation and size are normalized
+  const normalizedUrl = await save(
+    thumbnailPath(photo, 'normalized'),
+    resize(NORMALIZED_MAX_SIZE),
+    normalizedMetadata
+  );
+
+  return {
+    thumbnailUrl: thumbnails.small,
+    thumbnails,
+    normalizedUrl,
+  };
+}
+
+// ============================================================
+// FIRESTORE TRIGGER
+// ============================================================
+
+export const onPhotoWritten = onDocumentWritten(
+  {
+    document: 'users/{userId}/photos/{photoId}',
+    region: 'europe-west1',
+  },
+  async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) return;
+
+    const before = event.data?.before.exists ? event.data.before.data() as Photo : undefined;
+    const current = after.data() as Photo;
+    const photo: PhotoObjectRef = { userId: event.params.userId, photoId: event.params.photoId };
+
+    try {
+      // Upload was processed before the doc existed
+      if (!before && !current.thumbnailUrl) {
+        const urls = await findExistingThumbnails(photo, current.storageUrl);
+        if (urls) {
+          await after.ref.update(urls);
+          logger.info('Thumbnails attached to new photo doc', photo);
+          return; // The update re-triggers this function for the wine link
+        }
+      }
+
+      const linkChanged = current.wineId && (
+        current.wineId !== before?.wineId || current.thumbnailUrl !== before?.thumbnailUrl
+      );
+      if (linkChanged && current.thumbnailUrl) {
+        await setWineImage(current.wineId!, current.thumbnails?.medium ?? current.thumbnailUrl);
+      }
+
+    } catch (error) {
+      logger.error('Photo doc update failed', { ...photo, error });
+      throw error;
+    }
+  }
+);
+
+async function findExistingThumbnails(
+  photo: PhotoObjectRef,
+  storageUrl: string
+): Promise<Pick<Photo, 'thumbnailUrl' | 'thumbnails' | 'normalizedUrl'> | null> {
+  const ref = parseStorageUrl(storageUrl);
+  if (!ref) return null;
+
+  const bucket = getStorage().bucket(ref.bucket);
+  const [exists] = await bucket.file(thumbnailPath(photo, 'small')).exists();
+  if (!exists) return null;
+
+  const thumbnails: Partial<Record<ThumbnailSize, string>> = {};
+  for (const variant of Object.keys(THUMBNAIL_SIZES) as ThumbnailSize[]) {
+    thumbnails[variant] = await createDownloadUrl(ref.bucket, thumbnailPath(photo, variant));
+  }
+
+  return {
+    thumbnailUrl: thumbnails.small,
+    thumbnails,
+    normalizedUrl: await createDownloadUrl(ref.bucket, thumbnailPath(photo, 'normalized')),
+  };
+}
+
+/** Wines are shared: an existing image is never replaced. */
+async function setWineImage(wineId: string, imageUrl: string): Promise<void> {
+  const wineRef = db.collection('wines').doc(wineId);
+
+  const updated = await db.runTransaction(async (tx) => {
+    const wineDoc = await tx.get(wineRef);
+    if (!wineDoc.exists) return false;
+
+    const wine = wineDoc.data() as Wine;
+    if (wine.imageUrl) return false;
+
+    tx.update(wineRef, { imageUrl, updatedAt: Timestamp.now() });
+    return true;
+  });
+
+  if (updated) {
+    logger.info('Wine image set from photo', { wineId });
+  }
+}
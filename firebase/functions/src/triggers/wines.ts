@@ -0,0 +1,60 @@
+/**
+ * Wine Triggers
+ *
+ * Wines can be written directly by clients (see firestore.rules), so
+ * region / country / appellation are normalized here as well as in the
+ * extraction and confirmation paths, keeping search, stats and pairing on
+ * canonical values.
+ *
+ * The estimated drinking window is kept in sync with vintage, type and
+ * appellation here too; windows the user set are left alone.
+ */
+
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { normalizeGeography, GeographyFields } from '../services/geography';
+import { estimateDrinkingWindow, isSameWindow } from '../services/drinkingWindow';
+import type { Wine } from '../types';
+
+const GEOGRAPHY_FIELDS: (keyof GeographyFields)[] = ['region', 'country', 'appellation'];
+
+export const onWineWritten = onDocumentWritten(
+  {
+    document: 'wines/{wineId}',
+    region: 'europe-west1',
+  },
+  async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) return;
+
+    const wine = after.data() as Wine;
+    const normalized = normalizeGeography({
+      region: wine.region,
+      country: wine.country,
+      appellation: wine.appellation,
+    });
+
+    // Only changed fields are written, so the follow-up event is a no-op
+    const update: Record<string, unknown> = {};
+    for (const field of GEOGRAPHY_FIELDS) {
+      if (normalized[field] && normalized[field] !== wine[field]) {
+        update[field] = normalized[field];
+      }
+    }
+
+    if (wine.drinkingWindow?.source !== 'user') {
+      const estimate = estimateDrinkingWindow({ ...wine, appellation: normalized.appellation ?? wine.appellation });
+      if (!estimate && wine.drinkingWindow) {
+        update.drinkingWindow = FieldValue.delete();
+      } else if (estimate && !isSameWindow(estimate, wine.drinkingWindow)) {
+        update.drinkingWindow = estimate;
+      }
+    }
+
+    if (Object.keys(update).length === 0) return;
+
+    await after.ref.update({ ...update, updatedAt: Timestamp.now() });
+    logger.info('Wine normalized', { wineId: event.params.wineId, update });
+  }
+);
@@ -14,7 +14,7 @@ import { Timestamp } from 'firebase-admin/firestore';
 export type WineType = 'red' | 'white' | 'rosé' | 'sparkling' | 'dessert' | 'fortified';
 export type BottleStatus = 'available' | 'reserved' | 'consumed' | 'gifted';
 export type UserRole = 'owner' | 'family' | 'guest';
-export type MovementType = 'in' | 'out' | 'move';
+export type MovementType = 'in' | 'out' | 'move' | 'reserve' | 'release';
 export type FoodieLevel = 'casual' | 'enthusiast' | 'expert';
 export type PreferenceType = 'allergy' | 'intolerance' | 'diet' | 'dislike' | 'preference';
 export type DinnerStyle = 'informal' | 'convivial' | 'elegant';
@@ -22,6 +22,16 @@ export type CookingTime = 'quick' | 'oneHour' | 'twoHours' | 'unlimited';
 export type BudgetLevel = 'economic' | 'standard' | 'premium' | 'luxury';
 export type DinnerStatus = 'planning' | 'confirmed' | 'completed' | 'cancelled';
 export type CourseType = 'aperitif' | 'starter' | 'first' | 'main' | 'side' | 'dessert' | 'pairing';
+export type PhotoType = 'label_front' | 'label_back' | 'bottle' | 'other';
+export type ExtractionStatus =
+  | 'processing'  // background extraction running
+  | 'pending'     // ready for review
+  | 'confirmed'
+  | 'discarded'
+  | 'failed';     // background extraction could not read the photo
+
+export type ExtractionSource = 'callable' | 'upload';
+export type ExtractionMode = 'single' | 'list' | 'receipt';
 
 // ============================================================
 // USER & AUTH
@@ -37,10 +47,24 @@ export interface User {
   updatedAt: Timestamp;
 }
 
+/** Languages of prompts and messages (see services/i18n) */
+export type Language = 'it' | 'en' | 'de' | 'fr';
+
 export interface UserPreferences {
+  /** App language code; unsupported ones fall back to Italian */
   language: string;
   notifications: boolean;
   defaultCellarId?: string;
+  /** Overrides of the default wine budget per dinner budget level (see services/budget) */
+  wineBudgets?: Partial<Record<BudgetLevel, WineBudgetSettings>>;
+}
+
+export interface WineBudgetSettings {
+  /** Price band of a bottle to buy */
+  bottleMin?: number;
+  bottleMax?: number;
+  /** Wine budget of the dinner per person at the table */
+  perPerson?: number;
 }
 
 // ============================================================
@@ -89,11 +113,28 @@ export interface Wine {
   alcohol?: number;
   description?: string;
   imageUrl?: string;
+  barcodes?: string[];
+  /** When the vintage is ready to drink (see services/drinkingWindow) */
+  drinkingWindow?: DrinkingWindow;
   createdBy: string;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+/**
+ * Years in which a vintage is worth opening. 'estimated' windows follow
+ * vintage, type and appellation changes; 'user' windows are never
+ * overwritten (delete the field to go back to the estimate).
+ */
+export interface DrinkingWindow {
+  from: number;
+  to: number;
+  peak: number;
+  source: 'estimated' | 'user';
+}
+
+export type DrinkingStatus = 'too_young' | 'ready' | 'peak' | 'declining' | 'past';
+
 export interface Bottle {
   id: string;
   wineId: string;
@@ -104,7 +145,10 @@ export interface Bottle {
   acquiredPrice?: number;
   acquiredFrom?: string;
   consumedAt?: Timestamp;
+  /** Dinner the bottle is set aside for while status is 'reserved' */
+  reservedFor?: string;
   notes?: string;
+  createdBy?: string;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
@@ -128,9 +172,14 @@ export interface Rating {
   id: string;
   wineId: string;
   userId: string;
+  /** 0 while status is 'pending' */
   rating: number;
   isFavorite: boolean;
   notes?: string;
+  /** 'pending': "rate this wine" draft created when a dinner is completed */
+  status?: 'pending' | 'rated';
+  /** Dinner the wine was served at */
+  dinnerId?: string;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
@@ -172,6 +221,11 @@ export interface FoodPreference {
   category: string;
   severity?: string;
   notes?: string;
+  /** Missing = approved. 'pending': sent by the guest, not yet approved by the host */
+  status?: 'pending' | 'approved';
+  source?: 'host' | 'guest';
+  /** Dinner whose RSVP link the guest used */
+  dinnerId?: string;
   createdAt: Timestamp;
 }
 
@@ -181,24 +235,83 @@ export interface FoodPreference {
 
 export interface DinnerEvent {
   id: string;
+  hostId: string;
   name: string;
+  /** Name set by the iOS app, which takes precedence over 'name' */
+  title?: string;
   date: Timestamp;
   time?: string;
+  /** People at the table, as set by the iOS app */
+  guestCount?: number;
   style: DinnerStyle;
   cookingTime: CookingTime;
   budgetLevel: BudgetLevel;
   notes?: string;
   status: DinnerStatus;
+  /** The dinner's menu as written by the iOS app */
+  menu?: MenuProposal;
+  /** Where older dinners kept the menu (see services/dinners loadMenu) */
   menuProposal?: MenuProposal;
+  /** Let the menu repeat dishes and wines the guests already had */
+  allowHouseClassics?: boolean;
+  /** Candidates from proposeMenuVariants, not yet the dinner's menu */
+  menuVariants?: MenuVariant[];
+  /** Variant last promoted to 'menu' */
+  activeMenuVariantId?: string;
+  shoppingList?: ShoppingList;
+  timeline?: DinnerTimeline;
+  /** Set once the completion workflow has run (see triggers/dinners) */
+  completion?: DinnerCompletion;
+  /** Last invitation generated, kept for resending */
+  invitation?: DinnerInvitation;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+export interface DinnerCompletion {
+  completedAt: Timestamp;
+  consumedBottles: ReservedBottle[];
+  /** Wines that got a pending rating draft */
+  ratingDrafts: string[];
+}
+
+/** Invitation for all the guests of a dinner (api/invitation) */
+export interface DinnerInvitation {
+  language: Language;
+  style: DinnerStyle;
+  includeMenuTeaser: boolean;
+  subject: string;
+  /** Message for chat apps and SMS */
+  text: string;
+  /** Email body */
+  html: string;
+  /** iCalendar attachment (text/calendar) */
+  ics: string;
+  icsFilename: string;
+  /** Guests who have not declined */
+  recipients: InvitationRecipient[];
+  generatedAt: Timestamp;
+}
+
+export interface InvitationRecipient {
+  guestId: string;
+  friendId: string;
+  name: string;
+  email?: string;
+  phone?: string;
+}
+
 export interface DinnerGuest {
   id: string;
   dinnerId: string;
   friendId: string;
   status: 'invited' | 'confirmed' | 'declined';
+  /** Bumped for every new RSVP link; older links stop working */
+  tokenVersion?: number;
+  tokenExpiresAt?: Timestamp;
+  respondedAt?: Timestamp;
+  /** Free text the guest left with the RSVP */
+  rsvpNote?: string;
   createdAt: Timestamp;
 }
 
@@ -210,6 +323,16 @@ export interface WinePairing {
   name: string;
   reasoning: string;
   details?: string;
+  /** Cellar pairings: the Wine chosen from the inventory */
+  wineId?: string;
+  /** Market pairings: estimated shop price per bottle */
+  priceRange?: PriceRange;
+}
+
+export interface PriceRange {
+  min: number;
+  max: number;
+  currency: string;
 }
 
 export interface MenuCourse {
@@ -217,6 +340,8 @@ export interface MenuCourse {
   name: string;
   description: string;
   dietaryFlags: string[];
+  /** Main ingredients, always in Italian (checked by the dietary validator) */
+  ingredients?: string[];
   prepTime: number;
   notes?: string;
   cellarWine?: WinePairing;
@@ -230,9 +355,82 @@ export interface MenuProposal {
   seasonContext: string;
   guestConsiderations: string[];
   totalPrepTime: number;
+  winePlan?: WinePlanEntry[];
+  wineCost?: WineCostSummary;
   generatedAt: Timestamp;
 }
 
+export interface MenuVariantSummary {
+  courseCount: number;
+  /** Distinct wines poured (cellar pick where there is one) */
+  wineCount: number;
+  cellarWineCount: number;
+  marketWineCount: number;
+  totalPrepTime: number;
+  /** Bottles missing in the cellar over all cellar wines */
+  cellarShortfall: number;
+  /** Guest allergies, intolerances and diets checked */
+  restrictions: number;
+  restrictionsRespected: number;
+  dietaryRisks: number;
+  /** Dishes and wines the guests already had */
+  repeats: number;
+  /** From MenuProposal.wineCost */
+  wineCost?: WineCostSummary['total'];
+  budgetStatus?: WineCostSummary['status'];
+}
+
+export interface MenuVariant {
+  id: string;
+  theme: string;
+  menu: MenuProposal;
+  summary: MenuVariantSummary;
+  createdAt: Timestamp;
+}
+
+/** Bottles a wine of the menu needs, over all the courses it is poured with */
+export interface WinePlanEntry {
+  source: 'cellar' | 'market';
+  wineId?: string;
+  name: string;
+  courseIndexes: number[];
+  bottlesNeeded: number;
+  /** Cellar wines: available bottles when the plan was made */
+  availableBottles?: number;
+  /** Cellar wines: bottles missing to cover the dinner (0 = enough) */
+  shortfall?: number;
+  /** Cellar wines: average acquiredPrice; market wines: estimated shop price */
+  bottlePrice?: PriceRange;
+  /** bottlePrice for bottlesNeeded */
+  totalCost?: PriceRange;
+}
+
+/**
+ * What the wine plan costs: cellar bottles at what was paid for them, plus
+ * the wines to buy for the courses without a cellar pick (and the missing
+ * cellar bottles), against the dinner's budget.
+ */
+export interface WineCostSummary {
+  currency: string;
+  budgetLevel: BudgetLevel;
+  /** Value of the cellar bottles poured */
+  cellarValue: number;
+  /** Estimated cost of the bottles to buy */
+  purchaseCost: { min: number; max: number };
+  total: { min: number; max: number };
+  ceiling: number;
+  /** within: even the high estimate fits; at_risk: only the low one; over: neither */
+  status: 'within' | 'at_risk' | 'over';
+  /** Wines with no price (cellar bottles without acquiredPrice, market wines without estimate) */
+  unpricedWines: string[];
+}
+
+export interface ReservedBottle {
+  cellarId: string;
+  bottleId: string;
+}
+
+/** users/{hostId}/dinners/{dinnerId}/proposals/{proposalId} */
 export interface WineProposal {
   id: string;
   dinnerId?: string;
@@ -241,11 +439,105 @@ export interface WineProposal {
   suggestedWineName?: string;
   suggestedWineDetails?: string;
   course: CourseType;
+  /** Position of the course in MenuProposal.courses */
+  courseIndex: number;
   reasoning: string;
+  /**
+   * From MenuProposal.winePlan: the wine's bottles for the whole dinner,
+   * the same on every course it is served with. Default quantity when
+   * selecting.
+   */
+  bottlesNeeded?: number;
+  /** Suggested purchases: estimated shop price per bottle */
+  priceRange?: PriceRange;
   isSelected: boolean;
+  reservedBottles?: ReservedBottle[];
+  selectedAt?: Timestamp;
   createdAt: Timestamp;
 }
 
+// ============================================================
+// SHOPPING LIST
+// ============================================================
+
+export type ShoppingSection =
+  | 'produce'
+  | 'meat'
+  | 'fish'
+  | 'dairy'
+  | 'bakery'
+  | 'pantry'
+  | 'spices'
+  | 'frozen'
+  | 'beverages'
+  | 'wine'
+  | 'other';
+
+/** Quantities are stored in base units: grams, millilitres, pieces, bottles; 'qb' = quanto basta */
+export type ShoppingUnit = 'g' | 'ml' | 'pz' | 'bottle' | 'qb';
+
+export interface ShoppingItem {
+  /** Stable across regenerations (derived from name and unit) */
+  id: string;
+  name: string;
+  quantity?: number;
+  unit: ShoppingUnit;
+  section: ShoppingSection;
+  /** Positions in MenuProposal.courses that use the item */
+  courseIndexes: number[];
+  checked: boolean;
+  notes?: string;
+}
+
+/** Stored on the dinner as 'shoppingList' */
+export interface ShoppingList {
+  items: ShoppingItem[];
+  /** People the quantities are scaled to */
+  partySize: number;
+  generatedAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// ============================================================
+// SERVICE TIMELINE
+// ============================================================
+
+export type TimelineStepKind = 'cook' | 'serve' | 'fetch_wine' | 'chill_wine' | 'decant_wine' | 'open_wine';
+
+/** How to serve one wine (services/serving) */
+export interface WineServingGuide {
+  temperatureMin: number;
+  temperatureMax: number;
+  glass: string;
+  /** Minutes in the fridge before the first pour */
+  chillMinutes?: number;
+  /** Minutes out of the cellar to reach serving temperature */
+  restMinutes?: number;
+  decantMinutes?: number;
+  notes?: string;
+}
+
+export interface TimelineStep {
+  id: string;
+  at: Timestamp;
+  kind: TimelineStepKind;
+  title: string;
+  description?: string;
+  courseIndexes?: number[];
+  wineId?: string;
+  wineName?: string;
+  serving?: WineServingGuide;
+  alarmMinutesBefore: number;
+}
+
+/** Stored on the dinner as 'timeline', steps sorted by time */
+export interface DinnerTimeline {
+  dinnerTime: Timestamp;
+  timeZone: string;
+  steps: TimelineStep[];
+  generatedAt: Timestamp;
+}
+
 // ============================================================
 // CONVERSATIONS & CHAT
 // ============================================================
@@ -279,23 +571,170 @@ export interface ToolResult {
   result: unknown;
 }
 
+// ============================================================
+// PHOTOS
+// ============================================================
+
+export type ThumbnailSize = 'small' | 'medium';
+
+/** users/{uid}/photos/{photoId}; the file lives at the same id under users/{uid}/photos/ in Storage */
+export interface Photo {
+  id: string;
+  storageUrl: string;
+  type: PhotoType;
+  wineId?: string;
+  thumbnailUrl?: string;
+  thumbnails?: Partial<Record<ThumbnailSize, string>>;
+  normalizedUrl?: string;
+  width?: number;
+  height?: number;
+  processedAt?: Timestamp;
+  createdAt: Timestamp;
+}
+
 // ============================================================
 // EXTRACTION & OCR
 // ============================================================
 
+export interface ExtractionPhoto {
+  url: string;
+  type: PhotoType;
+}
+
+export interface FieldProvenance {
+  photoIndex: number;
+  photoType: PhotoType;
+  supportingPhotos: number[];
+}
+
+export interface ExtractedField<T> {
+  value: T;
+  confidence: number;
+  source?: FieldProvenance;
+}
+
+export interface PhotoOcrResult extends ExtractionPhoto {
+  ocrText: string;
+}
+
 export interface ExtractionResult {
   ocrText: string;
+  photos?: PhotoOcrResult[];
   extractedFields: {
-    name?: { value: string; confidence: number };
-    producer?: { value: string; confidence: number };
-    vintage?: { value: string; confidence: number };
-    type?: { value: string; confidence: number };
-    region?: { value: string; confidence: number };
-    country?: { value: string; confidence: number };
-    grapes?: { value: string[]; confidence: number };
-    alcohol?: { value: number; confidence: number };
+    name?: ExtractedField<string>;
+    producer?: ExtractedField<string>;
+    vintage?: ExtractedField<string>;
+    type?: ExtractedField<string>;
+    region?: ExtractedField<string>;
+    country?: ExtractedField<string>;
+    appellation?: ExtractedField<string>;
+    grapes?: ExtractedField<string[]>;
+    alcohol?: ExtractedField<number>;
   };
   overallConfidence: number;
+  barcodes?: string[];
+  barcodeMatch?: {
+    code: string;
+    wineId: string;
+  };
+}
+
+export interface ListedWine {
+  name: string;
+  producer?: string;
+  vintage?: number;
+  type?: WineType;
+  region?: string;
+  price?: number;
+  currency?: string;
+  confidence: number;
+  ownedMatch?: {
+    wineId: string;
+    name: string;
+    score: number;
+  };
+  suggestion: 'owned' | 'wishlist';
+}
+
+export interface ListExtractionResult {
+  ocrText: string;
+  photos: PhotoOcrResult[];
+  wines: ListedWine[];
+}
+
+export interface ReceiptLineItem {
+  description: string;
+  name?: string;
+  producer?: string;
+  vintage?: number;
+  type?: WineType;
+  quantity: number;
+  unitPrice?: number;
+  match?: {
+    wineId: string;
+    name: string;
+    score: number;
+  };
+  proposedAction: 'link' | 'create';
+}
+
+export interface ReceiptExtractionResult {
+  ocrText: string;
+  fileUrl: string;
+  mimeType: string;
+  seller?: string;
+  purchaseDate?: string;
+  currency?: string;
+  total?: number;
+  lines: ReceiptLineItem[];
+}
+
+export interface Extraction {
+  id: string;
+  userId: string;
+  mode: ExtractionMode;
+  status: ExtractionStatus;
+  source?: ExtractionSource;
+  /** Upload that started a background extraction */
+  photoId?: string;
+  /** Set when status is 'failed' */
+  error?: string;
+  result?: ExtractionResult;
+  listResult?: ListExtractionResult;
+  receiptResult?: ReceiptExtractionResult;
+  suggestedMatchIds: string[];
+  corrections?: WineCorrections;
+  wineId?: string;
+  wineIds?: string[];
+  cellarId?: string;
+  bottleIds?: string[];
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  confirmedAt?: Timestamp;
+}
+
+export interface ExtractionCacheEntry {
+  key: string;
+  mode: ExtractionMode;
+  ocrTexts: string[];
+  extractedFields?: ExtractionResult['extractedFields'];
+  overallConfidence?: number;
+  barcodes?: string[];
+  listWines?: Omit<ListedWine, 'ownedMatch' | 'suggestion'>[];
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+}
+
+export interface WineCorrections {
+  name?: string;
+  producer?: string;
+  vintage?: number;
+  type?: WineType;
+  region?: string;
+  country?: string;
+  appellation?: string;
+  grapes?: string[];
+  alcohol?: number;
 }
 
 // ============================================================
@@ -303,19 +742,93 @@ export interface ExtractionResult {
 // ============================================================
 
 export interface ExtractWineRequest {
-  photoUrl: string;
+  photoUrl?: string;
+  photos?: ExtractionPhoto[];
+  mode?: ExtractionMode;
+  barcodes?: string[];
+  forceRefresh?: boolean;
+  /** Overrides UserPreferences.language for messages */
+  language?: Language;
   userId: string;
 }
 
 export interface ExtractWineResponse {
   success: boolean;
+  fromCache?: boolean;
+  extractionId?: string;
   extraction?: ExtractionResult;
+  listExtraction?: ListExtractionResult;
   suggestedMatches?: Wine[];
   error?: string;
 }
 
+export type ExtractionDecision =
+  | { action: 'link'; wineId: string }
+  | { action: 'create' }
+  | { action: 'discard' };
+
+export interface ConfirmExtractionRequest {
+  extractionId: string;
+  userId: string;
+  decision: ExtractionDecision;
+  corrections?: WineCorrections;
+  cellarId?: string;
+  locationId?: string;
+  quantity?: number;
+  /** Overrides UserPreferences.language for messages */
+  language?: Language;
+}
+
+export interface ConfirmExtractionResponse {
+  success: boolean;
+  wineId?: string;
+  bottleIds?: string[];
+  error?: string;
+}
+
+export interface ImportReceiptRequest {
+  fileUrl: string;
+  mimeType?: string;
+  /** Overrides UserPreferences.language for messages */
+  language?: Language;
+  userId: string;
+}
+
+export interface ImportReceiptResponse {
+  success: boolean;
+  extractionId?: string;
+  receipt?: ReceiptExtractionResult;
+  error?: string;
+}
+
+export interface ReceiptLineDecision {
+  lineIndex: number;
+  decision: { action: 'link'; wineId: string } | { action: 'create' } | { action: 'skip' };
+  corrections?: WineCorrections;
+  quantity?: number;
+  unitPrice?: number;
+}
+
+export interface ConfirmReceiptRequest {
+  extractionId: string;
+  userId: string;
+  cellarId: string;
+  locationId?: string;
+  lines: ReceiptLineDecision[];
+  language?: Language;
+}
+
+export interface ConfirmReceiptResponse {
+  success: boolean;
+  wineIds?: string[];
+  bottleIds?: string[];
+  error?: string;
+}
+
 export interface ProposeDinnerRequest {
   dinnerId: string;
+  /** Overrides UserPreferences.language for the generated texts */
+  language?: Language;
   userId: string;
 }
 
@@ -329,9 +842,224 @@ export interface ProposeDinnerResponse {
   error?: string;
 }
 
+export interface RegenerateCourseRequest {
+  dinnerId: string;
+  courseIndex: number;
+  /** Free-text direction, e.g. "niente pesce", "più leggero" */
+  instruction?: string;
+  language?: Language;
+  userId: string;
+}
+
+export interface RegenerateCourseResponse {
+  success: boolean;
+  course?: MenuCourse;
+  menu?: MenuProposal;
+  wineProposals?: {
+    available: WineProposal[];
+    suggested: WineProposal[];
+  };
+  error?: string;
+}
+
+export interface ProposeMenuVariantsRequest {
+  dinnerId: string;
+  /** One variant per theme, e.g. "tradizionale", "di mare", "vegetariano" */
+  themes?: string[];
+  /** Variants to generate when themes are not given (default 3) */
+  count?: number;
+  language?: Language;
+  userId: string;
+}
+
+export interface ProposeMenuVariantsResponse {
+  success: boolean;
+  variants?: MenuVariant[];
+  error?: string;
+}
+
+export interface PromoteMenuVariantRequest {
+  dinnerId: string;
+  variantId: string;
+  language?: Language;
+  userId: string;
+}
+
+export interface PromoteMenuVariantResponse {
+  success: boolean;
+  menu?: MenuProposal;
+  wineProposals?: {
+    available: WineProposal[];
+    suggested: WineProposal[];
+  };
+  error?: string;
+}
+
+export interface SelectWineProposalRequest {
+  dinnerId: string;
+  proposalId: string;
+  selected: boolean;
+  /** Bottles to reserve for a cellar proposal (default: the proposal's bottlesNeeded, or 1) */
+  quantity?: number;
+  language?: Language;
+  userId: string;
+}
+
+export interface SelectWineProposalResponse {
+  success: boolean;
+  proposal?: WineProposal;
+  error?: string;
+}
+
+export interface GenerateShoppingListRequest {
+  dinnerId: string;
+  /** Overrides UserPreferences.language for the ingredient names */
+  language?: Language;
+  userId: string;
+}
+
+export interface GenerateShoppingListResponse {
+  success: boolean;
+  shoppingList?: ShoppingList;
+  error?: string;
+}
+
+export interface ToggleShoppingItemRequest {
+  dinnerId: string;
+  itemId: string;
+  checked: boolean;
+  language?: Language;
+  userId: string;
+}
+
+export interface ToggleShoppingItemResponse {
+  success: boolean;
+  item?: ShoppingItem;
+  error?: string;
+}
+
+export type ShoppingExportFormat = 'text' | 'markdown';
+
+export interface ExportShoppingListRequest {
+  dinnerId: string;
+  format: ShoppingExportFormat;
+  /** Include items already ticked off (default false) */
+  includeChecked?: boolean;
+  language?: Language;
+  userId: string;
+}
+
+export interface ExportShoppingListResponse {
+  success: boolean;
+  content?: string;
+  error?: string;
+}
+
+export interface GenerateTimelineRequest {
+  dinnerId: string;
+  /** IANA time zone of the dinner (default Europe/Rome) */
+  timeZone?: string;
+  /** Overrides UserPreferences.language for the step texts */
+  language?: Language;
+  userId: string;
+}
+
+export interface GenerateTimelineResponse {
+  success: boolean;
+  timeline?: DinnerTimeline;
+  error?: string;
+}
+
+export interface ExportTimelineRequest {
+  dinnerId: string;
+  language?: Language;
+  userId: string;
+}
+
+export interface ExportTimelineResponse {
+  success: boolean;
+  /** iCalendar (text/calendar) */
+  content?: string;
+  filename?: string;
+  error?: string;
+}
+
+export interface GenerateInvitationRequest {
+  dinnerId: string;
+  /** Hint at the menu in the invitation (default true when the dinner has one) */
+  includeMenuTeaser?: boolean;
+  /** Address or place, for the message and the calendar event */
+  location?: string;
+  /** IANA time zone of the dinner (default Europe/Rome) */
+  timeZone?: string;
+  language?: Language;
+  userId: string;
+}
+
+export interface GenerateInvitationResponse {
+  success: boolean;
+  invitation?: DinnerInvitation;
+  error?: string;
+}
+
+export interface CreateGuestInvitesRequest {
+  dinnerId: string;
+  /** DinnerGuest ids (default: every guest of the dinner) */
+  guestIds?: string[];
+  /** Link validity (default 14, never past the day after the dinner) */
+  expiresInDays?: number;
+  language?: Language;
+  userId: string;
+}
+
+export interface GuestInvite {
+  guestId: string;
+  friendId: string;
+  name: string;
+  token: string;
+  url: string;
+  expiresAt: Timestamp;
+}
+
+export interface CreateGuestInvitesResponse {
+  success: boolean;
+  invites?: GuestInvite[];
+  error?: string;
+}
+
+/** Body of the guestRsvp endpoint (POST) */
+export interface GuestRsvpSubmission {
+  token: string;
+  status: 'confirmed' | 'declined';
+  allergies?: string[];
+  intolerances?: string[];
+  dislikes?: string[];
+  diet?: string;
+  note?: string;
+}
+
+export interface ReviewGuestPreferencesRequest {
+  friendId: string;
+  /** Pending preferences to keep */
+  approve?: string[];
+  /** Pending preferences to discard */
+  reject?: string[];
+  language?: Language;
+  userId: string;
+}
+
+export interface ReviewGuestPreferencesResponse {
+  success: boolean;
+  approved?: number;
+  rejected?: number;
+  error?: string;
+}
+
 export interface ChatRequest {
   message: string;
   conversationId?: string;
+  /** Overrides UserPreferences.language for the answer */
+  language?: Language;
   userId: string;
 }
 
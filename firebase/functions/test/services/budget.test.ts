@@ -0,0 +1,198 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+// In-memory users collection: user id -> document data
+const mockUsers = new Map<string, Record<string, unknown>>();
+
+jest.mock('firebase-admin/firestore', () => ({
+  ...jest.requireActual<object>('firebase-admin/firestore'),
+  getFirestore: () => ({
+    collection: () => ({
+      doc: (id: string) => ({
+        get: async () => {
+          if (id === 'broken') throw new Error('unavailable');
+          return { data: () => mockUsers.get(id) };
+        },
+      }),
+    }),
+  }),
+}));
+
+import {
+  describeBudget,
+  loadWineBudget,
+  parsePriceRange,
+  resolveWineBudget,
+  summarizeWineCost
+} from '../../src/services/budget';
+import type { CourseType, MenuCourse, WinePairing, WinePlanEntry } from '../../src/types';
+
+describe('resolveWineBudget', () => {
+  it('uses the defaults of the level', () => {
+    expect(resolveWineBudget('premium')).toEqual({
+      level: 'premium',
+      bottleMin: 25,
+      bottleMax: 50,
+      perPerson: 30,
+      currency: 'EUR',
+    });
+  });
+
+  it('falls back to the standard level', () => {
+    expect(resolveWineBudget(undefined).level).toBe('standard');
+    expect(resolveWineBudget('champagne' as never)).toMatchObject({ level: 'standard', bottleMin: 12 });
+  });
+
+  it('applies valid overrides only', () => {
+    expect(resolveWineBudget('economic', { bottleMax: 15, perPerson: 0, bottleMin: NaN })).toMatchObject({
+      bottleMin: 6,
+      bottleMax: 15,
+      perPerson: 8,
+    });
+  });
+
+  it('swaps a price band given upside down', () => {
+    expect(resolveWineBudget('standard', { bottleMin: 40, bottleMax: 20 })).toMatchObject({
+      bottleMin: 20,
+      bottleMax: 40,
+    });
+  });
+});
+
+describe('loadWineBudget', () => {
+  it('reads the overrides of the level from the user preferences', async () => {
+    mockUsers.set('host', {
+      preferences: { wineBudgets: { luxury: { perPerson: 120 }, standard: { perPerson: 20 } } },
+    });
+    expect(await loadWineBudget('host', 'luxury')).toMatchObject({ level: 'luxury', perPerson: 120, bottleMin: 50 });
+    expect(await loadWineBudget('host', 'premium')).toMatchObject({ level: 'premium', perPerson: 30 });
+  });
+
+  it('applies the standard overrides to dinners without a budget level', async () => {
+    mockUsers.set('host', { preferences: { wineBudgets: { standard: { perPerson: 20 } } } });
+    expect(await loadWineBudget('host', undefined)).toMatchObject({ level: 'standard', perPerson: 20 });
+  });
+
+  it('falls back to the defaults when the user cannot be read', async () => {
+    expect(await loadWineBudget('broken', 'premium')).toMatchObject({ level: 'premium', perPerson: 30 });
+  });
+});
+
+describe('describeBudget', () => {
+  it('describes the price band and the ceiling for the party', () => {
+    const budget = resolveWineBudget('standard');
+    expect(describeBudget(budget, 6)).toBe(
+      'standard - bottiglie da acquistare tra 12 e 25 EUR; spesa vini complessiva entro 90 EUR per 6 persone'
+    );
+    expect(describeBudget(budget, 6, 'en')).toBe(
+      'standard - bottles to buy between 12 and 25 EUR; total wine spend within 90 EUR for 6 people'
+    );
+  });
+});
+
+describe('parsePriceRange', () => {
+  it('reads an estimate from the LLM', () => {
+    expect(parsePriceRange({ min: 18, max: 25, currency: 'EUR' })).toEqual({ min: 18, max: 25, currency: 'EUR' });
+    expect(parsePriceRange({ min: '18.5', max: '25', currency: ' chf ' }))
+      .toEqual({ min: 18.5, max: 25, currency: 'CHF' });
+  });
+
+  it('takes a single price as both ends and orders the ends', () => {
+    expect(parsePriceRange({ min: 30 })).toEqual({ min: 30, max: 30, currency: 'EUR' });
+    expect(parsePriceRange({ min: 40, max: 20 })).toEqual({ min: 20, max: 40, currency: 'EUR' });
+  });
+
+  it('defaults a missing or malformed currency', () => {
+    expect(parsePriceRange({ min: 10, max: 12, currency: '€' })?.currency).toBe('EUR');
+  });
+
+  it('rejects unusable estimates', () => {
+    expect(parsePriceRange(undefined)).toBeUndefined();
+    expect(parsePriceRange('20-30 EUR')).toBeUndefined();
+    expect(parsePriceRange({})).toBeUndefined();
+    expect(parsePriceRange({ min: 0, max: 10 })).toBeUndefined();
+    expect(parsePriceRange({ min: 10, max: -5 })).toBeUndefined();
+    expect(parsePriceRange({ min: 'circa 20' })).toBeUndefined();
+  });
+});
+
+describe('summarizeWineCost', () => {
+  function course(type: CourseType, wines: { cellarWine?: WinePairing; marketWine?: WinePairing }): MenuCourse {
+    return { course: type, name: type, description: '', dietaryFlags: [], prepTime: 0, ...wines };
+  }
+
+  const pairing = (name: string, fields: Partial<WinePairing> = {}): WinePairing =>
+    ({ name, reasoning: '', ...fields });
+
+  const courses = [
+    course('starter', {
+      cellarWine: pairing('Roero Arneis', { wineId: 'arneis' }),
+      marketWine: pairing('Gavi', { priceRange: { min: 10, max: 15, currency: 'EUR' } }),
+    }),
+    course('main', { marketWine: pairing('Barbaresco', { priceRange: { min: 20, max: 30, currency: 'EUR' } }) }),
+    course('dessert', { marketWine: pairing('Moscato d\'Asti') }),
+  ];
+
+  const arneis: WinePlanEntry = {
+    source: 'cellar',
+    wineId: 'arneis',
+    name: 'Roero Arneis',
+    courseIndexes: [0],
+    bottlesNeeded: 2,
+    availableBottles: 1,
+    shortfall: 1,
+    bottlePrice: { min: 12, max: 12, currency: 'EUR' },
+  };
+
+  it('counts the cellar bottles poured and the wines to buy', () => {
+    const summary = summarizeWineCost(courses, [arneis], 4, resolveWineBudget('standard'));
+
+    expect(summary).toEqual({
+      currency: 'EUR',
+      budgetLevel: 'standard',
+      // 1 Arneis from the cellar
+      cellarValue: 12,
+      // 1 missing Arneis + 1 Barbaresco; the Gavi is only the alternative to the Arneis
+      purchaseCost: { min: 32, max: 42 },
+      total: { min: 44, max: 54 },
+      ceiling: 60,
+      status: 'within',
+      unpricedWines: ['Moscato d\'Asti'],
+    });
+  });
+
+  it('is at risk when only the low estimate fits the ceiling', () => {
+    const summary = summarizeWineCost(courses, [arneis], 4, resolveWineBudget('standard', { perPerson: 12 }));
+    expect(summary).toMatchObject({ ceiling: 48, status: 'at_risk' });
+  });
+
+  it('is over when even the low estimate exceeds the ceiling', () => {
+    const summary = summarizeWineCost(courses, [arneis], 4, resolveWineBudget('economic'));
+    expect(summary).toMatchObject({ ceiling: 32, status: 'over' });
+  });
+
+  it('lists wines without a price, or priced in another currency, once', () => {
+    const unpriced: WinePlanEntry = { ...arneis, bottlePrice: undefined };
+    const swiss = [
+      course('main', { marketWine: pairing('Dôle', { priceRange: { min: 20, max: 25, currency: 'CHF' } }) }),
+      course('side', { marketWine: pairing('Dôle', { priceRange: { min: 20, max: 25, currency: 'CHF' } }) }),
+    ];
+
+    const summary = summarizeWineCost(swiss, [unpriced], 4, resolveWineBudget('standard'));
+    expect(summary).toMatchObject({
+      cellarValue: 0,
+      purchaseCost: { min: 0, max: 0 },
+      unpricedWines: ['Roero Arneis', 'Dôle'],
+    });
+  });
+
+  it('rounds to cents', () => {
+    const entry: WinePlanEntry = {
+      ...arneis,
+      bottlesNeeded: 3,
+      availableBottles: 3,
+      shortfall: 0,
+      bottlePrice: { min: 9.99, max: 9.99, currency: 'EUR' },
+    };
+    expect(summarizeWineCost([], [entry], 4, resolveWineBudget('standard')).cellarValue).toBe(29.97);
+  });
+});
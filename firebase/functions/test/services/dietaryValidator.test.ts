@@ -0,0 +1,178 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+// Only the user language lookup touches Firestore
+jest.mock('firebase-admin/firestore', () => ({
+  ...jest.requireActual<object>('firebase-admin/firestore'),
+  getFirestore: () => ({}),
+}));
+
+import {
+  describeIssue,
+  dietaryCoverage,
+  validateCourse,
+  DietaryGuest
+} from '../../src/services/dietaryValidator';
+import type { FoodPreference, MenuCourse } from '../../src/types';
+
+function course(name: string, fields: Partial<MenuCourse> = {}): MenuCourse {
+  return { course: 'main', name, description: '', dietaryFlags: [], prepTime: 30, ...fields };
+}
+
+function guest(name: string, ...restrictions: [FoodPreference['type'], string][]): DietaryGuest {
+  return {
+    name,
+    preferences: restrictions.map(([type, category], i) => ({ id: `p${i}`, type, category }) as FoodPreference),
+  };
+}
+
+const NUT_ALLERGY = guest('Anna', ['allergy', 'allergia alle noci']);
+const VEGAN = guest('Marco', ['diet', 'vegano']);
+
+describe('aliases', () => {
+  it('resolves a free-text category through its words', () => {
+    const [issue] = validateCourse(course('Torta di noci'), 0, [NUT_ALLERGY]);
+    expect(issue.restriction).toBe('frutta a guscio');
+    expect(issue.matches).toEqual(['noci']);
+    expect(issue.level).toBe('violation');
+  });
+
+  it('resolves English, German and French categories', () => {
+    for (const category of ['nuts', 'Nussallergie', 'noix']) {
+      const [issue] = validateCourse(course('Torta di mandorle'), 0, [guest('Anna', ['allergy', category])]);
+      expect(issue?.restriction).toBe('frutta a guscio');
+    }
+  });
+
+  it('matches unknown categories literally, singular or plural', () => {
+    const [issue] = validateCourse(course('Risotto al fungo porcino'), 0, [guest('Anna', ['intolerance', 'funghi'])]);
+    expect(issue.restriction).toBe('funghi');
+    expect(issue.matches).toEqual(['fungo']);
+  });
+
+  it('ignores dislikes and preferences', () => {
+    const picky = guest('Anna', ['dislike', 'noci'], ['preference', 'noci']);
+    expect(validateCourse(course('Torta di noci'), 0, [picky])).toEqual([]);
+  });
+});
+
+describe('included rules', () => {
+  it('checks a vegan menu for dairy, eggs, meat and fish', () => {
+    const issues = (name: string) => validateCourse(course(name), 0, [VEGAN]);
+
+    expect(issues('Risotto al burro')[0].matches).toEqual(['burro']);
+    expect(issues('Frittata di zucchine')[0].matches).toEqual(['frittata']);
+    expect(issues('Tagliata di manzo')[0].matches).toEqual(['manzo']);
+    expect(issues('Salmone al forno')[0].matches).toEqual(['salmone']);
+    expect(issues('Crostata con miele')[0].matches).toEqual(['miele']);
+    expect(issues('Insalata di ceci')).toEqual([]);
+  });
+});
+
+describe('keywords', () => {
+  it('matches whole words only', () => {
+    const fish = guest('Anna', ['allergy', 'pesce']);
+    expect(validateCourse(course('Pesche sciroppate'), 0, [fish])).toEqual([]);
+    expect(validateCourse(course('Spaghetti al tonno'), 0, [fish])[0].matches).toEqual(['tonno']);
+  });
+
+  it('matches stems as word prefixes', () => {
+    const shellfish = guest('Anna', ['allergy', 'crostacei']);
+    expect(validateCourse(course('Risotto ai gamberetti'), 0, [shellfish])[0].matches).toEqual(['gamberetti']);
+    expect(validateCourse(course('Sgamberi'), 0, [shellfish])).toEqual([]);
+  });
+
+  it('matches German compounds starting with the ingredient', () => {
+    const [issue] = validateCourse(course('Walnusskuchen'), 0, [NUT_ALLERGY], 'de');
+    expect(issue.matches).toEqual(['walnusskuchen']);
+  });
+
+  it('folds French ligatures', () => {
+    const eggs = guest('Anna', ['allergy', 'uova']);
+    expect(validateCourse(course('Œufs mimosa'), 0, [eggs], 'fr')[0].matches).toEqual(['oeufs']);
+  });
+});
+
+describe('safe phrases', () => {
+  const celiac = guest('Anna', ['intolerance', 'celiachia']);
+
+  it('downgrades a hit next to an adapting phrase to a risk', () => {
+    const [issue] = validateCourse(course('Pasta fresca senza glutine al pomodoro'), 0, [celiac]);
+    expect(issue.level).toBe('risk');
+  });
+
+  it('keeps the violation when another hit is not adapted', () => {
+    const [issue] = validateCourse(course('Pasta senza glutine con crostini di pane'), 0, [celiac]);
+    expect(issue.level).toBe('violation');
+  });
+
+  it('keeps the violation when the phrase is far from the hit', () => {
+    const [issue] = validateCourse(
+      course('Lasagne della nonna', { description: 'Un classico, ma con un dolce senza glutine dopo' }),
+      0,
+      [celiac]
+    );
+    expect(issue.level).toBe('violation');
+  });
+
+  it('does not excuse dairy because the course calls itself vegan', () => {
+    const [issue] = validateCourse(
+      course('Risotto vegano al burro', { description: 'Piatto vegano della casa, mantecato al burro' }),
+      0,
+      [VEGAN]
+    );
+    expect(issue.level).toBe('violation');
+  });
+
+  it('downgrades the vegan version of an ingredient', () => {
+    expect(validateCourse(course('Risotto al burro vegano'), 0, [VEGAN])[0].level).toBe('risk');
+    expect(validateCourse(course('Vegan cheese board'), 0, [guest('Anna', ['diet', 'vegan'])], 'en')[0].level)
+      .toBe('risk');
+  });
+});
+
+describe('menus in other languages', () => {
+  it('checks the Italian ingredients of a German course', () => {
+    const tart = course('Tarte mit Füllung', { ingredients: ['farina', 'noci', 'zucchero'] });
+    const [issue] = validateCourse(tart, 0, [NUT_ALLERGY], 'de');
+    expect(issue.level).toBe('violation');
+    expect(issue.matches).toEqual(['noci']);
+  });
+
+  it('catches "Walnuss-Tarte" without ingredients', () => {
+    const [issue] = validateCourse(course('Walnuss-Tarte'), 0, [NUT_ALLERGY], 'de');
+    expect(issue.level).toBe('violation');
+    expect(issue.matches).toEqual(['walnuss']);
+  });
+
+  it('reports a course without ingredients as a risk for every restriction', () => {
+    const issues = validateCourse(
+      course('Spécialité du chef', { description: 'Une surprise de saison' }),
+      0,
+      [NUT_ALLERGY, VEGAN],
+      'fr'
+    );
+    expect(issues.map(i => [i.guestName, i.level, i.matches])).toEqual([
+      ['Anna', 'risk', []],
+      ['Marco', 'risk', []],
+    ]);
+    expect(describeIssue(issues[0], 'fr')).toContain('pas de liste d\'ingrédients');
+  });
+
+  it('trusts an Italian course without ingredients', () => {
+    expect(validateCourse(course('Insalata di stagione'), 0, [NUT_ALLERGY])).toEqual([]);
+  });
+
+  it('counts unverified courses as risks, not violations', () => {
+    const coverage = dietaryCoverage([course('Chef\'s surprise')], [NUT_ALLERGY], 'en');
+    expect(coverage).toEqual({ restrictions: 1, respected: 1, violations: 0, risks: 1 });
+  });
+});
+
+describe('describeIssue', () => {
+  it('names the matched ingredients', () => {
+    const [issue] = validateCourse(course('Torta di noci'), 0, [NUT_ALLERGY]);
+    expect(describeIssue(issue, 'en')).toBe(
+      '⚠️ "Torta di noci" contains noci - not suitable for Anna (allergy: allergia alle noci)'
+    );
+  });
+});
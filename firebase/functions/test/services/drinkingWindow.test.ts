@@ -0,0 +1,113 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  drinkingStatus,
+  drinkingWindowOf,
+  estimateDrinkingWindow,
+  isSameWindow,
+  shouldDrinkSoon
+} from '../../src/services/drinkingWindow';
+import type { DrinkingWindow, Wine } from '../../src/types';
+
+type EstimateInput = Parameters<typeof estimateDrinkingWindow>[0];
+
+function window(wine: EstimateInput): [number, number, number] | null {
+  const estimate = estimateDrinkingWindow(wine);
+  return estimate && [estimate.from, estimate.peak, estimate.to];
+}
+
+describe('estimateDrinkingWindow', () => {
+  it('ages great reds for decades', () => {
+    expect(estimateDrinkingWindow({ name: 'Barolo Cannubi', type: 'red', vintage: 2016 })).toEqual({
+      from: 2022,
+      peak: 2028,
+      to: 2041,
+      source: 'estimated',
+    });
+  });
+
+  it('reads the appellation and the grapes too', () => {
+    expect(window({ name: 'Vigna del Sole', type: 'red', vintage: 2019, grapes: ['Nebbiolo'] }))
+      .toEqual([2020, 2023, 2027]);
+    expect(window({ name: 'Cuvée Anna', type: 'red', vintage: 2019, appellation: 'Pomerol' }))
+      .toEqual([2025, 2031, 2044]);
+  });
+
+  it('matches whole words only', () => {
+    // "Cortona" is not "Corton": a medium-bodied Syrah
+    expect(window({ name: 'Cortona Syrah', type: 'red', vintage: 2020 })).toEqual([2021, 2024, 2028]);
+  });
+
+  it('applies a profile only to the types it is meant for', () => {
+    expect(window({ name: 'Hermitage', type: 'white', vintage: 2019 })).toEqual([2020, 2023, 2029]);
+    expect(window({ name: 'Hermitage', type: 'red', vintage: 2019 })).toEqual([2025, 2031, 2044]);
+  });
+
+  it('falls back to the type default', () => {
+    expect(window({ name: 'Bianco della casa', type: 'white', vintage: 2022 })).toEqual([2022, 2023, 2026]);
+    expect(window({ name: 'Rosato', type: 'rosé', vintage: 2023 })).toEqual([2023, 2024, 2026]);
+  });
+
+  it('gives a still reserve more time', () => {
+    expect(window({ name: 'Chianti Riserva', type: 'red', vintage: 2018 })).toEqual([2020, 2024, 2030]);
+    expect(window({ name: 'Chianti', type: 'red', vintage: 2018 })).toEqual([2019, 2022, 2026]);
+  });
+
+  it('does not shift a reserve twice when the profile names it', () => {
+    expect(window({ name: 'Chianti Classico Riserva', type: 'red', vintage: 2018 })).toEqual([2021, 2025, 2033]);
+  });
+
+  it('leaves sparkling reserves to their profile', () => {
+    expect(window({ name: 'Franciacorta Riserva', type: 'sparkling', vintage: 2015 })).toEqual([2017, 2020, 2027]);
+  });
+
+  it('has no window for non-vintage wines', () => {
+    expect(estimateDrinkingWindow({ name: 'Champagne Brut', type: 'sparkling' })).toBeNull();
+  });
+});
+
+describe('drinkingWindowOf', () => {
+  it('prefers the stored window', () => {
+    const stored: DrinkingWindow = { from: 2030, peak: 2035, to: 2050, source: 'user' };
+    const wine = { name: 'Barolo', type: 'red', vintage: 2016, drinkingWindow: stored } as Wine;
+
+    expect(drinkingWindowOf(wine)).toBe(stored);
+    expect(drinkingWindowOf({ ...wine, drinkingWindow: undefined })).toMatchObject({ from: 2022, source: 'estimated' });
+  });
+});
+
+describe('isSameWindow', () => {
+  it('compares the years and the source', () => {
+    const estimated: DrinkingWindow = { from: 2022, peak: 2028, to: 2041, source: 'estimated' };
+
+    expect(isSameWindow(estimated, { ...estimated })).toBe(true);
+    expect(isSameWindow(estimated, { ...estimated, source: 'user' })).toBe(false);
+    expect(isSameWindow(estimated, { ...estimated, to: 2040 })).toBe(false);
+    expect(isSameWindow(estimated, null)).toBe(false);
+    expect(isSameWindow(undefined, null)).toBe(true);
+  });
+});
+
+describe('drinkingStatus', () => {
+  it('places every year of a long window', () => {
+    // Peak from 2027 through 2028 + round(13 / 3)
+    const barolo: DrinkingWindow = { from: 2022, peak: 2028, to: 2041, source: 'estimated' };
+    const statuses = [2021, 2022, 2026, 2027, 2032, 2033, 2041, 2042].map(year => drinkingStatus(barolo, year));
+
+    expect(statuses).toEqual(['too_young', 'ready', 'ready', 'peak', 'peak', 'declining', 'declining', 'past']);
+  });
+
+  it('keeps at least one year of peak after the peak year', () => {
+    const white: DrinkingWindow = { from: 2023, peak: 2024, to: 2025, source: 'estimated' };
+    expect([2023, 2024, 2025].map(year => drinkingStatus(white, year))).toEqual(['peak', 'peak', 'peak']);
+  });
+});
+
+describe('shouldDrinkSoon', () => {
+  it('flags wines at or past their best', () => {
+    expect(shouldDrinkSoon('too_young')).toBe(false);
+    expect(shouldDrinkSoon('ready')).toBe(false);
+    expect(shouldDrinkSoon('peak')).toBe(true);
+    expect(shouldDrinkSoon('declining')).toBe(true);
+    expect(shouldDrinkSoon('past')).toBe(true);
+  });
+});
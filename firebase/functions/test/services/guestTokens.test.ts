@@ -0,0 +1,118 @@
+import { beforeAll, describe, expect, it } from '@jest/globals';
+import { createHmac } from 'crypto';
+import {
+  createGuestToken,
+  guestTokenKey,
+  isCurrentGuestToken,
+  verifyGuestToken,
+  GuestTokenPayload
+} from '../../src/services/guestTokens';
+
+const SECRET = 'test-secret';
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const PAYLOAD: GuestTokenPayload = {
+  hostId: 'host1',
+  dinnerId: 'dinner1',
+  guestId: 'guest1',
+  version: 1,
+  expiresAt: Math.floor(NOW.getTime() / 1000) + 3600,
+};
+
+/** A token for an arbitrary payload, correctly signed */
+function signed(raw: unknown): string {
+  const data = Buffer.from(JSON.stringify(raw)).toString('base64url');
+  return `${data}.${createHmac('sha256', SECRET).update(data).digest('base64url')}`;
+}
+
+beforeAll(() => {
+  process.env.GUEST_TOKEN_SECRET = SECRET;
+});
+
+describe('verifyGuestToken', () => {
+  it('accepts a token it issued', () => {
+    expect(verifyGuestToken(createGuestToken(PAYLOAD), NOW)).toEqual({ valid: true, payload: PAYLOAD });
+  });
+
+  it('rejects a tampered payload', () => {
+    const [, signature] = createGuestToken(PAYLOAD).split('.');
+    const forged = Buffer.from(JSON.stringify({ h: 'host1', d: 'dinner1', g: 'guest2', v: 1, exp: PAYLOAD.expiresAt }))
+      .toString('base64url');
+    expect(verifyGuestToken(`${forged}.${signature}`, NOW)).toEqual({ valid: false, error: 'bad_signature' });
+  });
+
+  it('rejects a tampered or truncated signature', () => {
+    const [data, signature] = createGuestToken(PAYLOAD).split('.');
+    const flipped = (signature[0] === 'A' ? 'B' : 'A') + signature.slice(1);
+    expect(verifyGuestToken(`${data}.${flipped}`, NOW)).toEqual({ valid: false, error: 'bad_signature' });
+    expect(verifyGuestToken(`${data}.${signature.slice(0, 10)}`, NOW)).toEqual({ valid: false, error: 'bad_signature' });
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const token = createGuestToken(PAYLOAD);
+    process.env.GUEST_TOKEN_SECRET = 'rotated-secret';
+    try {
+      expect(verifyGuestToken(token, NOW)).toEqual({ valid: false, error: 'bad_signature' });
+    } finally {
+      process.env.GUEST_TOKEN_SECRET = SECRET;
+    }
+  });
+
+  it('rejects the wrong number of segments', () => {
+    const token = createGuestToken(PAYLOAD);
+    for (const malformed of ['', 'abc', `${token}.extra`, `.${token.split('.')[1]}`, `${token.split('.')[0]}.`]) {
+      expect(verifyGuestToken(malformed, NOW)).toEqual({ valid: false, error: 'malformed' });
+    }
+  });
+
+  it('rejects expired tokens, from the second of expiry', () => {
+    const token = createGuestToken(PAYLOAD);
+    expect(verifyGuestToken(token, new Date(PAYLOAD.expiresAt * 1000 - 1)).valid).toBe(true);
+    expect(verifyGuestToken(token, new Date(PAYLOAD.expiresAt * 1000))).toEqual({ valid: false, error: 'expired' });
+  });
+
+  it('rejects signed payloads with the wrong field types', () => {
+    const base = { h: 'host1', d: 'dinner1', g: 'guest1', v: 1, exp: PAYLOAD.expiresAt };
+    for (const raw of [
+      { ...base, v: '1' },
+      { ...base, exp: String(PAYLOAD.expiresAt) },
+      { ...base, h: 42 },
+      { ...base, g: undefined },
+      ['host1', 'dinner1'],
+    ]) {
+      expect(verifyGuestToken(signed(raw), NOW)).toEqual({ valid: false, error: 'malformed' });
+    }
+  });
+
+  it('rejects a signed payload that is not JSON', () => {
+    const data = Buffer.from('not json').toString('base64url');
+    const token = `${data}.${createHmac('sha256', SECRET).update(data).digest('base64url')}`;
+    expect(verifyGuestToken(token, NOW)).toEqual({ valid: false, error: 'malformed' });
+  });
+});
+
+describe('token rotation', () => {
+  it('only accepts the latest version issued for the guest', () => {
+    const first = verifyGuestToken(createGuestToken(PAYLOAD), NOW);
+    const second = verifyGuestToken(createGuestToken({ ...PAYLOAD, version: 2 }), NOW);
+    if (!first.valid || !second.valid) throw new Error('tokens should verify');
+
+    expect(isCurrentGuestToken(first.payload, 1)).toBe(true);
+    expect(isCurrentGuestToken(first.payload, 2)).toBe(false);
+    expect(isCurrentGuestToken(second.payload, 2)).toBe(true);
+  });
+
+  it('treats a guest without tokenVersion as never invited', () => {
+    expect(isCurrentGuestToken(PAYLOAD, undefined)).toBe(false);
+    expect(isCurrentGuestToken({ ...PAYLOAD, version: 0 }, undefined)).toBe(true);
+  });
+});
+
+describe('guestTokenKey', () => {
+  it('is stable and does not contain the token', () => {
+    const token = createGuestToken(PAYLOAD);
+    expect(guestTokenKey(token)).toBe(guestTokenKey(token));
+    expect(guestTokenKey(token)).toMatch(/^[0-9a-f]{32}$/);
+    expect(guestTokenKey(createGuestToken({ ...PAYLOAD, version: 2 }))).not.toBe(guestTokenKey(token));
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+// Only the user language lookup touches Firestore
+jest.mock('firebase-admin/firestore', () => ({
+  ...jest.requireActual<object>('firebase-admin/firestore'),
+  getFirestore: () => ({}),
+}));
+
+import { formatNumber, resolveLanguage, t, LANGUAGES, MESSAGES } from '../../src/services/i18n';
+
+/** The distinct {placeholders} of a message, sorted */
+function placeholders(text: string): string[] {
+  return [...new Set([...text.matchAll(/\{(\w+)\}/g)].map(m => m[1]))].sort();
+}
+
+type Key = Parameters<typeof t>[1];
+const KEYS = Object.keys(MESSAGES.it) as Key[];
+
+describe('MESSAGES', () => {
+  it('has the same keys in every language', () => {
+    for (const language of LANGUAGES) {
+      expect(Object.keys(MESSAGES[language]).sort()).toEqual([...KEYS].sort());
+    }
+  });
+
+  it('has the same placeholders in every language', () => {
+    for (const language of LANGUAGES) {
+      for (const key of KEYS) {
+        expect([key, placeholders(MESSAGES[language][key])]).toEqual([key, placeholders(MESSAGES.it[key])]);
+      }
+    }
+  });
+
+  it('has no empty messages', () => {
+    for (const language of LANGUAGES) {
+      for (const key of KEYS) {
+        expect([language, key, MESSAGES[language][key].trim().length > 0]).toEqual([language, key, true]);
+      }
+    }
+  });
+});
+
+describe('t', () => {
+  it('fills every placeholder of every message', () => {
+    for (const language of LANGUAGES) {
+      for (const key of KEYS) {
+        const params = Object.fromEntries(placeholders(MESSAGES[language][key]).map(name => [name, 'x']));
+        expect(t(language, key, params)).not.toMatch(/\{\w+\}/);
+      }
+    }
+  });
+
+  it('replaces a placeholder each time it appears', () => {
+    // Every occurrence, not just the first
+    const message = MESSAGES.it.bottleMany;
+    try {
+      MESSAGES.it.bottleMany = '{count} bottiglie, {count} in tutto';
+      expect(t('it', 'bottleMany', { count: 3 })).toBe('3 bottiglie, 3 in tutto');
+    } finally {
+      MESSAGES.it.bottleMany = message;
+    }
+  });
+
+  it('leaves unknown placeholders as they are', () => {
+    expect(t('en', 'dinnerClosed')).toBe('The dinner is already over or cancelled');
+    expect(t('en', 'courseNotFound')).toBe('Course {number} does not exist');
+    expect(t('de', 'courseNotFound', { number: 0 })).toBe('Gang 0 existiert nicht');
+  });
+});
+
+describe('resolveLanguage', () => {
+  it('reads the primary subtag and falls back to Italian', () => {
+    expect(resolveLanguage('de-CH')).toBe('de');
+    expect(resolveLanguage('FR_be')).toBe('fr');
+    expect(resolveLanguage('es')).toBe('it');
+    expect(resolveLanguage(undefined)).toBe('it');
+  });
+});
+
+describe('formatNumber', () => {
+  it('uses the separators of the language', () => {
+    expect(formatNumber(1234.5, 'it')).toBe('1234,5');
+    expect(formatNumber(1234.5, 'en')).toBe('1,234.5');
+    expect(formatNumber(1.255, 'de')).toBe('1,26');
+  });
+});
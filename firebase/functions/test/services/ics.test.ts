@@ -0,0 +1,119 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildCalendar, IcsEvent } from '../../src/services/ics';
+
+const NOW = new Date('2025-06-01T10:00:00Z');
+
+const EVENT: IcsEvent = {
+  uid: 'dinner1-serve-0@convivio',
+  start: new Date('2025-06-14T18:30:00Z'),
+  end: new Date('2025-06-14T18:40:00Z'),
+  summary: 'Servi: Antipasto',
+};
+
+function calendar(events: IcsEvent[], name = 'Cena'): string {
+  return buildCalendar({ name, events }, NOW);
+}
+
+/** Content lines with the folding undone */
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('buildCalendar', () => {
+  it('writes the events in UTC with CRLF line endings', () => {
+    const ics = calendar([{ ...EVENT, alarmMinutesBefore: 10 }]);
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(ics.split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Convivio//Convivio Cloud Functions//IT',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Cena',
+      'BEGIN:VEVENT',
+      'UID:dinner1-serve-0@convivio',
+      'DTSTAMP:20250601T100000Z',
+      'DTSTART:20250614T183000Z',
+      'DTEND:20250614T184000Z',
+      'SUMMARY:Servi: Antipasto',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:Servi: Antipasto',
+      'TRIGGER:-PT10M',
+      'END:VALARM',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('omits the alarm, description and location when not given', () => {
+    const ics = calendar([EVENT]);
+    expect(ics).not.toContain('VALARM');
+    expect(ics).not.toContain('DESCRIPTION');
+    expect(ics).not.toContain('LOCATION');
+  });
+
+  it('never sets an alarm after the start', () => {
+    expect(calendar([{ ...EVENT, alarmMinutesBefore: -5 }])).toContain('TRIGGER:-PT0M');
+    expect(calendar([{ ...EVENT, alarmMinutesBefore: 7.6 }])).toContain('TRIGGER:-PT8M');
+  });
+});
+
+describe('text escaping', () => {
+  it('escapes backslashes, semicolons, commas and newlines', () => {
+    const lines = unfold(calendar([{
+      ...EVENT,
+      summary: 'Servi: Tartare, crostini; salsa \\ erbe',
+      description: 'Vino: Barolo a 16-18°C\r\nVino: Moscato a 6-8°C\nfine',
+      location: 'Via Roma 1, Torino',
+    }], 'Cena; 14, giugno'));
+
+    expect(lines).toContain('X-WR-CALNAME:Cena\\; 14\\, giugno');
+    expect(lines).toContain('SUMMARY:Servi: Tartare\\, crostini\\; salsa \\\\ erbe');
+    expect(lines).toContain('DESCRIPTION:Vino: Barolo a 16-18°C\\nVino: Moscato a 6-8°C\\nfine');
+    expect(lines).toContain('LOCATION:Via Roma 1\\, Torino');
+  });
+});
+
+describe('line folding', () => {
+  it('folds lines longer than 75 octets', () => {
+    const summary = 'Inizia a preparare: ' + 'tagliatelle al ragù '.repeat(6);
+    const ics = calendar([{ ...EVENT, summary }]);
+
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(ics)).toContain(`SUMMARY:${summary}`);
+  });
+
+  it('does not split multi-byte characters', () => {
+    // "è" is 2 octets: 8 + 33 * 2 = 74, one more would make 76
+    const ics = calendar([{ ...EVENT, summary: 'è'.repeat(40) }]);
+    const lines = ics.split('\r\n');
+    const start = lines.findIndex(l => l.startsWith('SUMMARY:'));
+
+    expect(lines[start]).toBe('SUMMARY:' + 'è'.repeat(33));
+    expect(lines[start + 1]).toBe(' ' + 'è'.repeat(7));
+  });
+
+  it('keeps 4-octet characters whole, counting the leading space of continuations', () => {
+    const summary = '🍷'.repeat(40);
+    const ics = calendar([{ ...EVENT, summary }]);
+    const lines = ics.split('\r\n');
+    const start = lines.findIndex(l => l.startsWith('SUMMARY:'));
+
+    // 8 + 16 * 4 = 72, then 1 + 18 * 4 = 73 per continuation
+    expect(lines[start]).toBe('SUMMARY:' + '🍷'.repeat(16));
+    expect(lines[start + 1]).toBe(' ' + '🍷'.repeat(18));
+    expect(lines[start + 2]).toBe(' ' + '🍷'.repeat(6));
+    expect(unfold(ics)).toContain(`SUMMARY:${summary}`);
+  });
+
+  it('leaves a line of exactly 75 octets unfolded', () => {
+    const summary = 'a'.repeat(75 - 'SUMMARY:'.length);
+    expect(calendar([{ ...EVENT, summary }]).split('\r\n')).toContain(`SUMMARY:${summary}`);
+  });
+});
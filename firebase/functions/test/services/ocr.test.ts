@@ -0,0 +1,116 @@
+import { afterAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createHash } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const BUCKET = 'convivio-test.appspot.com';
+
+// In-memory Storage: "bucket/path" -> contents
+const mockObjects = new Map<string, Buffer>();
+
+jest.mock('firebase-admin/storage', () => ({
+  getStorage: () => ({
+    bucket: (name = 'convivio-test.appspot.com') => ({
+      name,
+      file: (path: string) => ({
+        exists: async () => [mockObjects.has(`${name}/${path}`)],
+        download: async () => {
+          const contents = mockObjects.get(`${name}/${path}`);
+          if (!contents) throw new Error(`No such object: ${name}/${path}`);
+          return [contents];
+        },
+      }),
+    }),
+  }),
+}));
+
+import { normalizedImageUrl, resolveUserObjectUrl } from '../../src/services/images';
+import { createFixtureOcrProvider, getOcrProvider } from '../../src/services/ocr';
+
+const LABEL = Buffer.from('front label bytes');
+const RECEIPT = Buffer.from('receipt bytes');
+
+const fixturesDir = mkdtempSync(join(tmpdir(), 'ocr-fixtures-'));
+const fixturesPath = join(fixturesDir, 'fixtures.json');
+writeFileSync(fixturesPath, JSON.stringify({
+  [createHash('sha256').update(RECEIPT).digest('hex')]: 'ENOTECA ROSSI\nBarolo 2018 x2 45,00',
+}));
+
+afterAll(() => rmSync(fixturesDir, { recursive: true, force: true }));
+
+beforeEach(() => {
+  mockObjects.clear();
+  mockObjects.set(`${BUCKET}/users/u1/photos/p1.jpg`, LABEL);
+  mockObjects.set(`${BUCKET}/users/u1/photos/p1.jpg.ocr.txt`, Buffer.from('Brunello di Montalcino\nBiondi-Santi 2016'));
+  mockObjects.set(`${BUCKET}/users/u1/receipts/r1.pdf`, RECEIPT);
+  mockObjects.set(`other-bucket/users/u1/receipts/r1.pdf`, RECEIPT);
+});
+
+describe('fixture OCR provider', () => {
+  const provider = createFixtureOcrProvider(fixturesPath);
+
+  it('reads the sidecar text uploaded next to the photo', async () => {
+    await expect(provider.detectText(`gs://${BUCKET}/users/u1/photos/p1.jpg`))
+      .resolves.toBe('Brunello di Montalcino\nBiondi-Santi 2016');
+  });
+
+  it('falls back to the fixture table keyed by image hash', async () => {
+    await expect(provider.detectDocumentText(`gs://${BUCKET}/users/u1/receipts/r1.pdf`, 'application/pdf'))
+      .resolves.toBe('ENOTECA ROSSI\nBarolo 2018 x2 45,00');
+  });
+
+  it('returns no text for unknown images', async () => {
+    mockObjects.set(`${BUCKET}/users/u1/photos/p2.jpg`, Buffer.from('unknown'));
+    await expect(provider.detectText(`gs://${BUCKET}/users/u1/photos/p2.jpg`)).resolves.toBe('');
+  });
+
+  it('never reads objects outside the project bucket', async () => {
+    await expect(provider.detectText('gs://other-bucket/users/u1/receipts/r1.pdf')).rejects.toThrow();
+    await expect(provider.detectText('https://example.com/label.jpg')).rejects.toThrow();
+  });
+
+  it('is selected with OCR_PROVIDER=fixture', async () => {
+    process.env.OCR_PROVIDER = 'fixture';
+    process.env.OCR_FIXTURES_PATH = fixturesPath;
+
+    const selected = getOcrProvider();
+    expect(selected.name).toBe('fixture');
+    await expect(selected.detectText(`gs://${BUCKET}/users/u1/receipts/r1.pdf`))
+      .resolves.toBe('ENOTECA ROSSI\nBarolo 2018 x2 45,00');
+  });
+});
+
+describe('resolveUserObjectUrl', () => {
+  it('accepts the caller\'s uploads and returns their gs:// URL', () => {
+    expect(resolveUserObjectUrl(
+      `https://firebasestorage.googleapis.com/v0/b/${BUCKET}/o/users%2Fu1%2Fphotos%2Fp1.jpg?alt=media&token=abc`,
+      'u1'
+    )).toBe(`gs://${BUCKET}/users/u1/photos/p1.jpg`);
+    expect(resolveUserObjectUrl(`gs://${BUCKET}/users/u1/receipts/r1.pdf`, 'u1'))
+      .toBe(`gs://${BUCKET}/users/u1/receipts/r1.pdf`);
+  });
+
+  it('rejects other users\' files, other buckets and web URLs', () => {
+    expect(resolveUserObjectUrl(`gs://${BUCKET}/users/u2/photos/p1.jpg`, 'u1')).toBeNull();
+    expect(resolveUserObjectUrl(`gs://${BUCKET}/users/u10/photos/p1.jpg`, 'u1')).toBeNull();
+    expect(resolveUserObjectUrl('gs://other-bucket/users/u1/receipts/r1.pdf', 'u1')).toBeNull();
+    expect(resolveUserObjectUrl('http://169.254.169.254/computeMetadata/v1/', 'u1')).toBeNull();
+  });
+});
+
+describe('normalizedImageUrl', () => {
+  it('prefers the normalized copy of an uploaded photo', async () => {
+    await expect(normalizedImageUrl(`gs://${BUCKET}/users/u1/photos/p1.jpg`))
+      .resolves.toBe(`gs://${BUCKET}/users/u1/photos/p1.jpg`);
+
+    mockObjects.set(`${BUCKET}/users/u1/thumbnails/p1_normalized.jpg`, LABEL);
+    await expect(normalizedImageUrl(`gs://${BUCKET}/users/u1/photos/p1.jpg`))
+      .resolves.toBe(`gs://${BUCKET}/users/u1/thumbnails/p1_normalized.jpg`);
+  });
+
+  it('leaves other files alone', async () => {
+    await expect(normalizedImageUrl(`gs://${BUCKET}/users/u1/receipts/r1.pdf`))
+      .resolves.toBe(`gs://${BUCKET}/users/u1/receipts/r1.pdf`);
+  });
+});
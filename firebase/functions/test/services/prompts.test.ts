@@ -0,0 +1,87 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+// services/shopping loads the message catalog, whose language lookup uses Firestore
+jest.mock('firebase-admin/firestore', () => ({
+  ...jest.requireActual<object>('firebase-admin/firestore'),
+  getFirestore: () => ({}),
+}));
+
+import { LANGUAGES } from '../../src/services/i18n';
+import {
+  promptText,
+  COURSE_PROMPTS,
+  EXTRACTION_PROMPTS,
+  INGREDIENTS_PROMPTS,
+  PROMPT_TEXTS,
+  PROPOSAL_PROMPTS,
+  RECEIPT_PROMPTS,
+  WINE_LIST_PROMPTS
+} from '../../src/services/prompts';
+import { SHOPPING_SECTION_LABELS, SHOPPING_SECTIONS } from '../../src/services/shopping';
+
+/** Every {placeholder} of a text, sorted, repeats included */
+function placeholders(text: string): string[] {
+  return [...text.matchAll(/\{(\w+)\}/g)].map(m => m[1]).sort();
+}
+
+type Key = Parameters<typeof promptText>[1];
+const KEYS = Object.keys(PROMPT_TEXTS.it) as Key[];
+
+describe('PROMPT_TEXTS', () => {
+  it('has the same keys in every language', () => {
+    for (const language of LANGUAGES) {
+      expect(Object.keys(PROMPT_TEXTS[language]).sort()).toEqual([...KEYS].sort());
+    }
+  });
+
+  it('has the same placeholders in every language', () => {
+    for (const language of LANGUAGES) {
+      for (const key of KEYS) {
+        expect([key, placeholders(PROMPT_TEXTS[language][key])]).toEqual([key, placeholders(PROMPT_TEXTS.it[key])]);
+      }
+    }
+  });
+});
+
+describe('promptText', () => {
+  it('fills every placeholder of every fragment', () => {
+    for (const language of LANGUAGES) {
+      for (const key of KEYS) {
+        const params = Object.fromEntries(placeholders(PROMPT_TEXTS[language][key]).map(name => [name, 'x']));
+        expect(promptText(language, key, params)).not.toMatch(/\{\w+\}/);
+      }
+    }
+  });
+
+  it('replaces a placeholder each time it appears', () => {
+    const text = promptText('en', 'budget', { level: 'Medium', min: 15, max: 30, ceiling: 120, currency: 'EUR', people: 6 });
+    expect(text).toBe('Medium - bottles to buy between 15 and 30 EUR; total wine spend within 120 EUR for 6 people');
+  });
+
+  it('leaves unknown placeholders as they are', () => {
+    expect(promptText('it', 'menuTheme')).toBe('TEMA DEL MENU: {theme} (rispettalo in tutte le portate)');
+  });
+});
+
+describe.each([
+  ['EXTRACTION_PROMPTS', EXTRACTION_PROMPTS],
+  ['WINE_LIST_PROMPTS', WINE_LIST_PROMPTS],
+  ['RECEIPT_PROMPTS', RECEIPT_PROMPTS],
+  ['PROPOSAL_PROMPTS', PROPOSAL_PROMPTS],
+  ['COURSE_PROMPTS', COURSE_PROMPTS],
+  ['INGREDIENTS_PROMPTS', INGREDIENTS_PROMPTS],
+])('%s', (_name, prompts) => {
+  it('has the placeholders of the Italian prompt, as many times, in every language', () => {
+    for (const language of LANGUAGES) {
+      expect([language, placeholders(prompts[language])]).toEqual([language, placeholders(prompts.it)]);
+    }
+  });
+});
+
+describe('SHOPPING_SECTION_LABELS', () => {
+  it('names every section in every language', () => {
+    for (const language of LANGUAGES) {
+      expect(Object.keys(SHOPPING_SECTION_LABELS[language]).sort()).toEqual([...SHOPPING_SECTIONS].sort());
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+// In-memory Firestore: document path -> data
+const mockDocs = new Map<string, Record<string, unknown>>();
+
+jest.mock('firebase-admin/firestore', () => {
+  const actual = jest.requireActual<typeof import('firebase-admin/firestore')>('firebase-admin/firestore');
+  return {
+    ...actual,
+    getFirestore: () => ({
+      collection: (collection: string) => ({
+        doc: (id: string) => ({ path: `${collection}/${id}` }),
+      }),
+      runTransaction: async <T>(fn: (tx: unknown) => Promise<T>) => fn({
+        get: async (ref: { path: string }) => ({ data: () => mockDocs.get(ref.path) }),
+        set: (ref: { path: string }, data: Record<string, unknown>) => { mockDocs.set(ref.path, data); },
+      }),
+    }),
+  };
+});
+
+import { Timestamp } from 'firebase-admin/firestore';
+import { consumeRateLimit, rateLimitKey } from '../../src/services/rateLimit';
+
+const LIMIT = { limit: 3, windowSeconds: 60 };
+const START = Date.parse('2025-06-01T12:00:00Z');
+
+let now = START;
+
+beforeEach(() => {
+  mockDocs.clear();
+  now = START;
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+async function consume(times: number, key = 'ip_a'): Promise<boolean[]> {
+  const results: boolean[] = [];
+  for (let i = 0; i < times; i++) results.push(await consumeRateLimit(key, LIMIT));
+  return results;
+}
+
+describe('consumeRateLimit', () => {
+  it('allows the limit within a window, then refuses', async () => {
+    expect(await consume(4)).toEqual([true, true, true, false]);
+    expect(mockDocs.get('rateLimits/ip_a')).toMatchObject({ count: 3 });
+  });
+
+  it('does not count refused requests', async () => {
+    await consume(10);
+    expect(mockDocs.get('rateLimits/ip_a')).toMatchObject({ count: 3 });
+  });
+
+  it('starts a new window once the previous one has elapsed', async () => {
+    await consume(3);
+
+    now = START + 59_999;
+    expect(await consume(1)).toEqual([false]);
+
+    now = START + 60_000;
+    expect(await consume(4)).toEqual([true, true, true, false]);
+
+    const counter = mockDocs.get('rateLimits/ip_a') as { windowStart: Timestamp; expiresAt: Timestamp };
+    expect(counter.windowStart.toMillis()).toBe(START + 60_000);
+    expect(counter.expiresAt.toMillis()).toBe(START + 120_000);
+  });
+
+  it('keeps the window start while counting, so the window does not slide', async () => {
+    await consume(1);
+    now = START + 30_000;
+    await consume(1);
+
+    const counter = mockDocs.get('rateLimits/ip_a') as { count: number; windowStart: Timestamp };
+    expect(counter.count).toBe(2);
+    expect(counter.windowStart.toMillis()).toBe(START);
+  });
+
+  it('counts keys separately', async () => {
+    await consume(3, 'ip_a');
+    expect(await consume(1, 'ip_b')).toEqual([true]);
+  });
+});
+
+describe('rateLimitKey', () => {
+  it('hashes the value under its scope', () => {
+    const key = rateLimitKey('rsvp_ip', '203.0.113.7');
+    expect(key).toMatch(/^rsvp_ip_[0-9a-f]{32}$/);
+    expect(key).not.toContain('203.0.113.7');
+    expect(rateLimitKey('rsvp_ip', '203.0.113.8')).not.toBe(key);
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+// Only the user language lookup touches Firestore
+jest.mock('firebase-admin/firestore', () => ({
+  ...jest.requireActual<object>('firebase-admin/firestore'),
+  getFirestore: () => ({}),
+}));
+
+import { Timestamp } from 'firebase-admin/firestore';
+import {
+  buildIngredientItems,
+  buildWineItems,
+  carryOverChecked,
+  formatQuantity,
+  renderShoppingList,
+  sortShoppingItems,
+  CourseIngredient
+} from '../../src/services/shopping';
+import type { ShoppingItem, ShoppingList } from '../../src/types';
+
+function ingredient(name: string, fields: Partial<CourseIngredient> = {}): CourseIngredient {
+  return { courseIndex: 0, name, perPerson: true, section: 'pantry', ...fields };
+}
+
+function byName(items: ShoppingItem[]): Record<string, ShoppingItem> {
+  return Object.fromEntries(items.map(item => [item.name, item]));
+}
+
+describe('buildIngredientItems', () => {
+  it('scales per-person quantities to the party size', () => {
+    const [spaghetti] = buildIngredientItems([ingredient('spaghetti', { quantity: 100, unit: 'g' })], 6);
+    expect(spaghetti).toMatchObject({ quantity: 600, unit: 'g', courseIndexes: [0], checked: false });
+  });
+
+  it('keeps whole-dish quantities as they are', () => {
+    const [basil] = buildIngredientItems(
+      [ingredient('basilico', { quantity: 1, unit: 'pz', perPerson: false, section: 'produce' })],
+      8
+    );
+    expect(basil).toMatchObject({ quantity: 1, unit: 'pz', section: 'produce' });
+  });
+
+  it('converts to base units', () => {
+    const items = byName(buildIngredientItems([
+      ingredient('farina', { quantity: 0.2, unit: 'kg' }),
+      ingredient('brodo', { quantity: 1, unit: 'dl' }),
+      ingredient('latte', { quantity: 1.5, unit: 'l', perPerson: false }),
+      ingredient('parmigiano', { quantity: 0.5, unit: 'etti' }),
+    ], 4));
+
+    expect(items.farina).toMatchObject({ quantity: 800, unit: 'g' });
+    expect(items.brodo).toMatchObject({ quantity: 400, unit: 'ml' });
+    expect(items.latte).toMatchObject({ quantity: 1500, unit: 'ml' });
+    expect(items.parmigiano).toMatchObject({ quantity: 200, unit: 'g' });
+  });
+
+  it('merges the same ingredient across courses', () => {
+    const items = buildIngredientItems([
+      ingredient('burro', { courseIndex: 0, quantity: 20, unit: 'g', section: 'dairy', notes: 'DOP' }),
+      ingredient('Burro', { courseIndex: 2, quantity: 30, unit: 'g', section: 'dairy', notes: 'di panna' }),
+      ingredient('burro', { courseIndex: 2, quantity: 10, unit: 'g', section: 'dairy', notes: 'DOP' }),
+    ], 6);
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      name: 'burro',
+      quantity: 360,
+      unit: 'g',
+      courseIndexes: [0, 2],
+      notes: 'DOP; di panna',
+    });
+  });
+
+  it('keeps the same ingredient in different units apart', () => {
+    const items = buildIngredientItems([
+      ingredient('limone', { quantity: 1, unit: 'pz' }),
+      ingredient('limone', { quantity: 10, unit: 'ml' }),
+    ], 2);
+    expect(items.map(i => i.unit).sort()).toEqual(['ml', 'pz']);
+  });
+
+  it('merges "q.b." items without a quantity', () => {
+    const items = buildIngredientItems([
+      ingredient('sale', { courseIndex: 0, unit: 'qb', perPerson: false }),
+      ingredient('sale', { courseIndex: 1, unit: 'q.b.', perPerson: false }),
+      ingredient('pepe', { courseIndex: 1, quantity: 0, unit: 'g' }),
+    ], 4);
+
+    expect(byName(items).sale).toMatchObject({ unit: 'qb', courseIndexes: [0, 1] });
+    expect(byName(items).sale.quantity).toBeUndefined();
+    expect(byName(items).pepe).toMatchObject({ unit: 'qb' });
+    expect('quantity' in byName(items).pepe).toBe(false);
+  });
+
+  it('rounds merged quantities to amounts you can buy', () => {
+    const items = byName(buildIngredientItems([
+      ingredient('uova', { quantity: 0.5, unit: 'pz', section: 'dairy' }),
+      ingredient('zucchero', { quantity: 3, unit: 'g' }),
+      ingredient('riso', { quantity: 87, unit: 'g' }),
+      ingredient('farina', { quantity: 133, unit: 'g' }),
+      ingredient('patate', { quantity: 412, unit: 'g', section: 'produce' }),
+    ], 5));
+
+    expect(items.uova.quantity).toBe(3);
+    expect(items.zucchero.quantity).toBe(15);
+    expect(items.riso.quantity).toBe(440);
+    expect(items.farina.quantity).toBe(670);
+    expect(items.patate.quantity).toBe(2050);
+  });
+
+  it('puts unknown sections under "other" and skips unnamed ingredients', () => {
+    const items = buildIngredientItems([
+      ingredient('zafferano', { quantity: 1, unit: 'pz', section: 'spezie' }),
+      ingredient('  ', { quantity: 1, unit: 'pz' }),
+    ], 2);
+    expect(items).toHaveLength(1);
+    expect(items[0].section).toBe('other');
+  });
+
+  it('gives the same id to the same item across regenerations', () => {
+    const [first] = buildIngredientItems([ingredient('Pecorino romano', { quantity: 30, unit: 'g' })], 4);
+    const [second] = buildIngredientItems([ingredient('pecorino  Romano', { quantity: 50, unit: 'g' })], 6);
+    expect(second.id).toBe(first.id);
+  });
+});
+
+describe('buildWineItems', () => {
+  it('lists the bottles to buy in the wine section', () => {
+    const [item] = buildWineItems([
+      { name: 'Barolo', details: 'Nebbiolo, Piemonte', courseIndexes: [2, 3], glasses: 12, bottles: 2 },
+    ]);
+    expect(item).toMatchObject({
+      name: 'Barolo',
+      quantity: 2,
+      unit: 'bottle',
+      section: 'wine',
+      courseIndexes: [2, 3],
+      notes: 'Nebbiolo, Piemonte',
+      checked: false,
+    });
+  });
+});
+
+describe('carryOverChecked', () => {
+  it('keeps the ticks of items still on the list', () => {
+    const [butter, flour] = buildIngredientItems([
+      ingredient('burro', { quantity: 20, unit: 'g' }),
+      ingredient('farina', { quantity: 50, unit: 'g' }),
+    ], 4);
+    const previous: ShoppingList = {
+      items: [{ ...butter, checked: true }, { ...flour, id: 'gone', checked: true }],
+      partySize: 4,
+      generatedAt: Timestamp.fromMillis(0),
+      updatedAt: Timestamp.fromMillis(0),
+    };
+
+    const items = carryOverChecked([butter, flour], previous);
+    expect(items.map(i => [i.name, i.checked])).toEqual([['burro', true], ['farina', false]]);
+    expect(carryOverChecked([butter])).toEqual([butter]);
+  });
+});
+
+describe('sortShoppingItems', () => {
+  it('orders by store section, then by name', () => {
+    const items = buildIngredientItems([
+      ingredient('vino bianco per cucinare', { quantity: 100, unit: 'ml', perPerson: false, section: 'other' }),
+      ingredient('zucchine', { quantity: 1, unit: 'pz', section: 'produce' }),
+      ingredient('spaghetti', { quantity: 100, unit: 'g', section: 'pantry' }),
+      ingredient('aglio', { quantity: 1, unit: 'pz', perPerson: false, section: 'produce' }),
+    ], 2);
+    const wines = buildWineItems([{ name: 'Vermentino', courseIndexes: [0], glasses: 2, bottles: 1 }]);
+
+    expect(sortShoppingItems([...items, ...wines]).map(i => i.name)).toEqual([
+      'aglio', 'zucchine', 'spaghetti', 'Vermentino', 'vino bianco per cucinare',
+    ]);
+  });
+});
+
+describe('formatQuantity', () => {
+  it('writes quantities in the user\'s language', () => {
+    expect(formatQuantity({ quantity: 1250, unit: 'g' }, 'it')).toBe('1,25 kg');
+    expect(formatQuantity({ quantity: 1250, unit: 'g' }, 'en')).toBe('1.25 kg');
+    expect(formatQuantity({ quantity: 750, unit: 'ml' }, 'de')).toBe('750 ml');
+    expect(formatQuantity({ quantity: 1500, unit: 'ml' }, 'fr')).toBe('1,5 l');
+    expect(formatQuantity({ quantity: 3, unit: 'pz' }, 'de')).toBe('3 Stk.');
+    expect(formatQuantity({ unit: 'qb' }, 'it')).toBe('q.b.');
+    expect(formatQuantity({ unit: 'qb' }, 'en')).toBe('to taste');
+    expect(formatQuantity({ quantity: 1, unit: 'bottle' }, 'it')).toBe('1 bottiglia');
+    expect(formatQuantity({ quantity: 4, unit: 'bottle' }, 'fr')).toBe('4 bouteilles');
+  });
+});
+
+describe('renderShoppingList', () => {
+  const items = sortShoppingItems([
+    ...buildIngredientItems([
+      ingredient('basil', { quantity: 1, unit: 'pz', perPerson: false, section: 'produce' }),
+      ingredient('salt', { unit: 'qb', perPerson: false }),
+    ], 4),
+    ...buildWineItems([{ name: 'Barolo', details: 'Nebbiolo', courseIndexes: [1], glasses: 8, bottles: 2 }])
+      .map(item => ({ ...item, checked: true })),
+  ]);
+  const list: ShoppingList = {
+    items,
+    partySize: 4,
+    generatedAt: Timestamp.fromMillis(0),
+    updatedAt: Timestamp.fromMillis(0),
+  };
+
+  it('renders Markdown with the checked items on request', () => {
+    expect(renderShoppingList(list, 'markdown', { title: 'Shopping for Friday', language: 'en', includeChecked: true }))
+      .toBe([
+        '# Shopping for Friday',
+        'Quantities for 4 people',
+        '',
+        '## Fruit and vegetables',
+        '- [ ] basil - 1 pcs',
+        '',
+        '## Pantry',
+        '- [ ] salt - to taste',
+        '',
+        '## Wines',
+        '- [x] Barolo - 2 bottles (Nebbiolo)',
+        '',
+      ].join('\n'));
+  });
+
+  it('renders plain text without the checked items', () => {
+    expect(renderShoppingList(list, 'text', { title: 'Spesa per venerdì', language: 'it' })).toBe([
+      'SPESA PER VENERDÌ',
+      'Quantità per 4 persone',
+      '',
+      'Frutta e verdura:',
+      '[ ] basil - 1 pz',
+      '',
+      'Dispensa:',
+      '[ ] salt - q.b.',
+      '',
+    ].join('\n'));
+  });
+
+  it('says when there is nothing left to buy', () => {
+    const done = { ...list, items: items.map(item => ({ ...item, checked: true })) };
+    expect(renderShoppingList(done, 'text', { title: 'Einkauf', language: 'de' }))
+      .toBe('EINKAUF\nMengen für 4 Personen\n\nNichts einzukaufen.\n');
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+// Only the user language lookup touches Firestore
+jest.mock('firebase-admin/firestore', () => ({
+  ...jest.requireActual<object>('firebase-admin/firestore'),
+  getFirestore: () => ({}),
+}));
+
+import { Timestamp } from 'firebase-admin/firestore';
+import {
+  buildTimelineSteps,
+  isValidTimeZone,
+  resolveDinnerTime,
+  TimelineWine
+} from '../../src/services/timeline';
+import type { CourseType, MenuCourse, MenuProposal } from '../../src/types';
+
+const ROME = 'Europe/Rome';
+
+describe('resolveDinnerTime', () => {
+  it('reads the time on the local calendar day of a date-only picker', () => {
+    // Midnight in Rome, summer time
+    const date = new Date('2025-06-13T22:00:00Z');
+    expect(resolveDinnerTime(date, '20:30', ROME).toISOString()).toBe('2025-06-14T18:30:00.000Z');
+    expect(resolveDinnerTime(date, '9.15', ROME).toISOString()).toBe('2025-06-14T07:15:00.000Z');
+  });
+
+  it('uses the offset of the dinner time on the day summer time starts', () => {
+    // Stored at midnight CET (+1); at 20:00 Rome is on CEST (+2)
+    const date = new Date('2025-03-29T23:00:00Z');
+    expect(resolveDinnerTime(date, '20:00', ROME).toISOString()).toBe('2025-03-30T18:00:00.000Z');
+  });
+
+  it('uses the offset of the dinner time on the day summer time ends', () => {
+    // Stored at midnight CEST (+2); at 20:00 Rome is back on CET (+1)
+    const date = new Date('2025-10-25T22:00:00Z');
+    expect(resolveDinnerTime(date, '20:00', ROME).toISOString()).toBe('2025-10-26T19:00:00.000Z');
+  });
+
+  it('follows the time zone of the dinner', () => {
+    // Midnight in New York, daylight time (-4)
+    const date = new Date('2025-07-04T04:00:00Z');
+    expect(resolveDinnerTime(date, '19:00', 'America/New_York').toISOString()).toBe('2025-07-04T23:00:00.000Z');
+  });
+
+  it('defaults a date-only dinner to 20:00', () => {
+    const date = new Date('2025-12-19T23:00:00Z');
+    expect(resolveDinnerTime(date, undefined, ROME).toISOString()).toBe('2025-12-20T19:00:00.000Z');
+    expect(resolveDinnerTime(date, 'dopo cena', ROME).toISOString()).toBe('2025-12-20T19:00:00.000Z');
+  });
+
+  it('keeps a date that already carries a time', () => {
+    const date = new Date('2025-12-20T19:45:00Z');
+    expect(resolveDinnerTime(date, undefined, ROME)).toBe(date);
+    expect(resolveDinnerTime(date, '25:00', ROME)).toBe(date);
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names only', () => {
+    expect(isValidTimeZone('Europe/Rome')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+});
+
+describe('buildTimelineSteps', () => {
+  const DINNER = new Date('2025-06-14T18:00:00Z');
+  const at = (minutes: number) => new Date(DINNER.getTime() + minutes * 60000).toISOString();
+
+  function course(type: CourseType, name: string, prepTime: number): MenuCourse {
+    return { course: type, name, description: `${name}, description`, dietaryFlags: [], prepTime };
+  }
+
+  const menu = {
+    courses: [
+      course('starter', 'Vitello tonnato', 20),
+      course('first', 'Tajarin al burro', 40),
+      course('main', 'Brasato al Barolo', 0),
+      course('side', 'Patate al forno', 10),
+      course('dessert', 'Bonet', 60),
+    ],
+    reasoning: '',
+    seasonContext: '',
+    guestConsiderations: [],
+    totalPrepTime: 130,
+    generatedAt: Timestamp.fromMillis(0),
+  } as MenuProposal;
+
+  const wines: TimelineWine[] = [
+    {
+      wineId: 'arneis',
+      name: 'Roero Arneis',
+      courseIndexes: [0, 1],
+      bottles: 1,
+      guide: { temperatureMin: 8, temperatureMax: 10, glass: 'Calice da bianco', chillMinutes: 120 },
+      location: 'Cantina - Scaffale A',
+    },
+    {
+      wineId: 'barolo',
+      name: 'Barolo',
+      courseIndexes: [2],
+      bottles: 2,
+      guide: { temperatureMin: 16, temperatureMax: 18, glass: 'Ballon', restMinutes: 90, decantMinutes: 60 },
+    },
+    {
+      name: 'Moscato d\'Asti',
+      courseIndexes: [4],
+      bottles: 1,
+      guide: { temperatureMin: 14, temperatureMax: 16, glass: 'Calice piccolo', restMinutes: 30 },
+    },
+  ];
+
+  const steps = buildTimelineSteps(menu, DINNER, wines, 'en');
+
+  it('schedules every step back from the dinner time, in order', () => {
+    expect(steps.map(s => [s.id, s.at.toDate().toISOString()])).toEqual([
+      ['chill-arneis', at(-120)],
+      ['fetch-barolo', at(-35)],
+      ['cook-0', at(-20)],
+      ['cook-1', at(-15)],
+      ['decant-barolo', at(-5)],
+      ['serve-0', at(0)],
+      ['serve-1', at(25)],
+      ['cook-4', at(30)],
+      ['cook-3', at(45)],
+      ['serve-2', at(55)],
+      ['fetch-moscato-d-asti', at(60)],
+      ['open-moscato-d-asti', at(70)],
+      ['serve-3', at(90)],
+    ]);
+  });
+
+  it('serves sides with the course before them', () => {
+    expect(steps.find(s => s.id === 'serve-2')).toMatchObject({
+      kind: 'serve',
+      title: 'Serve: Brasato al Barolo, Patate al forno',
+      courseIndexes: [2, 3],
+      alarmMinutesBefore: 5,
+    });
+  });
+
+  it('writes the steps in the given language', () => {
+    const byId = Object.fromEntries(steps.map(s => [s.id, s]));
+
+    expect(byId['cook-1']).toMatchObject({
+      title: 'Start preparing: Tajarin al burro',
+      description: 'Tajarin al burro, description (about 40 minutes)',
+      alarmMinutesBefore: 10,
+    });
+    expect(byId['serve-0'].description).toBe('Wine: Roero Arneis at 8-10°C, calice da bianco');
+    expect(byId['chill-arneis']).toMatchObject({
+      title: 'Chill: Roero Arneis',
+      description: 'Put 1 bottle (Cantina - Scaffale A) in the fridge. Serve at 8-10°C.',
+      wineId: 'arneis',
+      wineName: 'Roero Arneis',
+    });
+    expect(byId['fetch-barolo'].description).toBe('Let 2 bottles come to room temperature. Serve at 16-18°C.');
+    expect(byId['decant-barolo'].description)
+      .toBe('Pour into the decanter to let it breathe (60 minutes before serving).');
+    expect(byId['open-moscato-d-asti']).toMatchObject({
+      title: 'Open: Moscato d\'Asti',
+      alarmMinutesBefore: 0,
+    });
+  });
+
+  it('keeps the Italian texts for Italian users', () => {
+    const [chill] = buildTimelineSteps(menu, DINNER, wines, 'it');
+    expect(chill.title).toBe('Metti in frigo: Roero Arneis');
+    expect(chill.description).toBe('Metti in frigorifero 1 bottiglia (Cantina - Scaffale A). Servire a 8-10°C.');
+  });
+});
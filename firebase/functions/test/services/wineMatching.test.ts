@@ -0,0 +1,168 @@
+import { describe, expect, it } from '@jest/globals';
+import { Timestamp } from 'firebase-admin/firestore';
+import {
+  findWineByDescription,
+  normalizeWineText,
+  producerSimilarity,
+  rankWineMatches,
+  scoreWineMatch,
+  searchScore,
+  textSimilarity
+} from '../../src/services/wineMatching';
+import type { Wine } from '../../src/types';
+
+function wine(id: string, fields: Partial<Wine> & Pick<Wine, 'name' | 'type'>): Wine {
+  return {
+    id,
+    createdBy: 'test',
+    createdAt: Timestamp.fromMillis(0),
+    updatedAt: Timestamp.fromMillis(0),
+    ...fields,
+  };
+}
+
+// Tricky Italian and French names, as stored in the cellar
+const CELLAR: Wine[] = [
+  wine('brunello', { name: 'Brunello di Montalcino', producer: 'Biondi-Santi', vintage: 2016, type: 'red', region: 'Toscana', appellation: 'Brunello di Montalcino' }),
+  wine('barolo', { name: 'Barolo Cannubi', producer: 'Marchesi di Barolo', vintage: 2018, type: 'red', region: 'Piemonte', appellation: 'Barolo' }),
+  wine('nero', { name: "Nero d'Avola", producer: 'Planeta', vintage: 2020, type: 'red', region: 'Sicilia' }),
+  wine('chianti', { name: 'Chianti Classico', producer: 'Castello di Ama', vintage: 2019, type: 'red', region: 'Toscana' }),
+  wine('sassicaia', { name: 'Sassicaia', producer: 'Tenuta San Guido', vintage: 2017, type: 'red', region: 'Toscana', appellation: 'Bolgheri Sassicaia' }),
+  wine('emilion', { name: 'Saint-Émilion Grand Cru', producer: 'Château Figeac', vintage: 2015, type: 'red', region: 'Bordeaux' }),
+  wine('tavel', { name: 'Tavel Rosé', producer: 'Domaine de la Mordorée', vintage: 2022, type: 'rosé', region: 'Rhône' }),
+  wine('nuits', { name: 'Nuits-Saint-Georges 1er Cru', producer: 'Domaine Henri Gouges', vintage: 2019, type: 'red', region: 'Borgogna' }),
+];
+
+function best(query: Parameters<typeof rankWineMatches>[0]) {
+  return rankWineMatches(query, CELLAR)[0];
+}
+
+describe('normalizeWineText', () => {
+  it('folds accents, apostrophes and punctuation', () => {
+    expect(normalizeWineText('Rosé')).toBe('rose');
+    expect(normalizeWineText("Nero d'Avola")).toBe('nero d avola');
+    expect(normalizeWineText('Nero d’Avola')).toBe('nero d avola');
+    expect(normalizeWineText('Saint-Émilion Grand Cru')).toBe('saint emilion grand cru');
+  });
+});
+
+describe('accents', () => {
+  it('matches names written without accents', () => {
+    expect(textSimilarity('Saint Emilion Grand Cru', 'Saint-Émilion Grand Cru')).toBe(1);
+    expect(best({ name: 'Tavel Rose', producer: 'Domaine de la Mordoree' })?.wine.id).toBe('tavel');
+  });
+
+  it('matches French producers without "Château" / "Domaine"', () => {
+    expect(producerSimilarity('Figeac', 'Château Figeac')).toBe(1);
+    expect(producerSimilarity('Henri Gouges', 'Domaine Henri Gouges')).toBe(1);
+  });
+});
+
+describe('producer and denomination order', () => {
+  it('ignores estate prefixes of Italian producers', () => {
+    expect(producerSimilarity('Ama', 'Castello di Ama')).toBe(1);
+    expect(producerSimilarity('San Guido', 'Tenuta San Guido')).toBe(1);
+  });
+
+  it('ignores classification tokens and word order', () => {
+    expect(textSimilarity('Chianti Classico DOCG', 'Chianti Classico')).toBe(1);
+    expect(textSimilarity('Montalcino Brunello', 'Brunello di Montalcino')).toBeGreaterThan(0.9);
+  });
+
+  it('finds the wine from "producer, denomination" descriptions', () => {
+    const match = findWineByDescription('Biondi-Santi Brunello di Montalcino DOCG 2016', CELLAR);
+    expect(match?.wine.id).toBe('brunello');
+  });
+
+  it('tolerates OCR typos', () => {
+    expect(best({ name: 'Brunelo di Montalcno', producer: 'Biondi Santi' })?.wine.id).toBe('brunello');
+  });
+});
+
+describe('vintage', () => {
+  it('scores the same vintage above an adjacent one, and a distant one lowest', () => {
+    const same = scoreWineMatch({ name: 'Sassicaia', producer: 'Tenuta San Guido', vintage: 2017 }, CELLAR[4])!;
+    const adjacent = scoreWineMatch({ name: 'Sassicaia', producer: 'Tenuta San Guido', vintage: 2018 }, CELLAR[4])!;
+    const distant = scoreWineMatch({ name: 'Sassicaia', producer: 'Tenuta San Guido', vintage: 2010 }, CELLAR[4])!;
+
+    expect(same.breakdown.vintage).toBe(1);
+    expect(adjacent.breakdown.vintage).toBe(0.4);
+    expect(distant.breakdown.vintage).toBe(0);
+    expect(same.score).toBeGreaterThan(adjacent.score);
+    expect(adjacent.score).toBeGreaterThan(distant.score);
+  });
+
+  it('uses the year in a free-text description', () => {
+    const match = findWineByDescription('Barolo Cannubi (Marchesi di Barolo) 2018', CELLAR);
+    expect(match?.wine.id).toBe('barolo');
+    expect(match?.breakdown.vintage).toBe(1);
+  });
+});
+
+describe('abbreviations', () => {
+  it('expands St. and 1er', () => {
+    expect(textSimilarity('St Emilion Grand Cru', 'Saint-Émilion Grand Cru')).toBe(1);
+    expect(textSimilarity('Nuits-St-Georges Premier Cru', 'Nuits-Saint-Georges 1er Cru')).toBe(1);
+  });
+
+  it('matches "Nero d Avola" spellings', () => {
+    expect(best({ name: 'Nero d Avola', producer: 'Planeta' })?.wine.id).toBe('nero');
+  });
+});
+
+describe('score explanations', () => {
+  it('explains an exact match', () => {
+    const match = scoreWineMatch(
+      { name: 'Barolo Cannubi', producer: 'Marchesi di Barolo', vintage: 2018, region: 'Piemonte', appellation: 'Barolo' },
+      CELLAR[1]
+    )!;
+
+    expect(match.reasons).toEqual(expect.arrayContaining([
+      'nome identico',
+      'stesso produttore',
+      'stessa annata (2018)',
+      'stessa denominazione',
+      'stessa regione',
+    ]));
+    expect(match.score).toBeGreaterThanOrEqual(95);
+  });
+
+  it('explains what differs', () => {
+    const match = scoreWineMatch({ name: 'Tavel Rose', vintage: 2021, type: 'red' }, CELLAR[6])!;
+
+    expect(match.reasons).toContain('annata diversa (2021 vs 2022)');
+    expect(match.reasons).toContain('tipo diverso (red vs rosé)');
+  });
+
+  it('reports partial name similarity as a percentage', () => {
+    const match = scoreWineMatch({ name: 'Barolo' }, CELLAR[1])!;
+    expect(match.reasons[0]).toMatch(/^nome simile \(\d+%\)$/);
+  });
+
+  it('caps name-only matches below 90', () => {
+    const match = scoreWineMatch({ name: 'Sassicaia' }, CELLAR[4])!;
+    expect(match.breakdown).toEqual({ name: 1 });
+    expect(match.score).toBeLessThan(90);
+  });
+
+  it('explains description matches', () => {
+    const match = findWineByDescription('Chianti Classico Castello di Ama', CELLAR)!;
+    expect(match.wine.id).toBe('chianti');
+    expect(match.reasons).toEqual(['descrizione copre il 100% del nome']);
+  });
+});
+
+describe('non-matches', () => {
+  it('rejects unrelated names whatever else agrees', () => {
+    expect(scoreWineMatch({ name: 'Amarone', producer: 'Tenuta San Guido', vintage: 2017 }, CELLAR[4])).toBeNull();
+    expect(rankWineMatches({ name: 'Prosecco Superiore' }, CELLAR)).toEqual([]);
+  });
+});
+
+describe('searchScore', () => {
+  it('searches name, producer, appellation and region', () => {
+    expect(searchScore('bolgheri', CELLAR[4])).toBe(1);
+    expect(searchScore('planeta sicilia', CELLAR[2])).toBe(1);
+    expect(searchScore('borgogna', CELLAR[4])).toBe(0);
+  });
+});